@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthType } from '@google/gemini-cli-core';
+import { validateAuthMethod } from './auth.js';
+
+vi.mock('./config.js', () => ({
+  loadEnvironment: vi.fn(),
+}));
+
+describe('validateAuthMethod', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.OPENAI_BASE_URL;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should accept an OpenAI-compatible server without a base URL', () => {
+    expect(validateAuthMethod(AuthType.USE_OPENAI_COMPATIBLE)).toBeNull();
+  });
+
+  it('should reject a malformed OPENAI_BASE_URL', () => {
+    process.env.OPENAI_BASE_URL = 'localhost:8080';
+
+    expect(validateAuthMethod(AuthType.USE_OPENAI_COMPATIBLE)).toContain(
+      'OPENAI_BASE_URL must be an http(s) URL',
+    );
+  });
+
+  it('should reject a malformed openaiBaseUrl setting', () => {
+    process.env.OPENAI_BASE_URL = 'http://localhost:8080/v1';
+
+    expect(
+      validateAuthMethod(AuthType.USE_OPENAI_COMPATIBLE, 'localhost:8080'),
+    ).toContain('The openaiBaseUrl setting must be an http(s) URL');
+  });
+
+  it('should validate the setting rather than the environment it overrides', () => {
+    process.env.OPENAI_BASE_URL = 'localhost:8080';
+
+    expect(
+      validateAuthMethod(
+        AuthType.USE_OPENAI_COMPATIBLE,
+        'http://localhost:8080/v1',
+      ),
+    ).toBeNull();
+  });
+});
@@ -7,7 +7,14 @@
 import { AuthType } from '@google/gemini-cli-core';
 import { loadEnvironment } from './config.js';
 
-export const validateAuthMethod = (authMethod: string): string | null => {
+/**
+ * Checks that the selected auth method can be used. `openaiBaseUrl` is the
+ * `openaiBaseUrl` setting, which takes precedence over `OPENAI_BASE_URL`.
+ */
+export const validateAuthMethod = (
+  authMethod: string,
+  openaiBaseUrl?: string,
+): string | null => {
   loadEnvironment();
   if (authMethod === AuthType.LOGIN_WITH_GOOGLE_PERSONAL) {
     return null;
@@ -41,5 +48,21 @@ export const validateAuthMethod = (authMethod: string): string | null => {
     return null;
   }
 
+  if (authMethod === AuthType.USE_OPENAI_COMPATIBLE) {
+    // API keys are optional for local servers; only reject a malformed URL here
+    // and leave the reachability check to the content generator
+    const isHttpUrl = (url: string) => /^https?:\/\/[^\s/]+/.test(url);
+    if (openaiBaseUrl) {
+      return isHttpUrl(openaiBaseUrl)
+        ? null
+        : `The openaiBaseUrl setting must be an http(s) URL such as http://localhost:8080/v1, got "${openaiBaseUrl}". Update your settings.json and try again.`;
+    }
+    const baseUrl = process.env.OPENAI_BASE_URL;
+    if (baseUrl && !isHttpUrl(baseUrl)) {
+      return `OPENAI_BASE_URL must be an http(s) URL such as http://localhost:8080/v1, got "${baseUrl}". Update your .env and try again, no reload needed!`;
+    }
+    return null;
+  }
+
   return 'Invalid auth method selected.';
 };
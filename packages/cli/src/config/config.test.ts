@@ -89,6 +89,18 @@ describe('loadCliConfig', () => {
     const config = await loadCliConfig(settings, [], 'test-session');
     expect(config.getShowMemoryUsage()).toBe(true);
   });
+
+  it('should read the session to resume from --resume and --continue', async () => {
+    const resumeSession = async (...args: string[]) => {
+      process.argv = ['node', 'script.js', ...args];
+      const config = await loadCliConfig({}, [], 'test-session');
+      return config.getResumeSession();
+    };
+    expect(await resumeSession()).toBeUndefined();
+    expect(await resumeSession('--resume', 'abc123')).toBe('abc123');
+    expect(await resumeSession('--resume')).toBe('');
+    expect(await resumeSession('--continue')).toBe('latest');
+  });
 });
 
 describe('loadCliConfig telemetry', () => {
@@ -13,6 +13,9 @@ import {
   setGeminiMdFilename as setServerGeminiMdFilename,
   getCurrentGeminiMdFilename,
   ApprovalMode,
+  OutputFormat,
+  loadApprovalPolicy,
+  LATEST_SESSION,
   GEMINI_CONFIG_DIR as GEMINI_DIR,
   DEFAULT_GEMINI_MODEL,
   DEFAULT_GEMINI_EMBEDDING_MODEL,
@@ -54,6 +57,10 @@ interface CliArgs {
   telemetryTarget: string | undefined;
   telemetryOtlpEndpoint: string | undefined;
   telemetryLogPrompts: boolean | undefined;
+  outputFormat: string | undefined;
+  approvalPolicy: string | undefined;
+  resume: string | undefined;
+  continue: boolean | undefined;
 }
 
 async function parseArguments(): Promise<CliArgs> {
@@ -129,6 +136,28 @@ async function parseArguments(): Promise<CliArgs> {
       description: 'Enables checkpointing of file edits',
       default: false,
     })
+    .option('output-format', {
+      type: 'string',
+      choices: Object.values(OutputFormat),
+      description:
+        'Output format for non-interactive runs: plain text, a JSON summary, or newline-delimited JSON events.',
+      default: OutputFormat.TEXT,
+    })
+    .option('approval-policy', {
+      type: 'string',
+      description:
+        'Path to a JSON policy file deciding which tool calls non-interactive runs may execute.',
+    })
+    .option('resume', {
+      alias: 'r',
+      type: 'string',
+      description:
+        'Resume a saved session by id (or id prefix). Without an id, choose one in the session browser.',
+    })
+    .option('continue', {
+      type: 'boolean',
+      description: 'Resume the most recent session in this project.',
+    })
     .version(await getCliVersion()) // This will enable the --version flag based on package.json
     .alias('v', 'version')
     .help()
@@ -198,6 +227,11 @@ export async function loadCliConfig(
 
   const sandboxConfig = await loadSandboxConfig(settings, argv);
 
+  const approvalPolicyFile = argv.approvalPolicy ?? settings.approvalPolicyFile;
+  const approvalPolicy = approvalPolicyFile
+    ? loadApprovalPolicy(path.resolve(approvalPolicyFile))
+    : undefined;
+
   // Override NO_PROXY environment variable if settings.noProxy is specified
   if (settings.noProxy) {
     process.env.NO_PROXY = settings.noProxy;
@@ -214,6 +248,7 @@ export async function loadCliConfig(
     fullContext: argv.all_files || false,
     coreTools: settings.coreTools || undefined,
     excludeTools: settings.excludeTools || undefined,
+    allowedTools: settings.allowedTools,
     toolDiscoveryCommand: settings.toolDiscoveryCommand,
     toolCallCommand: settings.toolCallCommand,
     mcpServerCommand: settings.mcpServerCommand,
@@ -221,6 +256,11 @@ export async function loadCliConfig(
     userMemory: memoryContent,
     geminiMdFileCount: fileCount,
     approvalMode: argv.yolo || false ? ApprovalMode.YOLO : ApprovalMode.DEFAULT,
+    outputFormat: argv.outputFormat as OutputFormat | undefined,
+    approvalPolicy,
+    maxConcurrentToolCalls: settings.maxConcurrentToolCalls,
+    compressionPreserveTurns: settings.compressionPreserveTurns,
+    shellPty: settings.shellPty,
     showMemoryUsage:
       argv.show_memory_usage || settings.showMemoryUsage || false,
     accessibility: settings.accessibility,
@@ -242,6 +282,7 @@ export async function loadCliConfig(
         settings.fileFiltering?.enableRecursiveFileSearch,
     },
     checkpointing: argv.checkpointing || settings.checkpointing?.enabled,
+    resumeSession: argv.resume ?? (argv.continue ? LATEST_SESSION : undefined),
     proxy: getProxyForUrl(settings.ollamaHost),
     cwd: process.cwd(),
     fileDiscoveryService: fileService,
@@ -250,6 +291,11 @@ export async function loadCliConfig(
     extensionContextFilePaths,
     ollamaModel: settings.ollamaModel,
     ollamaHost: settings.ollamaHost,
+    ollamaHosts: settings.ollamaHosts,
+    ollamaModelOptions: settings.ollamaModelOptions,
+    openaiBaseUrl: settings.openaiBaseUrl,
+    openaiModel: settings.openaiModel,
+    openaiEmbeddingModel: settings.openaiEmbeddingModel,
   });
 }
 
@@ -630,5 +630,34 @@ describe('Settings Loading and Merging', () => {
       expect(loadedSettings.workspace.settings.theme).toBe('ocean');
       expect(loadedSettings.merged.theme).toBe('ocean');
     });
+
+    it('should keep user allowedTools when a workspace approval is saved', () => {
+      (mockFsExistsSync as Mock).mockImplementation(
+        (p: fs.PathLike) => p === USER_SETTINGS_PATH,
+      );
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === USER_SETTINGS_PATH)
+            return JSON.stringify({
+              allowedTools: ['run_shell_command(git status)'],
+            });
+          return '';
+        },
+      );
+      const loadedSettings = loadSettings(MOCK_WORKSPACE_DIR);
+      vi.mocked(fs.writeFileSync).mockImplementation(() => {});
+
+      loadedSettings.setValue(SettingScope.Workspace, 'allowedTools', [
+        'run_shell_command(npm test)',
+      ]);
+
+      expect(loadedSettings.workspace.settings.allowedTools).toEqual([
+        'run_shell_command(npm test)',
+      ]);
+      expect(loadedSettings.merged.allowedTools).toEqual([
+        'run_shell_command(git status)',
+        'run_shell_command(npm test)',
+      ]);
+    });
   });
 });
@@ -13,6 +13,7 @@ import {
   BugCommandSettings,
   TelemetrySettings,
   AuthType,
+  OllamaModelOptionsMap,
 } from '@google/gemini-cli-core';
 import stripJsonComments from 'strip-json-comments';
 import { DefaultLight } from '../ui/themes/default-light.js';
@@ -40,12 +41,27 @@ export interface Settings {
   selectedAuthType?: AuthType;
   ollamaModel?: string;
   ollamaHost?: string;
+  // Several Ollama hosts to balance requests across, with failover.
+  ollamaHosts?: string[];
+  // Per-model Ollama generation options, keyed by model name or glob pattern.
+  ollamaModelOptions?: OllamaModelOptionsMap;
+  // Base URL of an OpenAI-compatible server, e.g. http://localhost:8080/v1
+  openaiBaseUrl?: string;
+  openaiModel?: string;
+  openaiEmbeddingModel?: string;
   // Comma-separated list of hosts that should not use proxy
   // Example: "localhost,127.0.0.1,192.168.1.100,.local"
   noProxy?: string;
   sandbox?: boolean | string;
   coreTools?: string[];
   excludeTools?: string[];
+  allowedTools?: string[];
+  // Policy file applied to tool calls in non-interactive runs.
+  approvalPolicyFile?: string;
+  maxConcurrentToolCalls?: number;
+  // Latest turns that chat compression keeps verbatim.
+  compressionPreserveTurns?: number;
+  shellPty?: boolean;
   toolDiscoveryCommand?: string;
   toolCallCommand?: string;
   mcpServerCommand?: string;
@@ -105,10 +121,18 @@ export class LoadedSettings {
   }
 
   private computeMergedSettings(): Settings {
-    return {
+    const merged: Settings = {
       ...this.user.settings,
       ...this.workspace.settings,
     };
+    // Tools approved in a project add to the user's approvals rather than
+    // replacing them.
+    const userAllowed = this.user.settings.allowedTools;
+    const workspaceAllowed = this.workspace.settings.allowedTools;
+    if (userAllowed && workspaceAllowed) {
+      merged.allowedTools = [...new Set([...userAllowed, ...workspaceAllowed])];
+    }
+    return merged;
   }
 
   forScope(scope: SettingScope): SettingsFile {
@@ -125,10 +149,10 @@ export class LoadedSettings {
   setValue(
     scope: SettingScope,
     key: keyof Settings,
-    value: string | Record<string, MCPServerConfig> | undefined,
+    value: string | string[] | Record<string, MCPServerConfig> | undefined,
   ): void {
     const settingsFile = this.forScope(scope);
-    // @ts-expect-error - value can be string | Record<string, MCPServerConfig>
+    // @ts-expect-error - value can be string | string[] | Record<string, MCPServerConfig>
     settingsFile.settings[key] = value;
     this._merged = this.computeMergedSettings();
     saveSettings(settingsFile);
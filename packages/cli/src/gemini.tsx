@@ -28,6 +28,8 @@ import {
   ApprovalMode,
   Config,
   EditTool,
+  MultiEditTool,
+  ApplyPatchTool,
   ShellTool,
   WriteFileTool,
   sessionId,
@@ -142,7 +144,10 @@ export async function main() {
       if (settings.merged.selectedAuthType) {
         // Validate authentication here because the sandbox will interfere with the Oauth2 web redirect.
         try {
-          const err = validateAuthMethod(settings.merged.selectedAuthType);
+          const err = validateAuthMethod(
+            settings.merged.selectedAuthType,
+            settings.merged.openaiBaseUrl,
+          );
           if (err) {
             throw new Error(err);
           }
@@ -240,12 +245,19 @@ async function loadNonInteractiveConfig(
   settings: LoadedSettings,
 ) {
   let finalConfig = config;
-  if (config.getApprovalMode() !== ApprovalMode.YOLO) {
+  // With an approval policy every tool stays registered and the policy
+  // decides each call.
+  if (
+    config.getApprovalMode() !== ApprovalMode.YOLO &&
+    !config.getApprovalPolicy()
+  ) {
     // Everything is not allowed, ensure that only read-only tools are configured.
     const existingExcludeTools = settings.merged.excludeTools || [];
     const interactiveTools = [
       ShellTool.Name,
       EditTool.Name,
+      MultiEditTool.Name,
+      ApplyPatchTool.Name,
       WriteFileTool.Name,
     ];
 
@@ -285,7 +297,10 @@ async function validateNonInterActiveAuth(
   }
 
   selectedAuthType = selectedAuthType || AuthType.USE_GEMINI;
-  const err = validateAuthMethod(selectedAuthType);
+  const err = validateAuthMethod(
+    selectedAuthType,
+    nonInteractiveConfig.getOpenAIBaseUrl(),
+  );
   if (err != null) {
     console.error(err);
     process.exit(1);
@@ -6,8 +6,18 @@
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { runNonInteractive } from './nonInteractiveCli.js';
-import { Config, GeminiClient, ToolRegistry } from '@google/gemini-cli-core';
+import {
+  NonInteractiveExitCode,
+  NonInteractiveSummary,
+  runNonInteractive,
+} from './nonInteractiveCli.js';
+import {
+  Config,
+  GeminiClient,
+  OutputFormat,
+  ToolCallDeniedError,
+  ToolRegistry,
+} from '@google/gemini-cli-core';
 import { GenerateContentResponse, Part, FunctionCall } from '@google/genai';
 
 // Mock dependencies
@@ -53,6 +63,8 @@ describe('runNonInteractive', () => {
       getToolRegistry: vi.fn().mockReturnValue(mockToolRegistry),
       getGeminiClient: vi.fn().mockReturnValue(mockGeminiClient),
       getContentGeneratorConfig: vi.fn().mockReturnValue({}),
+      getOutputFormat: vi.fn().mockReturnValue(OutputFormat.TEXT),
+      getMaxConcurrentToolCalls: vi.fn().mockReturnValue(4),
     } as unknown as Config;
 
     mockProcessStdoutWrite = vi.fn().mockImplementation(() => true);
@@ -195,14 +207,10 @@ describe('runNonInteractive', () => {
     expect(consoleErrorSpy).toHaveBeenCalledWith(
       'Error executing tool errorTool: Tool execution failed badly',
     );
-    expect(mockChat.sendMessageStream).toHaveBeenLastCalledWith(
-      expect.objectContaining({
-        message: [errorResponsePart],
-      }),
-    );
-    expect(mockProcessStdoutWrite).toHaveBeenCalledWith(
-      'Could not complete request.',
+    expect(mockProcessExit).toHaveBeenCalledWith(
+      NonInteractiveExitCode.TOOL_ERROR,
     );
+    expect(mockChat.sendMessageStream).toHaveBeenCalledTimes(1);
   });
 
   it('should exit with error if sendMessageStream throws initially', async () => {
@@ -217,6 +225,9 @@ describe('runNonInteractive', () => {
     expect(consoleErrorSpy).toHaveBeenCalledWith(
       '[API Error: API connection failed]',
     );
+    expect(mockProcessExit).toHaveBeenCalledWith(
+      NonInteractiveExitCode.MODEL_ERROR,
+    );
   });
 
   it('should not exit if a tool is not found, and should send error back to model', async () => {
@@ -283,4 +294,280 @@ describe('runNonInteractive', () => {
       'Unfortunately the tool does not exist.',
     );
   });
+
+  it('should send calls denied by the approval policy back to the model', async () => {
+    const denial =
+      'Tool call "run_shell_command" was denied by the approval policy: no rule allows this call.';
+    const deniedResponsePart: Part = {
+      functionResponse: {
+        name: 'run_shell_command',
+        id: 'fcDenied',
+        response: { error: denial },
+      },
+    };
+    const { executeToolCall: mockCoreExecuteToolCall } = await import(
+      '@google/gemini-cli-core'
+    );
+    vi.mocked(mockCoreExecuteToolCall).mockResolvedValue({
+      callId: 'fcDenied',
+      responseParts: [deniedResponsePart],
+      resultDisplay: denial,
+      error: new ToolCallDeniedError(denial),
+    });
+    mockChat.sendMessageStream
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            functionCalls: [
+              {
+                id: 'fcDenied',
+                name: 'run_shell_command',
+                args: { command: 'rm -rf build' },
+              },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      )
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            candidates: [
+              { content: { parts: [{ text: 'I was not allowed to.' }] } },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      );
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await runNonInteractive(mockConfig, 'Clean the build');
+
+    expect(mockProcessExit).not.toHaveBeenCalled();
+    expect(mockChat.sendMessageStream).toHaveBeenLastCalledWith(
+      expect.objectContaining({ message: [deniedResponsePart] }),
+    );
+    expect(mockProcessStdoutWrite).toHaveBeenCalledWith(
+      'I was not allowed to.',
+    );
+  });
+
+  it('should run consecutive read-only tool calls concurrently', async () => {
+    const { executeToolCall } = await import('@google/gemini-cli-core');
+    vi.mocked(mockToolRegistry.getTool).mockImplementation(
+      (name) => ({ isReadOnly: name === 'read_file' }) as any,
+    );
+    const log: string[] = [];
+    vi.mocked(executeToolCall).mockImplementation(async (_config, request) => {
+      log.push(`start ${request.callId}`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      log.push(`end ${request.callId}`);
+      return {
+        callId: request.callId,
+        responseParts: [{ text: request.callId }],
+        resultDisplay: request.callId,
+        error: undefined,
+      };
+    });
+    mockChat.sendMessageStream
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            functionCalls: [
+              { id: 'r1', name: 'read_file', args: {} },
+              { id: 'r2', name: 'read_file', args: {} },
+              { id: 'w1', name: 'write_file', args: {} },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      )
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            candidates: [{ content: { parts: [{ text: 'Done.' }] } }],
+          } as GenerateContentResponse;
+        })(),
+      );
+
+    await runNonInteractive(mockConfig, 'Read and write');
+
+    expect(log).toEqual([
+      'start r1',
+      'start r2',
+      'end r1',
+      'end r2',
+      'start w1',
+      'end w1',
+    ]);
+    expect(mockChat.sendMessageStream).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        message: [{ text: 'r1' }, { text: 'r2' }, { text: 'w1' }],
+      }),
+    );
+  });
+
+  it('should give calls without an id distinct call ids', async () => {
+    const { executeToolCall } = await import('@google/gemini-cli-core');
+    vi.mocked(executeToolCall).mockImplementation(async (_config, request) => ({
+      callId: request.callId,
+      responseParts: [{ text: 'ok' }],
+      resultDisplay: 'ok',
+      error: undefined,
+    }));
+    mockChat.sendMessageStream
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            functionCalls: [
+              { name: 'read_file', args: { path: 'a.ts' } },
+              { name: 'read_file', args: { path: 'b.ts' } },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      )
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            candidates: [{ content: { parts: [{ text: 'Done.' }] } }],
+          } as GenerateContentResponse;
+        })(),
+      );
+
+    await runNonInteractive(mockConfig, 'Read both');
+
+    const callIds = vi
+      .mocked(executeToolCall)
+      .mock.calls.map(([, request]) => request.callId);
+    expect(callIds).toHaveLength(2);
+    expect(new Set(callIds).size).toBe(2);
+  });
+
+  describe('structured output', () => {
+    const toolCall: FunctionCall = {
+      id: 'fc1',
+      name: 'read_file',
+      args: { path: 'a.ts' },
+    };
+
+    beforeEach(async () => {
+      const { executeToolCall } = await import('@google/gemini-cli-core');
+      vi.mocked(executeToolCall).mockResolvedValue({
+        callId: 'fc1',
+        responseParts: [{ text: 'export {}' }],
+        resultDisplay: 'Read a.ts',
+        error: undefined,
+      });
+      mockChat.sendMessageStream
+        .mockResolvedValueOnce(
+          (async function* () {
+            yield {
+              functionCalls: [toolCall],
+              usageMetadata: {
+                promptTokenCount: 10,
+                candidatesTokenCount: 2,
+                totalTokenCount: 12,
+              },
+            } as GenerateContentResponse;
+          })(),
+        )
+        .mockResolvedValueOnce(
+          (async function* () {
+            yield {
+              candidates: [{ content: { parts: [{ text: 'It is empty.' }] } }],
+              usageMetadata: {
+                promptTokenCount: 20,
+                candidatesTokenCount: 4,
+                totalTokenCount: 24,
+              },
+            } as GenerateContentResponse;
+          })(),
+        );
+    });
+
+    function writtenOutput(): string {
+      return mockProcessStdoutWrite.mock.calls.map(([text]) => text).join('');
+    }
+
+    it('should print a single summary object in json mode', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.JSON);
+
+      await runNonInteractive(mockConfig, 'What is in a.ts?');
+
+      const summary: NonInteractiveSummary = JSON.parse(writtenOutput());
+      expect(summary).toEqual({
+        status: 'success',
+        response: 'It is empty.',
+        turns: 2,
+        tool_calls: [
+          {
+            call_id: 'fc1',
+            name: 'read_file',
+            args: { path: 'a.ts' },
+            status: 'success',
+          },
+        ],
+        usage: { prompt_tokens: 30, candidates_tokens: 6, total_tokens: 36 },
+        duration_ms: expect.any(Number),
+      });
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+
+    it('should emit newline-delimited events in stream-json mode', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(
+        OutputFormat.STREAM_JSON,
+      );
+
+      await runNonInteractive(mockConfig, 'What is in a.ts?');
+
+      const events = writtenOutput()
+        .trimEnd()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      expect(events.map((event) => event.type)).toEqual([
+        'usage',
+        'tool_call',
+        'tool_result',
+        'content',
+        'usage',
+        'result',
+      ]);
+      expect(events[1]).toEqual({
+        type: 'tool_call',
+        call_id: 'fc1',
+        name: 'read_file',
+        args: { path: 'a.ts' },
+      });
+      expect(events[2]).toEqual({
+        type: 'tool_result',
+        call_id: 'fc1',
+        name: 'read_file',
+        status: 'success',
+        result: 'Read a.ts',
+      });
+      expect(events[4]).toEqual({
+        type: 'usage',
+        turn: 2,
+        prompt_tokens: 20,
+        candidates_tokens: 4,
+        total_tokens: 24,
+      });
+      expect(events[5]).toMatchObject({ status: 'success', turns: 2 });
+    });
+
+    it('should exit with a distinct code when the turn limit is reached', async () => {
+      vi.mocked(mockConfig.getOutputFormat).mockReturnValue(OutputFormat.JSON);
+      mockChat.sendMessageStream.mockReset().mockImplementation(async () =>
+        (async function* () {
+          yield { functionCalls: [toolCall] } as GenerateContentResponse;
+        })(),
+      );
+
+      await runNonInteractive(mockConfig, 'Loop forever');
+
+      const summary: NonInteractiveSummary = JSON.parse(writtenOutput());
+      expect(summary.status).toBe('turn_limit');
+      expect(summary.turns).toBe(100);
+      expect(mockProcessExit).toHaveBeenCalledWith(
+        NonInteractiveExitCode.TURN_LIMIT,
+      );
+    });
+  });
 });
@@ -6,21 +6,95 @@
 
 import {
   Config,
+  OutputFormat,
   ToolCallRequestInfo,
   executeToolCall,
   ToolRegistry,
   shutdownTelemetry,
   isTelemetrySdkInitialized,
+  ToolCallDeniedError,
+  batchToolCalls,
+  mapWithConcurrency,
 } from '@google/gemini-cli-core';
 import {
   Content,
   Part,
   FunctionCall,
   GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
 } from '@google/genai';
 
 import { parseAndFormatApiError } from './ui/utils/errorParsing.js';
 
+// Same cap as the interactive client, so a looping model cannot run forever.
+const MAX_TURNS = 100;
+
+/** Exit codes of a non-interactive run, so scripts can tell failures apart. */
+export enum NonInteractiveExitCode {
+  SUCCESS = 0,
+  MODEL_ERROR = 1,
+  TOOL_ERROR = 2,
+  TURN_LIMIT = 3,
+}
+
+export type NonInteractiveStatus =
+  | 'success'
+  | 'model_error'
+  | 'tool_error'
+  | 'turn_limit';
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  candidates_tokens: number;
+  total_tokens: number;
+}
+
+export interface ToolCallSummary {
+  call_id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'success' | 'error';
+  error?: string;
+}
+
+/** The single object printed at the end of a `json` run. */
+export interface NonInteractiveSummary {
+  status: NonInteractiveStatus;
+  response: string;
+  turns: number;
+  tool_calls: ToolCallSummary[];
+  usage: TokenUsage;
+  duration_ms: number;
+  error?: string;
+}
+
+/** One line of `stream-json` output. */
+export type NonInteractiveEvent =
+  | { type: 'content'; text: string }
+  | {
+      type: 'tool_call';
+      call_id: string;
+      name: string;
+      args: Record<string, unknown>;
+    }
+  | {
+      type: 'tool_result';
+      call_id: string;
+      name: string;
+      status: 'success' | 'error';
+      result?: unknown;
+      error?: string;
+    }
+  | ({ type: 'usage'; turn: number } & TokenUsage)
+  | ({ type: 'result' } & NonInteractiveSummary);
+
+const EXIT_CODES: Record<NonInteractiveStatus, NonInteractiveExitCode> = {
+  success: NonInteractiveExitCode.SUCCESS,
+  model_error: NonInteractiveExitCode.MODEL_ERROR,
+  tool_error: NonInteractiveExitCode.TOOL_ERROR,
+  turn_limit: NonInteractiveExitCode.TURN_LIMIT,
+};
+
 function getResponseText(response: GenerateContentResponse): string | null {
   if (response.candidates && response.candidates.length > 0) {
     const candidate = response.candidates[0];
@@ -43,6 +117,16 @@ function getResponseText(response: GenerateContentResponse): string | null {
   return null;
 }
 
+function toTokenUsage(
+  usage: GenerateContentResponseUsageMetadata | undefined,
+): TokenUsage {
+  return {
+    prompt_tokens: usage?.promptTokenCount ?? 0,
+    candidates_tokens: usage?.candidatesTokenCount ?? 0,
+    total_tokens: usage?.totalTokenCount ?? 0,
+  };
+}
+
 export async function runNonInteractive(
   config: Config,
   input: string,
@@ -55,6 +139,45 @@ export async function runNonInteractive(
     }
   });
 
+  const outputFormat = config.getOutputFormat();
+  const startTime = Date.now();
+  const summary: NonInteractiveSummary = {
+    status: 'success',
+    response: '',
+    turns: 0,
+    tool_calls: [],
+    usage: toTokenUsage(undefined),
+    duration_ms: 0,
+  };
+
+  const emit = (event: NonInteractiveEvent) => {
+    if (outputFormat === OutputFormat.STREAM_JSON) {
+      process.stdout.write(JSON.stringify(event) + '\n');
+    }
+  };
+
+  const finish = (status: NonInteractiveStatus, error?: string) => {
+    summary.status = status;
+    summary.duration_ms = Date.now() - startTime;
+    if (error) {
+      summary.error = error;
+    }
+    if (outputFormat === OutputFormat.TEXT) {
+      if (error) {
+        console.error(error);
+      } else {
+        process.stdout.write('\n'); // Ensure a final newline
+      }
+    } else if (outputFormat === OutputFormat.JSON) {
+      process.stdout.write(JSON.stringify(summary, null, 2) + '\n');
+    } else {
+      emit({ type: 'result', ...summary });
+    }
+    if (status !== 'success') {
+      process.exit(EXIT_CODES[status]);
+    }
+  };
+
   const geminiClient = config.getGeminiClient();
   const toolRegistry: ToolRegistry = await config.getToolRegistry();
 
@@ -64,7 +187,16 @@ export async function runNonInteractive(
 
   try {
     while (true) {
+      if (summary.turns >= MAX_TURNS) {
+        finish(
+          'turn_limit',
+          `Reached the limit of ${MAX_TURNS} turns without a final answer.`,
+        );
+        return;
+      }
+      summary.turns++;
       const functionCalls: FunctionCall[] = [];
+      let usage: GenerateContentResponseUsageMetadata | undefined;
 
       const responseStream = await chat.sendMessageStream({
         message: currentMessages[0]?.parts || [], // Ensure parts are always provided
@@ -83,71 +215,141 @@ export async function runNonInteractive(
         }
         const textPart = getResponseText(resp);
         if (textPart) {
-          process.stdout.write(textPart);
+          summary.response += textPart;
+          if (outputFormat === OutputFormat.TEXT) {
+            process.stdout.write(textPart);
+          }
+          emit({ type: 'content', text: textPart });
         }
         if (resp.functionCalls) {
           functionCalls.push(...resp.functionCalls);
         }
+        if (resp.usageMetadata) {
+          usage = resp.usageMetadata;
+        }
+      }
+
+      if (usage) {
+        const turnUsage = toTokenUsage(usage);
+        summary.usage.prompt_tokens += turnUsage.prompt_tokens;
+        summary.usage.candidates_tokens += turnUsage.candidates_tokens;
+        summary.usage.total_tokens += turnUsage.total_tokens;
+        emit({ type: 'usage', turn: summary.turns, ...turnUsage });
       }
 
       if (functionCalls.length > 0) {
         const toolResponseParts: Part[] = [];
-
-        for (const fc of functionCalls) {
-          const callId = fc.id ?? `${fc.name}-${Date.now()}`;
-          const requestInfo: ToolCallRequestInfo = {
-            callId,
+        const requests = functionCalls.map(
+          (fc, index): ToolCallRequestInfo => ({
+            // Calls without an id, as from Ollama, need one that tells
+            // calls to the same tool in this response apart.
+            callId: fc.id ?? `${fc.name}-${Date.now()}-${index}`,
             name: fc.name as string,
             args: (fc.args ?? {}) as Record<string, unknown>,
             isClientInitiated: false,
-          };
+          }),
+        );
+        // Consecutive read-only calls run concurrently; every other call
+        // runs on its own, in the order the model asked for it.
+        const batches = batchToolCalls(
+          requests,
+          (request) => toolRegistry.getTool(request.name)?.isReadOnly ?? false,
+        );
 
-          const toolResponse = await executeToolCall(
-            config,
-            requestInfo,
-            toolRegistry,
-            abortController.signal,
+        for (const batch of batches) {
+          const toolResponses = await mapWithConcurrency(
+            batch,
+            config.getMaxConcurrentToolCalls(),
+            (requestInfo) => {
+              emit({
+                type: 'tool_call',
+                call_id: requestInfo.callId,
+                name: requestInfo.name,
+                args: requestInfo.args,
+              });
+              return executeToolCall(
+                config,
+                requestInfo,
+                toolRegistry,
+                abortController.signal,
+              );
+            },
           );
 
-          if (toolResponse.error) {
-            const isToolNotFound = toolResponse.error.message.includes(
-              'not found in registry',
-            );
-            console.error(
-              `Error executing tool ${fc.name}: ${toolResponse.resultDisplay || toolResponse.error.message}`,
-            );
-            if (!isToolNotFound) {
-              process.exit(1);
+          for (const [index, toolResponse] of toolResponses.entries()) {
+            const requestInfo = batch[index];
+            const toolError = toolResponse.error
+              ? typeof toolResponse.resultDisplay === 'string' &&
+                toolResponse.resultDisplay
+                ? toolResponse.resultDisplay
+                : toolResponse.error.message
+              : undefined;
+            summary.tool_calls.push({
+              call_id: requestInfo.callId,
+              name: requestInfo.name,
+              args: requestInfo.args,
+              status: toolError ? 'error' : 'success',
+              ...(toolError && { error: toolError }),
+            });
+            emit({
+              type: 'tool_result',
+              call_id: requestInfo.callId,
+              name: requestInfo.name,
+              status: toolError ? 'error' : 'success',
+              ...(toolError
+                ? { error: toolError }
+                : { result: toolResponse.resultDisplay }),
+            });
+
+            if (toolResponse.error) {
+              const isRecoverable =
+                toolResponse.error instanceof ToolCallDeniedError ||
+                toolResponse.error.message.includes('not found in registry');
+              // Unknown tools and calls refused by the approval policy are
+              // reported back to the model so it can recover; any other
+              // failure ends the run.
+              if (!isRecoverable) {
+                finish(
+                  'tool_error',
+                  `Error executing tool ${requestInfo.name}: ${toolError}`,
+                );
+                return;
+              }
+              if (outputFormat === OutputFormat.TEXT) {
+                console.error(
+                  `Error executing tool ${requestInfo.name}: ${toolError}`,
+                );
+              }
             }
-          }
 
-          if (toolResponse.responseParts) {
-            const parts = Array.isArray(toolResponse.responseParts)
-              ? toolResponse.responseParts
-              : [toolResponse.responseParts];
-            for (const part of parts) {
-              if (typeof part === 'string') {
-                toolResponseParts.push({ text: part });
-              } else if (part) {
-                toolResponseParts.push(part);
+            if (toolResponse.responseParts) {
+              const parts = Array.isArray(toolResponse.responseParts)
+                ? toolResponse.responseParts
+                : [toolResponse.responseParts];
+              for (const part of parts) {
+                if (typeof part === 'string') {
+                  toolResponseParts.push({ text: part });
+                } else if (part) {
+                  toolResponseParts.push(part);
+                }
               }
             }
           }
         }
         currentMessages = [{ role: 'user', parts: toolResponseParts }];
       } else {
-        process.stdout.write('\n'); // Ensure a final newline
+        finish('success');
         return;
       }
     }
   } catch (error) {
-    console.error(
+    finish(
+      'model_error',
       parseAndFormatApiError(
         error,
         config.getContentGeneratorConfig().authType,
       ),
     );
-    process.exit(1);
   } finally {
     if (isTelemetrySdkInitialized()) {
       await shutdownTelemetry();
@@ -15,7 +15,12 @@ import {
   AccessibilitySettings,
   SandboxConfig,
 } from '@google/gemini-cli-core';
-import { LoadedSettings, SettingsFile, Settings } from '../config/settings.js';
+import {
+  LoadedSettings,
+  SettingsFile,
+  Settings,
+  SettingScope,
+} from '../config/settings.js';
 import process from 'node:process';
 import { Tips } from './components/Tips.js';
 
@@ -64,6 +69,8 @@ interface MockServerConfig {
   setApprovalMode: Mock<(skip: ApprovalMode) => void>;
   getVertexAI: Mock<() => boolean | undefined>;
   getShowMemoryUsage: Mock<() => boolean>;
+  getShellPty: Mock<() => boolean>;
+  setAllowedToolHandler: Mock<(handler: (entry: string) => void) => void>;
   getAccessibility: Mock<() => AccessibilitySettings>;
   getProjectRoot: Mock<() => string | undefined>;
   getAllGeminiMdFilenames: Mock<() => string[]>;
@@ -122,12 +129,16 @@ vi.mock('@google/gemini-cli-core', async (importOriginal) => {
         setApprovalMode: vi.fn(),
         getVertexAI: vi.fn(() => opts.vertexai),
         getShowMemoryUsage: vi.fn(() => opts.showMemoryUsage ?? false),
+        getShellPty: vi.fn(() => false),
+        setAllowedToolHandler: vi.fn(),
         getAccessibility: vi.fn(() => opts.accessibility ?? {}),
         getProjectRoot: vi.fn(() => opts.projectRoot),
-        getGeminiClient: vi.fn(() => ({})),
+        getGeminiClient: vi.fn(() => ({ isInitialized: vi.fn(() => false) })),
         getCheckpointingEnabled: vi.fn(() => opts.checkpointing ?? true),
         getAllGeminiMdFilenames: vi.fn(() => ['GEMINI.md']),
         setFlashFallbackHandler: vi.fn(),
+        getSessionId: vi.fn(() => 'test-session-id'),
+        getResumeSession: vi.fn(() => opts.resumeSession),
       };
     });
   return {
@@ -412,6 +423,37 @@ describe('App UI', () => {
     expect(vi.mocked(Tips)).not.toHaveBeenCalled();
   });
 
+  it('should persist approvals to the workspace without copying user entries', async () => {
+    mockSettings = new LoadedSettings(
+      {
+        path: '/user/settings.json',
+        settings: { allowedTools: ['run_shell_command(ls)'] },
+      },
+      { path: '/workspace/.gemini/settings.json', settings: {} },
+      [],
+    );
+    const setValue = vi
+      .spyOn(mockSettings, 'setValue')
+      .mockImplementation(() => {});
+
+    const { unmount } = render(
+      <App
+        config={mockConfig as unknown as ServerConfig}
+        settings={mockSettings}
+      />,
+    );
+    currentUnmount = unmount;
+    await Promise.resolve();
+    const handler = mockConfig.setAllowedToolHandler.mock.calls[0][0];
+    handler('run_shell_command(git status)');
+
+    expect(setValue).toHaveBeenCalledWith(
+      SettingScope.Workspace,
+      'allowedTools',
+      ['run_shell_command(git status)'],
+    );
+  });
+
   describe('when no theme is set', () => {
     let originalNoColor: string | undefined;
 
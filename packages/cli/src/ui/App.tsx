@@ -16,7 +16,12 @@ import {
   useInput,
   type Key as InkKeyType,
 } from 'ink';
-import { StreamingState, type HistoryItem, MessageType } from './types.js';
+import {
+  StreamingState,
+  type HistoryItem,
+  MessageType,
+  type PromptEdit,
+} from './types.js';
 import { useTerminalSize } from './hooks/useTerminalSize.js';
 import { useGeminiStream } from './hooks/useGeminiStream.js';
 import { useLoadingIndicator } from './hooks/useLoadingIndicator.js';
@@ -24,13 +29,18 @@ import { useThemeCommand } from './hooks/useThemeCommand.js';
 import { useAuthCommand } from './hooks/useAuthCommand.js';
 import { useEditorSettings } from './hooks/useEditorSettings.js';
 import { useModelCommand } from './hooks/useModelCommand.js';
+import { useSessionPersistence } from './hooks/useSessionPersistence.js';
+import { useTurnTokenStats } from './hooks/useTurnTokenStats.js';
 import { useSlashCommandProcessor } from './hooks/slashCommandProcessor.js';
 import { useAutoAcceptIndicator } from './hooks/useAutoAcceptIndicator.js';
+import { useShellFocus } from './hooks/useShellFocus.js';
 import { useConsoleMessages } from './hooks/useConsoleMessages.js';
 import { Header } from './components/Header.js';
 import { LoadingIndicator } from './components/LoadingIndicator.js';
 import { AutoAcceptIndicator } from './components/AutoAcceptIndicator.js';
 import { ShellModeIndicator } from './components/ShellModeIndicator.js';
+import { PromptEditIndicator } from './components/PromptEditIndicator.js';
+import { ShellFocusIndicator } from './components/ShellFocusIndicator.js';
 import { InputPrompt } from './components/InputPrompt.js';
 import { Footer } from './components/Footer.js';
 import { ThemeDialog } from './components/ThemeDialog.js';
@@ -38,10 +48,11 @@ import { AuthDialog } from './components/AuthDialog.js';
 import { AuthInProgress } from './components/AuthInProgress.js';
 import { EditorSettingsDialog } from './components/EditorSettingsDialog.js';
 import { OllamaModelSelector } from './components/OllamaModelSelector.js';
+import { SessionBrowser } from './components/SessionBrowser.js';
 import { Colors } from './colors.js';
 import { Help } from './components/Help.js';
 import { loadHierarchicalGeminiMemory } from '../config/config.js';
-import { LoadedSettings } from '../config/settings.js';
+import { LoadedSettings, SettingScope } from '../config/settings.js';
 import { Tips } from './components/Tips.js';
 import { useConsolePatcher } from './components/ConsolePatcher.js';
 import { DetailedMessagesDisplay } from './components/DetailedMessagesDisplay.js';
@@ -66,6 +77,7 @@ import {
 } from './contexts/SessionContext.js';
 import { useGitBranchName } from './hooks/useGitBranchName.js';
 import { useBracketedPaste } from './hooks/useBracketedPaste.js';
+import { useOllamaHostStatus } from './hooks/useOllamaHostStatus.js';
 import { useTextBuffer } from './components/shared/text-buffer.js';
 import * as fs from 'fs';
 import { UpdateNotification } from './components/UpdateNotification.js';
@@ -98,7 +110,8 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     checkForUpdates().then(setUpdateMessage);
   }, []);
 
-  const { history, addItem, clearItems, loadHistory } = useHistory();
+  const { history, addItem, updateItem, clearItems, loadHistory } =
+    useHistory();
   const {
     consoleMessages,
     handleNewMessage,
@@ -122,7 +135,9 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
   const [footerHeight, setFooterHeight] = useState<number>(0);
   const [corgiMode, setCorgiMode] = useState(false);
   const [currentModel, setCurrentModel] = useState(config.getModel());
+  const ollamaHostStatus = useOllamaHostStatus(config);
   const [shellModeActive, setShellModeActive] = useState(false);
+  const [promptEdit, setPromptEdit] = useState<PromptEdit | null>(null);
   const [showErrorDetails, setShowErrorDetails] = useState<boolean>(false);
   const [showToolDescriptions, setShowToolDescriptions] =
     useState<boolean>(false);
@@ -135,11 +150,16 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
   const ctrlDTimerRef = useRef<NodeJS.Timeout | null>(null);
   const [constrainHeight, setConstrainHeight] = useState<boolean>(true);
   const [showPrivacyNotice, setShowPrivacyNotice] = useState<boolean>(false);
+  const [showSessionBrowser, setShowSessionBrowser] = useState<boolean>(false);
 
   const openPrivacyNotice = useCallback(() => {
     setShowPrivacyNotice(true);
   }, []);
 
+  const openSessionBrowser = useCallback(() => {
+    setShowSessionBrowser(true);
+  }, []);
+
   const errorCount = useMemo(
     () => consoleMessages.filter((msg) => msg.type === 'error').length,
     [consoleMessages],
@@ -159,17 +179,25 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     handleAuthHighlight,
     isAuthenticating,
     cancelAuthentication,
-  } = useAuthCommand(settings, setAuthError, config);
+  } = useAuthCommand(settings, setAuthError, config, addItem);
 
   useEffect(() => {
     if (settings.merged.selectedAuthType) {
-      const error = validateAuthMethod(settings.merged.selectedAuthType);
+      const error = validateAuthMethod(
+        settings.merged.selectedAuthType,
+        settings.merged.openaiBaseUrl,
+      );
       if (error) {
         setAuthError(error);
         openAuthDialog();
       }
     }
-  }, [settings.merged.selectedAuthType, openAuthDialog, setAuthError]);
+  }, [
+    settings.merged.selectedAuthType,
+    settings.merged.openaiBaseUrl,
+    openAuthDialog,
+    setAuthError,
+  ]);
 
   const {
     isEditorDialogOpen,
@@ -273,10 +301,24 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     config.setFlashFallbackHandler(flashFallbackHandler);
   }, [config, addItem]);
 
+  // Save "allow always" approvals to the project settings
+  useEffect(() => {
+    config.setAllowedToolHandler((entry) => {
+      // Only the workspace's own entries: the project settings may be shared,
+      // so user and system approvals must not be copied into them.
+      const allowedTools = settings.workspace.settings.allowedTools ?? [];
+      settings.setValue(SettingScope.Workspace, 'allowedTools', [
+        ...allowedTools,
+        entry,
+      ]);
+    });
+  }, [config, settings]);
+
   const {
     handleSlashCommand,
     slashCommands,
     pendingHistoryItems: pendingSlashCommandHistoryItems,
+    rewindConversation,
   } = useSlashCommandProcessor(
     config,
     settings,
@@ -296,6 +338,8 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     showToolDescriptions,
     setQuittingMessages,
     openPrivacyNotice,
+    openSessionBrowser,
+    setPromptEdit,
   );
   const pendingHistoryItems = [...pendingSlashCommandHistoryItems];
 
@@ -325,6 +369,13 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     isValidPath,
   });
 
+  const setBufferText = buffer.setText;
+  useEffect(() => {
+    if (promptEdit) {
+      setBufferText(promptEdit.text);
+    }
+  }, [promptEdit, setBufferText]);
+
   const handleExit = useCallback(
     (
       pressedOnce: boolean,
@@ -354,7 +405,13 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     [slashCommands],
   );
 
+  const { activeShell, shellFocused } = useShellFocus(config);
+
   useInput((input: string, key: InkKeyType) => {
+    if (shellFocused) {
+      // Every key press, including Ctrl+C, goes to the focused shell.
+      return;
+    }
     let enteringConstrainHeightMode = false;
     if (!constrainHeight) {
       // Automatically re-enter constrain height mode if the user types
@@ -385,6 +442,9 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
       handleExit(ctrlDPressedOnce, setCtrlDPressedOnce, ctrlDTimerRef);
     } else if (key.ctrl && input === 's' && !enteringConstrainHeightMode) {
       setConstrainHeight(false);
+    } else if (key.escape && promptEdit) {
+      setPromptEdit(null);
+      buffer.setText('');
     }
   });
 
@@ -432,20 +492,43 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
     getPreferredEditor,
     onAuthError,
     performMemoryRefresh,
+    shellFocused,
   );
   pendingHistoryItems.push(...pendingGeminiHistoryItems);
   const { elapsedTime, currentLoadingPhrase } =
     useLoadingIndicator(streamingState);
-  const showAutoAcceptIndicator = useAutoAcceptIndicator({ config });
+  const { sessionId, resumeSession } = useSessionPersistence(
+    config,
+    history,
+    loadHistory,
+    addItem,
+    refreshStatic,
+    streamingState,
+    !isAuthenticating && !!config.getGeminiClient()?.isInitialized(),
+    openSessionBrowser,
+  );
+  useTurnTokenStats(history, updateItem, streamingState);
+  const showAutoAcceptIndicator = useAutoAcceptIndicator({
+    config,
+    isActive: !shellFocused,
+  });
 
   const handleFinalSubmit = useCallback(
-    (submittedValue: string) => {
+    async (submittedValue: string) => {
       const trimmedValue = submittedValue.trim();
-      if (trimmedValue.length > 0) {
-        submitQuery(trimmedValue);
+      if (trimmedValue.length === 0) {
+        return;
       }
+      if (promptEdit) {
+        // Regenerate from the edited prompt instead of appending a turn.
+        setPromptEdit(null);
+        if (!(await rewindConversation(String(promptEdit.turn)))) {
+          return;
+        }
+      }
+      submitQuery(trimmedValue);
     },
-    [submitQuery],
+    [submitQuery, promptEdit, rewindConversation],
   );
 
   const logger = useLogger();
@@ -716,6 +799,18 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
                 ollamaHost={getOllamaHost()}
               />
             </Box>
+          ) : showSessionBrowser ? (
+            <SessionBrowser
+              sessionStore={config.getSessionStore()}
+              currentSessionId={sessionId}
+              onResume={(id) => {
+                setShowSessionBrowser(false);
+                if (id !== sessionId) {
+                  void resumeSession(id);
+                }
+              }}
+              onClose={() => setShowSessionBrowser(false)}
+            />
           ) : showPrivacyNotice ? (
             <PrivacyNotice
               onExit={() => setShowPrivacyNotice(false)}
@@ -765,13 +860,20 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
                   )}
                 </Box>
                 <Box>
-                  {showAutoAcceptIndicator !== ApprovalMode.DEFAULT &&
+                  {activeShell && (
+                    <ShellFocusIndicator focused={shellFocused} />
+                  )}
+                  {!activeShell &&
+                    showAutoAcceptIndicator !== ApprovalMode.DEFAULT &&
                     !shellModeActive && (
                       <AutoAcceptIndicator
                         approvalMode={showAutoAcceptIndicator}
                       />
                     )}
-                  {shellModeActive && <ShellModeIndicator />}
+                  {!activeShell && shellModeActive && <ShellModeIndicator />}
+                  {!activeShell && promptEdit && (
+                    <PromptEditIndicator turn={promptEdit.turn} />
+                  )}
                 </Box>
               </Box>
 
@@ -851,6 +953,7 @@ const App = ({ config, settings, startupWarnings = [] }: AppProps) => {
               config.getDebugMode() || config.getShowMemoryUsage()
             }
             promptTokenCount={sessionStats.lastPromptTokenCount}
+            ollamaHostStatus={ollamaHostStatus}
           />
         </Box>
       </Box>
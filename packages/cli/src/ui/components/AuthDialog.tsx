@@ -36,6 +36,10 @@ export function AuthDialog({
     { label: 'Gemini API Key (AI Studio)', value: AuthType.USE_GEMINI },
     { label: 'Vertex AI', value: AuthType.USE_VERTEX_AI },
     { label: 'Ollama (Local)', value: AuthType.USE_OLLAMA },
+    {
+      label: 'OpenAI-compatible server (llama.cpp, vLLM, LM Studio)',
+      value: AuthType.USE_OPENAI_COMPATIBLE,
+    },
   ];
 
   let initialAuthIndex = items.findIndex(
@@ -47,7 +51,7 @@ export function AuthDialog({
   }
 
   const handleAuthSelect = (authMethod: string) => {
-    const error = validateAuthMethod(authMethod);
+    const error = validateAuthMethod(authMethod, settings.merged.openaiBaseUrl);
     if (error) {
       setErrorMessage(error);
     } else {
@@ -7,7 +7,12 @@
 import React from 'react';
 import { Box, Text } from 'ink';
 import { Colors } from '../colors.js';
-import { shortenPath, tildeifyPath, tokenLimit } from '@google/gemini-cli-core';
+import {
+  OllamaHostPoolStatus,
+  shortenPath,
+  tildeifyPath,
+  tokenLimit,
+} from '@google/gemini-cli-core';
 import { ConsoleSummaryDisplay } from './ConsoleSummaryDisplay.js';
 import process from 'node:process';
 import { MemoryUsageDisplay } from './MemoryUsageDisplay.js';
@@ -23,6 +28,16 @@ interface FooterProps {
   showErrorDetails: boolean;
   showMemoryUsage?: boolean;
   promptTokenCount: number;
+  ollamaHostStatus?: OllamaHostPoolStatus;
+}
+
+// Drops the scheme so LAN hosts read as `box-a:11434`.
+function formatHost(host: string): string {
+  try {
+    return new URL(host).host;
+  } catch {
+    return host;
+  }
 }
 
 export const Footer: React.FC<FooterProps> = ({
@@ -36,9 +51,13 @@ export const Footer: React.FC<FooterProps> = ({
   showErrorDetails,
   showMemoryUsage,
   promptTokenCount,
+  ollamaHostStatus,
 }) => {
   const limit = tokenLimit(model);
   const percentage = promptTokenCount / limit;
+  const healthyHosts =
+    ollamaHostStatus?.hosts.filter((host) => host.healthy).length ?? 0;
+  const totalHosts = ollamaHostStatus?.hosts.length ?? 0;
 
   return (
     <Box marginTop={1} justifyContent="space-between" width="100%">
@@ -86,6 +105,23 @@ export const Footer: React.FC<FooterProps> = ({
             ({((1 - percentage) * 100).toFixed(0)}% context left)
           </Text>
         </Text>
+        {ollamaHostStatus?.activeHost && (
+          <Text>
+            <Text color={Colors.Gray}>| </Text>
+            <Text
+              color={
+                healthyHosts < totalHosts
+                  ? Colors.AccentYellow
+                  : Colors.Foreground
+              }
+            >
+              {formatHost(ollamaHostStatus.activeHost)}{' '}
+              <Text color={Colors.Gray}>
+                ({healthyHosts}/{totalHosts} hosts up){' '}
+              </Text>
+            </Text>
+          </Text>
+        )}
         {corgiMode && (
           <Text>
             <Text color={Colors.Gray}>| </Text>
@@ -35,6 +35,47 @@ describe('<HistoryItemDisplay />', () => {
     expect(lastFrame()).toContain('Hello');
   });
 
+  it('renders a collapsed summary for completed "thought" items', () => {
+    const item: HistoryItem = {
+      ...baseItem,
+      type: 'thought',
+      text: 'Check the config first\nthen read the tests',
+    };
+    const { lastFrame } = render(
+      <HistoryItemDisplay {...baseItem} item={item} />,
+    );
+    expect(lastFrame()).toContain(
+      'Thought for 8 words · Check the config first',
+    );
+    expect(lastFrame()).not.toContain('then read the tests');
+  });
+
+  it('renders the streaming text for pending "thought" items', () => {
+    const item: HistoryItem = {
+      ...baseItem,
+      type: 'thought',
+      text: 'Check the config first\nthen read the tests',
+    };
+    const { lastFrame } = render(
+      <HistoryItemDisplay {...baseItem} item={item} isPending={true} />,
+    );
+    expect(lastFrame()).toContain('Thinking...');
+    expect(lastFrame()).toContain('then read the tests');
+  });
+
+  it('renders a divider for "model_switch" items', () => {
+    const item: HistoryItem = {
+      ...baseItem,
+      type: 'model_switch',
+      fromModel: 'qwen3:1.7b',
+      toModel: 'gemma3:4b',
+    };
+    const { lastFrame } = render(
+      <HistoryItemDisplay {...baseItem} item={item} />,
+    );
+    expect(lastFrame()).toContain('Switched model: qwen3:1.7b → gemma3:4b');
+  });
+
   it('renders StatsDisplay for "stats" type', () => {
     const item: HistoryItem = {
       ...baseItem,
@@ -14,6 +14,9 @@ import { ErrorMessage } from './messages/ErrorMessage.js';
 import { ToolGroupMessage } from './messages/ToolGroupMessage.js';
 import { GeminiMessageContent } from './messages/GeminiMessageContent.js';
 import { CompressionMessage } from './messages/CompressionMessage.js';
+import { ThoughtMessage } from './messages/ThoughtMessage.js';
+import { ModelPullMessage } from './messages/ModelPullMessage.js';
+import { ModelSwitchMessage } from './messages/ModelSwitchMessage.js';
 import { Box } from 'ink';
 import { AboutBox } from './AboutBox.js';
 import { StatsDisplay } from './StatsDisplay.js';
@@ -59,6 +62,14 @@ export const HistoryItemDisplay: React.FC<HistoryItemDisplayProps> = ({
         terminalWidth={terminalWidth}
       />
     )}
+    {item.type === 'thought' && (
+      <ThoughtMessage
+        text={item.text}
+        subject={item.subject}
+        isPending={isPending}
+        terminalWidth={terminalWidth}
+      />
+    )}
     {item.type === 'info' && <InfoMessage text={item.text} />}
     {item.type === 'error' && <ErrorMessage text={item.text} />}
     {item.type === 'about' && (
@@ -88,5 +99,15 @@ export const HistoryItemDisplay: React.FC<HistoryItemDisplayProps> = ({
     {item.type === 'compression' && (
       <CompressionMessage compression={item.compression} />
     )}
+    {item.type === 'model_pull' && (
+      <ModelPullMessage modelPull={item.modelPull} />
+    )}
+    {item.type === 'model_switch' && (
+      <ModelSwitchMessage
+        fromModel={item.fromModel}
+        toModel={item.toModel}
+        terminalWidth={terminalWidth}
+      />
+    )}
   </Box>
 );
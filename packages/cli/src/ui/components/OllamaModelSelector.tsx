@@ -9,6 +9,10 @@ import { Box, Text, useInput } from 'ink';
 import { Colors } from '../colors.js';
 import { RadioButtonSelect } from './shared/RadioButtonSelect.js';
 import { LoadingIndicator } from './LoadingIndicator.js';
+import {
+  DEFAULT_OLLAMA_HOST,
+  OllamaAdminClient,
+} from '@google/gemini-cli-core';
 
 interface OllamaModelSelectorProps {
   onSelect: (model: string) => void;
@@ -24,7 +28,7 @@ interface ModelOption {
 export function OllamaModelSelector({
   onSelect,
   onCancel,
-  ollamaHost = 'http://localhost:11434',
+  ollamaHost = DEFAULT_OLLAMA_HOST,
 }: OllamaModelSelectorProps): React.JSX.Element {
   const [models, setModels] = useState<ModelOption[]>([]);
   const [loading, setLoading] = useState(true);
@@ -33,21 +37,15 @@ export function OllamaModelSelector({
   useEffect(() => {
     const fetchModels = async () => {
       try {
-        const response = await fetch(`${ollamaHost}/api/tags`);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch models: ${response.status}`);
-        }
-        const data = await response.json();
-        const modelOptions: ModelOption[] = data.models.map(
-          (model: { name: string; size: number }) => ({
-            label: `${model.name} (${formatSize(model.size)})`,
-            value: model.name,
-          }),
-        );
+        const installed = await new OllamaAdminClient(ollamaHost).listModels();
+        const modelOptions: ModelOption[] = installed.map((model) => ({
+          label: `${model.name} (${formatSize(model.size)})`,
+          value: model.name,
+        }));
 
         if (modelOptions.length === 0) {
           setError(
-            'No models found. Please install models using "ollama pull <model>"',
+            'No models found. Install one with "/model pull <model>", then run /model again.',
           );
         } else {
           setModels(modelOptions);
@@ -116,10 +114,10 @@ export function OllamaModelSelector({
           <Text color={Colors.Gray}>Suggested commands:</Text>
         </Box>
         <Box marginTop={1}>
-          <Text color={Colors.AccentBlue}>ollama pull qwen3:1.7b</Text>
+          <Text color={Colors.AccentBlue}>/model pull qwen3:1.7b</Text>
         </Box>
         <Box marginTop={1}>
-          <Text color={Colors.AccentBlue}>ollama pull gemma2:2b</Text>
+          <Text color={Colors.AccentBlue}>/model pull gemma2:2b</Text>
         </Box>
         <Box marginTop={1}>
           <Text color={Colors.Gray}>(Press Escape to cancel)</Text>
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { Colors } from '../colors.js';
+
+interface PromptEditIndicatorProps {
+  turn: number;
+}
+
+export const PromptEditIndicator: React.FC<PromptEditIndicatorProps> = ({
+  turn,
+}) => (
+  <Box>
+    <Text color={Colors.AccentYellow}>
+      editing turn {turn}
+      <Text color={Colors.Gray}> (enter to regenerate, esc to cancel)</Text>
+    </Text>
+  </Box>
+);
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect, vi } from 'vitest';
+import { SessionMetadata, SessionStore } from '@google/gemini-cli-core';
+import { SessionBrowser, getSessionPreview } from './SessionBrowser.js';
+import { ToolCallStatus } from '../types.js';
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function metadata(id: string, title: string): SessionMetadata {
+  return {
+    id,
+    title,
+    model: 'gemini-pro',
+    cwd: '/project',
+    startTime: '2025-01-01T00:00:00.000Z',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    messageCount: 2,
+    tokens: { prompt: 0, candidates: 0, total: 0 },
+  };
+}
+
+function makeStore(sessions: SessionMetadata[]) {
+  return {
+    list: vi.fn().mockResolvedValue(sessions),
+    load: vi.fn(async (id: string) => ({
+      metadata: sessions.find((session) => session.id === id),
+      uiHistory: [{ id: 1, type: 'user', text: `prompt of ${id}` }],
+      clientHistory: [],
+    })),
+    rename: vi.fn().mockResolvedValue(true),
+    delete: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('<SessionBrowser />', () => {
+  const renderBrowser = (store: ReturnType<typeof makeStore>) => {
+    const onResume = vi.fn();
+    const onClose = vi.fn();
+    const result = render(
+      <SessionBrowser
+        sessionStore={store as unknown as SessionStore}
+        currentSessionId="current"
+        onResume={onResume}
+        onClose={onClose}
+      />,
+    );
+    return { ...result, onResume, onClose };
+  };
+
+  it('should list sessions with a preview of the highlighted one', async () => {
+    const { lastFrame } = renderBrowser(
+      makeStore([
+        metadata('current', 'Fix parser'),
+        metadata('b', 'Add tables'),
+      ]),
+    );
+    await wait(300);
+
+    expect(lastFrame()).toContain('● Fix parser');
+    expect(lastFrame()).toContain('(current)');
+    expect(lastFrame()).toContain('Add tables');
+    expect(lastFrame()).toContain('> prompt of current');
+  });
+
+  it('should filter sessions as the user types and open the selection', async () => {
+    const { lastFrame, stdin, onResume } = renderBrowser(
+      makeStore([metadata('a', 'Fix parser'), metadata('b', 'Add tables')]),
+    );
+    await wait();
+
+    stdin.write('tab');
+    await wait();
+    expect(lastFrame()).not.toContain('Fix parser');
+    stdin.write('\r');
+    await wait();
+
+    expect(onResume).toHaveBeenCalledWith('b');
+  });
+
+  it('should rename and delete sessions', async () => {
+    const store = makeStore([metadata('a', 'Old'), metadata('b', 'Other')]);
+    const { lastFrame, stdin } = renderBrowser(store);
+    await wait();
+
+    stdin.write('\x12'); // Ctrl+R
+    await wait();
+    for (const input of ['\x7f', '\x7f', '\x7f', 'New']) {
+      stdin.write(input);
+      await wait();
+    }
+    stdin.write('\r');
+    await wait();
+    expect(store.rename).toHaveBeenCalledWith('a', 'New');
+    expect(lastFrame()).toContain('● New');
+
+    stdin.write('\x18'); // Ctrl+X
+    await wait();
+    expect(lastFrame()).toContain('Delete "New"? (y/n)');
+    stdin.write('y');
+    await wait();
+    expect(store.delete).toHaveBeenCalledWith('a');
+    expect(lastFrame()).toContain('Deleted "New".');
+    expect(lastFrame()).toContain('● Other');
+  });
+
+  it('should report sessions that could not be renamed or deleted', async () => {
+    const store = makeStore([metadata('a', 'Old')]);
+    store.rename.mockRejectedValue(new Error('EACCES'));
+    store.delete.mockRejectedValue(new Error('EBUSY'));
+    const { lastFrame, stdin } = renderBrowser(store);
+    await wait();
+
+    stdin.write('\x12'); // Ctrl+R
+    await wait();
+    stdin.write('New');
+    await wait();
+    stdin.write('\r');
+    await wait();
+    expect(lastFrame()).toContain('Could not rename the session: EACCES');
+    expect(lastFrame()).toContain('● Old');
+
+    stdin.write('\x18'); // Ctrl+X
+    await wait();
+    stdin.write('y');
+    await wait();
+    expect(lastFrame()).toContain('Could not delete the session: EBUSY');
+    expect(lastFrame()).toContain('● Old');
+  });
+
+  it('should not delete the current session', async () => {
+    const store = makeStore([metadata('current', 'Now')]);
+    const { lastFrame, stdin } = renderBrowser(store);
+    await wait();
+
+    stdin.write('\x18');
+    await wait();
+
+    expect(lastFrame()).toContain('The current session cannot be deleted.');
+    expect(store.delete).not.toHaveBeenCalled();
+  });
+});
+
+describe('getSessionPreview', () => {
+  it('should summarize prompts, answers and tool calls', () => {
+    expect(
+      getSessionPreview([
+        { id: 1, type: 'user', text: 'List files\nplease' },
+        {
+          id: 2,
+          type: 'tool_group',
+          tools: [
+            {
+              callId: '1',
+              name: 'ReadFolder',
+              description: 'src',
+              resultDisplay: undefined,
+              status: ToolCallStatus.Success,
+              confirmationDetails: undefined,
+            },
+          ],
+        },
+        { id: 3, type: 'gemini', text: 'Here they are.' },
+        { id: 4, type: 'info', text: 'ignored' },
+      ]),
+    ).toEqual(['> List files', '  ReadFolder src', '✦ Here they are.']);
+  });
+});
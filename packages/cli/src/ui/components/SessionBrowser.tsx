@@ -0,0 +1,314 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import {
+  SessionMetadata,
+  SessionStore,
+  getErrorMessage,
+} from '@google/gemini-cli-core';
+import { Colors } from '../colors.js';
+import { HistoryItem } from '../types.js';
+
+const MAX_VISIBLE_SESSIONS = 8;
+const MAX_PREVIEW_ITEMS = 6;
+
+interface SessionBrowserProps {
+  sessionStore: SessionStore;
+  currentSessionId: string;
+  onResume: (sessionId: string) => void;
+  onClose: () => void;
+}
+
+type Mode = 'browse' | 'rename' | 'delete';
+
+function matchesQuery(session: SessionMetadata, query: string): boolean {
+  const needle = query.toLowerCase();
+  return [session.title, session.id, session.model, session.cwd].some((field) =>
+    field?.toLowerCase().includes(needle),
+  );
+}
+
+/** One line per message or tool call, ending with the most recent. */
+export function getSessionPreview(history: HistoryItem[]): string[] {
+  const lines: string[] = [];
+  for (const item of history) {
+    const firstLine = (text: string) => text.trim().split('\n')[0];
+    switch (item.type) {
+      case 'user':
+        lines.push(`> ${firstLine(item.text)}`);
+        break;
+      case 'gemini':
+        lines.push(`✦ ${firstLine(item.text)}`);
+        break;
+      case 'tool_group':
+        for (const tool of item.tools) {
+          lines.push(`  ${tool.name} ${firstLine(tool.description)}`);
+        }
+        break;
+      default:
+        break;
+    }
+  }
+  return lines.slice(-MAX_PREVIEW_ITEMS);
+}
+
+/**
+ * Lists the saved sessions of the project. Typing filters them; sessions can
+ * be previewed, renamed, deleted and reopened.
+ */
+export function SessionBrowser({
+  sessionStore,
+  currentSessionId,
+  onResume,
+  onClose,
+}: SessionBrowserProps): React.JSX.Element {
+  const [sessions, setSessions] = useState<SessionMetadata[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [mode, setMode] = useState<Mode>('browse');
+  const [draftTitle, setDraftTitle] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const [preview, setPreview] = useState<string[]>([]);
+
+  useEffect(() => {
+    sessionStore
+      .list()
+      .then(setSessions)
+      .catch((error) => {
+        setSessions([]);
+        setStatus(`Could not list sessions: ${getErrorMessage(error)}`);
+      });
+  }, [sessionStore]);
+
+  const filtered = useMemo(
+    () => (sessions ?? []).filter((session) => matchesQuery(session, query)),
+    [sessions, query],
+  );
+  const selected = filtered[Math.min(selectedIndex, filtered.length - 1)];
+
+  useEffect(() => {
+    if (!selected) {
+      setPreview([]);
+      return;
+    }
+    let cancelled = false;
+    sessionStore
+      .load<HistoryItem>(selected.id)
+      .then((session) => {
+        if (!cancelled) {
+          setPreview(session ? getSessionPreview(session.uiHistory) : []);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setPreview([]);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionStore, selected]);
+
+  const renameSelected = async () => {
+    const title = draftTitle.trim();
+    setMode('browse');
+    if (!selected || !title) {
+      return;
+    }
+    try {
+      await sessionStore.rename(selected.id, title);
+    } catch (error) {
+      setStatus(`Could not rename the session: ${getErrorMessage(error)}`);
+      return;
+    }
+    setSessions((prev) =>
+      (prev ?? []).map((session) =>
+        session.id === selected.id
+          ? { ...session, title, renamed: true }
+          : session,
+      ),
+    );
+  };
+
+  const deleteSelected = async () => {
+    setMode('browse');
+    if (!selected) {
+      return;
+    }
+    try {
+      await sessionStore.delete(selected.id);
+    } catch (error) {
+      setStatus(`Could not delete the session: ${getErrorMessage(error)}`);
+      return;
+    }
+    setSessions((prev) =>
+      (prev ?? []).filter((session) => session.id !== selected.id),
+    );
+    setStatus(`Deleted "${selected.title}".`);
+  };
+
+  useInput((input, key) => {
+    if (mode === 'delete') {
+      if (input === 'y' || input === 'Y') {
+        void deleteSelected();
+      } else {
+        setMode('browse');
+      }
+      return;
+    }
+
+    if (mode === 'rename') {
+      if (key.escape) {
+        setMode('browse');
+      } else if (key.return) {
+        void renameSelected();
+      } else if (key.backspace || key.delete) {
+        setDraftTitle((prev) => prev.slice(0, -1));
+      } else if (input && !key.ctrl && !key.meta) {
+        setDraftTitle((prev) => prev + input);
+      }
+      return;
+    }
+
+    setStatus(null);
+    if (key.escape) {
+      if (query) {
+        setQuery('');
+        setSelectedIndex(0);
+      } else {
+        onClose();
+      }
+    } else if (key.return) {
+      if (selected) {
+        onResume(selected.id);
+      }
+    } else if (key.upArrow) {
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow) {
+      setSelectedIndex((prev) =>
+        Math.max(0, Math.min(filtered.length - 1, prev + 1)),
+      );
+    } else if (key.ctrl && input === 'r') {
+      if (selected) {
+        setDraftTitle(selected.title);
+        setMode('rename');
+      }
+    } else if (key.ctrl && input === 'x') {
+      if (selected?.id === currentSessionId) {
+        setStatus('The current session cannot be deleted.');
+      } else if (selected) {
+        setMode('delete');
+      }
+    } else if (key.backspace || key.delete) {
+      setQuery((prev) => prev.slice(0, -1));
+      setSelectedIndex(0);
+    } else if (input && !key.ctrl && !key.meta) {
+      setQuery((prev) => prev + input);
+      setSelectedIndex(0);
+    }
+  });
+
+  const firstVisible = Math.max(
+    0,
+    Math.min(
+      selectedIndex - Math.floor(MAX_VISIBLE_SESSIONS / 2),
+      filtered.length - MAX_VISIBLE_SESSIONS,
+    ),
+  );
+  const visible = filtered.slice(
+    firstVisible,
+    firstVisible + MAX_VISIBLE_SESSIONS,
+  );
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={Colors.Gray}
+      flexDirection="column"
+      padding={1}
+      width="100%"
+    >
+      <Text bold>Sessions</Text>
+      <Box>
+        <Text color={Colors.Gray}>Search: </Text>
+        <Text>{query}</Text>
+        {mode === 'browse' && <Text color={Colors.Gray}>▌</Text>}
+      </Box>
+
+      <Box flexDirection="column" marginTop={1}>
+        {sessions === null ? (
+          <Text color={Colors.Gray}>Loading sessions...</Text>
+        ) : filtered.length === 0 ? (
+          <Text color={Colors.Gray}>
+            {sessions.length === 0
+              ? 'No saved sessions in this project.'
+              : 'No sessions match the search.'}
+          </Text>
+        ) : (
+          visible.map((session) => {
+            const isSelected = session === selected;
+            return (
+              <Box key={session.id}>
+                <Text color={isSelected ? Colors.AccentGreen : undefined}>
+                  {isSelected ? '● ' : '  '}
+                  {mode === 'rename' && isSelected ? (
+                    <Text>
+                      {draftTitle}
+                      <Text color={Colors.Gray}>▌</Text>
+                    </Text>
+                  ) : (
+                    session.title || '(untitled)'
+                  )}
+                </Text>
+                <Text color={Colors.Gray} wrap="truncate-end">
+                  {' · '}
+                  {new Date(session.lastUpdated).toLocaleString()} ·{' '}
+                  {session.messageCount} prompt
+                  {session.messageCount === 1 ? '' : 's'} · {session.model}
+                  {session.id === currentSessionId ? ' (current)' : ''}
+                </Text>
+              </Box>
+            );
+          })
+        )}
+      </Box>
+
+      {preview.length > 0 && (
+        <Box
+          flexDirection="column"
+          marginTop={1}
+          borderStyle="single"
+          borderColor={Colors.Gray}
+          paddingX={1}
+        >
+          {preview.map((line, index) => (
+            <Text key={index} wrap="truncate-end" color={Colors.Gray}>
+              {line}
+            </Text>
+          ))}
+        </Box>
+      )}
+
+      <Box marginTop={1}>
+        {mode === 'delete' && selected ? (
+          <Text color={Colors.AccentYellow}>
+            Delete &quot;{selected.title}&quot;? (y/n)
+          </Text>
+        ) : status ? (
+          <Text color={Colors.AccentYellow}>{status}</Text>
+        ) : (
+          <Text color={Colors.Gray}>
+            {mode === 'rename'
+              ? '(Enter to save the title, Escape to cancel)'
+              : '(Enter to open, Ctrl+R to rename, Ctrl+X to delete, Escape to close)'}
+          </Text>
+        )}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { Colors } from '../colors.js';
+
+interface ShellFocusIndicatorProps {
+  focused: boolean;
+}
+
+export const ShellFocusIndicator: React.FC<ShellFocusIndicatorProps> = ({
+  focused,
+}) => (
+  <Box>
+    {focused ? (
+      <Text color={Colors.AccentYellow}>
+        typing into shell
+        <Text color={Colors.Gray}> (ctrl+f to return)</Text>
+      </Text>
+    ) : (
+      <Text color={Colors.Gray}>ctrl+f to type into shell</Text>
+    )}
+  </Box>
+);
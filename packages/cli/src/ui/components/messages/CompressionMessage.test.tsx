@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect } from 'vitest';
+import { CompressionMessage } from './CompressionMessage.js';
+
+describe('<CompressionMessage />', () => {
+  it('should report what was kept and dropped', () => {
+    const { lastFrame } = render(
+      <CompressionMessage
+        compression={{
+          isPending: false,
+          originalTokenCount: 1000,
+          newTokenCount: 200,
+          summarizedTurns: 4,
+          summary: 'state',
+          keptTurns: 1,
+          pinnedTurns: 0,
+          droppedFiles: ['/p/a.ts'],
+        }}
+      />,
+    );
+
+    const output = lastFrame();
+    expect(output).toContain('Chat history compressed from 1000 to 200');
+    expect(output).toContain(
+      'Summarized 4 turns into the conversation state and kept 1 turn verbatim.',
+    );
+    expect(output).toContain(
+      'The model no longer has the contents of: /p/a.ts',
+    );
+  });
+
+  it('should say when the summarized turns were dropped', () => {
+    const { lastFrame } = render(
+      <CompressionMessage
+        compression={{
+          isPending: false,
+          originalTokenCount: 1000,
+          newTokenCount: 200,
+          summarizedTurns: 1,
+          summary: 'none',
+          keptTurns: 2,
+          pinnedTurns: 1,
+          droppedFiles: [],
+        }}
+      />,
+    );
+
+    expect(lastFrame()).toContain(
+      'Dropped 1 turn as no summary could be written and kept 2 turns verbatim (1 pinned).',
+    );
+  });
+});
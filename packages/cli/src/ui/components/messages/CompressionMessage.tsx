@@ -10,13 +10,39 @@ import { CompressionProps } from '../../types.js';
 import Spinner from 'ink-spinner';
 import { Colors } from '../../colors.js';
 
+function turns(count: number): string {
+  return `${count} turn${count === 1 ? '' : 's'}`;
+}
+
+/** What the compression kept and what the model lost. */
+function describeCompression(compression: CompressionProps): string[] {
+  if (compression.summarizedTurns === undefined) {
+    return [];
+  }
+  const summarized =
+    compression.summary === 'none'
+      ? `Dropped ${turns(compression.summarizedTurns)} as no summary could be written`
+      : `Summarized ${turns(compression.summarizedTurns)} into ${compression.summary === 'text' ? 'a plain summary, as the model could not write the conversation state,' : 'the conversation state'}`;
+  const lines = [
+    `${summarized} and kept ${turns(compression.keptTurns ?? 0)} verbatim` +
+      (compression.pinnedTurns ? ` (${compression.pinnedTurns} pinned).` : '.'),
+  ];
+  if (compression.droppedFiles?.length) {
+    lines.push(
+      `The model no longer has the contents of: ${compression.droppedFiles.join(', ')}`,
+    );
+  }
+  return lines;
+}
+
 export interface CompressionDisplayProps {
   compression: CompressionProps;
 }
 
 /*
- * Compression messages appear when the /compress command is ran, and show a loading spinner
- * while compression is in progress, followed up by some compression stats.
+ * Compression messages appear when the /compress command is ran or the context
+ * nears the token limit, and show a loading spinner while compression is in
+ * progress, followed up by some compression stats.
  */
 export const CompressionMessage: React.FC<CompressionDisplayProps> = ({
   compression,
@@ -35,7 +61,7 @@ export const CompressionMessage: React.FC<CompressionDisplayProps> = ({
           <Text color={Colors.AccentPurple}>✦</Text>
         )}
       </Box>
-      <Box>
+      <Box flexDirection="column">
         <Text
           color={
             compression.isPending ? Colors.AccentPurple : Colors.AccentGreen
@@ -43,6 +69,12 @@ export const CompressionMessage: React.FC<CompressionDisplayProps> = ({
         >
           {text}
         </Text>
+        {!compression.isPending &&
+          describeCompression(compression).map((line) => (
+            <Text key={line} color={Colors.Gray}>
+              {line}
+            </Text>
+          ))}
       </Box>
     </Box>
   );
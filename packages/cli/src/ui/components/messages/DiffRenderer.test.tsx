@@ -333,6 +333,40 @@ fileDiff Index: file.txt
 20   + const anotherNew = 'test';`);
   });
 
+  it('should label each file of a diff that spans several files', () => {
+    const multiFileDiff = `Index: src/a.ts
+===================================================================
+--- src/a.ts	Current
++++ src/a.ts	Proposed
+@@ -1,1 +1,1 @@
+-const a = 1;
++const a = 2;
+Index: src/b.ts
+===================================================================
+--- src/b.ts	Current
++++ src/b.ts	Proposed
+@@ -1,1 +1,1 @@
+-const b = 1;
++const b = 2;
+`;
+    const { lastFrame } = render(
+      <OverflowProvider>
+        <DiffRenderer
+          diffContent={multiFileDiff}
+          filename="a.ts"
+          terminalWidth={80}
+        />
+      </OverflowProvider>,
+    );
+
+    expect(lastFrame()).toEqual(`src/a.ts
+1    - const a = 1;
+1    + const a = 2;
+src/b.ts
+1    - const b = 1;
+1    + const b = 2;`);
+  });
+
   it('should correctly render a new file with no file extension correctly', () => {
     const newFileDiff = `
 fileDiff Index: Dockerfile
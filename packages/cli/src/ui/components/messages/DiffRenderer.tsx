@@ -12,7 +12,7 @@ import { colorizeCode } from '../../utils/CodeColorizer.js';
 import { MaxSizedBox } from '../shared/MaxSizedBox.js';
 
 interface DiffLine {
-  type: 'add' | 'del' | 'context' | 'hunk' | 'other';
+  type: 'add' | 'del' | 'context' | 'hunk' | 'file' | 'other';
   oldLine?: number;
   newLine?: number;
   content: string;
@@ -39,6 +39,12 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
       currentNewLine--;
       continue;
     }
+    // Start of the next file's patch in a diff that spans several files.
+    if (line.startsWith('Index: ')) {
+      inHunk = false;
+      result.push({ type: 'file', content: line.substring(7) });
+      continue;
+    }
     if (!inHunk) {
       // Skip standard Git header lines more robustly
       if (
@@ -123,6 +129,7 @@ export const DiffRenderer: React.FC<DiffRendererProps> = ({
     (line) =>
       line.type === 'add' ||
       line.type === 'hunk' ||
+      line.type === 'file' ||
       line.type === 'other' ||
       line.content.startsWith('diff --git') ||
       line.content.startsWith('new file mode'),
@@ -173,9 +180,16 @@ const renderDiffContent = (
     content: line.content.replace(/\t/g, ' '.repeat(tabWidth)),
   }));
 
+  // File names are only worth showing when the diff spans several files.
+  const isMultiFile =
+    normalizedLines.filter((l) => l.type === 'file').length > 1;
+
   // Filter out non-displayable lines (hunks, potentially 'other') using the normalized list
   const displayableLines = normalizedLines.filter(
-    (l) => l.type !== 'hunk' && l.type !== 'other',
+    (l) =>
+      l.type !== 'hunk' &&
+      l.type !== 'other' &&
+      (l.type !== 'file' || isMultiFile),
   );
 
   if (displayableLines.length === 0) {
@@ -190,7 +204,7 @@ const renderDiffContent = (
   let baseIndentation = Infinity; // Start high to find the minimum
   for (const line of displayableLines) {
     // Only consider lines with actual content for indentation calculation
-    if (line.content.trim() === '') continue;
+    if (line.type === 'file' || line.content.trim() === '') continue;
 
     const firstCharIndex = line.content.search(/\S/); // Find index of first non-whitespace char
     const currentIndent = firstCharIndex === -1 ? 0 : firstCharIndex; // Indent is 0 if no non-whitespace found
@@ -244,6 +258,16 @@ const renderDiffContent = (
         let dim = false;
 
         switch (line.type) {
+          case 'file':
+            lastLineNumber = null;
+            acc.push(
+              <Box key={lineKey}>
+                <Text bold wrap="truncate">
+                  {line.content}
+                </Text>
+              </Box>,
+            );
+            return acc;
           case 'add':
             gutterNumStr = (line.newLine ?? '').toString();
             color = 'green';
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import Spinner from 'ink-spinner';
+import { ModelPullProps } from '../../types.js';
+import { Colors } from '../../colors.js';
+import { formatMemoryUsage } from '../../utils/formatters.js';
+
+const PROGRESS_BAR_WIDTH = 30;
+
+export interface ModelPullDisplayProps {
+  modelPull: ModelPullProps;
+}
+
+/*
+ * Shown while `/model pull` runs. Layer downloads render as a progress bar;
+ * other stages (manifest, verification) only show the status Ollama reports.
+ */
+export const ModelPullMessage: React.FC<ModelPullDisplayProps> = ({
+  modelPull,
+}) => {
+  const { model, status, completed, total, isPending } = modelPull;
+
+  if (!isPending) {
+    return (
+      <Box flexDirection="row">
+        <Box marginRight={1}>
+          <Text color={Colors.AccentPurple}>✦</Text>
+        </Box>
+        <Text color={Colors.AccentGreen}>Pulled model {model}.</Text>
+      </Box>
+    );
+  }
+
+  const hasProgress = total !== undefined && total > 0;
+  const fraction = hasProgress ? Math.min((completed ?? 0) / total, 1) : 0;
+  const filled = Math.round(fraction * PROGRESS_BAR_WIDTH);
+
+  return (
+    <Box flexDirection="column">
+      <Box flexDirection="row">
+        <Box marginRight={1}>
+          <Spinner type="dots" />
+        </Box>
+        <Text color={Colors.AccentPurple}>
+          Pulling {model}: {status}
+        </Text>
+      </Box>
+      {hasProgress && (
+        <Box marginLeft={2}>
+          <Text color={Colors.AccentPurple}>
+            {'█'.repeat(filled)}
+            <Text color={Colors.Gray}>
+              {'░'.repeat(PROGRESS_BAR_WIDTH - filled)}
+            </Text>{' '}
+            {Math.floor(fraction * 100)}%{' '}
+            <Text color={Colors.Gray}>
+              ({formatMemoryUsage(completed ?? 0)} / {formatMemoryUsage(total)})
+            </Text>
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
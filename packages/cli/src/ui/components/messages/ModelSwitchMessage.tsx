@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { Colors } from '../../colors.js';
+
+interface ModelSwitchMessageProps {
+  fromModel: string;
+  toModel: string;
+  terminalWidth: number;
+}
+
+/*
+ * A divider marking where the conversation moved to another model, so it is
+ * clear which model produced the responses on either side of it.
+ */
+export const ModelSwitchMessage: React.FC<ModelSwitchMessageProps> = ({
+  fromModel,
+  toModel,
+  terminalWidth,
+}) => {
+  const label = ` Switched model: ${fromModel} → ${toModel} `;
+  const ruleWidth = Math.max(
+    0,
+    Math.floor((terminalWidth - label.length - 2) / 2),
+  );
+  const rule = '─'.repeat(ruleWidth);
+
+  return (
+    <Box>
+      <Text color={Colors.Gray}>
+        {rule}
+        <Text color={Colors.AccentCyan}>{label}</Text>
+        {rule}
+      </Text>
+    </Box>
+  );
+};
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Text, Box } from 'ink';
+import { Colors } from '../../colors.js';
+import { MaxSizedBox } from '../shared/MaxSizedBox.js';
+
+const MAX_PENDING_THOUGHT_LINES = 6;
+
+interface ThoughtMessageProps {
+  text: string;
+  subject?: string;
+  isPending: boolean;
+  terminalWidth: number;
+}
+
+/*
+ * Thoughts stream in live (the last few lines) while the model is reasoning,
+ * then collapse to a one-line summary once the answer starts so the reasoning
+ * does not crowd out the transcript.
+ */
+export const ThoughtMessage: React.FC<ThoughtMessageProps> = ({
+  text,
+  subject,
+  isPending,
+  terminalWidth,
+}) => {
+  const prefix = '✧ ';
+  const prefixWidth = prefix.length;
+  const trimmedText = text.trim();
+  const wordCount = trimmedText ? trimmedText.split(/\s+/).length : 0;
+  const preview = subject || trimmedText.split('\n')[0];
+
+  return (
+    <Box flexDirection="row">
+      <Box width={prefixWidth}>
+        <Text color={Colors.Gray}>{prefix}</Text>
+      </Box>
+      {isPending ? (
+        <Box flexGrow={1} flexDirection="column">
+          <Text color={Colors.Gray} italic>
+            Thinking{subject ? `: ${subject}` : '...'}
+          </Text>
+          <MaxSizedBox
+            maxHeight={MAX_PENDING_THOUGHT_LINES}
+            maxWidth={terminalWidth - prefixWidth}
+          >
+            <Box>
+              <Text wrap="wrap" color={Colors.Gray}>
+                {trimmedText}
+              </Text>
+            </Box>
+          </MaxSizedBox>
+        </Box>
+      ) : (
+        <Box flexGrow={1}>
+          <Text wrap="truncate-end" color={Colors.Gray} italic>
+            Thought for {wordCount} {wordCount === 1 ? 'word' : 'words'}
+            {preview ? ` · ${preview}` : ''}
+          </Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
@@ -55,4 +55,31 @@ describe('ToolConfirmationMessage', () => {
       '- https://raw.githubusercontent.com/google/gemini-react/main/README.md',
     );
   });
+
+  it('should offer to always allow the patterns of an exec call', () => {
+    const confirmationDetails: ToolCallConfirmationDetails = {
+      type: 'exec',
+      title: 'Confirm Shell Command',
+      command: 'git status && npm test',
+      rootCommand: 'git',
+      approvalPatterns: ['npm test'],
+      subcommandPatterns: ['npm test *'],
+      onConfirm: vi.fn(),
+    };
+
+    const { lastFrame } = render(
+      <ToolConfirmationMessage
+        confirmationDetails={confirmationDetails}
+        availableTerminalHeight={30}
+        terminalWidth={80}
+      />,
+    );
+
+    expect(lastFrame()).toContain(
+      'Yes, allow always "npm test" in this project',
+    );
+    expect(lastFrame()).toContain(
+      'Yes, allow always "npm test *" with any arguments in this project',
+    );
+  });
 });
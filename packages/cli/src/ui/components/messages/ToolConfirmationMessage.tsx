@@ -139,11 +139,23 @@ export const ToolConfirmationMessage: React.FC<
         value: ToolConfirmationOutcome.ProceedOnce,
       },
       {
-        label: `Yes, allow always "${executionProps.rootCommand} ..."`,
+        label: executionProps.approvalPatterns
+          ? `Yes, allow always ${executionProps.approvalPatterns
+              .map((pattern) => `"${pattern}"`)
+              .join(', ')} in this project`
+          : `Yes, allow always "${executionProps.rootCommand} ..."`,
         value: ToolConfirmationOutcome.ProceedAlways,
       },
-      { label: 'No (esc)', value: ToolConfirmationOutcome.Cancel },
     );
+    if (executionProps.subcommandPatterns) {
+      options.push({
+        label: `Yes, allow always ${executionProps.subcommandPatterns
+          .map((pattern) => `"${pattern}"`)
+          .join(', ')} with any arguments in this project`,
+        value: ToolConfirmationOutcome.ProceedAlwaysSubcommand,
+      });
+    }
+    options.push({ label: 'No (esc)', value: ToolConfirmationOutcome.Cancel });
 
     let bodyContentHeight = availableBodyContentHeight();
     if (bodyContentHeight !== undefined) {
@@ -54,6 +54,7 @@ describe('useShellCommandProcessor', () => {
 
     configMock = {
       getTargetDir: () => '/test/dir',
+      getShellPty: () => false,
     } as unknown as Config;
 
     geminiClientMock = {
@@ -176,4 +177,53 @@ describe('useShellCommandProcessor', () => {
       text: 'Command exited with code 127.\ncommand not found',
     });
   });
+
+  it('should run the command in a terminal when enabled', async () => {
+    const { isBinary } = await import('../utils/textUtils.js');
+    (isBinary as vi.Mock).mockReturnValue(false);
+    const session = Object.assign(new EventEmitter(), {
+      screen: { toString: () => '\x1b[0;32mok\x1b[0m' },
+      exited: Promise.resolve({ exitCode: 0, signal: null, error: null }),
+      getRawOutput: () => Buffer.from('\x1b[32mok\x1b[0m\r\n'),
+      kill: vi.fn(),
+    });
+    const start = vi.fn().mockReturnValue(session);
+    configMock = {
+      getTargetDir: () => '/test/dir',
+      getShellPty: () => true,
+      getPtyService: () => ({ start }),
+    } as unknown as Config;
+    const { result } = renderProcessorHook();
+
+    act(() => {
+      result.current.handleShellCommand(
+        'npm test',
+        new AbortController().signal,
+      );
+    });
+    act(() => {
+      session.emit('output');
+    });
+    await act(async () => {
+      await onExecMock.mock.calls[0][0];
+    });
+
+    expect(start).toHaveBeenCalledWith(
+      expect.stringContaining('npm test'),
+      '/test/dir',
+    );
+    expect(setPendingHistoryItemMock).toHaveBeenCalledWith({
+      type: 'info',
+      text: '\x1b[0;32mok\x1b[0m',
+    });
+    expect(addItemToHistoryMock.mock.calls[1][0]).toEqual({
+      type: 'info',
+      text: '\x1b[0;32mok\x1b[0m',
+    });
+    expect(geminiClientMock.addHistory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        parts: [{ text: expect.stringContaining('```\nok\n```') }],
+      }),
+    );
+  });
 });
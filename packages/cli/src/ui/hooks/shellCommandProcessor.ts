@@ -8,7 +8,7 @@ import { spawn } from 'child_process';
 import { StringDecoder } from 'string_decoder';
 import type { HistoryItemWithoutId } from '../types.js';
 import { useCallback } from 'react';
-import { Config, GeminiClient } from '@google/gemini-cli-core';
+import { Config, GeminiClient, PtyService } from '@google/gemini-cli-core';
 import { type PartListUnion } from '@google/genai';
 import { formatMemoryUsage } from '../utils/formatters.js';
 import { isBinary } from '../utils/textUtils.js';
@@ -172,6 +172,48 @@ function executeShellCommand(
   });
 }
 
+/**
+ * Executes a shell command in a pseudo-terminal, streaming the rendered
+ * screen. The user can type into the session while it runs (see
+ * `useShellFocus`).
+ *
+ * @param commandToExecute The exact command string to run.
+ * @param cwd The working directory to execute the command in.
+ * @param abortSignal An AbortSignal to terminate the process.
+ * @param onOutputChunk A callback for streaming the rendered screen.
+ * @param onDebugMessage A callback for logging debug information.
+ * @param ptyService The service that starts and tracks terminal sessions.
+ * @returns A promise that resolves with the complete execution result.
+ */
+async function executePtyCommand(
+  commandToExecute: string,
+  cwd: string,
+  abortSignal: AbortSignal,
+  onOutputChunk: (chunk: string) => void,
+  onDebugMessage: (message: string) => void,
+  ptyService: PtyService,
+): Promise<ShellExecutionResult> {
+  const session = ptyService.start(commandToExecute, cwd);
+  session.on('output', () => onOutputChunk(session.screen.toString(true)));
+
+  const abortHandler = () => {
+    onDebugMessage(`Aborting shell command (PID: ${session.pid})`);
+    session.kill();
+  };
+  abortSignal.addEventListener('abort', abortHandler, { once: true });
+  const status = await session.exited;
+  abortSignal.removeEventListener('abort', abortHandler);
+
+  return {
+    rawOutput: session.getRawOutput(),
+    output: session.screen.toString(true),
+    exitCode: status.exitCode,
+    signal: status.signal,
+    error: status.error,
+    aborted: abortSignal.aborted,
+  };
+}
+
 function addShellCommandToGeminiHistory(
   geminiClient: GeminiClient,
   rawQuery: string,
@@ -227,6 +269,7 @@ export const useShellCommandProcessor = (
       );
 
       const isWindows = os.platform() === 'win32';
+      const usePty = !isWindows && config.getShellPty();
       const targetDir = config.getTargetDir();
       let commandToExecute = rawQuery;
       let pwdFilePath: string | undefined;
@@ -246,19 +289,35 @@ export const useShellCommandProcessor = (
       const execPromise = new Promise<void>((resolve) => {
         let lastUpdateTime = 0;
 
+        const onOutputChunk = (streamedOutput: string) => {
+          // Throttle pending UI updates to avoid excessive re-renders. Terminal
+          // sessions batch their updates already and must show prompts at once.
+          if (
+            usePty ||
+            Date.now() - lastUpdateTime > OUTPUT_UPDATE_INTERVAL_MS
+          ) {
+            setPendingHistoryItem({ type: 'info', text: streamedOutput });
+            lastUpdateTime = Date.now();
+          }
+        };
+
         onDebugMessage(`Executing in ${targetDir}: ${commandToExecute}`);
-        executeShellCommand(
-          commandToExecute,
-          targetDir,
-          abortSignal,
-          (streamedOutput) => {
-            // Throttle pending UI updates to avoid excessive re-renders.
-            if (Date.now() - lastUpdateTime > OUTPUT_UPDATE_INTERVAL_MS) {
-              setPendingHistoryItem({ type: 'info', text: streamedOutput });
-              lastUpdateTime = Date.now();
-            }
-          },
-          onDebugMessage,
+        (usePty
+          ? executePtyCommand(
+              commandToExecute,
+              targetDir,
+              abortSignal,
+              onOutputChunk,
+              onDebugMessage,
+              config.getPtyService(),
+            )
+          : executeShellCommand(
+              commandToExecute,
+              targetDir,
+              abortSignal,
+              onOutputChunk,
+              onDebugMessage,
+            )
         )
           .then((result) => {
             // TODO(abhipatel12) - Consider updating pending item and using timeout to ensure
@@ -309,7 +368,11 @@ export const useShellCommandProcessor = (
             );
 
             // Add the same complete, contextual result to the LLM's history.
-            addShellCommandToGeminiHistory(geminiClient, rawQuery, finalOutput);
+            addShellCommandToGeminiHistory(
+              geminiClient,
+              rawQuery,
+              stripAnsi(finalOutput),
+            );
           })
           .catch((err) => {
             setPendingHistoryItem(null);
@@ -60,7 +60,7 @@ import {
   useSlashCommandProcessor,
   type SlashCommandActionReturn,
 } from './slashCommandProcessor.js';
-import { MessageType } from '../types.js';
+import { HistoryItem, MessageType } from '../types.js';
 import {
   Config,
   MCPDiscoveryState,
@@ -68,11 +68,19 @@ import {
   getMCPDiscoveryState,
   getMCPServerStatus,
   GeminiClient,
+  AuthType,
+  OllamaAdminClient,
+  OllamaHostPool,
+  ConversationForks,
+  GitService,
 } from '@google/gemini-cli-core';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import { LoadedSettings } from '../../config/settings.js';
 import * as ShowMemoryCommandModule from './useShowMemoryCommand.js';
 import { GIT_COMMIT_INFO } from '../../generated/git-commit.js';
+import realFs from 'fs';
+import os from 'os';
+import path from 'path';
 
 vi.mock('../contexts/SessionContext.js', () => ({
   useSessionStats: vi.fn(),
@@ -101,6 +109,19 @@ describe('useSlashCommandProcessor', () => {
   let mockSetQuittingMessages: ReturnType<typeof vi.fn>;
   let mockTryCompressChat: ReturnType<typeof vi.fn>;
   let mockGeminiClient: GeminiClient;
+  let mockShellJobService: {
+    list: Mock;
+    get: Mock;
+    readOutput: Mock;
+    kill: Mock;
+    killAll: Mock;
+  };
+  let mockFileChangeJournal: {
+    getUndoEntries: Mock;
+    getRedoEntries: Mock;
+    undo: Mock;
+    redo: Mock;
+  };
   let mockConfig: Config;
   let mockCorgiMode: ReturnType<typeof vi.fn>;
   const mockUseSessionStats = useSessionStats as Mock;
@@ -120,7 +141,22 @@ describe('useSlashCommandProcessor', () => {
     mockTryCompressChat = vi.fn();
     mockGeminiClient = {
       tryCompressChat: mockTryCompressChat,
+      addHistory: vi.fn(),
+      isInitialized: vi.fn(() => false),
     } as unknown as GeminiClient;
+    mockShellJobService = {
+      list: vi.fn(() => []),
+      get: vi.fn(),
+      readOutput: vi.fn(),
+      kill: vi.fn(),
+      killAll: vi.fn().mockResolvedValue(undefined),
+    };
+    mockFileChangeJournal = {
+      getUndoEntries: vi.fn(() => []),
+      getRedoEntries: vi.fn(() => []),
+      undo: vi.fn(),
+      redo: vi.fn(),
+    };
     mockConfig = {
       getDebugMode: vi.fn(() => false),
       getGeminiClient: () => mockGeminiClient,
@@ -129,6 +165,10 @@ describe('useSlashCommandProcessor', () => {
       getProjectRoot: vi.fn(() => '/test/dir'),
       getCheckpointingEnabled: vi.fn(() => true),
       getBugCommand: vi.fn(() => undefined),
+      getShellJobService: vi.fn(() => mockShellJobService),
+      getFileChangeJournal: vi.fn(() => mockFileChangeJournal),
+      getTargetDir: vi.fn(() => '/test/dir'),
+      getSessionId: vi.fn(() => 'test-session-id'),
     } as unknown as Config;
     mockCorgiMode = vi.fn();
     mockUseSessionStats.mockReturnValue({
@@ -184,6 +224,35 @@ describe('useSlashCommandProcessor', () => {
   const getProcessor = (showToolDescriptions: boolean = false) =>
     getProcessorHook(showToolDescriptions).result.current;
 
+  const getProcessorWithHistory = (
+    items: HistoryItem[],
+    startPromptEdit = vi.fn(),
+  ) =>
+    renderHook(() =>
+      useSlashCommandProcessor(
+        mockConfig,
+        { merged: {} } as LoadedSettings,
+        items,
+        mockAddItem,
+        mockClearItems,
+        mockLoadHistory,
+        mockRefreshStatic,
+        mockSetShowHelp,
+        mockOnDebugMessage,
+        mockOpenThemeDialog,
+        mockOpenAuthDialog,
+        mockOpenEditorDialog,
+        vi.fn(),
+        mockPerformMemoryRefresh,
+        mockCorgiMode,
+        false,
+        mockSetQuittingMessages,
+        vi.fn(),
+        vi.fn(),
+        startPromptEdit,
+      ),
+    ).result;
+
   describe('/memory add', () => {
     it('should return tool scheduling info on valid input', async () => {
       const { handleSlashCommand } = getProcessor();
@@ -639,6 +708,613 @@ describe('useSlashCommandProcessor', () => {
     );
   });
 
+  describe('/jobs command', () => {
+    const sleeper = {
+      id: '1',
+      name: 'sleeper',
+      command: 'sleep 30',
+      pid: 42,
+      status: 'running',
+      exitCode: null,
+      signal: null,
+      startTime: 0,
+      lineCount: 1,
+    };
+
+    it('should list background jobs', async () => {
+      mockShellJobService.list.mockReturnValue([sleeper]);
+      const { handleSlashCommand } = getProcessor();
+
+      await act(async () => {
+        handleSlashCommand('/jobs');
+      });
+
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: 'Background jobs:\n[1] sleeper (running, pid 42): sleep 30',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should show the output of a job', async () => {
+      mockShellJobService.get.mockReturnValue(sleeper);
+      mockShellJobService.readOutput.mockReturnValue({
+        lines: ['zzz'],
+        fromLine: 0,
+        nextLine: 1,
+        droppedLines: 0,
+      });
+      const { handleSlashCommand } = getProcessor();
+
+      await act(async () => {
+        handleSlashCommand('/jobs output sleeper 5');
+      });
+
+      expect(mockShellJobService.readOutput).toHaveBeenCalledWith(
+        '1',
+        undefined,
+        5,
+      );
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          text: '[1] sleeper (running, pid 42): sleep 30\nzzz',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should report jobs that cannot be killed', async () => {
+      mockShellJobService.kill.mockResolvedValue(false);
+      const { handleSlashCommand } = getProcessor();
+
+      await act(async () => {
+        handleSlashCommand('/jobs kill 7');
+      });
+
+      expect(mockShellJobService.kill).toHaveBeenCalledWith('7');
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'No running background job "7".',
+        }),
+        expect.any(Number),
+      );
+    });
+  });
+
+  describe('/chat browse', () => {
+    it('should open the session browser', async () => {
+      const openSessionBrowser = vi.fn();
+      const { result } = renderHook(() =>
+        useSlashCommandProcessor(
+          mockConfig,
+          { merged: {} } as LoadedSettings,
+          [],
+          mockAddItem,
+          mockClearItems,
+          mockLoadHistory,
+          mockRefreshStatic,
+          mockSetShowHelp,
+          mockOnDebugMessage,
+          mockOpenThemeDialog,
+          mockOpenAuthDialog,
+          mockOpenEditorDialog,
+          vi.fn(),
+          mockPerformMemoryRefresh,
+          mockCorgiMode,
+          false,
+          mockSetQuittingMessages,
+          vi.fn(),
+          openSessionBrowser,
+        ),
+      );
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/chat browse');
+      });
+
+      expect(openSessionBrowser).toHaveBeenCalled();
+    });
+  });
+
+  describe('/export', () => {
+    const history: HistoryItem[] = [
+      { id: 1, type: 'user', text: 'Hello' },
+      { id: 2, type: 'gemini', text: 'Hi there' },
+    ];
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = realFs.mkdtempSync(path.join(os.tmpdir(), 'export-test-'));
+      vi.mocked(mockConfig.getTargetDir).mockReturnValue(tempDir);
+      mockGeminiClient.getHistory = vi.fn().mockResolvedValue([
+        { role: 'user', parts: [{ text: 'context' }] },
+        { role: 'model', parts: [{ text: 'Got it.' }] },
+        { role: 'user', parts: [{ text: 'Hello' }] },
+      ]);
+    });
+
+    afterEach(() => {
+      realFs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should write the conversation in the requested format', async () => {
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/export json out/chat.json');
+      });
+
+      const filePath = path.join(tempDir, 'out', 'chat.json');
+      const exported = JSON.parse(realFs.readFileSync(filePath, 'utf-8'));
+      expect(exported).toMatchObject({
+        title: 'Hello',
+        sessionId: 'test-session-id',
+        history,
+        clientHistory: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+      });
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: `Conversation exported to ${filePath}`,
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should reject unknown formats', async () => {
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/export pdf');
+      });
+
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Unknown export format: pdf\nUsage: /export <md|html|json> [path]',
+        }),
+        expect.any(Number),
+      );
+      expect(realFs.readdirSync(tempDir)).toEqual([]);
+    });
+  });
+
+  describe('/rewind and /fork commands', () => {
+    const preamble = [
+      { role: 'user', parts: [{ text: 'context' }] },
+      { role: 'model', parts: [{ text: 'Got it.' }] },
+    ];
+    const clientHistory = [
+      ...preamble,
+      { role: 'user', parts: [{ text: 'First' }] },
+      { role: 'model', parts: [{ text: 'One' }] },
+      { role: 'user', parts: [{ text: 'Second' }] },
+      { role: 'model', parts: [{ text: 'Two' }] },
+    ];
+    const history: HistoryItem[] = [
+      {
+        id: 1,
+        type: 'user',
+        text: 'First',
+        rewindPoint: { clientHistoryLength: 2 },
+      },
+      { id: 2, type: 'gemini', text: 'One' },
+      { id: 3, type: 'user', text: '/stats' },
+      {
+        id: 4,
+        type: 'user',
+        text: 'Second',
+        rewindPoint: { clientHistoryLength: 4 },
+      },
+      { id: 5, type: 'gemini', text: 'Two' },
+    ];
+    let forks: ConversationForks;
+
+    beforeEach(() => {
+      forks = new ConversationForks();
+      (
+        mockConfig as unknown as {
+          getConversationForks: () => ConversationForks;
+        }
+      ).getConversationForks = () => forks;
+      mockGeminiClient.getHistory = vi.fn().mockResolvedValue(clientHistory);
+      mockGeminiClient.setHistory = vi.fn();
+    });
+
+    it('should list the turns that can be rewound to', async () => {
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/rewind');
+      });
+
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: 'Turns of this conversation:\n  1. First\n  2. Second\n\nUsage: /rewind <turn> [fork name] [--files]',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should rewind both histories and keep the abandoned turns as a fork', async () => {
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/rewind 2 idea');
+      });
+
+      expect(mockGeminiClient.setHistory).toHaveBeenCalledWith(
+        clientHistory.slice(0, 4),
+      );
+      expect(mockLoadHistory).toHaveBeenCalledWith(history.slice(0, 3));
+      expect(forks.get('idea')).toMatchObject({
+        uiHistory: history,
+        clientHistory,
+        commitHash: undefined,
+      });
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: 'Rewound to before turn 2. The abandoned turns are kept as fork "idea"; use /fork switch idea to return to them.',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should not replace an existing fork of the same name', async () => {
+      const fork = {
+        name: 'idea',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        uiHistory: [],
+        clientHistory: preamble,
+      };
+      forks.add(fork);
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/rewind 2 idea');
+      });
+
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'A fork named "idea" already exists. Choose another name or delete it with /fork delete idea.',
+        }),
+        expect.any(Number),
+      );
+      expect(forks.get('idea')).toBe(fork);
+      expect(mockGeminiClient.setHistory).not.toHaveBeenCalled();
+    });
+
+    it('should not restore files that were not snapshotted', async () => {
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/rewind 1 --files');
+      });
+
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Cannot restore the files of turn 1: checkpointing was off for it or a later turn.',
+        }),
+        expect.any(Number),
+      );
+      expect(mockGeminiClient.setHistory).not.toHaveBeenCalled();
+      expect(forks.list()).toEqual([]);
+    });
+
+    it('should restore the files from the next snapshot taken', async () => {
+      const createFileSnapshot = vi
+        .spyOn(GitService.prototype, 'createFileSnapshot')
+        .mockResolvedValue('current');
+      const restoreProjectFromSnapshot = vi
+        .spyOn(GitService.prototype, 'restoreProjectFromSnapshot')
+        .mockResolvedValue();
+      const result = getProcessorWithHistory([
+        {
+          ...history[0],
+          rewindPoint: { clientHistoryLength: 2, checkpointing: true },
+        } as HistoryItem,
+        ...history.slice(1, 3),
+        {
+          ...history[3],
+          rewindPoint: {
+            clientHistoryLength: 4,
+            checkpointing: true,
+            commitHash: 'before-second',
+          },
+        } as HistoryItem,
+        history[4],
+      ]);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/rewind 1 --files');
+      });
+
+      expect(createFileSnapshot).toHaveBeenCalledWith('Fork fork-1');
+      expect(restoreProjectFromSnapshot).toHaveBeenCalledWith('before-second');
+      expect(forks.get('fork-1')).toMatchObject({ commitHash: 'current' });
+    });
+
+    it('should switch to a fork and keep the current conversation', async () => {
+      const forkHistory: HistoryItem[] = [
+        {
+          id: 9,
+          type: 'user',
+          text: 'Other',
+          rewindPoint: { clientHistoryLength: 2 },
+        },
+      ];
+      const forkClientHistory = [
+        ...preamble,
+        { role: 'user', parts: [{ text: 'Other' }] },
+      ];
+      forks.add({
+        name: 'fork-1',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        uiHistory: forkHistory,
+        clientHistory: forkClientHistory,
+      });
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/fork switch fork-1');
+      });
+
+      expect(mockGeminiClient.setHistory).toHaveBeenCalledWith(
+        forkClientHistory,
+      );
+      expect(mockLoadHistory).toHaveBeenCalledWith(forkHistory);
+      expect(forks.list().map((fork) => fork.name)).toEqual(['fork-2']);
+      expect(forks.get('fork-2')?.uiHistory).toBe(history);
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: 'Switched to fork "fork-1". The previous conversation is kept as fork "fork-2".',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should keep the fork when switching to it fails', async () => {
+      const fork = {
+        name: 'idea',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        uiHistory: [],
+        clientHistory: preamble,
+      };
+      forks.add(fork);
+      mockGeminiClient.setHistory = vi
+        .fn()
+        .mockRejectedValue(new Error('boom'));
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/fork switch idea');
+      });
+
+      expect(forks.get('idea')).toBe(fork);
+      expect(mockLoadHistory).not.toHaveBeenCalled();
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Failed to switch forks: boom',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should pin a turn and unpin it by its place in the pin list', async () => {
+      mockGeminiClient.pinTurn = vi.fn().mockReturnValue(true);
+      mockGeminiClient.unpinTurn = vi.fn();
+      mockGeminiClient.getPinnedTurns = vi
+        .fn()
+        .mockReturnValue([clientHistory[4]]);
+      const result = getProcessorWithHistory(history);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/pin 2');
+      });
+      await act(async () => {
+        await result.current.handleSlashCommand('/unpin 1');
+      });
+
+      expect(mockGeminiClient.pinTurn).toHaveBeenCalledWith(4);
+      expect(mockGeminiClient.unpinTurn).toHaveBeenCalledWith(clientHistory[4]);
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: 'Pinned turn 2. Compressing the context will keep it verbatim.',
+        }),
+        expect.any(Number),
+      );
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        4,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: 'Unpinned "Second".',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should start editing the last prompt by default', async () => {
+      const startPromptEdit = vi.fn();
+      const result = getProcessorWithHistory(history, startPromptEdit);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/edit');
+      });
+      await act(async () => {
+        await result.current.handleSlashCommand('/edit 1');
+      });
+
+      expect(startPromptEdit).toHaveBeenNthCalledWith(1, {
+        turn: 2,
+        text: 'Second',
+      });
+      expect(startPromptEdit).toHaveBeenNthCalledWith(2, {
+        turn: 1,
+        text: 'First',
+      });
+      expect(mockGeminiClient.setHistory).not.toHaveBeenCalled();
+    });
+
+    it('should not edit turns from before a compression', async () => {
+      const startPromptEdit = vi.fn();
+      const result = getProcessorWithHistory(
+        [
+          ...history,
+          {
+            id: 6,
+            type: 'compression',
+            compression: {
+              isPending: false,
+              originalTokenCount: 100,
+              newTokenCount: 10,
+            },
+          },
+        ],
+        startPromptEdit,
+      );
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/edit 2');
+      });
+
+      expect(startPromptEdit).not.toHaveBeenCalled();
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Cannot edit turn 2: the conversation was compressed or the model switched since.',
+        }),
+        expect.any(Number),
+      );
+    });
+
+    it('should not rewind to turns from before a model switch', async () => {
+      const result = getProcessorWithHistory([
+        ...history,
+        {
+          id: 6,
+          type: 'model_switch',
+          fromModel: 'model-a',
+          toModel: 'model-b',
+        },
+      ]);
+
+      await act(async () => {
+        await result.current.handleSlashCommand('/rewind 2');
+      });
+
+      expect(mockGeminiClient.setHistory).not.toHaveBeenCalled();
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Cannot rewind to turn 2: the conversation was compressed or the model switched since.',
+        }),
+        expect.any(Number),
+      );
+    });
+  });
+
+  describe('/undo and /redo commands', () => {
+    const entry = {
+      callId: 'call-1',
+      toolName: 'replace',
+      changes: [
+        { filePath: '/test/dir/src/a.ts', before: 'a', after: 'b' },
+        { filePath: '/test/dir/src/new.ts', before: null, after: 'new' },
+      ],
+    };
+
+    it('should revert the last changes and tell the model', async () => {
+      mockFileChangeJournal.getUndoEntries.mockReturnValue([entry]);
+      mockFileChangeJournal.undo.mockResolvedValue({ entries: [entry] });
+      const { handleSlashCommand } = getProcessor();
+
+      await act(async () => {
+        handleSlashCommand('/undo 2');
+      });
+
+      expect(mockFileChangeJournal.undo).toHaveBeenCalledWith(2);
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: 'Reverted the changes of 1 tool call:\nreplace: src/a.ts, src/new.ts (created)',
+        }),
+        expect.any(Number),
+      );
+      expect(mockGeminiClient.addHistory).toHaveBeenCalledWith({
+        role: 'user',
+        parts: [
+          {
+            text: 'I reverted these file changes:\nreplace: src/a.ts, src/new.ts (created)',
+          },
+        ],
+      });
+    });
+
+    it('should report files changed outside the session', async () => {
+      mockFileChangeJournal.getRedoEntries.mockReturnValue([entry]);
+      mockFileChangeJournal.redo.mockResolvedValue({
+        entries: [],
+        conflict: { entry, filePath: '/test/dir/src/a.ts' },
+      });
+      const { handleSlashCommand } = getProcessor();
+
+      await act(async () => {
+        handleSlashCommand('/redo');
+      });
+
+      expect(mockFileChangeJournal.redo).toHaveBeenCalledWith(1);
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'Cannot redo replace: src/a.ts, src/new.ts (created): src/a.ts was changed since.',
+        }),
+        expect.any(Number),
+      );
+      expect(mockGeminiClient.addHistory).not.toHaveBeenCalled();
+    });
+
+    it('should say when there is nothing to undo', async () => {
+      const { handleSlashCommand } = getProcessor();
+
+      await act(async () => {
+        handleSlashCommand('/undo');
+      });
+
+      expect(mockFileChangeJournal.undo).not.toHaveBeenCalled();
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ text: 'Nothing to undo.' }),
+        expect.any(Number),
+      );
+    });
+  });
+
   describe('Unknown command', () => {
     it('should show an error and return true for a general unknown command', async () => {
       const { handleSlashCommand } = getProcessor();
@@ -1305,4 +1981,192 @@ describe('useSlashCommandProcessor', () => {
       );
     });
   });
+
+  describe('/model command', () => {
+    let mockOpenModelDialog: ReturnType<typeof vi.fn>;
+
+    const getOllamaProcessorHook = () => {
+      mockOpenModelDialog = vi.fn();
+      const settings = {
+        merged: {
+          selectedAuthType: AuthType.USE_OLLAMA,
+          ollamaHost: 'http://ollama:11434',
+        },
+      } as LoadedSettings;
+      return renderHook(() =>
+        useSlashCommandProcessor(
+          mockConfig,
+          settings,
+          [],
+          mockAddItem,
+          mockClearItems,
+          mockLoadHistory,
+          mockRefreshStatic,
+          mockSetShowHelp,
+          mockOnDebugMessage,
+          mockOpenThemeDialog,
+          mockOpenAuthDialog,
+          mockOpenEditorDialog,
+          mockOpenModelDialog,
+          mockPerformMemoryRefresh,
+          mockCorgiMode,
+          false,
+          mockSetQuittingMessages,
+          vi.fn(),
+        ),
+      );
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should open the model selector without a subcommand', async () => {
+      const hook = getOllamaProcessorHook();
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/model');
+      });
+      expect(mockOpenModelDialog).toHaveBeenCalled();
+    });
+
+    it('should show model info for the active model by default', async () => {
+      const showModel = vi
+        .spyOn(OllamaAdminClient.prototype, 'showModel')
+        .mockResolvedValue({ details: { quantization_level: 'Q4_K_M' } });
+      const hook = getOllamaProcessorHook();
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/model info');
+      });
+      expect(showModel).toHaveBeenCalledWith('test-model');
+      expect(mockAddItem).toHaveBeenLastCalledWith(
+        {
+          type: MessageType.INFO,
+          text: 'Model: test-model\n  Quantization: Q4_K_M',
+        },
+        expect.any(Number),
+      );
+    });
+
+    it('should copy models on the chosen host and refresh the host pool', async () => {
+      let copiedOn: string | undefined;
+      const copyModel = vi
+        .spyOn(OllamaAdminClient.prototype, 'copyModel')
+        .mockImplementation(async function (this: OllamaAdminClient) {
+          copiedOn = this.host;
+        });
+      const pool = Object.create(OllamaHostPool.prototype) as OllamaHostPool;
+      pool.refresh = vi.fn().mockResolvedValue(undefined);
+      mockGeminiClient.isInitialized = vi.fn(() => true);
+      mockGeminiClient.getContentGenerator = vi.fn(() => pool);
+      const hook = getOllamaProcessorHook();
+      await act(async () => {
+        await hook.result.current.handleSlashCommand(
+          '/model copy qwen3:1.7b my-qwen --host http://box-b:11434',
+        );
+      });
+      expect(copyModel).toHaveBeenCalledWith('qwen3:1.7b', 'my-qwen');
+      expect(copiedOn).toBe('http://box-b:11434');
+      expect(pool.refresh).toHaveBeenCalled();
+      expect(mockAddItem).toHaveBeenLastCalledWith(
+        {
+          type: MessageType.INFO,
+          text: 'Copied model qwen3:1.7b to my-qwen on http://box-b:11434.',
+        },
+        expect.any(Number),
+      );
+    });
+
+    it('should report errors from Ollama', async () => {
+      vi.spyOn(OllamaAdminClient.prototype, 'deleteModel').mockRejectedValue(
+        new Error("Ollama API error: 404 model 'nope' not found"),
+      );
+      const hook = getOllamaProcessorHook();
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/model rm nope');
+      });
+      expect(mockAddItem).toHaveBeenLastCalledWith(
+        {
+          type: MessageType.ERROR,
+          text: "Failed to run /model rm: Ollama API error: 404 model 'nope' not found",
+        },
+        expect.any(Number),
+      );
+    });
+
+    it('should cancel a pull in progress', async () => {
+      const hook = getOllamaProcessorHook();
+      let pullSignal: AbortSignal | undefined;
+      vi.spyOn(OllamaAdminClient.prototype, 'pullModel').mockImplementation(
+        async function* (_model: string, signal?: AbortSignal) {
+          pullSignal = signal;
+          yield { status: 'pulling abc', total: 200, completed: 50 };
+          await new Promise((_resolve, reject) =>
+            signal?.addEventListener('abort', () =>
+              reject(new Error('This operation was aborted')),
+            ),
+          );
+        },
+      );
+
+      let pull: Promise<unknown> | undefined;
+      await act(async () => {
+        pull = hook.result.current.handleSlashCommand('/model pull qwen3:1.7b');
+      });
+      await act(async () => {
+        await hook.result.current.handleSlashCommand('/model pull --cancel');
+        await pull;
+      });
+
+      expect(pullSignal?.aborted).toBe(true);
+      expect(mockAddItem).toHaveBeenLastCalledWith(
+        {
+          type: MessageType.INFO,
+          text: 'Cancelled pulling model qwen3:1.7b.',
+        },
+        expect.any(Number),
+      );
+    });
+
+    it('should show pull progress while pulling a model', async () => {
+      const hook = getOllamaProcessorHook();
+      vi.spyOn(OllamaAdminClient.prototype, 'pullModel').mockImplementation(
+        async function* () {
+          yield { status: 'pulling abc', total: 200, completed: 50 };
+          await act(async () => {
+            hook.rerender();
+          });
+          expect(hook.result.current.pendingHistoryItems).toContainEqual({
+            type: MessageType.MODEL_PULL,
+            modelPull: {
+              model: 'qwen3:1.7b',
+              status: 'pulling abc',
+              total: 200,
+              completed: 50,
+              isPending: true,
+            },
+          });
+          yield { status: 'success' };
+        },
+      );
+
+      await act(async () => {
+        hook.result.current.handleSlashCommand('/model pull qwen3:1.7b');
+      });
+      await act(async () => {
+        hook.rerender();
+      });
+      expect(hook.result.current.pendingHistoryItems).toEqual([]);
+      expect(mockAddItem).toHaveBeenLastCalledWith(
+        {
+          type: 'model_pull',
+          modelPull: {
+            model: 'qwen3:1.7b',
+            status: 'success',
+            isPending: false,
+          },
+        },
+        expect.any(Number),
+      );
+    });
+  });
 });
@@ -4,8 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { useCallback, useMemo } from 'react';
-import { type PartListUnion } from '@google/genai';
+import { useCallback, useMemo, useRef } from 'react';
+import { type Content, type PartListUnion } from '@google/genai';
 import open from 'open';
 import process from 'node:process';
 import { UseHistoryManagerReturn } from './useHistoryManager.js';
@@ -19,6 +19,11 @@ import {
   getMCPDiscoveryState,
   getMCPServerStatus,
   AuthType,
+  DEFAULT_OLLAMA_HOST,
+  OllamaAdminClient,
+  OllamaHostPool,
+  formatShellJob,
+  formatFileChangeEntry,
 } from '@google/gemini-cli-core';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import {
@@ -26,14 +31,100 @@ import {
   MessageType,
   HistoryItemWithoutId,
   HistoryItem,
+  PromptEdit,
 } from '../types.js';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { createShowMemoryAction } from './useShowMemoryCommand.js';
 import { GIT_COMMIT_INFO } from '../../generated/git-commit.js';
 import { formatDuration, formatMemoryUsage } from '../utils/formatters.js';
+import { formatOllamaModelInfo } from '../utils/ollamaModelInfo.js';
 import { getCliVersion } from '../../utils/version.js';
 import { LoadedSettings } from '../../config/settings.js';
+import {
+  EXPORT_FORMATS,
+  formatConversation,
+} from '../utils/conversationExport.js';
+import { getSessionTitle } from './useSessionPersistence.js';
+
+type HistoryItemPrompt = Extract<HistoryItem, { type: 'user' }>;
+
+const REWIND_USAGE = '/rewind <turn> [fork name] [--files]';
+const FORK_USAGE = '/fork <list|switch|delete> [name] [--files]';
+const PIN_USAGE = '/pin [turn]';
+
+/** The prompts sent to the model, which are the turns /rewind can go back to. */
+function getRewindableTurns(history: HistoryItem[]): HistoryItemPrompt[] {
+  return history.filter(
+    (item): item is HistoryItemPrompt =>
+      item.type === 'user' && item.rewindPoint !== undefined,
+  );
+}
+
+/**
+ * Whether the model's history no longer has this turn where it was sent.
+ * Compressing rewrites the history, and switching models re-seeds it, so the
+ * recorded history lengths no longer line up.
+ */
+function isRewrittenSince(history: HistoryItem[], item: HistoryItem): boolean {
+  return history
+    .slice(history.indexOf(item))
+    .some(
+      (later) => later.type === 'compression' || later.type === 'model_switch',
+    );
+}
+
+/**
+ * The snapshot to restore the project files to before a turn. Snapshots are
+ * only taken before a turn's first file change, so a turn without one left the
+ * files as the next snapshot found them, or as they are now if there is none.
+ * Undefined if a turn since was sent with checkpointing off.
+ */
+function findFileSnapshot(
+  turns: HistoryItemPrompt[],
+  from: number,
+): { commitHash?: string } | undefined {
+  for (const { rewindPoint } of turns.slice(from)) {
+    if (rewindPoint?.commitHash) {
+      return { commitHash: rewindPoint.commitHash };
+    }
+    if (!rewindPoint?.checkpointing) {
+      return undefined;
+    }
+  }
+  return {};
+}
+
+function getPromptText(prompt: Content): string {
+  return (prompt.parts ?? []).map((part) => part.text ?? '').join('');
+}
+
+function describePrompt(text: string): string {
+  const firstLine = text.trim().split('\n')[0];
+  return firstLine.length > 60 ? `${firstLine.slice(0, 59)}…` : firstLine;
+}
+
+/** Splits `[name] [--files]` arguments. */
+function parseForkArgs(args?: string): { name?: string; files: boolean } {
+  const words = (args ?? '').trim().split(/\s+/).filter(Boolean);
+  return {
+    name: words.filter((word) => word !== '--files').join(' ') || undefined,
+    files: words.includes('--files'),
+  };
+}
+
+/** Splits `--host <url>` off the arguments of the /model subcommands. */
+function parseHostArgs(args?: string): { names: string[]; host?: string } {
+  const words = (args ?? '').trim().split(/\s+/).filter(Boolean);
+  const index = words.indexOf('--host');
+  if (index === -1) {
+    return { names: words };
+  }
+  return {
+    names: [...words.slice(0, index), ...words.slice(index + 2)],
+    host: words[index + 1] ?? '',
+  };
+}
 
 export interface SlashCommandActionReturn {
   shouldScheduleTool?: boolean;
@@ -79,6 +170,8 @@ export const useSlashCommandProcessor = (
   showToolDescriptions: boolean = false,
   setQuittingMessages: (message: HistoryItem[]) => void,
   openPrivacyNotice: () => void,
+  openSessionBrowser: () => void,
+  startPromptEdit: (edit: PromptEdit) => void,
 ) => {
   const session = useSessionStats();
   const gitService = useMemo(() => {
@@ -94,6 +187,12 @@ export const useSlashCommandProcessor = (
   if (pendingCompressionItemRef.current != null) {
     pendingHistoryItems.push(pendingCompressionItemRef.current);
   }
+  const [pendingModelPullItemRef, setPendingModelPullItem] =
+    useStateAndRef<HistoryItemWithoutId | null>(null);
+  if (pendingModelPullItemRef.current != null) {
+    pendingHistoryItems.push(pendingModelPullItemRef.current);
+  }
+  const modelPullAbortControllerRef = useRef<AbortController | null>(null);
 
   const addMessage = useCallback(
     (message: Message) => {
@@ -132,6 +231,11 @@ export const useSlashCommandProcessor = (
           type: 'compression',
           compression: message.compression,
         };
+      } else if (message.type === MessageType.MODEL_PULL) {
+        historyItemContent = {
+          type: 'model_pull',
+          modelPull: message.modelPull,
+        };
       } else {
         historyItemContent = {
           type: message.type,
@@ -195,6 +299,374 @@ export const useSlashCommandProcessor = (
     }
   }, [config]);
 
+  const ollamaAdminClient = useMemo(
+    () =>
+      new OllamaAdminClient(
+        settings.merged.ollamaHosts?.[0] ||
+          settings.merged.ollamaHost ||
+          process.env.OLLAMA_HOST ||
+          DEFAULT_OLLAMA_HOST,
+      ),
+    [settings.merged.ollamaHosts, settings.merged.ollamaHost],
+  );
+
+  const installedOllamaModels = useCallback(async () => {
+    try {
+      return (await ollamaAdminClient.listModels()).map((model) => model.name);
+    } catch (_err) {
+      return [];
+    }
+  }, [ollamaAdminClient]);
+
+  // Models changed by /model are picked up by the host pool at once rather
+  // than when it next lists the models of its hosts.
+  const refreshOllamaHostPool = useCallback(async () => {
+    const client = config?.getGeminiClient();
+    const generator = client?.isInitialized()
+      ? client.getContentGenerator()
+      : undefined;
+    if (generator instanceof OllamaHostPool) {
+      try {
+        await generator.refresh();
+      } catch (e) {
+        onDebugMessage(
+          `Failed to refresh the Ollama hosts: ${e instanceof Error ? e.message : String(e)}`,
+        );
+      }
+    }
+  }, [config, onDebugMessage]);
+
+  const pullOllamaModel = useCallback(
+    async (model: string, adminClient: OllamaAdminClient) => {
+      if (pendingModelPullItemRef.current !== null) {
+        addMessage({
+          type: MessageType.ERROR,
+          content:
+            'Already pulling a model, wait for it to complete or cancel it with /model pull --cancel',
+          timestamp: new Date(),
+        });
+        return;
+      }
+      setPendingModelPullItem({
+        type: MessageType.MODEL_PULL,
+        modelPull: { model, status: 'starting', isPending: true },
+      });
+      const abortController = new AbortController();
+      modelPullAbortControllerRef.current = abortController;
+      try {
+        let lastUpdate = '';
+        for await (const progress of adminClient.pullModel(
+          model,
+          abortController.signal,
+        )) {
+          // Ollama reports progress many times per second; only re-render
+          // when the status or the whole percentage changes.
+          const percent = progress.total
+            ? Math.floor(((progress.completed ?? 0) / progress.total) * 100)
+            : undefined;
+          const update = `${progress.status}:${percent}`;
+          if (update === lastUpdate) {
+            continue;
+          }
+          lastUpdate = update;
+          setPendingModelPullItem({
+            type: MessageType.MODEL_PULL,
+            modelPull: {
+              model,
+              status: progress.status,
+              completed: progress.completed,
+              total: progress.total,
+              isPending: true,
+            },
+          });
+        }
+        addMessage({
+          type: MessageType.MODEL_PULL,
+          modelPull: { model, status: 'success', isPending: false },
+          timestamp: new Date(),
+        });
+        await refreshOllamaHostPool();
+      } catch (e) {
+        addMessage(
+          abortController.signal.aborted
+            ? {
+                type: MessageType.INFO,
+                content: `Cancelled pulling model ${model}.`,
+                timestamp: new Date(),
+              }
+            : {
+                type: MessageType.ERROR,
+                content: `Failed to pull model ${model}: ${e instanceof Error ? e.message : String(e)}`,
+                timestamp: new Date(),
+              },
+        );
+      }
+      modelPullAbortControllerRef.current = null;
+      setPendingModelPullItem(null);
+    },
+    [
+      addMessage,
+      refreshOllamaHostPool,
+      pendingModelPullItemRef,
+      setPendingModelPullItem,
+    ],
+  );
+
+  const moveFileChanges = useCallback(
+    async (direction: 'undo' | 'redo', countArg?: string) => {
+      const journal = config?.getFileChangeJournal();
+      if (!journal) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Nothing to ${direction}.`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+      const count = countArg === undefined ? 1 : Number(countArg);
+      if (!Number.isInteger(count) || count < 1) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Usage: /${direction} [count]`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+      const available =
+        direction === 'undo'
+          ? journal.getUndoEntries()
+          : journal.getRedoEntries();
+      if (available.length === 0) {
+        addMessage({
+          type: MessageType.INFO,
+          content: `Nothing to ${direction}.`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      const rootDirectory = config!.getTargetDir();
+      let result;
+      try {
+        result =
+          direction === 'undo'
+            ? await journal.undo(count)
+            : await journal.redo(count);
+      } catch (e) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Failed to ${direction} file changes: ${e instanceof Error ? e.message : String(e)}`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      const summaries = result.entries.map((entry) =>
+        formatFileChangeEntry(entry, rootDirectory),
+      );
+      if (summaries.length > 0) {
+        const verb = direction === 'undo' ? 'Reverted' : 'Re-applied';
+        addMessage({
+          type: MessageType.INFO,
+          content: `${verb} the changes of ${summaries.length} tool call${summaries.length === 1 ? '' : 's'}:\n${summaries.join('\n')}`,
+          timestamp: new Date(),
+        });
+        // Tell the model, so it does not rely on file contents it has seen.
+        await config?.getGeminiClient()?.addHistory({
+          role: 'user',
+          parts: [
+            {
+              text: `I ${direction === 'undo' ? 'reverted' : 're-applied'} these file changes:\n${summaries.join('\n')}`,
+            },
+          ],
+        });
+      }
+      if (result.conflict) {
+        const { entry, filePath } = result.conflict;
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Cannot ${direction} ${formatFileChangeEntry(entry, rootDirectory)}: ${path.relative(rootDirectory, filePath)} was changed since.`,
+          timestamp: new Date(),
+        });
+      }
+    },
+    [config, addMessage],
+  );
+
+  /** Keeps the current conversation, and optionally the files, as a fork. */
+  const saveCurrentAsFork = useCallback(
+    async (name: string, files: boolean) => {
+      let commitHash: string | undefined;
+      if (files && gitService) {
+        commitHash =
+          (await gitService.createFileSnapshot(`Fork ${name}`)) ||
+          (await gitService.getCurrentCommitHash());
+      }
+      config!.getConversationForks().add<HistoryItem>({
+        name,
+        createdAt: new Date().toISOString(),
+        uiHistory: history,
+        clientHistory: await config!.getGeminiClient().getHistory(),
+        commitHash,
+      });
+    },
+    [config, gitService, history],
+  );
+
+  const rewindConversation = useCallback(
+    async (turnArg?: string, args?: string): Promise<boolean> => {
+      const turns = getRewindableTurns(history);
+      if (!turnArg) {
+        addMessage({
+          type: MessageType.INFO,
+          content:
+            turns.length === 0
+              ? 'No turns to rewind to.'
+              : `Turns of this conversation:\n${turns
+                  .map(
+                    (item, index) =>
+                      `  ${index + 1}. ${describePrompt(item.text)}`,
+                  )
+                  .join('\n')}\n\nUsage: ${REWIND_USAGE}`,
+          timestamp: new Date(),
+        });
+        return false;
+      }
+      const turn = Number(turnArg);
+      const target = Number.isInteger(turn) ? turns[turn - 1] : undefined;
+      if (!target?.rewindPoint) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `No turn ${turnArg}. Use /rewind to list the turns.`,
+          timestamp: new Date(),
+        });
+        return false;
+      }
+      const index = history.indexOf(target);
+      if (isRewrittenSince(history, target)) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Cannot rewind to turn ${turn}: the conversation was compressed or the model switched since.`,
+          timestamp: new Date(),
+        });
+        return false;
+      }
+      const { clientHistoryLength } = target.rewindPoint;
+      const forks = config!.getConversationForks();
+      const { name = forks.nextName(), files } = parseForkArgs(args);
+      if (forks.get(name)) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `A fork named "${name}" already exists. Choose another name or delete it with /fork delete ${name}.`,
+          timestamp: new Date(),
+        });
+        return false;
+      }
+      const snapshot = findFileSnapshot(turns, turn - 1);
+      if (files && (!snapshot || !gitService)) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Cannot restore the files of turn ${turn}: checkpointing was off for it or a later turn.`,
+          timestamp: new Date(),
+        });
+        return false;
+      }
+
+      try {
+        await saveCurrentAsFork(name, files);
+        if (files && snapshot?.commitHash) {
+          await gitService!.restoreProjectFromSnapshot(snapshot.commitHash);
+        }
+        const client = config!.getGeminiClient();
+        await client.setHistory(
+          (await client.getHistory()).slice(0, clientHistoryLength),
+        );
+        loadHistory(history.slice(0, index));
+        refreshStatic();
+        addMessage({
+          type: MessageType.INFO,
+          content: `Rewound to before turn ${turn}${files ? ' and restored the project files' : ''}. The abandoned turns are kept as fork "${name}"; use /fork switch ${name} to return to them.`,
+          timestamp: new Date(),
+        });
+        return true;
+      } catch (e) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Failed to rewind: ${e instanceof Error ? e.message : String(e)}`,
+          timestamp: new Date(),
+        });
+        return false;
+      }
+    },
+    [
+      config,
+      gitService,
+      history,
+      addMessage,
+      loadHistory,
+      refreshStatic,
+      saveCurrentAsFork,
+    ],
+  );
+
+  const switchFork = useCallback(
+    async (args?: string) => {
+      const forks = config!.getConversationForks();
+      const { name, files } = parseForkArgs(args);
+      const fork = name ? forks.get<HistoryItem>(name) : undefined;
+      if (!name || !fork) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: name
+            ? `No fork named "${name}". Use /fork list to see the forks.`
+            : `Missing fork name\nUsage: ${FORK_USAGE}`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+      if (files && (!fork.commitHash || !gitService)) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Fork "${name}" did not keep the project files; switch to it without --files.`,
+          timestamp: new Date(),
+        });
+        return;
+      }
+
+      try {
+        // The fork being switched to is kept until the switch succeeds.
+        const previousName = forks.nextName();
+        await saveCurrentAsFork(previousName, files);
+        if (files) {
+          await gitService!.restoreProjectFromSnapshot(fork.commitHash!);
+        }
+        await config!.getGeminiClient().setHistory(fork.clientHistory);
+        forks.delete(name);
+        loadHistory(fork.uiHistory);
+        refreshStatic();
+        addMessage({
+          type: MessageType.INFO,
+          content: `Switched to fork "${name}"${files ? ' and restored its project files' : ''}. The previous conversation is kept as fork "${previousName}".`,
+          timestamp: new Date(),
+        });
+      } catch (e) {
+        addMessage({
+          type: MessageType.ERROR,
+          content: `Failed to switch forks: ${e instanceof Error ? e.message : String(e)}`,
+          timestamp: new Date(),
+        });
+      }
+    },
+    [
+      config,
+      gitService,
+      addMessage,
+      loadHistory,
+      refreshStatic,
+      saveCurrentAsFork,
+    ],
+  );
+
   const slashCommands: SlashCommand[] = useMemo(() => {
     const commands: SlashCommand[] = [
       {
@@ -247,8 +719,9 @@ export const useSlashCommandProcessor = (
       },
       {
         name: 'model',
-        description: 'select Ollama model (when using Ollama)',
-        action: (_mainCommand, _subCommand, _args) => {
+        description:
+          'select or manage Ollama models (when using Ollama). Usage: /model [pull|rm|info|copy] ... [--host <url>]',
+        action: async (_mainCommand, subCommand, args) => {
           if (settings.merged.selectedAuthType !== AuthType.USE_OLLAMA) {
             addMessage({
               type: MessageType.ERROR,
@@ -258,7 +731,132 @@ export const useSlashCommandProcessor = (
             });
             return;
           }
-          openModelDialog();
+          if (!subCommand) {
+            openModelDialog();
+            return;
+          }
+
+          const { names, host } = parseHostArgs(args);
+          if (host === '') {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `Missing host after --host in /model ${subCommand}`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          const adminClient = host
+            ? new OllamaAdminClient(host)
+            : ollamaAdminClient;
+          const onHost = host ? ` on ${host}` : '';
+          const currentModel = config?.getModel();
+          try {
+            switch (subCommand) {
+              case 'pull':
+                if (names.length === 1 && names[0] === '--cancel') {
+                  if (modelPullAbortControllerRef.current) {
+                    modelPullAbortControllerRef.current.abort();
+                  } else {
+                    addMessage({
+                      type: MessageType.ERROR,
+                      content: 'No model is being pulled.',
+                      timestamp: new Date(),
+                    });
+                  }
+                  return;
+                }
+                if (names.length !== 1) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content:
+                      'Usage: /model pull <name|--cancel> [--host <url>]',
+                    timestamp: new Date(),
+                  });
+                  return;
+                }
+                await pullOllamaModel(names[0], adminClient);
+                return;
+              case 'rm':
+                if (names.length !== 1) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content: 'Usage: /model rm <name> [--host <url>]',
+                    timestamp: new Date(),
+                  });
+                  return;
+                }
+                await adminClient.deleteModel(names[0]);
+                await refreshOllamaHostPool();
+                addMessage({
+                  type: MessageType.INFO,
+                  content:
+                    `Deleted model ${names[0]}${onHost}.` +
+                    (names[0] === currentModel
+                      ? ' It is the active model; use /model to select another one.'
+                      : ''),
+                  timestamp: new Date(),
+                });
+                return;
+              case 'info': {
+                const model = names[0] || currentModel;
+                if (!model) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content: 'Usage: /model info [name] [--host <url>]',
+                    timestamp: new Date(),
+                  });
+                  return;
+                }
+                const info = await adminClient.showModel(model);
+                addMessage({
+                  type: MessageType.INFO,
+                  content: formatOllamaModelInfo(model, info),
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              case 'copy':
+                if (names.length !== 2) {
+                  addMessage({
+                    type: MessageType.ERROR,
+                    content:
+                      'Usage: /model copy <source> <destination> [--host <url>]',
+                    timestamp: new Date(),
+                  });
+                  return;
+                }
+                await adminClient.copyModel(names[0], names[1]);
+                await refreshOllamaHostPool();
+                addMessage({
+                  type: MessageType.INFO,
+                  content: `Copied model ${names[0]} to ${names[1]}${onHost}.`,
+                  timestamp: new Date(),
+                });
+                return;
+              default:
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `Unknown /model command: ${subCommand}. Available: pull, rm, info, copy`,
+                  timestamp: new Date(),
+                });
+                return;
+            }
+          } catch (e) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `Failed to run /model ${subCommand}: ${e instanceof Error ? e.message : String(e)}`,
+              timestamp: new Date(),
+            });
+          }
+        },
+        completion: async () => {
+          const models = await installedOllamaModels();
+          return [
+            'pull ',
+            ...['rm', 'info', 'copy'].flatMap((sub) =>
+              models.map((model) => `${sub} ${model}`),
+            ),
+          ];
         },
       },
       {
@@ -617,6 +1215,279 @@ export const useSlashCommandProcessor = (
           });
         },
       },
+      {
+        name: 'jobs',
+        description:
+          'manage background shell jobs. Usage: /jobs [output <job> [lines]|kill <job>]',
+        action: async (_mainCommand, subCommand, args) => {
+          const jobService = config?.getShellJobService();
+          if (!jobService) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: 'Background jobs are not available.',
+              timestamp: new Date(),
+            });
+            return;
+          }
+          const [job, lines] = (args ?? '').split(/\s+/);
+          switch (subCommand) {
+            case undefined:
+            case 'list': {
+              const jobs = jobService.list();
+              addMessage({
+                type: MessageType.INFO,
+                content:
+                  jobs.length > 0
+                    ? `Background jobs:\n${jobs.map(formatShellJob).join('\n')}`
+                    : 'No background jobs.',
+                timestamp: new Date(),
+              });
+              return;
+            }
+            case 'output': {
+              const info = job ? jobService.get(job) : undefined;
+              const output = info
+                ? jobService.readOutput(info.id, undefined, Number(lines) || 20)
+                : undefined;
+              if (!info || !output) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: job
+                    ? `No background job "${job}".`
+                    : 'Usage: /jobs output <job> [lines]',
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              addMessage({
+                type: MessageType.INFO,
+                content: `${formatShellJob(info)}\n${output.lines.join('\n') || '(no output)'}`,
+                timestamp: new Date(),
+              });
+              return;
+            }
+            case 'kill': {
+              if (!job) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: 'Usage: /jobs kill <job>',
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              if (!(await jobService.kill(job))) {
+                addMessage({
+                  type: MessageType.ERROR,
+                  content: `No running background job "${job}".`,
+                  timestamp: new Date(),
+                });
+                return;
+              }
+              addMessage({
+                type: MessageType.INFO,
+                content: formatShellJob(jobService.get(job)!),
+                timestamp: new Date(),
+              });
+              return;
+            }
+            default:
+              addMessage({
+                type: MessageType.ERROR,
+                content: `Unknown /jobs command: ${subCommand}. Available: list, output, kill`,
+                timestamp: new Date(),
+              });
+          }
+        },
+      },
+      {
+        name: 'undo',
+        description:
+          'revert the file changes made by the last tool calls. Usage: /undo [count]',
+        action: async (_mainCommand, subCommand) =>
+          moveFileChanges('undo', subCommand),
+      },
+      {
+        name: 'redo',
+        description:
+          're-apply file changes reverted with /undo. Usage: /redo [count]',
+        action: async (_mainCommand, subCommand) =>
+          moveFileChanges('redo', subCommand),
+      },
+      {
+        name: 'rewind',
+        description: `go back to before an earlier turn, keeping the abandoned turns as a fork. Usage: ${REWIND_USAGE}`,
+        action: async (_mainCommand, subCommand, args) => {
+          await rewindConversation(subCommand, args);
+        },
+      },
+      {
+        name: 'edit',
+        description:
+          'edit an earlier prompt and regenerate the conversation from there. Usage: /edit [turn]',
+        action: (_mainCommand, subCommand) => {
+          const turns = getRewindableTurns(history);
+          const turn = subCommand ? Number(subCommand) : turns.length;
+          const target = Number.isInteger(turn) ? turns[turn - 1] : undefined;
+          if (!target) {
+            addMessage({
+              type: MessageType.ERROR,
+              content:
+                turns.length === 0
+                  ? 'No prompts to edit.'
+                  : `No turn ${subCommand}. Use /rewind to list the turns.`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          if (isRewrittenSince(history, target)) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `Cannot edit turn ${turn}: the conversation was compressed or the model switched since.`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          startPromptEdit({ turn, text: target.text });
+        },
+      },
+      {
+        name: 'pin',
+        description: `keep a turn verbatim when the context is compressed. Usage: ${PIN_USAGE}`,
+        action: async (_mainCommand, subCommand) => {
+          const client = config!.getGeminiClient();
+          if (!subCommand) {
+            const pinned = client.getPinnedTurns();
+            addMessage({
+              type: MessageType.INFO,
+              content:
+                pinned.length === 0
+                  ? `No pinned turns.\nUsage: ${PIN_USAGE}`
+                  : `Pinned turns:\n${pinned
+                      .map(
+                        (prompt, index) =>
+                          `  ${index + 1}. ${describePrompt(getPromptText(prompt))}`,
+                      )
+                      .join('\n')}\n\nUse /unpin <number> to unpin one.`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          const turn = Number(subCommand);
+          const target = Number.isInteger(turn)
+            ? getRewindableTurns(history)[turn - 1]
+            : undefined;
+          if (!target?.rewindPoint) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `No turn ${subCommand}. Use /rewind to list the turns.`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          if (
+            isRewrittenSince(history, target) ||
+            !client.pinTurn(target.rewindPoint.clientHistoryLength)
+          ) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `Cannot pin turn ${turn}: the conversation was compressed or the model switched since.`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          addMessage({
+            type: MessageType.INFO,
+            content: `Pinned turn ${turn}. Compressing the context will keep it verbatim.`,
+            timestamp: new Date(),
+          });
+        },
+      },
+      {
+        name: 'unpin',
+        description:
+          'let compression summarize a pinned turn again. Usage: /unpin <number>',
+        action: (_mainCommand, subCommand) => {
+          const client = config!.getGeminiClient();
+          const index = Number(subCommand);
+          const prompt = Number.isInteger(index)
+            ? client.getPinnedTurns()[index - 1]
+            : undefined;
+          if (!prompt) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: subCommand
+                ? `No pinned turn ${subCommand}. Use /pin to list the pinned turns.`
+                : 'Missing number\nUsage: /unpin <number>',
+              timestamp: new Date(),
+            });
+            return;
+          }
+          client.unpinTurn(prompt);
+          addMessage({
+            type: MessageType.INFO,
+            content: `Unpinned "${describePrompt(getPromptText(prompt))}".`,
+            timestamp: new Date(),
+          });
+        },
+      },
+      {
+        name: 'fork',
+        description: `manage the forks left by /rewind. Usage: ${FORK_USAGE}`,
+        action: async (_mainCommand, subCommand, args) => {
+          const forks = config!.getConversationForks();
+          switch (subCommand ?? 'list') {
+            case 'list': {
+              const list = forks.list();
+              addMessage({
+                type: MessageType.INFO,
+                content:
+                  list.length === 0
+                    ? 'No forks. /rewind keeps the turns it abandons as a fork.'
+                    : `Forks:\n${list
+                        .map((fork) => {
+                          const turns = getRewindableTurns(
+                            fork.uiHistory as HistoryItem[],
+                          );
+                          const last = turns[turns.length - 1];
+                          return `  ${fork.name} · ${turns.length} turn${turns.length === 1 ? '' : 's'}${fork.commitHash ? ' · with files' : ''}${last ? ` · ${describePrompt(last.text)}` : ''}`;
+                        })
+                        .join('\n')}`,
+                timestamp: new Date(),
+              });
+              return;
+            }
+            case 'switch':
+              await switchFork(args);
+              return;
+            case 'delete': {
+              const { name } = parseForkArgs(args);
+              const deleted = name !== undefined && forks.delete(name);
+              addMessage({
+                type: deleted ? MessageType.INFO : MessageType.ERROR,
+                content: deleted
+                  ? `Deleted fork "${name}".`
+                  : name
+                    ? `No fork named "${name}". Use /fork list to see the forks.`
+                    : `Missing fork name\nUsage: ${FORK_USAGE}`,
+                timestamp: new Date(),
+              });
+              return;
+            }
+            default:
+              addMessage({
+                type: MessageType.ERROR,
+                content: `Unknown /fork command: ${subCommand}. Available: list, switch, delete`,
+                timestamp: new Date(),
+              });
+              return;
+          }
+        },
+        completion: async () =>
+          (config?.getConversationForks().list() ?? []).flatMap((fork) => [
+            `switch ${fork.name}`,
+            `delete ${fork.name}`,
+          ]),
+      },
       {
         name: 'corgi',
         action: (_mainCommand, _subCommand, _args) => {
@@ -717,8 +1588,12 @@ export const useSlashCommandProcessor = (
       {
         name: 'chat',
         description:
-          'Manage conversation history. Usage: /chat <list|save|resume> [tag]',
+          'Manage conversation history. Usage: /chat <list|save|resume|browse> [tag]',
         action: async (_mainCommand, subCommand, args) => {
+          if (subCommand === 'browse') {
+            openSessionBrowser();
+            return;
+          }
           const tag = (args || '').trim();
           const logger = new Logger(config?.getSessionId() || '');
           await logger.initialize();
@@ -734,7 +1609,8 @@ export const useSlashCommandProcessor = (
           if (!subCommand) {
             addMessage({
               type: MessageType.ERROR,
-              content: 'Missing command\nUsage: /chat <list|save|resume> [tag]',
+              content:
+                'Missing command\nUsage: /chat <list|save|resume|browse> [tag]',
               timestamp: new Date(),
             });
             return;
@@ -825,7 +1701,7 @@ export const useSlashCommandProcessor = (
             default:
               addMessage({
                 type: MessageType.ERROR,
-                content: `Unknown /chat command: ${subCommand}. Available: list, save, resume`,
+                content: `Unknown /chat command: ${subCommand}. Available: list, save, resume, browse`,
                 timestamp: new Date(),
               });
               return;
@@ -834,6 +1710,63 @@ export const useSlashCommandProcessor = (
         completion: async () =>
           (await savedChatTags()).map((tag) => 'resume ' + tag),
       },
+      {
+        name: 'export',
+        description:
+          'export the conversation to a file. Usage: /export <md|html|json> [path]',
+        action: async (_mainCommand, subCommand, args) => {
+          const format = EXPORT_FORMATS.find((f) => f === subCommand);
+          if (!format) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `${subCommand ? `Unknown export format: ${subCommand}` : 'Missing export format'}\nUsage: /export <md|html|json> [path]`,
+              timestamp: new Date(),
+            });
+            return;
+          }
+          const userItems = history.filter((item) => item.type === 'user');
+          if (userItems.length === 0) {
+            addMessage({
+              type: MessageType.INFO,
+              content: 'No conversation found to export.',
+              timestamp: new Date(),
+            });
+            return;
+          }
+          const exportedAt = new Date();
+          const fileName =
+            args?.trim() ||
+            `gemini-conversation-${exportedAt.toISOString().slice(0, 19).replace(/:/g, '-')}.${format}`;
+          const filePath = path.resolve(config!.getTargetDir(), fileName);
+          try {
+            const clientHistory =
+              (await config?.getGeminiClient()?.getHistory()) ?? [];
+            const contents = formatConversation(format, {
+              title: getSessionTitle(history),
+              sessionId: config!.getSessionId(),
+              model: config!.getModel(),
+              exportedAt,
+              history,
+              // Skip the environment preamble every chat starts with.
+              clientHistory: clientHistory.slice(2),
+            });
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, contents, 'utf-8');
+            addMessage({
+              type: MessageType.INFO,
+              content: `Conversation exported to ${filePath}`,
+              timestamp: new Date(),
+            });
+          } catch (error) {
+            addMessage({
+              type: MessageType.ERROR,
+              content: `Failed to export the conversation: ${error instanceof Error ? error.message : String(error)}`,
+              timestamp: new Date(),
+            });
+          }
+        },
+        completion: async () => EXPORT_FORMATS.map((format) => format),
+      },
       {
         name: 'quit',
         altName: 'exit',
@@ -856,6 +1789,10 @@ export const useSlashCommandProcessor = (
             },
           ]);
 
+          // Background jobs run in their own process groups and would
+          // otherwise outlive the CLI.
+          await config?.getShellJobService().killAll();
+
           setTimeout(() => {
             process.exit(0);
           }, 100);
@@ -890,11 +1827,7 @@ export const useSlashCommandProcessor = (
             if (compressed) {
               addMessage({
                 type: MessageType.COMPRESSION,
-                compression: {
-                  isPending: false,
-                  originalTokenCount: compressed.originalTokenCount,
-                  newTokenCount: compressed.newTokenCount,
-                },
+                compression: { isPending: false, ...compressed },
                 timestamp: new Date(),
               });
             } else {
@@ -1063,6 +1996,16 @@ export const useSlashCommandProcessor = (
     pendingCompressionItemRef,
     setPendingCompressionItem,
     openPrivacyNotice,
+    openSessionBrowser,
+    ollamaAdminClient,
+    installedOllamaModels,
+    pullOllamaModel,
+    refreshOllamaHostPool,
+    moveFileChanges,
+    history,
+    rewindConversation,
+    switchFork,
+    startPromptEdit,
   ]);
 
   const handleSlashCommand = useCallback(
@@ -1126,5 +2069,10 @@ export const useSlashCommandProcessor = (
     [addItem, slashCommands, addMessage],
   );
 
-  return { handleSlashCommand, slashCommands, pendingHistoryItems };
+  return {
+    handleSlashCommand,
+    slashCommands,
+    pendingHistoryItems,
+    rewindConversation,
+  };
 };
@@ -6,6 +6,8 @@
 
 import { useState, useCallback, useEffect } from 'react';
 import { LoadedSettings, SettingScope } from '../../config/settings.js';
+import { UseHistoryManagerReturn } from './useHistoryManager.js';
+import { addModelSwitchItems } from './useModelCommand.js';
 import {
   AuthType,
   Config,
@@ -13,7 +15,19 @@ import {
   getErrorMessage,
 } from '@google/gemini-cli-core';
 
-async function performAuthFlow(authMethod: AuthType, config: Config) {
+async function performAuthFlow(
+  authMethod: AuthType,
+  config: Config,
+  addItem: UseHistoryManagerReturn['addItem'],
+) {
+  // Switching auth mid-session moves the conversation to the new provider
+  // instead of starting over.
+  if (config.getGeminiClient()?.isInitialized()) {
+    const previousModel = config.getModel();
+    const compression = await config.switchModel(undefined, authMethod);
+    addModelSwitchItems(addItem, previousModel, config.getModel(), compression);
+    return;
+  }
   await config.refreshAuth(authMethod);
   console.log(`Authenticated via "${authMethod}".`);
 }
@@ -22,6 +36,7 @@ export const useAuthCommand = (
   settings: LoadedSettings,
   setAuthError: (error: string | null) => void,
   config: Config,
+  addItem: UseHistoryManagerReturn['addItem'],
 ) => {
   const [isAuthDialogOpen, setIsAuthDialogOpen] = useState(
     settings.merged.selectedAuthType === undefined,
@@ -44,6 +59,7 @@ export const useAuthCommand = (
         await performAuthFlow(
           settings.merged.selectedAuthType as AuthType,
           config,
+          addItem,
         );
       } catch (e) {
         setAuthError(`Failed to login. Message: ${getErrorMessage(e)}`);
@@ -54,7 +70,14 @@ export const useAuthCommand = (
     };
 
     void authFlow();
-  }, [isAuthDialogOpen, settings, config, setAuthError, openAuthDialog]);
+  }, [
+    isAuthDialogOpen,
+    settings,
+    config,
+    setAuthError,
+    openAuthDialog,
+    addItem,
+  ]);
 
   const handleAuthSelect = useCallback(
     async (authMethod: string | undefined, scope: SettingScope) => {
@@ -10,10 +10,13 @@ import { ApprovalMode, type Config } from '@google/gemini-cli-core';
 
 export interface UseAutoAcceptIndicatorArgs {
   config: Config;
+  /** False while keyboard input belongs to something else, e.g. a shell. */
+  isActive?: boolean;
 }
 
 export function useAutoAcceptIndicator({
   config,
+  isActive = true,
 }: UseAutoAcceptIndicatorArgs): ApprovalMode {
   const currentConfigValue = config.getApprovalMode();
   const [showAutoAcceptIndicator, setShowAutoAcceptIndicator] =
@@ -23,27 +26,30 @@ export function useAutoAcceptIndicator({
     setShowAutoAcceptIndicator(currentConfigValue);
   }, [currentConfigValue]);
 
-  useInput((input, key) => {
-    let nextApprovalMode: ApprovalMode | undefined;
-
-    if (key.ctrl && input === 'y') {
-      nextApprovalMode =
-        config.getApprovalMode() === ApprovalMode.YOLO
-          ? ApprovalMode.DEFAULT
-          : ApprovalMode.YOLO;
-    } else if (key.tab && key.shift) {
-      nextApprovalMode =
-        config.getApprovalMode() === ApprovalMode.AUTO_EDIT
-          ? ApprovalMode.DEFAULT
-          : ApprovalMode.AUTO_EDIT;
-    }
-
-    if (nextApprovalMode) {
-      config.setApprovalMode(nextApprovalMode);
-      // Update local state immediately for responsiveness
-      setShowAutoAcceptIndicator(nextApprovalMode);
-    }
-  });
+  useInput(
+    (input, key) => {
+      let nextApprovalMode: ApprovalMode | undefined;
+
+      if (key.ctrl && input === 'y') {
+        nextApprovalMode =
+          config.getApprovalMode() === ApprovalMode.YOLO
+            ? ApprovalMode.DEFAULT
+            : ApprovalMode.YOLO;
+      } else if (key.tab && key.shift) {
+        nextApprovalMode =
+          config.getApprovalMode() === ApprovalMode.AUTO_EDIT
+            ? ApprovalMode.DEFAULT
+            : ApprovalMode.AUTO_EDIT;
+      }
+
+      if (nextApprovalMode) {
+        config.setApprovalMode(nextApprovalMode);
+        // Update local state immediately for responsiveness
+        setShowAutoAcceptIndicator(nextApprovalMode);
+      }
+    },
+    { isActive },
+  );
 
   return showAutoAcceptIndicator;
 }
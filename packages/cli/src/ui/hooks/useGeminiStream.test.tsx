@@ -16,7 +16,13 @@ import {
   TrackedExecutingToolCall,
   TrackedCancelledToolCall,
 } from './useReactToolScheduler.js';
-import { Config, EditorType, AuthType } from '@google/gemini-cli-core';
+import {
+  Config,
+  EditorType,
+  AuthType,
+  GitService,
+  GeminiEventType as ServerGeminiEventType,
+} from '@google/gemini-cli-core';
 import { Part, PartListUnion } from '@google/genai';
 import { UseHistoryManagerReturn } from './useHistoryManager.js';
 import { HistoryItem, MessageType, StreamingState } from '../types.js';
@@ -35,6 +41,7 @@ const MockedGeminiClientClass = vi.hoisted(() =>
     this.startChat = mockStartChat;
     this.sendMessageStream = mockSendMessageStream;
     this.addHistory = vi.fn();
+    this.getHistory = vi.fn().mockResolvedValue([]);
   }),
 );
 
@@ -1005,6 +1012,102 @@ describe('useGeminiStream', () => {
     });
   });
 
+  describe('Rewind points', () => {
+    it('should record where each prompt started in the model history', async () => {
+      mockSendMessageStream.mockReturnValue((async function* () {})());
+      const client = new MockedGeminiClientClass(mockConfig);
+      client.getHistory.mockResolvedValue([
+        { role: 'user', parts: [{ text: 'context' }] },
+        { role: 'model', parts: [{ text: 'Got it.' }] },
+      ]);
+
+      const { result } = renderHook(() =>
+        useGeminiStream(
+          client,
+          [],
+          mockAddItem,
+          mockSetShowHelp,
+          mockConfig,
+          mockOnDebugMessage,
+          mockHandleSlashCommand,
+          false,
+          () => 'vscode' as EditorType,
+          () => {},
+          () => Promise.resolve(),
+        ),
+      );
+
+      await act(async () => {
+        await result.current.submitQuery('test query');
+      });
+
+      expect(mockAddItem).toHaveBeenCalledWith(
+        {
+          type: MessageType.USER,
+          text: 'test query',
+          rewindPoint: { clientHistoryLength: 2, checkpointing: false },
+        },
+        expect.any(Number),
+      );
+    });
+
+    it('should snapshot the project only before tools that may change files', async () => {
+      const createFileSnapshot = vi.fn().mockResolvedValue('before-prompt');
+      (GitService as unknown as Mock).mockImplementationOnce(() => ({
+        createFileSnapshot,
+        getCurrentCommitHash: vi.fn(),
+      }));
+      (mockConfig.getCheckpointingEnabled as Mock).mockReturnValue(true);
+      const toolCallStream = (name: string) =>
+        (async function* () {
+          yield {
+            type: ServerGeminiEventType.ToolCallRequest,
+            value: { callId: name, name, args: {}, isClientInitiated: false },
+          };
+        })();
+      const client = new MockedGeminiClientClass(mockConfig);
+
+      const { result } = renderHook(() =>
+        useGeminiStream(
+          client,
+          [],
+          mockAddItem,
+          mockSetShowHelp,
+          mockConfig,
+          mockOnDebugMessage,
+          mockHandleSlashCommand,
+          false,
+          () => 'vscode' as EditorType,
+          () => {},
+          () => Promise.resolve(),
+        ),
+      );
+
+      mockSendMessageStream.mockReturnValueOnce(toolCallStream('read_file'));
+      await act(async () => {
+        await result.current.submitQuery('read it');
+      });
+      expect(createFileSnapshot).not.toHaveBeenCalled();
+
+      mockSendMessageStream.mockReturnValueOnce(toolCallStream('write_file'));
+      await act(async () => {
+        await result.current.submitQuery('write it');
+      });
+      expect(createFileSnapshot).toHaveBeenCalledTimes(1);
+      const promptItems = mockAddItem.mock.calls
+        .map(([item]) => item)
+        .filter((item) => item.type === MessageType.USER);
+      expect(promptItems.map((item) => item.rewindPoint)).toEqual([
+        { clientHistoryLength: 0, checkpointing: true },
+        {
+          clientHistoryLength: 0,
+          checkpointing: true,
+          commitHash: 'before-prompt',
+        },
+      ]);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should call parseAndFormatApiError with the correct authType on stream initialization failure', async () => {
       // 1. Setup
@@ -14,6 +14,7 @@ import {
   ServerGeminiContentEvent as ContentEvent,
   ServerGeminiErrorEvent as ErrorEvent,
   ServerGeminiChatCompressedEvent,
+  ServerGeminiThoughtEvent as ThoughtEvent,
   getErrorMessage,
   isNodeError,
   MessageSenderType,
@@ -31,7 +32,9 @@ import {
   HistoryItem,
   HistoryItemWithoutId,
   HistoryItemToolGroup,
+  HistoryItemCompression,
   MessageType,
+  RewindPoint,
   ToolCallStatus,
 } from '../types.js';
 import { isAtCommand } from '../utils/commandUtils.js';
@@ -70,6 +73,15 @@ enum StreamProcessingStatus {
   Error,
 }
 
+/** Tools that may change project files, snapshotted first for /rewind. */
+const FILE_MODIFYING_TOOLS = new Set([
+  'replace',
+  'multi_replace',
+  'apply_patch',
+  'write_file',
+  'run_shell_command',
+]);
+
 /**
  * Manages the Gemini stream, including user input, command processing,
  * API interaction, and tool call lifecycle.
@@ -90,6 +102,7 @@ export const useGeminiStream = (
   getPreferredEditor: () => EditorType | undefined,
   onAuthError: () => void,
   performMemoryRefresh: () => Promise<void>,
+  shellFocused = false,
 ) => {
   const [initError, setInitError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
@@ -99,6 +112,7 @@ export const useGeminiStream = (
   const [pendingHistoryItemRef, setPendingHistoryItem] =
     useStateAndRef<HistoryItemWithoutId | null>(null);
   const processedMemoryToolsRef = useRef<Set<string>>(new Set());
+  const rewindPointRef = useRef<RewindPoint | null>(null);
   const logger = useLogger();
   const gitService = useMemo(() => {
     if (!config.getProjectRoot()) {
@@ -174,27 +188,67 @@ export const useGeminiStream = (
     return StreamingState.Idle;
   }, [isResponding, toolCalls]);
 
-  useInput((_input, key) => {
-    if (streamingState === StreamingState.Responding && key.escape) {
-      if (turnCancelledRef.current) {
+  useInput(
+    (_input, key) => {
+      if (streamingState === StreamingState.Responding && key.escape) {
+        if (turnCancelledRef.current) {
+          return;
+        }
+        turnCancelledRef.current = true;
+        abortControllerRef.current?.abort();
+        if (pendingHistoryItemRef.current) {
+          addItem(pendingHistoryItemRef.current, Date.now());
+        }
+        addItem(
+          {
+            type: MessageType.INFO,
+            text: 'Request cancelled.',
+          },
+          Date.now(),
+        );
+        setPendingHistoryItem(null);
+        setIsResponding(false);
+      }
+    },
+    // Escape belongs to the focused shell, e.g. to leave insert mode in vim.
+    { isActive: !shellFocused },
+  );
+
+  const createRewindPoint = useCallback(async (): Promise<RewindPoint> => {
+    const rewindPoint: RewindPoint = {
+      clientHistoryLength: (await geminiClient.getHistory()).length,
+      checkpointing: config.getCheckpointingEnabled() && !!gitService,
+    };
+    rewindPointRef.current = rewindPoint;
+    return rewindPoint;
+  }, [config, geminiClient, gitService]);
+
+  // Snapshotting the project on every prompt is slow in large repositories,
+  // so it waits until the prompt's first tool that may change files. The
+  // rewind point is never rendered, so it is filled in where it is.
+  const snapshotBeforeFileChanges = useCallback(
+    async (requests: ToolCallRequestInfo[]) => {
+      const rewindPoint = rewindPointRef.current;
+      if (
+        !gitService ||
+        !rewindPoint?.checkpointing ||
+        rewindPoint.commitHash ||
+        !requests.some((request) => FILE_MODIFYING_TOOLS.has(request.name))
+      ) {
         return;
       }
-      turnCancelledRef.current = true;
-      abortControllerRef.current?.abort();
-      if (pendingHistoryItemRef.current) {
-        addItem(pendingHistoryItemRef.current, Date.now());
+      try {
+        rewindPoint.commitHash =
+          (await gitService.createFileSnapshot('Snapshot before prompt')) ||
+          (await gitService.getCurrentCommitHash());
+      } catch (error) {
+        onDebugMessage(
+          `Failed to snapshot the project: ${getErrorMessage(error)}`,
+        );
       }
-      addItem(
-        {
-          type: MessageType.INFO,
-          text: 'Request cancelled.',
-        },
-        Date.now(),
-      );
-      setPendingHistoryItem(null);
-      setIsResponding(false);
-    }
-  });
+    },
+    [gitService, onDebugMessage],
+  );
 
   const prepareQueryForGemini = useCallback(
     async (
@@ -250,12 +304,25 @@ export const useGeminiStream = (
           return { queryToSend: null, shouldProceed: false };
         }
 
+        // The prompt item remembers where the turn started, for /rewind.
+        const rewindPoint = await createRewindPoint();
+        const addPromptItem: UseHistoryManagerReturn['addItem'] = (
+          itemData,
+          baseTimestamp,
+        ) =>
+          addItem(
+            itemData.type === 'user'
+              ? ({ ...itemData, rewindPoint } as HistoryItemWithoutId)
+              : itemData,
+            baseTimestamp,
+          );
+
         // Handle @-commands (which might involve tool calls)
         if (isAtCommand(trimmedQuery)) {
           const atCommandResult = await handleAtCommand({
             query: trimmedQuery,
             config,
-            addItem,
+            addItem: addPromptItem,
             onDebugMessage,
             messageId: userMessageTimestamp,
             signal: abortSignal,
@@ -266,7 +333,7 @@ export const useGeminiStream = (
           localQueryToSendToGemini = atCommandResult.processedQuery;
         } else {
           // Normal query for Gemini
-          addItem(
+          addPromptItem(
             { type: MessageType.USER, text: trimmedQuery },
             userMessageTimestamp,
           );
@@ -294,6 +361,7 @@ export const useGeminiStream = (
       logger,
       shellModeActive,
       scheduleToolCalls,
+      createRewindPoint,
     ],
   );
 
@@ -357,6 +425,33 @@ export const useGeminiStream = (
     [addItem, pendingHistoryItemRef, setPendingHistoryItem],
   );
 
+  const handleThoughtEvent = useCallback(
+    (eventValue: ThoughtEvent['value'], userMessageTimestamp: number) => {
+      setThought(eventValue);
+      if (turnCancelledRef.current) {
+        return;
+      }
+      if (pendingHistoryItemRef.current?.type !== 'thought') {
+        if (pendingHistoryItemRef.current) {
+          addItem(pendingHistoryItemRef.current, userMessageTimestamp);
+        }
+        setPendingHistoryItem({ type: 'thought', text: '' });
+      }
+      // Gemini sends one complete summary per event while Ollama streams raw
+      // fragments, so only subject-bearing summaries start a new paragraph.
+      setPendingHistoryItem((item) => {
+        const previous = item?.type === 'thought' ? item : undefined;
+        const separator = eventValue.subject && previous?.text ? '\n\n' : '';
+        return {
+          type: 'thought',
+          subject: eventValue.subject || previous?.subject,
+          text: (previous?.text ?? '') + separator + eventValue.description,
+        };
+      });
+    },
+    [addItem, pendingHistoryItemRef, setPendingHistoryItem],
+  );
+
   const handleUserCancelledEvent = useCallback(
     (userMessageTimestamp: number) => {
       if (turnCancelledRef.current) {
@@ -412,19 +507,19 @@ export const useGeminiStream = (
   );
 
   const handleChatCompressionEvent = useCallback(
-    (eventValue: ServerGeminiChatCompressedEvent['value']) =>
-      addItem(
-        {
-          type: 'info',
-          text:
-            `IMPORTANT: This conversation approached the input token limit for ${config.getModel()}. ` +
-            `A compressed context will be sent for future messages (compressed from: ` +
-            `${eventValue?.originalTokenCount ?? 'unknown'} to ` +
-            `${eventValue?.newTokenCount ?? 'unknown'} tokens).`,
+    (eventValue: ServerGeminiChatCompressedEvent['value']) => {
+      const item: HistoryItemCompression = {
+        type: 'compression',
+        compression: {
+          isPending: false,
+          originalTokenCount: null,
+          newTokenCount: null,
+          ...eventValue,
         },
-        Date.now(),
-      ),
-    [addItem, config],
+      };
+      addItem(item, Date.now());
+    },
+    [addItem],
   );
 
   const processGeminiStreamEvents = useCallback(
@@ -438,7 +533,7 @@ export const useGeminiStream = (
       for await (const event of stream) {
         switch (event.type) {
           case ServerGeminiEventType.Thought:
-            setThought(event.value);
+            handleThoughtEvent(event.value, userMessageTimestamp);
             break;
           case ServerGeminiEventType.Content:
             geminiMessageBuffer = handleContentEvent(
@@ -471,14 +566,17 @@ export const useGeminiStream = (
         }
       }
       if (toolCallRequests.length > 0) {
+        await snapshotBeforeFileChanges(toolCallRequests);
         scheduleToolCalls(toolCallRequests, signal);
       }
       return StreamProcessingStatus.Completed;
     },
     [
+      handleThoughtEvent,
       handleContentEvent,
       handleUserCancelledEvent,
       handleErrorEvent,
+      snapshotBeforeFileChanges,
       scheduleToolCalls,
       handleChatCompressionEvent,
     ],
@@ -693,6 +791,7 @@ export const useGeminiStream = (
       const restorableToolCalls = toolCalls.filter(
         (toolCall) =>
           (toolCall.request.name === 'replace' ||
+            toolCall.request.name === 'multi_replace' ||
             toolCall.request.name === 'write_file') &&
           toolCall.status === 'awaiting_approval',
       );
@@ -6,9 +6,40 @@
 
 import { useState, useCallback } from 'react';
 import { LoadedSettings, SettingScope } from '../../config/settings.js';
-import { Config } from '@google/gemini-cli-core';
+import { ChatCompressionInfo, Config } from '@google/gemini-cli-core';
 import { UseHistoryManagerReturn } from './useHistoryManager.js';
-import { MessageType } from '../types.js';
+import { HistoryItemWithoutId, MessageType } from '../types.js';
+
+/**
+ * Records a mid-conversation model switch in the transcript, along with the
+ * compression it triggered if the history did not fit the new model.
+ */
+export function addModelSwitchItems(
+  addItem: UseHistoryManagerReturn['addItem'],
+  fromModel: string,
+  toModel: string,
+  compression: ChatCompressionInfo | null,
+) {
+  if (fromModel !== toModel) {
+    const marker: HistoryItemWithoutId = {
+      type: 'model_switch',
+      fromModel,
+      toModel,
+    };
+    addItem(marker, Date.now());
+  }
+  if (compression) {
+    const compressionItem: HistoryItemWithoutId = {
+      type: MessageType.COMPRESSION,
+      compression: {
+        isPending: false,
+        originalTokenCount: compression.originalTokenCount,
+        newTokenCount: compression.newTokenCount,
+      },
+    };
+    addItem(compressionItem, Date.now());
+  }
+}
 
 export function useModelCommand(
   settings: LoadedSettings,
@@ -16,13 +47,15 @@ export function useModelCommand(
   config: Config | null,
   addItem: UseHistoryManagerReturn['addItem'],
 ) {
-  // Get Ollama host from settings, env, or default
+  // Get Ollama host from settings, env, or default; with a host pool, the
+  // first host is the one models are managed on
   const getOllamaHost = useCallback(
     () =>
+      settings.merged.ollamaHosts?.[0] ||
       settings.merged.ollamaHost ||
       process.env.OLLAMA_HOST ||
       'http://localhost:11434',
-    [settings.merged.ollamaHost],
+    [settings.merged.ollamaHosts, settings.merged.ollamaHost],
   );
   const [showModelSelector, setShowModelSelector] = useState(false);
 
@@ -41,20 +74,27 @@ export function useModelCommand(
         // Save the selected model to settings
         settings.setValue(SettingScope.User, 'ollamaModel', selectedModel);
 
-        // Update the current model in config if possible
-        if (config && typeof config.setModel === 'function') {
-          config.setModel(selectedModel);
+        // Rebuild the live client for the new model, keeping the conversation
+        if (config?.getGeminiClient()?.isInitialized()) {
+          const previousModel = config.getModel();
+          const compression = await config.switchModel(selectedModel);
+          addModelSwitchItems(
+            addItem,
+            previousModel,
+            selectedModel,
+            compression,
+          );
+        } else {
+          config?.setModel(selectedModel);
+          addItem(
+            {
+              type: MessageType.INFO,
+              text: `Successfully switched to Ollama model: ${selectedModel}`,
+            },
+            Date.now(),
+          );
         }
 
-        // Add a success message
-        addItem(
-          {
-            type: MessageType.INFO,
-            text: `Successfully switched to Ollama model: ${selectedModel}`,
-          },
-          Date.now(),
-        );
-
         setShowModelSelector(false);
         setModelError(null);
       } catch (error) {
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  Config,
+  OllamaHostPool,
+  OllamaHostPoolStatus,
+} from '@google/gemini-cli-core';
+
+/**
+ * Tracks the Ollama host pool behind the current content generator, if any,
+ * so the footer can show which host is serving requests.
+ */
+export function useOllamaHostStatus(
+  config: Config,
+): OllamaHostPoolStatus | undefined {
+  const [pool, setPool] = useState<OllamaHostPool | undefined>(undefined);
+  const [status, setStatus] = useState<OllamaHostPoolStatus | undefined>(
+    undefined,
+  );
+
+  // The generator is replaced by /auth and model switches, so look it up
+  // again periodically rather than only once.
+  useEffect(() => {
+    const checkPool = () => {
+      const client = config.getGeminiClient();
+      const generator = client?.isInitialized()
+        ? client.getContentGenerator()
+        : undefined;
+      setPool(generator instanceof OllamaHostPool ? generator : undefined);
+    };
+
+    checkPool();
+    const interval = setInterval(checkPool, 1000);
+    return () => clearInterval(interval);
+  }, [config]);
+
+  useEffect(() => {
+    if (!pool) {
+      setStatus(undefined);
+      return;
+    }
+    setStatus(pool.getStatus());
+    pool.on('update', setStatus);
+    return () => {
+      pool.off('update', setStatus);
+    };
+  }, [pool]);
+
+  return status;
+}
@@ -139,6 +139,7 @@ export function useReactToolScheduler(
         onAllToolCallsComplete: allToolCallsCompleteHandler,
         onToolCallsUpdate: toolCallsUpdateHandler,
         approvalMode: config.getApprovalMode(),
+        maxConcurrentToolCalls: config.getMaxConcurrentToolCalls(),
         getPreferredEditor,
         config,
       }),
@@ -240,6 +241,7 @@ export function mapToDisplay(
         callId: trackedCall.request.callId,
         name: displayName,
         description,
+        args: trackedCall.request.args,
         renderOutputAsMarkdown,
       };
 
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { Config, SavedSession } from '@google/gemini-cli-core';
+import {
+  getSessionTitle,
+  useSessionPersistence,
+} from './useSessionPersistence.js';
+import { HistoryItem, MessageType, StreamingState } from '../types.js';
+
+const preamble = [
+  { role: 'user', parts: [{ text: 'context' }] },
+  { role: 'model', parts: [{ text: 'Got it.' }] },
+];
+
+describe('useSessionPersistence', () => {
+  let store: {
+    save: ReturnType<typeof vi.fn>;
+    resolveId: ReturnType<typeof vi.fn>;
+    load: ReturnType<typeof vi.fn>;
+  };
+  let client: {
+    isInitialized: () => boolean;
+    getHistory: ReturnType<typeof vi.fn>;
+    setHistory: ReturnType<typeof vi.fn>;
+  };
+  let resumeSession: string | undefined;
+  let config: Config;
+  const loadHistory = vi.fn();
+  const addItem = vi.fn();
+  const refreshStatic = vi.fn();
+  const openSessionBrowser = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    store = {
+      save: vi.fn().mockResolvedValue(undefined),
+      resolveId: vi.fn(),
+      load: vi.fn(),
+    };
+    client = {
+      isInitialized: () => true,
+      getHistory: vi
+        .fn()
+        .mockResolvedValue([
+          ...preamble,
+          { role: 'user', parts: [{ text: 'hi' }] },
+        ]),
+      setHistory: vi.fn(),
+    };
+    resumeSession = undefined;
+    config = {
+      getSessionId: () => 'session-1',
+      getResumeSession: () => resumeSession,
+      getGeminiClient: () => client,
+      getSessionStore: () => store,
+      getModel: () => 'gemini-pro',
+      getContentGeneratorConfig: () => ({ authType: 'gemini-api-key' }),
+      getWorkingDir: () => '/project',
+    } as unknown as Config;
+  });
+
+  const renderPersistence = (
+    history: HistoryItem[],
+    streamingState = StreamingState.Idle,
+  ) =>
+    renderHook(() =>
+      useSessionPersistence(
+        config,
+        history,
+        loadHistory,
+        addItem,
+        refreshStatic,
+        streamingState,
+        true,
+        openSessionBrowser,
+      ),
+    );
+
+  it('should save the session once a turn completes', async () => {
+    const history: HistoryItem[] = [
+      { id: 1, type: 'user', text: 'Fix the\nparser' },
+      { id: 2, type: 'gemini', text: 'Done.' },
+    ];
+    renderPersistence(history, StreamingState.Responding);
+    expect(store.save).not.toHaveBeenCalled();
+
+    renderPersistence(history);
+
+    await waitFor(() => expect(store.save).toHaveBeenCalled());
+    expect(store.save).toHaveBeenCalledWith({
+      metadata: expect.objectContaining({
+        id: 'session-1',
+        title: 'Fix the parser',
+        model: 'gemini-pro',
+        authType: 'gemini-api-key',
+        cwd: '/project',
+        messageCount: 1,
+      }),
+      uiHistory: history,
+      clientHistory: [{ role: 'user', parts: [{ text: 'hi' }] }],
+    });
+  });
+
+  it('should not save sessions without prompts', () => {
+    renderPersistence([{ id: 1, type: 'info', text: 'Welcome' }]);
+
+    expect(store.save).not.toHaveBeenCalled();
+  });
+
+  it('should resume the session given on the command line', async () => {
+    const saved: SavedSession<HistoryItem> = {
+      metadata: {
+        id: 'abc123',
+        title: 'Old work',
+        model: 'gemini-pro',
+        cwd: '/project',
+        startTime: '2025-01-01T00:00:00.000Z',
+        lastUpdated: '2025-01-01T00:00:00.000Z',
+        messageCount: 1,
+        tokens: { prompt: 1, candidates: 1, total: 2 },
+      },
+      uiHistory: [{ id: 5, type: 'user', text: 'old prompt' }],
+      clientHistory: [{ role: 'user', parts: [{ text: 'old prompt' }] }],
+    };
+    resumeSession = 'abc';
+    store.resolveId.mockResolvedValue('abc123');
+    store.load.mockResolvedValue(saved);
+
+    const { result } = renderPersistence([]);
+
+    await waitFor(() => expect(result.current.sessionId).toBe('abc123'));
+    expect(store.resolveId).toHaveBeenCalledWith('abc');
+    expect(client.setHistory).toHaveBeenCalledWith([
+      ...preamble,
+      ...saved.clientHistory,
+    ]);
+    expect(loadHistory).toHaveBeenCalledWith(saved.uiHistory);
+    expect(addItem).toHaveBeenCalledWith(
+      {
+        type: MessageType.INFO,
+        text: 'Resumed session "Old work" (abc123).',
+      },
+      expect.any(Number),
+    );
+  });
+
+  it('should report sessions that do not exist', async () => {
+    resumeSession = 'nope';
+    store.resolveId.mockResolvedValue(undefined);
+
+    renderPersistence([]);
+
+    await waitFor(() =>
+      expect(addItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: MessageType.ERROR,
+          text: 'No saved session matches "nope". Use /chat browse to find one.',
+        }),
+        expect.any(Number),
+      ),
+    );
+    expect(loadHistory).not.toHaveBeenCalled();
+  });
+
+  it('should open the session browser for --resume without an id', () => {
+    resumeSession = '';
+
+    renderPersistence([]);
+
+    expect(openSessionBrowser).toHaveBeenCalled();
+  });
+});
+
+describe('getSessionTitle', () => {
+  it('should use the first prompt, shortened', () => {
+    expect(
+      getSessionTitle([
+        { id: 1, type: 'info', text: 'x' },
+        { id: 2, type: 'user', text: 'a'.repeat(100) },
+      ]),
+    ).toBe(`${'a'.repeat(79)}…`);
+    expect(getSessionTitle([])).toBe('');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  type Config,
+  LATEST_SESSION,
+  SessionMetadata,
+  SessionTokenTotals,
+  getErrorMessage,
+  uiTelemetryService,
+} from '@google/gemini-cli-core';
+import { HistoryItem, MessageType, StreamingState } from '../types.js';
+import { UseHistoryManagerReturn } from './useHistoryManager.js';
+import { sumTokenMetrics } from '../utils/computeStats.js';
+
+const MAX_TITLE_LENGTH = 80;
+
+export interface UseSessionPersistenceReturn {
+  /** The id the current session is saved under. */
+  sessionId: string;
+  /** Replaces the current conversation with a saved session. */
+  resumeSession: (idOrPrefix: string) => Promise<void>;
+}
+
+/** Token totals of the requests made by this process. */
+function getTokenTotals(): SessionTokenTotals {
+  const { prompt, candidates, total } = sumTokenMetrics(
+    uiTelemetryService.getMetrics(),
+  );
+  return { prompt, candidates, total };
+}
+
+/** Names a session after its first prompt. */
+export function getSessionTitle(history: HistoryItem[]): string {
+  const firstPrompt = history.find((item) => item.type === 'user')?.text ?? '';
+  const title = firstPrompt.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_TITLE_LENGTH
+    ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : title;
+}
+
+/**
+ * Saves the session whenever a turn completes, so it can be resumed later
+ * with `--resume`, `--continue` or the session browser (`/chat browse`).
+ * Resuming restores both the transcript, tool calls included, and the
+ * conversation the model sees, and later turns are saved to the resumed
+ * session.
+ */
+export function useSessionPersistence(
+  config: Config,
+  history: HistoryItem[],
+  loadHistory: UseHistoryManagerReturn['loadHistory'],
+  addItem: UseHistoryManagerReturn['addItem'],
+  refreshStatic: () => void,
+  streamingState: StreamingState,
+  isClientReady: boolean,
+  openSessionBrowser: () => void,
+): UseSessionPersistenceReturn {
+  const [sessionId, setSessionId] = useState(config.getSessionId());
+  const sessionRef = useRef({
+    id: config.getSessionId(),
+    startTime: new Date().toISOString(),
+    // Tokens spent before this process resumed the session.
+    previousTokens: { prompt: 0, candidates: 0, total: 0 },
+  });
+  const startupResumeRef = useRef(config.getResumeSession());
+
+  useEffect(() => {
+    const messageCount = history.filter((item) => item.type === 'user').length;
+    const client = config.getGeminiClient();
+    if (
+      messageCount === 0 ||
+      streamingState !== StreamingState.Idle ||
+      !client?.isInitialized()
+    ) {
+      return;
+    }
+    const { id, startTime, previousTokens } = sessionRef.current;
+    const tokens = getTokenTotals();
+    const metadata: SessionMetadata = {
+      id,
+      title: getSessionTitle(history),
+      model: config.getModel(),
+      authType: config.getContentGeneratorConfig()?.authType,
+      cwd: config.getWorkingDir(),
+      startTime,
+      lastUpdated: new Date().toISOString(),
+      messageCount,
+      tokens: {
+        prompt: previousTokens.prompt + tokens.prompt,
+        candidates: previousTokens.candidates + tokens.candidates,
+        total: previousTokens.total + tokens.total,
+      },
+    };
+    client
+      .getHistory()
+      .then((clientHistory) =>
+        config.getSessionStore().save({
+          metadata,
+          uiHistory: history,
+          // Skip the environment preamble; it is regenerated on resume.
+          clientHistory: clientHistory.slice(2),
+        }),
+      )
+      .catch((error) => {
+        console.debug('Failed to save the session:', error);
+      });
+  }, [config, history, streamingState]);
+
+  const resumeSession = useCallback(
+    async (idOrPrefix: string) => {
+      try {
+        const store = config.getSessionStore();
+        const id = await store.resolveId(idOrPrefix);
+        const session = id ? await store.load<HistoryItem>(id) : undefined;
+        if (!session) {
+          addItem(
+            {
+              type: MessageType.ERROR,
+              text:
+                idOrPrefix === LATEST_SESSION
+                  ? 'No saved session to continue in this project.'
+                  : `No saved session matches "${idOrPrefix}". Use /chat browse to find one.`,
+            },
+            Date.now(),
+          );
+          return;
+        }
+        const client = config.getGeminiClient();
+        const preamble = (await client.getHistory()).slice(0, 2);
+        await client.setHistory([...preamble, ...session.clientHistory]);
+
+        const { metadata } = session;
+        const tokens = getTokenTotals();
+        sessionRef.current = {
+          id: metadata.id,
+          startTime: metadata.startTime,
+          previousTokens: {
+            prompt: metadata.tokens.prompt - tokens.prompt,
+            candidates: metadata.tokens.candidates - tokens.candidates,
+            total: metadata.tokens.total - tokens.total,
+          },
+        };
+        setSessionId(metadata.id);
+        loadHistory(session.uiHistory);
+        addItem(
+          {
+            type: MessageType.INFO,
+            text: `Resumed session "${metadata.title}" (${metadata.id}).`,
+          },
+          Date.now(),
+        );
+        refreshStatic();
+      } catch (error) {
+        addItem(
+          {
+            type: MessageType.ERROR,
+            text: `Failed to resume the session: ${getErrorMessage(error)}`,
+          },
+          Date.now(),
+        );
+      }
+    },
+    [config, loadHistory, addItem, refreshStatic],
+  );
+
+  // --resume and --continue take effect once the model client is ready.
+  useEffect(() => {
+    const target = startupResumeRef.current;
+    if (target === undefined || !isClientReady) {
+      return;
+    }
+    startupResumeRef.current = undefined;
+    if (target) {
+      void resumeSession(target);
+    } else {
+      openSessionBrowser();
+    }
+  }, [isClientReady, resumeSession, openSessionBrowser]);
+
+  return { sessionId, resumeSession };
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, type Mock } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { EventEmitter } from 'events';
+import { useInput, type Key } from 'ink';
+import { Config, PtySession } from '@google/gemini-cli-core';
+import { terminalInputForKey, useShellFocus } from './useShellFocus.js';
+
+vi.mock('ink');
+
+const key = (overrides: Partial<Key> = {}) => overrides as Key;
+
+describe('terminalInputForKey', () => {
+  it('should translate special keys into terminal input', () => {
+    expect(terminalInputForKey('', key({ return: true }))).toBe('\r');
+    expect(terminalInputForKey('', key({ upArrow: true }))).toBe('\x1b[A');
+    expect(terminalInputForKey('', key({ backspace: true }))).toBe('\x7f');
+    expect(terminalInputForKey('c', key({ ctrl: true }))).toBe('\x03');
+    expect(terminalInputForKey('', key({ tab: true, shift: true }))).toBe(
+      '\x1b[Z',
+    );
+    expect(terminalInputForKey('yes', key())).toBe('yes');
+  });
+});
+
+describe('useShellFocus', () => {
+  it('should send key presses to the running shell while it is focused', () => {
+    let onInput: (input: string, key: Key) => void = () => {};
+    (useInput as Mock).mockImplementation((handler) => {
+      onInput = handler;
+    });
+    const ptyService = new EventEmitter();
+    const config = {
+      getShellPty: () => true,
+      getPtyService: () => ptyService,
+    } as unknown as Config;
+    const session = { write: vi.fn() } as unknown as PtySession;
+
+    const { result } = renderHook(() => useShellFocus(config));
+    act(() => {
+      ptyService.emit('update', session);
+    });
+    expect(result.current).toEqual({
+      activeShell: session,
+      shellFocused: false,
+    });
+
+    act(() => onInput('a', key()));
+    expect(session.write).not.toHaveBeenCalled();
+
+    act(() => onInput('f', key({ ctrl: true })));
+    act(() => onInput('c', key({ ctrl: true })));
+    expect(result.current.shellFocused).toBe(true);
+    expect(session.write).toHaveBeenCalledWith('\x03');
+
+    act(() => {
+      ptyService.emit('update', undefined);
+    });
+    expect(result.current.shellFocused).toBe(false);
+  });
+});
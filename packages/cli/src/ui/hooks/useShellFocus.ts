@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import { useInput, type Key } from 'ink';
+import { type Config, type PtySession } from '@google/gemini-cli-core';
+
+const ARROW_SEQUENCES: Array<[keyof Key, string]> = [
+  ['upArrow', '\x1b[A'],
+  ['downArrow', '\x1b[B'],
+  ['rightArrow', '\x1b[C'],
+  ['leftArrow', '\x1b[D'],
+  ['pageUp', '\x1b[5~'],
+  ['pageDown', '\x1b[6~'],
+];
+
+/** Translates a key press into the bytes a terminal would send for it. */
+export function terminalInputForKey(input: string, key: Key): string {
+  for (const [name, sequence] of ARROW_SEQUENCES) {
+    if (key[name]) {
+      return sequence;
+    }
+  }
+  if (key.return) {
+    return '\r';
+  }
+  if (key.backspace || key.delete) {
+    return '\x7f';
+  }
+  if (key.tab) {
+    return key.shift ? '\x1b[Z' : '\t';
+  }
+  if (key.escape) {
+    return '\x1b';
+  }
+  if (key.ctrl && /^[a-z]$/i.test(input)) {
+    return String.fromCharCode(input.toLowerCase().charCodeAt(0) - 96);
+  }
+  return key.meta ? `\x1b${input}` : input;
+}
+
+export interface UseShellFocusReturn {
+  /** The shell command running in a terminal, if any. */
+  activeShell: PtySession | undefined;
+  /** Whether key presses are sent to {@link activeShell}. */
+  shellFocused: boolean;
+}
+
+/**
+ * Lets the user type into a command running in a pseudo-terminal. Ctrl+F
+ * moves keyboard focus to the running command and back; while it is focused,
+ * every other key press is sent to the command.
+ */
+export function useShellFocus(config: Config): UseShellFocusReturn {
+  const [activeShell, setActiveShell] = useState<PtySession | undefined>();
+  const [shellFocused, setShellFocused] = useState(false);
+
+  useEffect(() => {
+    if (!config.getShellPty()) {
+      return;
+    }
+    const ptyService = config.getPtyService();
+    const onUpdate = (session: PtySession | undefined) => {
+      setActiveShell(session);
+      if (!session) {
+        setShellFocused(false);
+      }
+    };
+    ptyService.on('update', onUpdate);
+    return () => {
+      ptyService.off('update', onUpdate);
+    };
+  }, [config]);
+
+  useInput(
+    (input, key) => {
+      if (key.ctrl && input === 'f') {
+        setShellFocused((focused) => !focused);
+      } else if (shellFocused) {
+        activeShell?.write(terminalInputForKey(input, key));
+      }
+    },
+    { isActive: activeShell !== undefined },
+  );
+
+  return { activeShell, shellFocused };
+}
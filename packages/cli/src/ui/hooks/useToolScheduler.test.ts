@@ -48,6 +48,7 @@ const mockToolRegistry = {
 const mockConfig = {
   getToolRegistry: vi.fn(() => mockToolRegistry as unknown as ToolRegistry),
   getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
+  getMaxConcurrentToolCalls: vi.fn(() => 4),
   getUsageStatisticsEnabled: () => true,
   getDebugMode: () => false,
 };
@@ -58,6 +59,7 @@ const mockTool: Tool = {
   description: 'A mock tool for testing',
   isOutputMarkdown: false,
   canUpdateOutput: false,
+  isReadOnly: false,
   schema: {},
   validateToolParams: vi.fn(),
   execute: vi.fn(),
@@ -70,6 +72,7 @@ const mockToolWithLiveOutput: Tool = {
   name: 'mockToolWithLiveOutput',
   displayName: 'Mock Tool With Live Output',
   canUpdateOutput: true,
+  isReadOnly: false,
 };
 
 let mockOnUserConfirmForToolConfirmation: Mock;
@@ -795,6 +798,7 @@ describe('mapToDisplay', () => {
     description: 'Test Description',
     isOutputMarkdown: false,
     canUpdateOutput: false,
+    isReadOnly: false,
     schema: {},
     validateToolParams: vi.fn(),
     execute: vi.fn(),
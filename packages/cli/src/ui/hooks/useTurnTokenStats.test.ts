@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { SessionMetrics, uiTelemetryService } from '@google/gemini-cli-core';
+import { useTurnTokenStats } from './useTurnTokenStats.js';
+import { HistoryItem, StreamingState } from '../types.js';
+
+function metricsWithTokens(prompt: number, candidates: number): SessionMetrics {
+  return {
+    models: {
+      'gemini-pro': {
+        api: { totalRequests: 1, totalErrors: 0, totalLatencyMs: 0 },
+        tokens: {
+          prompt,
+          candidates,
+          total: prompt + candidates,
+          cached: 0,
+          thoughts: 0,
+          tool: 0,
+        },
+      },
+    },
+  } as unknown as SessionMetrics;
+}
+
+describe('useTurnTokenStats', () => {
+  const updateItem = vi.fn();
+  const history: HistoryItem[] = [
+    { id: 1, type: 'user', text: 'first' },
+    { id: 2, type: 'user', text: 'second' },
+    { id: 3, type: 'gemini', text: 'answer' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should record the tokens of a turn on its prompt', () => {
+    const getMetrics = vi
+      .spyOn(uiTelemetryService, 'getMetrics')
+      .mockReturnValue(metricsWithTokens(100, 10));
+    const { rerender } = renderHook(
+      ({ state }) => useTurnTokenStats(history, updateItem, state),
+      { initialProps: { state: StreamingState.Responding } },
+    );
+    getMetrics.mockReturnValue(metricsWithTokens(250, 30));
+    rerender({ state: StreamingState.Idle });
+
+    expect(updateItem).toHaveBeenCalledWith(2, expect.any(Function));
+    const update = updateItem.mock.calls[0][1];
+    expect(update(history[1])).toEqual({
+      tokens: {
+        prompt: 150,
+        candidates: 20,
+        total: 170,
+        cached: 0,
+        thoughts: 0,
+        tool: 0,
+      },
+    });
+  });
+
+  it('should not record turns that spent no tokens', () => {
+    vi.spyOn(uiTelemetryService, 'getMetrics').mockReturnValue(
+      metricsWithTokens(100, 10),
+    );
+    const { rerender } = renderHook(
+      ({ state }) => useTurnTokenStats(history, updateItem, state),
+      { initialProps: { state: StreamingState.Responding } },
+    );
+    rerender({ state: StreamingState.Idle });
+
+    expect(updateItem).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useRef } from 'react';
+import { uiTelemetryService } from '@google/gemini-cli-core';
+import {
+  HistoryItem,
+  HistoryItemUser,
+  StreamingState,
+  TurnTokenStats,
+} from '../types.js';
+import { UseHistoryManagerReturn } from './useHistoryManager.js';
+import { sumTokenMetrics } from '../utils/computeStats.js';
+
+function subtractTokens(
+  end: TurnTokenStats,
+  start: TurnTokenStats,
+): TurnTokenStats {
+  return {
+    prompt: end.prompt - start.prompt,
+    candidates: end.candidates - start.candidates,
+    cached: end.cached - start.cached,
+    thoughts: end.thoughts - start.thoughts,
+    tool: end.tool - start.tool,
+    total: end.total - start.total,
+  };
+}
+
+function addTokens(
+  a: TurnTokenStats | undefined,
+  b: TurnTokenStats,
+): TurnTokenStats {
+  return a
+    ? {
+        prompt: a.prompt + b.prompt,
+        candidates: a.candidates + b.candidates,
+        cached: a.cached + b.cached,
+        thoughts: a.thoughts + b.thoughts,
+        tool: a.tool + b.tool,
+        total: a.total + b.total,
+      }
+    : b;
+}
+
+/**
+ * Records on each prompt the tokens spent answering it, tool call round trips
+ * included, so transcripts can show what every turn cost.
+ */
+export function useTurnTokenStats(
+  history: HistoryItem[],
+  updateItem: UseHistoryManagerReturn['updateItem'],
+  streamingState: StreamingState,
+): void {
+  const turnStartRef = useRef<TurnTokenStats | null>(null);
+
+  useEffect(() => {
+    if (streamingState !== StreamingState.Idle) {
+      turnStartRef.current ??= sumTokenMetrics(uiTelemetryService.getMetrics());
+      return;
+    }
+    const start = turnStartRef.current;
+    if (!start) {
+      return;
+    }
+    turnStartRef.current = null;
+    const spent = subtractTokens(
+      sumTokenMetrics(uiTelemetryService.getMetrics()),
+      start,
+    );
+    const prompt = [...history].reverse().find((item) => item.type === 'user');
+    if (!prompt || spent.total === 0) {
+      return;
+    }
+    updateItem(prompt.id, (item) => {
+      const update: Partial<HistoryItemUser> = {
+        tokens: addTokens(
+          item.type === 'user' ? item.tokens : undefined,
+          spent,
+        ),
+      };
+      return update;
+    });
+  }, [history, updateItem, streamingState]);
+}
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text } from 'ink';
+import { DEFAULT_OPENAI_COMPATIBLE_BASE_URL } from '@google/gemini-cli-core';
+import { Colors } from '../colors.js';
+
+interface OpenAICompatiblePrivacyNoticeProps {
+  baseUrl?: string;
+  onExit: () => void;
+}
+
+export function OpenAICompatiblePrivacyNotice({
+  baseUrl,
+  onExit: _onExit,
+}: OpenAICompatiblePrivacyNoticeProps): React.JSX.Element {
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.Gray}
+      padding={1}
+    >
+      <Text bold color={Colors.AccentBlue}>
+        OpenAI-compatible Server Privacy Notice
+      </Text>
+      <Box marginTop={1}>
+        <Text>
+          You are using an OpenAI-compatible server at{' '}
+          {baseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL}.
+        </Text>
+      </Box>
+      <Box marginTop={1} flexDirection="column">
+        <Text>• Prompts, files and tool output are sent to this server</Text>
+        <Text>
+          • If it runs on your machine (llama.cpp, vLLM, LM Studio), nothing
+          leaves your device
+        </Text>
+        <Text>
+          • For hosted endpoints, the provider&apos;s own terms and data
+          policies apply
+        </Text>
+      </Box>
+    </Box>
+  );
+}
@@ -10,6 +10,7 @@ import { GeminiPrivacyNotice } from './GeminiPrivacyNotice.js';
 import { CloudPaidPrivacyNotice } from './CloudPaidPrivacyNotice.js';
 import { CloudFreePrivacyNotice } from './CloudFreePrivacyNotice.js';
 import { OllamaPrivacyNotice } from './OllamaPrivacyNotice.js';
+import { OpenAICompatiblePrivacyNotice } from './OpenAICompatiblePrivacyNotice.js';
 
 interface PrivacyNoticeProps {
   onExit: () => void;
@@ -32,6 +33,13 @@ const PrivacyNoticeText = ({
       return <CloudPaidPrivacyNotice onExit={onExit} />;
     case AuthType.USE_OLLAMA:
       return <OllamaPrivacyNotice onExit={onExit} />;
+    case AuthType.USE_OPENAI_COMPATIBLE:
+      return (
+        <OpenAICompatiblePrivacyNotice
+          baseUrl={config.getContentGeneratorConfig()?.openaiBaseUrl}
+          onExit={onExit}
+        />
+      );
     case AuthType.LOGIN_WITH_GOOGLE_PERSONAL:
     default:
       return <CloudFreePrivacyNotice config={config} onExit={onExit} />;
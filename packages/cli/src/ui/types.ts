@@ -46,6 +46,7 @@ export interface IndividualToolCallDisplay {
   callId: string;
   name: string;
   description: string;
+  args?: Record<string, unknown>;
   resultDisplay: ToolResultDisplay | undefined;
   status: ToolCallStatus;
   confirmationDetails: ToolCallConfirmationDetails | undefined;
@@ -56,15 +57,62 @@ export interface CompressionProps {
   isPending: boolean;
   originalTokenCount: number | null;
   newTokenCount: number | null;
+  summarizedTurns?: number;
+  /** Whether the summarized turns became a state, free text or nothing. */
+  summary?: 'state' | 'text' | 'none';
+  keptTurns?: number;
+  pinnedTurns?: number;
+  /** Files whose contents the model no longer has. */
+  droppedFiles?: string[];
+}
+
+export interface ModelPullProps {
+  model: string;
+  status: string;
+  completed?: number;
+  total?: number;
+  isPending: boolean;
 }
 
 export interface HistoryItemBase {
   text?: string; // Text content for user/gemini/info/error messages
 }
 
+/** Tokens spent by the requests made while answering one prompt. */
+export interface TurnTokenStats {
+  prompt: number;
+  candidates: number;
+  cached: number;
+  thoughts: number;
+  tool: number;
+  total: number;
+}
+
+/** Where a prompt started, so the conversation can be rewound to it. */
+export interface RewindPoint {
+  /** The length of the model's history before the prompt was sent. */
+  clientHistoryLength: number;
+  /** Whether checkpointing was on, so the project files can be restored. */
+  checkpointing?: boolean;
+  /**
+   * Shadow repository snapshot of the project, taken before the prompt's
+   * first file change. Prompts that changed no files have none.
+   */
+  commitHash?: string;
+}
+
+/** An earlier prompt being edited, to regenerate the conversation from it. */
+export interface PromptEdit {
+  /** 1-based, counting the prompts that can be rewound to. */
+  turn: number;
+  text: string;
+}
+
 export type HistoryItemUser = HistoryItemBase & {
   type: 'user';
   text: string;
+  tokens?: TurnTokenStats;
+  rewindPoint?: RewindPoint;
 };
 
 export type HistoryItemGemini = HistoryItemBase & {
@@ -72,6 +120,12 @@ export type HistoryItemGemini = HistoryItemBase & {
   text: string;
 };
 
+export type HistoryItemThought = HistoryItemBase & {
+  type: 'thought';
+  text: string;
+  subject?: string;
+};
+
 export type HistoryItemGeminiContent = HistoryItemBase & {
   type: 'gemini_content';
   text: string;
@@ -130,6 +184,17 @@ export type HistoryItemCompression = HistoryItemBase & {
   compression: CompressionProps;
 };
 
+export type HistoryItemModelSwitch = HistoryItemBase & {
+  type: 'model_switch';
+  fromModel: string;
+  toModel: string;
+};
+
+export type HistoryItemModelPull = HistoryItemBase & {
+  type: 'model_pull';
+  modelPull: ModelPullProps;
+};
+
 // Using Omit<HistoryItem, 'id'> seems to have some issues with typescript's
 // type inference e.g. historyItem.type === 'tool_group' isn't auto-inferring that
 // 'tools' in historyItem.
@@ -139,6 +204,7 @@ export type HistoryItemWithoutId =
   | HistoryItemUserShell
   | HistoryItemGemini
   | HistoryItemGeminiContent
+  | HistoryItemThought
   | HistoryItemInfo
   | HistoryItemError
   | HistoryItemAbout
@@ -147,7 +213,9 @@ export type HistoryItemWithoutId =
   | HistoryItemModelStats
   | HistoryItemToolStats
   | HistoryItemQuit
-  | HistoryItemCompression;
+  | HistoryItemCompression
+  | HistoryItemModelPull
+  | HistoryItemModelSwitch;
 
 export type HistoryItem = HistoryItemWithoutId & { id: number };
 
@@ -163,6 +231,7 @@ export enum MessageType {
   QUIT = 'quit',
   GEMINI = 'gemini',
   COMPRESSION = 'compression',
+  MODEL_PULL = 'model_pull',
 }
 
 // Simplified message structure for internal feedback
@@ -209,6 +278,11 @@ export type Message =
       type: MessageType.COMPRESSION;
       compression: CompressionProps;
       timestamp: Date;
+    }
+  | {
+      type: MessageType.MODEL_PULL;
+      modelPull: ModelPullProps;
+      timestamp: Date;
     };
 
 export interface ConsoleMessageItem {
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { render } from 'ink-testing-library';
+import { describe, it, expect } from 'vitest';
+import { MarkdownDisplay } from './MarkdownDisplay.js';
+
+const renderMarkdown = (text: string, terminalWidth = 80, isPending = false) =>
+  render(
+    <MarkdownDisplay
+      text={text}
+      isPending={isPending}
+      terminalWidth={terminalWidth}
+    />,
+  ).lastFrame();
+
+describe('<MarkdownDisplay />', () => {
+  it('should render tables with aligned columns', () => {
+    const output = renderMarkdown(
+      [
+        '| Tool | Runs | Status |',
+        '| :--- | ---: | :---: |',
+        '| `ls` | 12 | ok |',
+        '| grep | 3 | **failed** |',
+      ].join('\n'),
+    );
+
+    expect(output).toBe(
+      [
+        'Tool  Runs  Status',
+        '────  ────  ──────',
+        'ls      12    ok',
+        'grep     3  failed',
+      ].join('\n'),
+    );
+  });
+
+  it('should wrap cells when the table is wider than the terminal', () => {
+    const output = renderMarkdown(
+      [
+        '| Name | Description |',
+        '| --- | --- |',
+        '| a | one two three four five |',
+      ].join('\n'),
+      20,
+    );
+
+    expect(output).toBe(
+      [
+        'Name  Description',
+        '────  ──────────────',
+        'a     one two three',
+        '      four five',
+      ].join('\n'),
+    );
+  });
+
+  it('should render a table that is still streaming', () => {
+    const output = renderMarkdown(
+      'Results:\n| a | b |\n|---|---|\n| 1 | 2',
+      80,
+      true,
+    );
+
+    expect(output).toBe(['Results:', 'a  b', '─  ─', '1  2'].join('\n'));
+  });
+
+  it('should render task list items with checkboxes', () => {
+    const output = renderMarkdown('- [x] Write tests\n- [ ] Ship it\n- plain');
+
+    expect(output).toBe(' ✓ Write tests\n ☐ Ship it\n - plain');
+  });
+
+  it('should not mistake horizontal rules for tables', () => {
+    expect(renderMarkdown('a | b\n---')).toBe('a | b\n---');
+  });
+});
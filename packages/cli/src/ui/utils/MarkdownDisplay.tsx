@@ -6,8 +6,17 @@
 
 import React from 'react';
 import { Text, Box } from 'ink';
+import stringWidth from 'string-width';
 import { Colors } from '../colors.js';
 import { colorizeCode } from './CodeColorizer.js';
+import {
+  TableAlignment,
+  fitColumnWidths,
+  isTableSeparator,
+  parseTableAlignments,
+  parseTableRow,
+  stripInlineMarkdown,
+} from './markdownUtilities.js';
 
 interface MarkdownDisplayProps {
   text: string;
@@ -28,6 +37,7 @@ const EMPTY_LINE_HEIGHT = 1;
 const CODE_BLOCK_PADDING = 1;
 const LIST_ITEM_PREFIX_PADDING = 1;
 const LIST_ITEM_TEXT_FLEX_GROW = 1;
+const TABLE_COLUMN_GAP = 2;
 
 const MarkdownDisplayInternal: React.FC<MarkdownDisplayProps> = ({
   text,
@@ -43,16 +53,49 @@ const MarkdownDisplayInternal: React.FC<MarkdownDisplayProps> = ({
   const ulItemRegex = /^([ \t]*)([-*+]) +(.*)/;
   const olItemRegex = /^([ \t]*)(\d+)\. +(.*)/;
   const hrRegex = /^ *([-*_] *){3,} *$/;
+  const taskRegex = /^\[([ xX])\] +(.*)/;
 
   const contentBlocks: React.ReactNode[] = [];
   let inCodeBlock = false;
   let codeBlockContent: string[] = [];
   let codeBlockLang: string | null = null;
   let codeBlockFence = '';
+  let table: {
+    key: string;
+    headers: string[];
+    alignments: TableAlignment[];
+    rows: string[][];
+  } | null = null;
+
+  const flushTable = () => {
+    if (table) {
+      contentBlocks.push(
+        <RenderTable
+          key={table.key}
+          headers={table.headers}
+          alignments={table.alignments}
+          rows={table.rows}
+          terminalWidth={terminalWidth}
+        />,
+      );
+      table = null;
+    }
+  };
 
   lines.forEach((line, index) => {
     const key = `line-${index}`;
 
+    if (table) {
+      if (line.includes('|') && line.trim().length > 0) {
+        // The delimiter row directly below the header is not a row.
+        if (table.rows.length > 0 || !isTableSeparator(line)) {
+          table.rows.push(parseTableRow(line));
+        }
+        return;
+      }
+      flushTable();
+    }
+
     if (inCodeBlock) {
       const fenceMatch = line.match(codeFenceRegex);
       if (
@@ -90,6 +133,13 @@ const MarkdownDisplayInternal: React.FC<MarkdownDisplayProps> = ({
       inCodeBlock = true;
       codeBlockFence = codeFenceMatch[1];
       codeBlockLang = codeFenceMatch[2] || null;
+    } else if (line.includes('|') && isTableSeparator(lines[index + 1])) {
+      table = {
+        key,
+        headers: parseTableRow(line),
+        alignments: parseTableAlignments(lines[index + 1]),
+        rows: [],
+      };
     } else if (hrMatch) {
       contentBlocks.push(
         <Box key={key}>
@@ -142,26 +192,30 @@ const MarkdownDisplayInternal: React.FC<MarkdownDisplayProps> = ({
       const leadingWhitespace = ulMatch[1];
       const marker = ulMatch[2];
       const itemText = ulMatch[3];
+      const taskMatch = itemText.match(taskRegex);
       contentBlocks.push(
         <RenderListItem
           key={key}
-          itemText={itemText}
+          itemText={taskMatch ? taskMatch[2] : itemText}
           type="ul"
           marker={marker}
           leadingWhitespace={leadingWhitespace}
+          checked={taskMatch ? taskMatch[1] !== ' ' : undefined}
         />,
       );
     } else if (olMatch) {
       const leadingWhitespace = olMatch[1];
       const marker = olMatch[2];
       const itemText = olMatch[3];
+      const taskMatch = itemText.match(taskRegex);
       contentBlocks.push(
         <RenderListItem
           key={key}
-          itemText={itemText}
+          itemText={taskMatch ? taskMatch[2] : itemText}
           type="ol"
           marker={marker}
           leadingWhitespace={leadingWhitespace}
+          checked={taskMatch ? taskMatch[1] !== ' ' : undefined}
         />,
       );
     } else {
@@ -181,6 +235,8 @@ const MarkdownDisplayInternal: React.FC<MarkdownDisplayProps> = ({
     }
   });
 
+  flushTable();
+
   if (inCodeBlock) {
     contentBlocks.push(
       <RenderCodeBlock
@@ -412,6 +468,8 @@ interface RenderListItemProps {
   type: 'ul' | 'ol';
   marker: string;
   leadingWhitespace?: string;
+  /** Set for task list items (`- [ ]` or `- [x]`). */
+  checked?: boolean;
 }
 
 const RenderListItemInternal: React.FC<RenderListItemProps> = ({
@@ -419,8 +477,14 @@ const RenderListItemInternal: React.FC<RenderListItemProps> = ({
   type,
   marker,
   leadingWhitespace = '',
+  checked,
 }) => {
-  const prefix = type === 'ol' ? `${marker}. ` : `${marker} `;
+  let prefix = type === 'ol' ? `${marker}. ` : `${marker} `;
+  let prefixColor: string | undefined;
+  if (checked !== undefined) {
+    prefix = checked ? '✓ ' : '☐ ';
+    prefixColor = checked ? Colors.AccentGreen : Colors.Gray;
+  }
   const prefixWidth = prefix.length;
   const indentation = leadingWhitespace.length;
 
@@ -430,10 +494,10 @@ const RenderListItemInternal: React.FC<RenderListItemProps> = ({
       flexDirection="row"
     >
       <Box width={prefixWidth}>
-        <Text>{prefix}</Text>
+        <Text color={prefixColor}>{prefix}</Text>
       </Box>
       <Box flexGrow={LIST_ITEM_TEXT_FLEX_GROW}>
-        <Text wrap="wrap">
+        <Text wrap="wrap" dimColor={checked}>
           <RenderInline text={itemText} />
         </Text>
       </Box>
@@ -443,4 +507,80 @@ const RenderListItemInternal: React.FC<RenderListItemProps> = ({
 
 const RenderListItem = React.memo(RenderListItemInternal);
 
+interface RenderTableProps {
+  headers: string[];
+  alignments: TableAlignment[];
+  rows: string[][];
+  terminalWidth: number;
+}
+
+const TABLE_CELL_JUSTIFY: Record<
+  TableAlignment,
+  'flex-start' | 'center' | 'flex-end'
+> = {
+  left: 'flex-start',
+  center: 'center',
+  right: 'flex-end',
+};
+
+const RenderTableInternal: React.FC<RenderTableProps> = ({
+  headers,
+  alignments,
+  rows,
+  terminalWidth,
+}) => {
+  const columnCount = Math.max(
+    headers.length,
+    ...rows.map((row) => row.length),
+  );
+  const contentWidths = Array.from({ length: columnCount }, (_, column) =>
+    Math.max(
+      1,
+      ...[headers, ...rows].map((row) =>
+        stringWidth(stripInlineMarkdown(row[column] ?? '')),
+      ),
+    ),
+  );
+  // Cells wider than their column wrap within it.
+  const columnWidths = fitColumnWidths(
+    contentWidths,
+    terminalWidth - TABLE_COLUMN_GAP * (columnCount - 1),
+  );
+
+  const renderRow = (cells: string[], isHeader: boolean) =>
+    columnWidths.map((width, column) => (
+      <Box
+        key={column}
+        width={width}
+        flexShrink={0}
+        marginLeft={column > 0 ? TABLE_COLUMN_GAP : 0}
+        justifyContent={TABLE_CELL_JUSTIFY[alignments[column] ?? 'left']}
+      >
+        <Text wrap="wrap" bold={isHeader}>
+          <RenderInline text={cells[column] ?? ''} />
+        </Text>
+      </Box>
+    ));
+
+  return (
+    <Box flexDirection="column">
+      <Box flexDirection="row">{renderRow(headers, true)}</Box>
+      <Box flexDirection="row">
+        {columnWidths.map((width, column) => (
+          <Box key={column} marginLeft={column > 0 ? TABLE_COLUMN_GAP : 0}>
+            <Text color={Colors.Gray}>{'─'.repeat(width)}</Text>
+          </Box>
+        ))}
+      </Box>
+      {rows.map((row, index) => (
+        <Box key={index} flexDirection="row">
+          {renderRow(row, false)}
+        </Box>
+      ))}
+    </Box>
+  );
+};
+
+const RenderTable = React.memo(RenderTableInternal);
+
 export const MarkdownDisplay = React.memo(MarkdownDisplayInternal);
@@ -31,6 +31,29 @@ export function calculateCacheHitRate(metrics: ModelMetrics): number {
   return (metrics.tokens.cached / metrics.tokens.prompt) * 100;
 }
 
+/** Adds up the token counts of all models. */
+export function sumTokenMetrics(
+  metrics: SessionMetrics,
+): ModelMetrics['tokens'] {
+  const totals = {
+    prompt: 0,
+    candidates: 0,
+    total: 0,
+    cached: 0,
+    thoughts: 0,
+    tool: 0,
+  };
+  for (const { tokens } of Object.values(metrics.models)) {
+    totals.prompt += tokens.prompt;
+    totals.candidates += tokens.candidates;
+    totals.total += tokens.total;
+    totals.cached += tokens.cached;
+    totals.thoughts += tokens.thoughts;
+    totals.tool += tokens.tool;
+  }
+  return totals;
+}
+
 export const computeSessionStats = (
   metrics: SessionMetrics,
 ): ComputedSessionStats => {
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ConversationExport,
+  formatConversation,
+} from './conversationExport.js';
+import { HistoryItem, ToolCallStatus } from '../types.js';
+
+const history: HistoryItem[] = [
+  {
+    id: 1,
+    type: 'user',
+    text: 'Rename foo to bar',
+    tokens: {
+      prompt: 1200,
+      candidates: 80,
+      cached: 0,
+      thoughts: 20,
+      tool: 0,
+      total: 1300,
+    },
+  },
+  { id: 2, type: 'thought', subject: 'Planning', text: 'Edit a.ts' },
+  {
+    id: 3,
+    type: 'tool_group',
+    tools: [
+      {
+        callId: 'c1',
+        name: 'Edit',
+        description: 'a.ts',
+        args: { file_path: '/p/a.ts', old_string: 'foo', new_string: 'bar' },
+        resultDisplay: {
+          fileName: 'a.ts',
+          fileDiff: '--- a.ts\n+++ a.ts\n@@ -1 +1 @@\n-foo\n+bar',
+        },
+        status: ToolCallStatus.Success,
+        confirmationDetails: undefined,
+      },
+    ],
+  },
+  { id: 4, type: 'gemini', text: 'Done, see ' },
+  { id: 5, type: 'gemini_content', text: '`a.ts`.' },
+  { id: 6, type: 'user_shell', text: 'ls' },
+  { id: 7, type: 'info', text: 'a.ts\n<b>.ts' },
+  { id: 8, type: 'stats', duration: '1s' },
+];
+
+const conversation: ConversationExport = {
+  title: 'Rename foo to bar',
+  sessionId: 'abc',
+  model: 'gemini-pro',
+  exportedAt: new Date('2025-01-01T00:00:00.000Z'),
+  history,
+  clientHistory: [{ role: 'user', parts: [{ text: 'Rename foo to bar' }] }],
+};
+
+describe('formatConversation', () => {
+  it('should export readable Markdown', () => {
+    const markdown = formatConversation('md', conversation);
+
+    expect(markdown).toContain('# Rename foo to bar');
+    expect(markdown).toContain('- Tokens: 1,300');
+    expect(markdown).toContain(
+      '## User\n\nRename foo to bar\n\n_Tokens: 1,200 prompt · 80 output · 20 thoughts · 1,300 total_',
+    );
+    expect(markdown).toContain('> **Thinking: Planning**\n>\n> Edit a.ts');
+    expect(markdown).toContain('### Tool: Edit — a.ts');
+    expect(markdown).toContain('"old_string": "foo"');
+    expect(markdown).toContain(
+      '```diff\n--- a.ts\n+++ a.ts\n@@ -1 +1 @@\n-foo\n+bar\n```',
+    );
+    expect(markdown).toContain('## Gemini\n\nDone, see `a.ts`.');
+    expect(markdown).toContain('```sh\n$ ls\na.ts\n<b>.ts\n```');
+    expect(markdown).not.toContain('1s');
+  });
+
+  it('should lengthen code fences around backticks', () => {
+    const markdown = formatConversation('md', {
+      ...conversation,
+      history: [{ id: 1, type: 'user_shell', text: 'echo ```' }],
+    });
+
+    expect(markdown).toContain('````sh\n$ echo ```\n````');
+  });
+
+  it('should export a standalone HTML page', () => {
+    const html = formatConversation('html', conversation);
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Rename foo to bar</title>');
+    expect(html).toContain('<span class="add">+bar</span>');
+    expect(html).toContain('<span class="del">-foo</span>');
+    expect(html).toContain('$ ls\na.ts\n&lt;b&gt;.ts');
+  });
+
+  it('should export both histories as JSON', () => {
+    const exported = JSON.parse(formatConversation('json', conversation));
+
+    expect(exported).toEqual({
+      title: 'Rename foo to bar',
+      sessionId: 'abc',
+      model: 'gemini-pro',
+      exportedAt: '2025-01-01T00:00:00.000Z',
+      history,
+      clientHistory: conversation.clientHistory,
+    });
+  });
+});
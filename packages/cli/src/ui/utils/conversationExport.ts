@@ -0,0 +1,385 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { type Content } from '@google/genai';
+import stripAnsi from 'strip-ansi';
+import {
+  HistoryItem,
+  IndividualToolCallDisplay,
+  TurnTokenStats,
+} from '../types.js';
+
+export const EXPORT_FORMATS = ['md', 'html', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ConversationExport {
+  title: string;
+  sessionId: string;
+  model: string;
+  exportedAt: Date;
+  /** The transcript as shown in the terminal. */
+  history: HistoryItem[];
+  /** The conversation as the model sees it. */
+  clientHistory: Content[];
+}
+
+/** The parts of a transcript worth reading outside the terminal. */
+type ExportEntry =
+  | { kind: 'user'; text: string; tokens?: TurnTokenStats }
+  | { kind: 'shell'; command: string; output?: string }
+  | { kind: 'gemini'; text: string }
+  | { kind: 'thought'; subject?: string; text: string }
+  | { kind: 'tool'; tool: IndividualToolCallDisplay }
+  | { kind: 'note'; level: 'info' | 'error'; text: string };
+
+function collectEntries(history: HistoryItem[]): ExportEntry[] {
+  const entries: ExportEntry[] = [];
+  for (const item of history) {
+    const previous = entries[entries.length - 1];
+    switch (item.type) {
+      case 'user':
+        entries.push({ kind: 'user', text: item.text, tokens: item.tokens });
+        break;
+      case 'user_shell':
+        entries.push({ kind: 'shell', command: item.text });
+        break;
+      case 'gemini':
+        entries.push({ kind: 'gemini', text: item.text });
+        break;
+      case 'gemini_content':
+        // Long answers are split into several items while streaming.
+        if (previous?.kind === 'gemini') {
+          previous.text += item.text;
+        } else {
+          entries.push({ kind: 'gemini', text: item.text });
+        }
+        break;
+      case 'thought':
+        entries.push({
+          kind: 'thought',
+          subject: item.subject,
+          text: item.text,
+        });
+        break;
+      case 'tool_group':
+        for (const tool of item.tools) {
+          entries.push({ kind: 'tool', tool });
+        }
+        break;
+      case 'info':
+      case 'error':
+        // Shell mode reports the output of a command as the next message.
+        if (previous?.kind === 'shell' && previous.output === undefined) {
+          previous.output = stripAnsi(item.text);
+        } else {
+          entries.push({ kind: 'note', level: item.type, text: item.text });
+        }
+        break;
+      case 'compression':
+        entries.push({
+          kind: 'note',
+          level: 'info',
+          text: `Chat history compressed from ${item.compression.originalTokenCount ?? 'unknown'} to ${item.compression.newTokenCount ?? 'unknown'} tokens.`,
+        });
+        break;
+      case 'model_switch':
+        entries.push({
+          kind: 'note',
+          level: 'info',
+          text: `Switched model from ${item.fromModel} to ${item.toModel}.`,
+        });
+        break;
+      default:
+        // Stats, about boxes and the like describe the CLI, not the chat.
+        break;
+    }
+  }
+  return entries;
+}
+
+function formatTokens(tokens: TurnTokenStats): string {
+  const parts = [
+    `${tokens.prompt.toLocaleString()} prompt`,
+    `${tokens.candidates.toLocaleString()} output`,
+  ];
+  if (tokens.cached) {
+    parts.push(`${tokens.cached.toLocaleString()} cached`);
+  }
+  if (tokens.thoughts) {
+    parts.push(`${tokens.thoughts.toLocaleString()} thoughts`);
+  }
+  if (tokens.tool) {
+    parts.push(`${tokens.tool.toLocaleString()} tool`);
+  }
+  parts.push(`${tokens.total.toLocaleString()} total`);
+  return `Tokens: ${parts.join(' · ')}`;
+}
+
+function getTotalTokens(entries: ExportEntry[]): number {
+  return entries.reduce(
+    (sum, entry) =>
+      entry.kind === 'user' && entry.tokens ? sum + entry.tokens.total : sum,
+    0,
+  );
+}
+
+function formatArgs(tool: IndividualToolCallDisplay): string | undefined {
+  return tool.args && Object.keys(tool.args).length > 0
+    ? JSON.stringify(tool.args, null, 2)
+    : undefined;
+}
+
+/** A fence longer than any run of backticks inside the text. */
+function fence(text: string, language = ''): string {
+  const longestRun = Math.max(
+    0,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${text.replace(/\n$/, '')}\n${marker}`;
+}
+
+function toolToMarkdown(tool: IndividualToolCallDisplay): string {
+  const lines = [
+    `### Tool: ${tool.name}${tool.description ? ` — ${tool.description.split('\n')[0]}` : ''}`,
+    '',
+    `Status: ${tool.status}`,
+  ];
+  const args = formatArgs(tool);
+  if (args) {
+    lines.push('', fence(args, 'json'));
+  }
+  const result = tool.resultDisplay;
+  if (typeof result === 'string' && result.trim()) {
+    lines.push('', fence(stripAnsi(result)));
+  } else if (result && typeof result === 'object') {
+    lines.push(
+      '',
+      `Changes to \`${result.fileName}\`:`,
+      '',
+      fence(result.fileDiff, 'diff'),
+    );
+  }
+  return lines.join('\n');
+}
+
+function toMarkdown(conversation: ConversationExport): string {
+  const entries = collectEntries(conversation.history);
+  const sections = [
+    `# ${conversation.title || 'Gemini CLI conversation'}`,
+    [
+      `- Session: \`${conversation.sessionId}\``,
+      `- Model: ${conversation.model}`,
+      `- Exported: ${conversation.exportedAt.toISOString()}`,
+      `- Tokens: ${getTotalTokens(entries).toLocaleString()}`,
+    ].join('\n'),
+  ];
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case 'user':
+        sections.push(
+          `## User\n\n${entry.text}` +
+            (entry.tokens ? `\n\n_${formatTokens(entry.tokens)}_` : ''),
+        );
+        break;
+      case 'shell':
+        sections.push(
+          `## Shell\n\n${fence(`$ ${entry.command}${entry.output ? `\n${entry.output}` : ''}`, 'sh')}`,
+        );
+        break;
+      case 'gemini':
+        sections.push(`## Gemini\n\n${entry.text}`);
+        break;
+      case 'thought':
+        sections.push(
+          `> **Thinking${entry.subject ? `: ${entry.subject}` : ''}**\n>\n` +
+            entry.text
+              .split('\n')
+              .map((line) => `> ${line}`.trimEnd())
+              .join('\n'),
+        );
+        break;
+      case 'tool':
+        sections.push(toolToMarkdown(entry.tool));
+        break;
+      case 'note':
+        sections.push(
+          `_${entry.level === 'error' ? 'Error' : 'Note'}: ${entry.text}_`,
+        );
+        break;
+      default:
+        break;
+    }
+  }
+  return `${sections.join('\n\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function diffToHtml(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      const className =
+        line.startsWith('+++') || line.startsWith('---')
+          ? 'meta'
+          : line.startsWith('+')
+            ? 'add'
+            : line.startsWith('-')
+              ? 'del'
+              : line.startsWith('@@')
+                ? 'meta'
+                : '';
+      return className
+        ? `<span class="${className}">${escapeHtml(line)}</span>`
+        : escapeHtml(line);
+    })
+    .join('\n');
+}
+
+function toolToHtml(tool: IndividualToolCallDisplay): string {
+  const parts = [
+    `<div class="tool"><div class="tool-title"><strong>${escapeHtml(tool.name)}</strong> ${escapeHtml(tool.description.split('\n')[0])} <span class="status">${escapeHtml(tool.status)}</span></div>`,
+  ];
+  const args = formatArgs(tool);
+  if (args) {
+    parts.push(`<pre class="args">${escapeHtml(args)}</pre>`);
+  }
+  const result = tool.resultDisplay;
+  if (typeof result === 'string' && result.trim()) {
+    parts.push(`<pre>${escapeHtml(stripAnsi(result))}</pre>`);
+  } else if (result && typeof result === 'object') {
+    parts.push(
+      `<div class="file">${escapeHtml(result.fileName)}</div><pre class="diff">${diffToHtml(result.fileDiff)}</pre>`,
+    );
+  }
+  parts.push('</div>');
+  return parts.join('\n');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+header { border-bottom: 1px solid #d0d7de; margin-bottom: 1.5rem; }
+.meta-list { color: #59636e; font-size: 0.9rem; }
+.message { margin: 1rem 0; }
+.role { font-weight: 600; margin-bottom: 0.25rem; }
+.user .role { color: #0969da; }
+.gemini .role { color: #8250df; }
+.text { white-space: pre-wrap; }
+.tokens, .note { color: #59636e; font-size: 0.85rem; font-style: italic; }
+.note.error { color: #cf222e; }
+.thought { border-left: 3px solid #d0d7de; padding-left: 0.75rem; color: #59636e; white-space: pre-wrap; }
+.tool { border: 1px solid #d0d7de; border-radius: 6px; padding: 0.5rem 0.75rem; margin: 0.75rem 0; }
+.status { color: #59636e; font-size: 0.85rem; }
+pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; border-radius: 4px; }
+.diff .add { color: #1a7f37; }
+.diff .del { color: #cf222e; }
+.diff .meta { color: #59636e; }
+`;
+
+function toHtml(conversation: ConversationExport): string {
+  const entries = collectEntries(conversation.history);
+  const title = escapeHtml(conversation.title || 'Gemini CLI conversation');
+  const body: string[] = [];
+  for (const entry of entries) {
+    switch (entry.kind) {
+      case 'user':
+        body.push(
+          `<section class="message user"><div class="role">User</div><div class="text">${escapeHtml(entry.text)}</div>` +
+            (entry.tokens
+              ? `<div class="tokens">${escapeHtml(formatTokens(entry.tokens))}</div>`
+              : '') +
+            '</section>',
+        );
+        break;
+      case 'shell':
+        body.push(
+          `<section class="message shell"><div class="role">Shell</div><pre>$ ${escapeHtml(entry.command)}${entry.output ? `\n${escapeHtml(entry.output)}` : ''}</pre></section>`,
+        );
+        break;
+      case 'gemini':
+        body.push(
+          `<section class="message gemini"><div class="role">Gemini</div><div class="text">${escapeHtml(entry.text)}</div></section>`,
+        );
+        break;
+      case 'thought':
+        body.push(
+          `<div class="thought">${entry.subject ? `<strong>${escapeHtml(entry.subject)}</strong>\n` : ''}${escapeHtml(entry.text)}</div>`,
+        );
+        break;
+      case 'tool':
+        body.push(toolToHtml(entry.tool));
+        break;
+      case 'note':
+        body.push(
+          `<div class="note ${entry.level}">${escapeHtml(entry.text)}</div>`,
+        );
+        break;
+      default:
+        break;
+    }
+  }
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+<div class="meta-list">Session <code>${escapeHtml(conversation.sessionId)}</code> · ${escapeHtml(conversation.model)} · exported ${escapeHtml(conversation.exportedAt.toISOString())} · ${getTotalTokens(entries).toLocaleString()} tokens</div>
+</header>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+function toJson(conversation: ConversationExport): string {
+  return `${JSON.stringify(
+    {
+      title: conversation.title,
+      sessionId: conversation.sessionId,
+      model: conversation.model,
+      exportedAt: conversation.exportedAt.toISOString(),
+      history: conversation.history,
+      clientHistory: conversation.clientHistory,
+    },
+    null,
+    2,
+  )}\n`;
+}
+
+/**
+ * Serializes a conversation into a standalone file: Markdown or HTML for
+ * reading, JSON for tools.
+ */
+export function formatConversation(
+  format: ExportFormat,
+  conversation: ConversationExport,
+): string {
+  switch (format) {
+    case 'md':
+      return toMarkdown(conversation);
+    case 'html':
+      return toHtml(conversation);
+    case 'json':
+      return toJson(conversation);
+    default: {
+      const exhaustiveCheck: never = format;
+      throw new Error(`Unknown export format: ${exhaustiveCheck}`);
+    }
+  }
+}
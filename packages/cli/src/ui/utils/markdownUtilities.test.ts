@@ -5,7 +5,14 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { findLastSafeSplitPoint } from './markdownUtilities.js';
+import {
+  findLastSafeSplitPoint,
+  fitColumnWidths,
+  isTableSeparator,
+  parseTableAlignments,
+  parseTableRow,
+  stripInlineMarkdown,
+} from './markdownUtilities.js';
 
 describe('markdownUtilities', () => {
   describe('findLastSafeSplitPoint', () => {
@@ -47,4 +54,45 @@ describe('markdownUtilities', () => {
       expect(findLastSafeSplitPoint(content)).toBe(content.length);
     });
   });
+
+  describe('tables', () => {
+    it('should split rows into cells with optional outer pipes', () => {
+      expect(parseTableRow('| a | `b` | c \\| d |')).toEqual([
+        'a',
+        '`b`',
+        'c | d',
+      ]);
+      expect(parseTableRow('a|b')).toEqual(['a', 'b']);
+    });
+
+    it('should recognize delimiter rows but not horizontal rules', () => {
+      expect(isTableSeparator('| :--- | :---: | ---: |')).toBe(true);
+      expect(isTableSeparator('---|---')).toBe(true);
+      expect(isTableSeparator('|-')).toBe(true);
+      expect(isTableSeparator('---')).toBe(false);
+      expect(isTableSeparator('| a | b |')).toBe(false);
+      expect(isTableSeparator(undefined)).toBe(false);
+    });
+
+    it('should read column alignments', () => {
+      expect(parseTableAlignments('| :-- | :-: | --: | --- |')).toEqual([
+        'left',
+        'center',
+        'right',
+        'left',
+      ]);
+    });
+
+    it('should measure cells without inline markup', () => {
+      expect(
+        stripInlineMarkdown('**bold** `code` [link](http://x) <u>u</u>'),
+      ).toBe('bold code link (http://x) u');
+    });
+
+    it('should narrow the widest columns until the table fits', () => {
+      expect(fitColumnWidths([5, 20, 10], 40)).toEqual([5, 20, 10]);
+      expect(fitColumnWidths([5, 20, 10], 25)).toEqual([5, 10, 10]);
+      expect(fitColumnWidths([5, 20, 10], 5)).toEqual([3, 3, 3]);
+    });
+  });
 });
@@ -123,3 +123,76 @@ export const findLastSafeSplitPoint = (content: string) => {
   // to keep the entire content as one piece.
   return content.length;
 };
+
+export type TableAlignment = 'left' | 'center' | 'right';
+
+// A GFM table delimiter row, e.g. `| :--- | :---: | ---: |`. A pipe is required
+// so that horizontal rules (`---`) are not mistaken for one.
+const tableSeparatorRegex = /^ *\|? *:?-+:? *(\| *:?-+:? *)*\|? *$/;
+
+// The smallest width a column is narrowed to when a table does not fit.
+const MIN_TABLE_COLUMN_WIDTH = 3;
+
+/** Checks whether a line is the delimiter row below a table's header. */
+export const isTableSeparator = (line: string | undefined): boolean =>
+  line !== undefined && line.includes('|') && tableSeparatorRegex.test(line);
+
+/**
+ * Splits a table row into its trimmed cells. The outer pipes are optional and
+ * escaped pipes (`\|`) stay in the cell.
+ */
+export const parseTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) {
+    row = row.slice(1);
+  }
+  if (row.endsWith('|') && !row.endsWith('\\|')) {
+    row = row.slice(0, -1);
+  }
+  return row
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+};
+
+/** Reads the alignment of each column from a table's delimiter row. */
+export const parseTableAlignments = (separator: string): TableAlignment[] =>
+  parseTableRow(separator).map((cell) => {
+    if (cell.startsWith(':') && cell.endsWith(':')) {
+      return 'center';
+    }
+    return cell.endsWith(':') ? 'right' : 'left';
+  });
+
+/**
+ * Removes the inline markup `MarkdownDisplay` does not show, so a cell's width
+ * can be measured as it will be rendered.
+ */
+export const stripInlineMarkdown = (text: string): string =>
+  text
+    .replace(/\[(.*?)\]\((.*?)\)/g, '$1 ($2)')
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/<u>(.*?)<\/u>/g, '$1')
+    .replace(/(`+)(.+?)\1/g, '$2');
+
+/**
+ * Fits table columns into `availableWidth` by repeatedly narrowing the widest
+ * column, whose cells then wrap. Columns are never narrowed below a few
+ * characters, so tables with many columns can still overflow.
+ */
+export const fitColumnWidths = (
+  widths: number[],
+  availableWidth: number,
+): number[] => {
+  const fitted = [...widths];
+  let total = fitted.reduce((sum, width) => sum + width, 0);
+  while (total > availableWidth) {
+    const widest = fitted.indexOf(Math.max(...fitted));
+    if (fitted[widest] <= MIN_TABLE_COLUMN_WIDTH) {
+      break;
+    }
+    fitted[widest]--;
+    total--;
+  }
+  return fitted;
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatOllamaModelInfo } from './ollamaModelInfo.js';
+
+describe('formatOllamaModelInfo', () => {
+  it('should list details, capabilities and Modelfile sections', () => {
+    const text = formatOllamaModelInfo('qwen3:1.7b', {
+      details: {
+        family: 'qwen3',
+        parameter_size: '2.0B',
+        quantization_level: 'Q4_K_M',
+      },
+      model_info: { 'qwen3.context_length': 40960 },
+      capabilities: ['completion', 'tools', 'thinking'],
+      parameters: 'temperature 0.6\ntop_k 20',
+      template: '{{ .Prompt }}',
+    });
+
+    expect(text).toBe(
+      [
+        'Model: qwen3:1.7b',
+        '  Family: qwen3',
+        '  Parameter size: 2.0B',
+        '  Quantization: Q4_K_M',
+        '  Context length: 40960',
+        '  Capabilities: completion, tools, thinking',
+        '  Parameters:',
+        '    temperature 0.6',
+        '    top_k 20',
+        '  Template:',
+        '    {{ .Prompt }}',
+      ].join('\n'),
+    );
+  });
+
+  it('should truncate long sections', () => {
+    const license = Array.from({ length: 20 }, (_, i) => `line ${i}`).join(
+      '\n',
+    );
+
+    const text = formatOllamaModelInfo('llama3', { license });
+
+    expect(text).toContain('    line 11');
+    expect(text).not.toContain('line 12');
+    expect(text).toContain('    ... (8 more lines)');
+  });
+});
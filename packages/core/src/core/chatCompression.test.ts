@@ -0,0 +1,69 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Content } from '@google/genai';
+import {
+  formatConversationState,
+  getFilesInTurns,
+  parseConversationState,
+  splitIntoTurns,
+  toConversationState,
+} from './chatCompression.js';
+
+const prompt: Content = { role: 'user', parts: [{ text: 'Fix a.ts' }] };
+const call: Content = {
+  role: 'model',
+  parts: [
+    {
+      functionCall: { name: 'read_file', args: { absolute_path: '/p/a.ts' } },
+    },
+  ],
+};
+const response: Content = {
+  role: 'user',
+  parts: [{ functionResponse: { name: 'read_file', response: {} } }],
+};
+const answer: Content = { role: 'model', parts: [{ text: 'Fixed.' }] };
+const next: Content = { role: 'user', parts: [{ text: 'Thanks' }] };
+
+describe('chatCompression', () => {
+  it('should split the history at each prompt', () => {
+    expect(splitIntoTurns([prompt, call, response, answer, next])).toEqual([
+      [prompt, call, response, answer],
+      [next],
+    ]);
+  });
+
+  it('should read back the state it wrote', () => {
+    const state = {
+      goals: ['Fix a.ts'],
+      decisions: [],
+      filesTouched: ['/p/a.ts: fixed the import'],
+      openTasks: ['Run the tests'],
+    };
+    const [summary, ack] = formatConversationState(state);
+
+    expect(parseConversationState(summary)).toEqual(state);
+    expect(parseConversationState(ack)).toBeUndefined();
+    expect(parseConversationState(prompt)).toBeUndefined();
+  });
+
+  it('should keep only well-formed state fields', () => {
+    expect(toConversationState({ goals: ['a', 1], decisions: 'b' })).toEqual({
+      goals: ['a'],
+      decisions: [],
+      filesTouched: [],
+      openTasks: [],
+    });
+  });
+
+  it('should find the files the tool calls used', () => {
+    expect(getFilesInTurns(splitIntoTurns([prompt, call]))).toEqual([
+      '/p/a.ts',
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content, SchemaUnion, Type } from '@google/genai';
+import { isFunctionResponse } from '../utils/messageInspectors.js';
+
+/** Share of the token limit above which the chat is compressed. */
+export const COMPRESSION_TOKEN_THRESHOLD = 0.95;
+
+/**
+ * Share of the token limit the turns kept verbatim may take, leaving room for
+ * the summary and the next turns.
+ */
+export const PRESERVED_TURNS_TOKEN_SHARE = 0.5;
+
+const STATE_OPEN_TAG = '<conversation_state>';
+const STATE_CLOSE_TAG = '</conversation_state>';
+
+/** Argument names the file tools use for the file they read or change. */
+const FILE_PATH_ARGS = ['absolute_path', 'file_path'];
+
+/** What the model needs to remember of the turns compression removes. */
+export interface ConversationState {
+  goals: string[];
+  decisions: string[];
+  filesTouched: string[];
+  openTasks: string[];
+}
+
+export const CONVERSATION_STATE_SCHEMA: SchemaUnion = {
+  type: Type.OBJECT,
+  properties: {
+    goals: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'What the user wants to achieve, most important first.',
+    },
+    decisions: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description:
+        'Decisions made and facts established, with the reason when it matters.',
+    },
+    filesTouched: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description:
+        'Files read, created or changed, each with a short note of what was learned or done.',
+    },
+    openTasks: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'Work that is started or requested but not finished.',
+    },
+  },
+  required: ['goals', 'decisions', 'filesTouched', 'openTasks'],
+};
+
+/** Keeps the string items of each field, whatever else the model returned. */
+export function toConversationState(
+  value: Record<string, unknown>,
+): ConversationState {
+  const strings = (field: unknown) =>
+    Array.isArray(field)
+      ? field.filter((item): item is string => typeof item === 'string')
+      : [];
+  return {
+    goals: strings(value.goals),
+    decisions: strings(value.decisions),
+    filesTouched: strings(value.filesTouched),
+    openTasks: strings(value.openTasks),
+  };
+}
+
+/**
+ * A turn starts with a prompt from the user and runs until the next one,
+ * including the model's tool calls and their responses.
+ */
+export function splitIntoTurns(history: Content[]): Content[][] {
+  const turns: Content[][] = [];
+  for (const content of history) {
+    if (
+      turns.length === 0 ||
+      (content.role === 'user' && !isFunctionResponse(content))
+    ) {
+      turns.push([content]);
+    } else {
+      turns[turns.length - 1].push(content);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Identifies turns by their prompt and how many earlier turns had the same
+ * prompt, so that repeated prompts are told apart in any copy of the history.
+ */
+export function getTurnKeys(turns: Content[][]): string[] {
+  const occurrences = new Map<string, number>();
+  return turns.map(([prompt]) => {
+    const parts = JSON.stringify(prompt.parts ?? []);
+    const occurrence = occurrences.get(parts) ?? 0;
+    occurrences.set(parts, occurrence + 1);
+    return `${occurrence}:${parts}`;
+  });
+}
+
+/** The pair of contents that stands for the compressed part of the history. */
+export function formatConversationState(state: ConversationState): Content[] {
+  return [
+    {
+      role: 'user',
+      parts: [
+        {
+          text: `The earlier part of our conversation was compressed into this state:\n${STATE_OPEN_TAG}\n${JSON.stringify(state, null, 2)}\n${STATE_CLOSE_TAG}`,
+        },
+      ],
+    },
+    {
+      role: 'model',
+      parts: [{ text: 'Got it. I will continue from this state.' }],
+    },
+  ];
+}
+
+/**
+ * The pair of contents that stands for the compressed part of the history
+ * when the model could not write a structured state.
+ */
+export function formatConversationSummary(summary: string): Content[] {
+  return [
+    {
+      role: 'user',
+      parts: [
+        {
+          text: `The earlier part of our conversation was compressed into this summary:\n${summary}`,
+        },
+      ],
+    },
+    {
+      role: 'model',
+      parts: [{ text: 'Got it. I will continue from this summary.' }],
+    },
+  ];
+}
+
+/** Reads back a state written by `formatConversationState`. */
+export function parseConversationState(
+  content: Content,
+): ConversationState | undefined {
+  const text = content.role === 'user' ? content.parts?.[0]?.text : undefined;
+  const start = text?.indexOf(STATE_OPEN_TAG) ?? -1;
+  const end = text?.lastIndexOf(STATE_CLOSE_TAG) ?? -1;
+  if (!text || start === -1 || end < start) {
+    return undefined;
+  }
+  try {
+    return toConversationState(
+      JSON.parse(text.slice(start + STATE_OPEN_TAG.length, end)),
+    );
+  } catch (_e) {
+    return undefined;
+  }
+}
+
+/**
+ * Asks for the state of the conversation after the turns before this prompt,
+ * starting from the state of an earlier compression when there is one.
+ */
+export function getStateUpdatePrompt(previous?: ConversationState): string {
+  const start = previous
+    ? `Here is the state of our conversation from before these messages:\n${JSON.stringify(previous, null, 2)}\n\nUpdate it with the messages above.`
+    : 'Write down the state of our conversation above.';
+  return `${start} This state will replace the messages to save context, so keep every goal, decision, file and unfinished task you still need, and drop what is done and no longer relevant. Be specific: name files, functions, commands and values.`;
+}
+
+/** Asks for a free-form summary, for models that fail to write the state. */
+export function getSummaryPrompt(previous?: ConversationState): string {
+  const start = previous
+    ? `Here is what we established before these messages:\n${JSON.stringify(previous, null, 2)}\n\nSummarize it together with the messages above.`
+    : 'Summarize our conversation above.';
+  return `${start} The summary should be a concise yet comprehensive overview of the goals, decisions, files and unfinished tasks. It will replace the messages to save context, so it must capture everything essential to continue our conversation as if no information was lost.`;
+}
+
+/** The files the tool calls of some turns read or changed. */
+export function getFilesInTurns(turns: Content[][]): string[] {
+  const files = new Set<string>();
+  for (const content of turns.flat()) {
+    for (const part of content.parts ?? []) {
+      for (const arg of FILE_PATH_ARGS) {
+        const value = part.functionCall?.args?.[arg];
+        if (typeof value === 'string') {
+          files.add(value);
+        }
+      }
+    }
+  }
+  return [...files];
+}
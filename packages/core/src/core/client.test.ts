@@ -8,6 +8,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import {
   Chat,
+  Content,
   EmbedContentResponse,
   GenerateContentResponse,
   GoogleGenAI,
@@ -26,6 +27,7 @@ import { setSimulate429 } from '../utils/testUtils.js';
 const mockChatCreateFn = vi.fn();
 const mockGenerateContentFn = vi.fn();
 const mockEmbedContentFn = vi.fn();
+const mockCountTokensFn = vi.fn();
 const mockTurnRunFn = vi.fn();
 
 vi.mock('@google/genai');
@@ -80,6 +82,7 @@ describe('Gemini Client (client.ts)', () => {
         models: {
           generateContent: mockGenerateContentFn,
           embedContent: mockEmbedContentFn,
+          countTokens: mockCountTokensFn,
         },
       };
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -129,6 +132,7 @@ describe('Gemini Client (client.ts)', () => {
         getProxy: vi.fn().mockReturnValue(undefined),
         getWorkingDir: vi.fn().mockReturnValue('/test/dir'),
         getFileService: vi.fn().mockReturnValue(fileService),
+        getCompressionPreserveTurns: vi.fn().mockReturnValue(1),
       };
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       return mock as any;
@@ -318,6 +322,59 @@ describe('Gemini Client (client.ts)', () => {
     });
   });
 
+  describe('generateJson repair', () => {
+    const schema = {
+      type: 'object',
+      properties: { next_speaker: { type: 'string' } },
+      required: ['next_speaker'],
+    };
+    const contents = [{ role: 'user', parts: [{ text: 'Who speaks next?' }] }];
+    const textResponse = (text: string) =>
+      ({
+        candidates: [{ content: { parts: [{ text }] } }],
+      }) as unknown as GenerateContentResponse;
+
+    beforeEach(() => {
+      client['contentGenerator'] = {
+        generateContent: mockGenerateContentFn,
+      } as unknown as ContentGenerator;
+    });
+
+    it('should retry with the validation error when the answer is off-schema', async () => {
+      mockGenerateContentFn
+        .mockResolvedValueOnce(textResponse('The user should speak next.'))
+        .mockResolvedValueOnce(textResponse('{"speaker": "user"}'))
+        .mockResolvedValueOnce(textResponse('{"next_speaker": "user"}'));
+
+      const result = await client.generateJson(
+        contents,
+        schema,
+        new AbortController().signal,
+      );
+
+      expect(result).toEqual({ next_speaker: 'user' });
+      expect(mockGenerateContentFn).toHaveBeenCalledTimes(3);
+      const lastContents = mockGenerateContentFn.mock.calls[2][0].contents;
+      expect(lastContents).toHaveLength(5);
+      expect(lastContents[3]).toEqual({
+        role: 'model',
+        parts: [{ text: '{"speaker": "user"}' }],
+      });
+      expect(lastContents[4].parts[0].text).toContain(
+        'missing required property "next_speaker"',
+      );
+    });
+
+    it('should throw once repairs are exhausted without valid JSON', async () => {
+      mockGenerateContentFn.mockResolvedValue(textResponse('no idea'));
+
+      await expect(
+        client.generateJson(contents, schema, new AbortController().signal),
+      ).rejects.toThrow('Failed to parse API response as JSON');
+      expect(mockGenerateContentFn).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('addHistory', () => {
     it('should call chat.addHistory with the provided content', async () => {
       const mockChat = {
@@ -364,6 +421,261 @@ describe('Gemini Client (client.ts)', () => {
     });
   });
 
+  describe('switchModel', () => {
+    it('should rebuild the generator and keep the conversation', async () => {
+      const initialGenerator = client.getContentGenerator();
+      await client.addHistory({
+        role: 'user',
+        parts: [{ text: 'remember this' }],
+      });
+      await client.addHistory({
+        role: 'model',
+        parts: [{ text: 'noted' }],
+      });
+      const tryCompressChat = vi
+        .spyOn(client, 'tryCompressChat')
+        .mockResolvedValue(null);
+
+      await client.switchModel({
+        model: 'other-model',
+        apiKey: 'test-key',
+        authType: AuthType.USE_GEMINI,
+      });
+
+      expect(client.getContentGenerator()).not.toBe(initialGenerator);
+      expect(client['model']).toBe('other-model');
+      const history = await client.getHistory();
+      // The environment preamble is regenerated rather than duplicated.
+      expect(history).toHaveLength(4);
+      expect(JSON.stringify(history)).toContain('remember this');
+      expect(tryCompressChat).toHaveBeenCalledWith();
+    });
+
+    it('should finish the switch when compression fails', async () => {
+      vi.spyOn(client, 'tryCompressChat').mockRejectedValue(
+        new Error('compression failed'),
+      );
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(
+        client.switchModel({
+          model: 'other-model',
+          apiKey: 'test-key',
+          authType: AuthType.USE_GEMINI,
+        }),
+      ).resolves.toBeNull();
+
+      expect(client['model']).toBe('other-model');
+    });
+
+    it('should keep the current generator if the new one fails', async () => {
+      const initialGenerator = client.getContentGenerator();
+
+      await expect(
+        client.switchModel({
+          model: 'other-model',
+          authType: 'unsupported' as AuthType,
+        }),
+      ).rejects.toThrow('Unsupported authType');
+
+      expect(client.getContentGenerator()).toBe(initialGenerator);
+      expect(client['model']).toBe('test-model');
+    });
+  });
+
+  describe('tryCompressChat', () => {
+    const turn = (prompt: string, answer: string): Content[] => [
+      { role: 'user', parts: [{ text: prompt }] },
+      { role: 'model', parts: [{ text: answer }] },
+    ];
+    const state = {
+      goals: ['Fix a.ts'],
+      decisions: [],
+      filesTouched: [],
+      openTasks: [],
+    };
+
+    it('should summarize older turns and keep recent and pinned ones', async () => {
+      const readTurn: Content[] = [
+        { role: 'user', parts: [{ text: 'Read a.ts' }] },
+        {
+          role: 'model',
+          parts: [
+            {
+              functionCall: {
+                name: 'read_file',
+                args: { absolute_path: '/p/a.ts' },
+              },
+            },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [{ functionResponse: { name: 'read_file', response: {} } }],
+        },
+        { role: 'model', parts: [{ text: 'It imports b.ts' }] },
+      ];
+      const pinned = turn('Always use tabs', 'OK');
+      for (const content of [
+        ...readTurn,
+        ...pinned,
+        ...turn('Fix it', 'Fixed'),
+        ...turn('Thanks', 'Welcome'),
+      ]) {
+        await client.addHistory(content);
+      }
+      expect(client.pinTurn(6)).toBe(true);
+      mockCountTokensFn.mockResolvedValue({ totalTokens: 100 });
+      const generateJson = vi
+        .spyOn(client, 'generateJson')
+        .mockResolvedValue(state);
+
+      const info = await client.tryCompressChat(true);
+
+      expect(info).toEqual({
+        originalTokenCount: 100,
+        newTokenCount: 100,
+        summarizedTurns: 2,
+        summary: 'state',
+        keptTurns: 2,
+        pinnedTurns: 1,
+        droppedFiles: ['/p/a.ts'],
+      });
+      const contents = generateJson.mock.calls[0][0];
+      expect(contents.slice(0, 4)).toEqual(readTurn);
+      expect(JSON.stringify(contents)).not.toContain('Always use tabs');
+      const history = await client.getHistory();
+      expect(history.slice(4)).toEqual([
+        ...pinned,
+        ...turn('Thanks', 'Welcome'),
+      ]);
+
+      // The next compression updates the state rather than summarizing it.
+      await client.addHistory(turn('Next', 'Sure')[0]);
+      await client.tryCompressChat(true);
+
+      const nextContents = generateJson.mock.calls[1][0];
+      expect(nextContents.slice(0, 2)).toEqual(turn('Thanks', 'Welcome'));
+      expect(nextContents[2].parts?.[0].text).toContain('"Fix a.ts"');
+    });
+
+    it('should fall back to a plain summary, then to dropping the turns', async () => {
+      for (const content of [
+        ...turn('Fix a.ts', 'Fixed'),
+        ...turn('Thanks', 'Welcome'),
+      ]) {
+        await client.addHistory(content);
+      }
+      mockCountTokensFn.mockResolvedValue({ totalTokens: 100 });
+      vi.spyOn(client, 'generateJson').mockRejectedValue(new Error('bad'));
+      const generateContent = vi
+        .spyOn(client, 'generateContent')
+        .mockResolvedValueOnce({
+          candidates: [
+            { content: { role: 'model', parts: [{ text: 'We fixed a.ts' }] } },
+          ],
+        } as GenerateContentResponse)
+        .mockRejectedValueOnce(new Error('down'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(await client.tryCompressChat(true)).toMatchObject({
+        summarizedTurns: 1,
+        summary: 'text',
+      });
+      const history = await client.getHistory();
+      expect(history[2].parts?.[0].text).toContain('We fixed a.ts');
+      expect(history.slice(4)).toEqual(turn('Thanks', 'Welcome'));
+
+      await client.addHistory(turn('Next', 'Sure')[0]);
+      // The plain summary is an ordinary turn, so it ages out with the rest.
+      expect(await client.tryCompressChat(true)).toMatchObject({
+        summarizedTurns: 2,
+        summary: 'none',
+      });
+      expect(generateContent).toHaveBeenCalledTimes(2);
+      expect((await client.getHistory()).slice(2)).toEqual([
+        turn('Next', 'Sure')[0],
+      ]);
+    });
+
+    it('should keep fewer turns verbatim when they would not fit', async () => {
+      for (const content of [
+        ...turn('One', 'A'),
+        ...turn('Two', 'B'),
+        ...turn('Three', 'C'),
+      ]) {
+        await client.addHistory(content);
+      }
+      vi.spyOn(client['config'], 'getCompressionPreserveTurns').mockReturnValue(
+        2,
+      );
+      mockCountTokensFn
+        .mockResolvedValueOnce({ totalTokens: 100 })
+        .mockResolvedValueOnce({ totalTokens: 10_000_000 })
+        .mockResolvedValue({ totalTokens: 100 });
+      const generateJson = vi
+        .spyOn(client, 'generateJson')
+        .mockResolvedValue(state);
+
+      expect(await client.tryCompressChat(true)).toMatchObject({
+        summarizedTurns: 2,
+        keptTurns: 1,
+      });
+      expect(generateJson.mock.calls[0][0].slice(0, 4)).toEqual([
+        ...turn('One', 'A'),
+        ...turn('Two', 'B'),
+      ]);
+    });
+
+    it('should pin one of several identical prompts until the history is replaced', async () => {
+      for (const content of [
+        ...turn('Again', 'One'),
+        ...turn('Again', 'Two'),
+        ...turn('Last', 'Three'),
+      ]) {
+        await client.addHistory(content);
+      }
+      expect(client.pinTurn(3)).toBe(false);
+      expect(client.pinTurn(4)).toBe(true);
+      mockCountTokensFn.mockResolvedValue({ totalTokens: 100 });
+      const generateJson = vi
+        .spyOn(client, 'generateJson')
+        .mockResolvedValue(state);
+
+      expect(await client.tryCompressChat(true)).toMatchObject({
+        summarizedTurns: 1,
+        pinnedTurns: 1,
+      });
+      expect(generateJson.mock.calls[0][0].slice(0, 2)).toEqual(
+        turn('Again', 'One'),
+      );
+
+      // Rewinding keeps the pins of the turns that are left.
+      const history = await client.getHistory();
+      expect(history.slice(4, 6)).toEqual(turn('Again', 'Two'));
+      await client.setHistory(history.slice(0, 6));
+      expect(client.getPinnedTurns()).toHaveLength(1);
+
+      // Another conversation, such as a resumed one, has no pins.
+      await client.setHistory([
+        ...history.slice(0, 2),
+        ...turn('Again', 'Two'),
+      ]);
+      expect(client.getPinnedTurns()).toEqual([]);
+    });
+
+    it('should not compress when only the latest turn is left', async () => {
+      for (const content of turn('Hello', 'Hi')) {
+        await client.addHistory(content);
+      }
+      mockCountTokensFn.mockResolvedValue({ totalTokens: 100 });
+      const generateJson = vi.spyOn(client, 'generateJson');
+
+      expect(await client.tryCompressChat(true)).toBeNull();
+      expect(generateJson).not.toHaveBeenCalled();
+    });
+  });
+
   describe('sendMessageStream', () => {
     it('should return the turn instance after the stream is complete', async () => {
       // Arrange
@@ -31,6 +31,21 @@ import { GeminiChat } from './geminiChat.js';
 import { retryWithBackoff } from '../utils/retry.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { tokenLimit } from './tokenLimits.js';
+import {
+  COMPRESSION_TOKEN_THRESHOLD,
+  CONVERSATION_STATE_SCHEMA,
+  ConversationState,
+  PRESERVED_TURNS_TOKEN_SHARE,
+  formatConversationState,
+  formatConversationSummary,
+  getFilesInTurns,
+  getStateUpdatePrompt,
+  getSummaryPrompt,
+  getTurnKeys,
+  parseConversationState,
+  splitIntoTurns,
+  toConversationState,
+} from './chatCompression.js';
 import {
   AuthType,
   ContentGenerator,
@@ -39,15 +54,25 @@ import {
 } from './contentGenerator.js';
 import { ProxyAgent, setGlobalDispatcher } from 'undici';
 import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
+import {
+  findSchemaViolation,
+  parseJsonResponse,
+  toJsonSchema,
+} from '../utils/jsonSchema.js';
 
-function isThinkingSupported(model: string) {
+function isThinkingSupported(model: string, authType?: AuthType) {
   if (model.startsWith('gemini-2.5')) return true;
+  // Ollama models are probed for the `thinking` capability by the generator.
+  if (authType === AuthType.USE_OLLAMA) return true;
+  // OpenAI-compatible servers stream reasoning separately when they have any.
+  if (authType === AuthType.USE_OPENAI_COMPATIBLE) return true;
   return false;
 }
 
 export class GeminiClient {
   private chat?: GeminiChat;
   private contentGenerator?: ContentGenerator;
+  private authType?: AuthType;
   private model: string;
   private embeddingModel: string;
   private generateContentConfig: GenerateContentConfig = {
@@ -55,6 +80,10 @@ export class GeminiClient {
     topP: 1,
   };
   private readonly MAX_TURNS = 100;
+  // Extra requests generateJson may make to fix unparsable or off-schema JSON
+  private readonly MAX_JSON_REPAIR_ATTEMPTS = 2;
+  // Prompts of the turns compression keeps verbatim, keyed by getTurnKeys()
+  private pinnedTurns = new Map<string, Content>();
 
   constructor(private config: Config) {
     if (config.getProxy()) {
@@ -66,12 +95,51 @@ export class GeminiClient {
   }
 
   async initialize(contentGeneratorConfig: ContentGeneratorConfig) {
+    this.authType = contentGeneratorConfig.authType;
+    // The config's model is resolved per auth type (e.g. the Ollama model), so
+    // token counts and limits must use it rather than the CLI default.
+    this.model = contentGeneratorConfig.model;
     this.contentGenerator = await createContentGenerator(
       contentGeneratorConfig,
     );
     this.chat = await this.startChat();
   }
 
+  isInitialized(): boolean {
+    return this.chat !== undefined && this.contentGenerator !== undefined;
+  }
+
+  /**
+   * Rebuilds the content generator for another model or auth type and starts
+   * a new chat seeded with the current curated history. The history is then
+   * checked against the new model's token limit, compressing it if needed.
+   */
+  async switchModel(
+    contentGeneratorConfig: ContentGeneratorConfig,
+  ): Promise<ChatCompressionInfo | null> {
+    // Skip the environment preamble; startChat() regenerates it.
+    const history = this.getChat().getHistory(true).slice(2);
+    // Create the generator first so a failure leaves the current one intact.
+    const contentGenerator = await createContentGenerator(
+      contentGeneratorConfig,
+    );
+    this.authType = contentGeneratorConfig.authType;
+    this.model = contentGeneratorConfig.model;
+    this.contentGenerator = contentGenerator;
+    this.chat = await this.startChat(history);
+    this.keepPinsIn(history);
+    // The switch has happened by now, so a failed compression must not undo
+    // it; the next send compresses again if the history still does not fit.
+    try {
+      return await this.tryCompressChat();
+    } catch (error) {
+      console.warn(
+        `Could not compress the chat for ${this.model}: ${getErrorMessage(error)}`,
+      );
+      return null;
+    }
+  }
+
   getContentGenerator(): ContentGenerator {
     if (!this.contentGenerator) {
       throw new Error('Content generator not initialized');
@@ -95,13 +163,65 @@ export class GeminiClient {
   }
 
   async setHistory(history: Content[]): Promise<void> {
+    const previous = this.getChat().getHistory();
     this.getChat().setHistory(history);
+    // Pins only carry over to the turns both histories share, as when
+    // rewinding; another conversation starts without them.
+    let shared = 0;
+    while (
+      shared < Math.min(previous.length, history.length) &&
+      JSON.stringify(previous[shared]) === JSON.stringify(history[shared])
+    ) {
+      shared++;
+    }
+    this.keepPinsIn(previous.slice(0, shared));
   }
 
   async resetChat(): Promise<void> {
+    this.pinnedTurns.clear();
     this.chat = await this.startChat();
   }
 
+  /**
+   * Keeps the turn started by the prompt at this index of the history
+   * verbatim when compressing. Returns false if no turn starts there.
+   */
+  pinTurn(index: number): boolean {
+    const history = this.getChat().getHistory();
+    const turns = splitIntoTurns(history.slice(0, index + 1));
+    const last = turns.length - 1;
+    if (index >= history.length || turns[last]?.[0] !== history[index]) {
+      return false;
+    }
+    this.pinnedTurns.set(getTurnKeys(turns)[last], history[index]);
+    return true;
+  }
+
+  /** Unpins a prompt returned by getPinnedTurns(). */
+  unpinTurn(prompt: Content): boolean {
+    for (const [key, pinned] of this.pinnedTurns) {
+      if (pinned === prompt) {
+        return this.pinnedTurns.delete(key);
+      }
+    }
+    return false;
+  }
+
+  /** The prompts of the pinned turns, in the order they were pinned. */
+  getPinnedTurns(): Content[] {
+    return [...this.pinnedTurns.values()];
+  }
+
+  /** Unpins the turns that are not in this history. */
+  private keepPinsIn(history: Content[]): void {
+    const keys = new Set(getTurnKeys(splitIntoTurns(history)));
+    for (const key of this.pinnedTurns.keys()) {
+      if (!keys.has(key)) {
+        this.pinnedTurns.delete(key);
+      }
+    }
+  }
+
   private async getEnvironment(): Promise<Part[]> {
     const cwd = this.config.getWorkingDir();
     const today = new Date().toLocaleDateString(undefined, {
@@ -185,7 +305,10 @@ export class GeminiClient {
     try {
       const userMemory = this.config.getUserMemory();
       const systemInstruction = getCoreSystemPrompt(userMemory);
-      const generateContentConfigWithThinking = isThinkingSupported(this.model)
+      const generateContentConfigWithThinking = isThinkingSupported(
+        this.model,
+        this.authType,
+      )
         ? {
             ...this.generateContentConfig,
             thinkingConfig: {
@@ -264,7 +387,7 @@ export class GeminiClient {
         ...config,
       };
 
-      const apiCall = () =>
+      const apiCall = (attemptContents: Content[]) => () =>
         this.getContentGenerator().generateContent({
           model,
           config: {
@@ -273,43 +396,74 @@ export class GeminiClient {
             responseSchema: schema,
             responseMimeType: 'application/json',
           },
-          contents,
+          contents: attemptContents,
         });
 
-      const result = await retryWithBackoff(apiCall, {
-        onPersistent429: async (authType?: string) =>
-          await this.handleFlashFallback(authType),
-        authType: this.config.getContentGeneratorConfig()?.authType,
-      });
+      let attemptContents = contents;
+      for (let attempt = 0; ; attempt++) {
+        const result = await retryWithBackoff(apiCall(attemptContents), {
+          onPersistent429: async (authType?: string) =>
+            await this.handleFlashFallback(authType),
+          authType: this.config.getContentGeneratorConfig()?.authType,
+        });
 
-      const text = getResponseText(result);
-      if (!text) {
-        const error = new Error(
-          'API returned an empty response for generateJson.',
-        );
-        await reportError(
-          error,
-          'Error in generateJson: API returned an empty response.',
-          contents,
-          'generateJson-empty-response',
-        );
-        throw error;
-      }
-      try {
-        return JSON.parse(text);
-      } catch (parseError) {
-        await reportError(
-          parseError,
-          'Failed to parse JSON response from generateJson.',
+        const text = getResponseText(result);
+        if (!text) {
+          const error = new Error(
+            'API returned an empty response for generateJson.',
+          );
+          await reportError(
+            error,
+            'Error in generateJson: API returned an empty response.',
+            contents,
+            'generateJson-empty-response',
+          );
+          throw error;
+        }
+
+        let parsed: unknown;
+        let problem: string | null;
+        try {
+          parsed = parseJsonResponse(text);
+          problem = findSchemaViolation(schema, parsed);
+        } catch (parseError) {
+          if (attempt >= this.MAX_JSON_REPAIR_ATTEMPTS) {
+            await reportError(
+              parseError,
+              'Failed to parse JSON response from generateJson.',
+              {
+                responseTextFailedToParse: text,
+                originalRequestContents: contents,
+              },
+              'generateJson-parse',
+            );
+            throw new Error(
+              `Failed to parse API response as JSON: ${getErrorMessage(parseError)}`,
+            );
+          }
+          problem = `the response is not valid JSON (${getErrorMessage(parseError)})`;
+        }
+
+        // Schema mismatches are returned as-is once repairs run out; callers
+        // already check the fields they rely on.
+        if (!problem || attempt >= this.MAX_JSON_REPAIR_ATTEMPTS) {
+          return parsed as Record<string, unknown>;
+        }
+
+        // Show the model its own answer and what was wrong with it, which is
+        // usually enough for smaller local models to correct themselves.
+        attemptContents = [
+          ...attemptContents,
+          { role: 'model', parts: [{ text }] },
           {
-            responseTextFailedToParse: text,
-            originalRequestContents: contents,
+            role: 'user',
+            parts: [
+              {
+                text: `Your previous response could not be used: ${problem}. Respond again with only a JSON value that matches this schema, without any other text:\n${JSON.stringify(toJsonSchema(schema))}`,
+              },
+            ],
           },
-          'generateJson-parse',
-        );
-        throw new Error(
-          `Failed to parse API response as JSON: ${getErrorMessage(parseError)}`,
-        );
+        ];
       }
     } catch (error) {
       if (abortSignal.aborted) {
@@ -425,6 +579,11 @@ export class GeminiClient {
     });
   }
 
+  /**
+   * Near the token limit, or when forced, folds the older turns into a
+   * structured conversation state. The latest turns and the pinned ones are
+   * kept verbatim.
+   */
   async tryCompressChat(
     force: boolean = false,
   ): Promise<ChatCompressionInfo | null> {
@@ -441,6 +600,7 @@ export class GeminiClient {
         contents: history,
       });
 
+    const limit = tokenLimit(this.model);
     // If not forced, check if we should compress based on context size.
     if (!force) {
       if (originalTokenCount === undefined) {
@@ -452,7 +612,6 @@ export class GeminiClient {
       }
       const tokenCount = originalTokenCount; // Now guaranteed to be a number
 
-      const limit = tokenLimit(this.model);
       if (!limit) {
         // If no limit is defined for the model, we can't compress.
         console.warn(
@@ -461,43 +620,142 @@ export class GeminiClient {
         return null;
       }
 
-      if (tokenCount < 0.95 * limit) {
+      if (tokenCount < COMPRESSION_TOKEN_THRESHOLD * limit) {
         return null;
       }
     }
 
-    const summarizationRequestMessage = {
-      text: 'Summarize our conversation up to this point. The summary should be a concise yet comprehensive overview of all key topics, questions, answers, and important details discussed. This summary will replace the current chat history to conserve tokens, so it must capture everything essential to understand the context and continue our conversation effectively as if no information was lost.',
-    };
-    const response = await this.getChat().sendMessage({
-      message: summarizationRequestMessage,
-    });
-    const newHistory = [
-      {
-        role: 'user',
-        parts: [summarizationRequestMessage],
-      },
-      {
-        role: 'model',
-        parts: [{ text: response.text }],
-      },
-    ];
-    this.chat = await this.startChat(newHistory);
-    const newTokenCount = (
+    // Skip the environment preamble; startChat() regenerates it.
+    const turns = splitIntoTurns(history.slice(2));
+    const previousState =
+      turns.length > 0 ? parseConversationState(turns[0][0]) : undefined;
+    if (previousState) {
+      turns.shift();
+    }
+    // The latest turn is always kept, as it may be waiting for tool responses.
+    let recentStart = Math.min(
+      turns.length - 1,
+      Math.max(1, turns.length - this.config.getCompressionPreserveTurns()),
+    );
+    const turnKeys = new Map(
+      getTurnKeys(turns).map((key, index) => [turns[index], key]),
+    );
+    const isPinned = (turn: Content[]) =>
+      this.pinnedTurns.has(turnKeys.get(turn)!);
+    const getKeptTurns = () =>
+      turns.filter((turn, index) => index >= recentStart || isPinned(turn));
+    // Shrink the verbatim window while it would not fit, or every later send
+    // would compress again and still overflow.
+    while (limit && recentStart < turns.length - 1) {
+      const { totalTokens } = await this.getContentGenerator().countTokens({
+        model: this.model,
+        contents: getKeptTurns().flat(),
+      });
+      if (
+        totalTokens === undefined ||
+        totalTokens <= PRESERVED_TURNS_TOKEN_SHARE * limit
+      ) {
+        break;
+      }
+      recentStart++;
+    }
+    const summarizedTurns = turns
+      .slice(0, Math.max(0, recentStart))
+      .filter((turn) => !isPinned(turn));
+    if (summarizedTurns.length === 0) {
+      return null;
+    }
+    const keptTurns = getKeptTurns();
+
+    const { summary, contents: summaryContents } = await this.summarizeTurns(
+      summarizedTurns,
+      previousState,
+    );
+    this.chat = await this.startChat([...summaryContents, ...keptTurns.flat()]);
+    const pinnedTurns = keptTurns.filter(isPinned);
+    // Turns with the same prompt may have been summarized, so the kept ones
+    // are keyed again.
+    const keptKeys = getTurnKeys(keptTurns);
+    this.pinnedTurns = new Map(
+      keptTurns.flatMap(
+        (turn, index): Array<[string, Content]> =>
+          pinnedTurns.includes(turn) ? [[keptKeys[index], turn[0]]] : [],
+      ),
+    );
+    const { totalTokens: newTokenCount } =
       await this.getContentGenerator().countTokens({
         model: this.model,
-        contents: newHistory,
-      })
-    ).totalTokens;
+        contents: this.getChat().getHistory(true),
+      });
 
+    const keptFiles = new Set(getFilesInTurns(keptTurns));
     return originalTokenCount && newTokenCount
       ? {
           originalTokenCount,
           newTokenCount,
+          summarizedTurns: summarizedTurns.length,
+          summary,
+          keptTurns: keptTurns.length,
+          pinnedTurns: pinnedTurns.length,
+          droppedFiles: getFilesInTurns(summarizedTurns).filter(
+            (file) => !keptFiles.has(file),
+          ),
         }
       : null;
   }
 
+  /**
+   * Folds turns into the conversation state. Only the turns that age out are
+   * sent, along with the previous state, so the state is updated rather than
+   * rewritten each time. Models that cannot write the state give a free-form
+   * summary instead; if that fails too, the turns are dropped so that the
+   * conversation can go on.
+   */
+  private async summarizeTurns(
+    turns: Content[][],
+    previousState?: ConversationState,
+  ): Promise<{ summary: ChatCompressionInfo['summary']; contents: Content[] }> {
+    const ask = (prompt: string): Content[] => [
+      ...turns.flat(),
+      { role: 'user', parts: [{ text: prompt }] },
+    ];
+    try {
+      const state = toConversationState(
+        await this.generateJson(
+          ask(getStateUpdatePrompt(previousState)),
+          CONVERSATION_STATE_SCHEMA,
+          new AbortController().signal,
+          this.model,
+        ),
+      );
+      return { summary: 'state', contents: formatConversationState(state) };
+    } catch (error) {
+      console.warn(
+        `Could not write the conversation state, summarizing as text instead: ${getErrorMessage(error)}`,
+      );
+    }
+    try {
+      const text = getResponseText(
+        await this.generateContent(
+          ask(getSummaryPrompt(previousState)),
+          {},
+          new AbortController().signal,
+        ),
+      );
+      if (text) {
+        return { summary: 'text', contents: formatConversationSummary(text) };
+      }
+    } catch (error) {
+      console.warn(
+        `Could not summarize the conversation, dropping the older turns: ${getErrorMessage(error)}`,
+      );
+    }
+    return {
+      summary: 'none',
+      contents: previousState ? formatConversationState(previousState) : [],
+    };
+  }
+
   /**
    * Handles fallback to Flash model when persistent 429 errors occur for OAuth users.
    * Uses a fallback handler if provided by the config, otherwise returns null.
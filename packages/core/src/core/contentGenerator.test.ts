@@ -5,7 +5,11 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { createContentGenerator, AuthType } from './contentGenerator.js';
+import {
+  createContentGenerator,
+  createContentGeneratorConfig,
+  AuthType,
+} from './contentGenerator.js';
 import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import { GoogleGenAI } from '@google/genai';
 
@@ -47,4 +51,21 @@ describe('contentGenerator', () => {
     });
     expect(generator).toBe((mockGenerator as GoogleGenAI).models);
   });
+
+  it('should read an Ollama host pool from OLLAMA_HOSTS', async () => {
+    vi.stubEnv('OLLAMA_HOSTS', 'http://box-a:11434, http://box-b:11434');
+    try {
+      const config = await createContentGeneratorConfig(
+        undefined,
+        AuthType.USE_OLLAMA,
+      );
+      expect(config.ollamaHosts).toEqual([
+        'http://box-a:11434',
+        'http://box-b:11434',
+      ]);
+      expect(config.ollamaHost).toBe('http://box-a:11434');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
 });
@@ -17,8 +17,10 @@ import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import {
   DEFAULT_GEMINI_MODEL,
   DEFAULT_OLLAMA_MODEL,
+  DEFAULT_OPENAI_COMPATIBLE_MODEL,
 } from '../config/models.js';
 import { getEffectiveModel } from './modelCheck.js';
+import { OllamaModelOptionsMap } from '../ollama/ollamaModelOptions.js';
 
 /**
  * Interface abstracting the core functionalities for generating content and counting tokens.
@@ -42,6 +44,7 @@ export enum AuthType {
   USE_GEMINI = 'gemini-api-key',
   USE_VERTEX_AI = 'vertex-ai',
   USE_OLLAMA = 'ollama',
+  USE_OPENAI_COMPATIBLE = 'openai-compatible',
 }
 
 export type ContentGeneratorConfig = {
@@ -50,6 +53,12 @@ export type ContentGeneratorConfig = {
   vertexai?: boolean;
   authType?: AuthType | undefined;
   ollamaHost?: string;
+  // Several hosts to balance across and fail over between; when set, the
+  // first one is also used as ollamaHost.
+  ollamaHosts?: string[];
+  ollamaModelOptions?: OllamaModelOptionsMap;
+  openaiBaseUrl?: string;
+  openaiEmbeddingModel?: string;
 };
 
 export async function createContentGeneratorConfig(
@@ -59,6 +68,11 @@ export async function createContentGeneratorConfig(
     getModel?: () => string;
     getOllamaModel?: () => string | undefined;
     getOllamaHost?: () => string | undefined;
+    getOllamaHosts?: () => string[] | undefined;
+    getOllamaModelOptions?: () => OllamaModelOptionsMap | undefined;
+    getOpenAIBaseUrl?: () => string | undefined;
+    getOpenAIModel?: () => string | undefined;
+    getOpenAIEmbeddingModel?: () => string | undefined;
   },
 ): Promise<ContentGeneratorConfig> {
   const geminiApiKey = process.env.GEMINI_API_KEY;
@@ -81,8 +95,21 @@ export async function createContentGeneratorConfig(
 
   // Handle Ollama configuration
   if (authType === AuthType.USE_OLLAMA) {
+    // Priority: settings -> env for a host pool, then the same for one host
+    const configuredHosts = config?.getOllamaHosts?.();
+    const hosts = configuredHosts?.length
+      ? configuredHosts
+      : (process.env.OLLAMA_HOSTS ?? '')
+          .split(',')
+          .map((host) => host.trim())
+          .filter(Boolean);
+    if (hosts.length > 0) {
+      contentGeneratorConfig.ollamaHosts = hosts;
+    }
+
     // Priority: settings -> env -> default for host
     contentGeneratorConfig.ollamaHost =
+      hosts[0] ||
       config?.getOllamaHost?.() ||
       process.env.OLLAMA_HOST ||
       'http://localhost:11434';
@@ -92,6 +119,32 @@ export async function createContentGeneratorConfig(
       config?.getOllamaModel?.() ||
       process.env.OLLAMA_MODEL ||
       DEFAULT_OLLAMA_MODEL;
+
+    contentGeneratorConfig.ollamaModelOptions =
+      config?.getOllamaModelOptions?.();
+    return contentGeneratorConfig;
+  }
+
+  // Handle OpenAI-compatible servers (llama.cpp, vLLM, LM Studio, ...)
+  if (authType === AuthType.USE_OPENAI_COMPATIBLE) {
+    const {
+      DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+      getDefaultOpenAICompatibleModel,
+    } = await import('../openai/openaiCompatibleContentGenerator.js');
+
+    // Priority: settings -> env -> default for base URL and models
+    contentGeneratorConfig.openaiBaseUrl =
+      config?.getOpenAIBaseUrl?.() ||
+      process.env.OPENAI_BASE_URL ||
+      DEFAULT_OPENAI_COMPATIBLE_BASE_URL;
+    contentGeneratorConfig.apiKey = process.env.OPENAI_API_KEY;
+    contentGeneratorConfig.openaiEmbeddingModel =
+      config?.getOpenAIEmbeddingModel?.() || process.env.OPENAI_EMBEDDING_MODEL;
+    contentGeneratorConfig.model =
+      config?.getOpenAIModel?.() ||
+      process.env.OPENAI_MODEL ||
+      (await getDefaultOpenAICompatibleModel(contentGeneratorConfig)) ||
+      DEFAULT_OPENAI_COMPATIBLE_MODEL;
     return contentGeneratorConfig;
   }
 
@@ -137,6 +190,13 @@ export async function createContentGenerator(
     return createCodeAssistContentGenerator(httpOptions, config.authType);
   }
 
+  if (config.authType === AuthType.USE_OLLAMA && config.ollamaHosts?.length) {
+    const { createOllamaHostPool } = await import(
+      '../ollama/ollamaHostPool.js'
+    );
+    return createOllamaHostPool(config, config.ollamaHosts);
+  }
+
   if (config.authType === AuthType.USE_OLLAMA) {
     const { createOllamaContentGenerator } = await import(
       '../ollama/ollamaContentGenerator.js'
@@ -144,6 +204,13 @@ export async function createContentGenerator(
     return createOllamaContentGenerator(config);
   }
 
+  if (config.authType === AuthType.USE_OPENAI_COMPATIBLE) {
+    const { createOpenAICompatibleContentGenerator } = await import(
+      '../openai/openaiCompatibleContentGenerator.js'
+    );
+    return createOpenAICompatibleContentGenerator(config);
+  }
+
   if (
     config.authType === AuthType.USE_GEMINI ||
     config.authType === AuthType.USE_VERTEX_AI
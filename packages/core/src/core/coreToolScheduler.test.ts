@@ -20,6 +20,10 @@ import {
   Config,
 } from '../index.js';
 import { Part, PartListUnion } from '@google/genai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileChangeJournal } from '../services/fileChangeJournal.js';
 
 class MockTool extends BaseTool<Record<string, unknown>, ToolResult> {
   shouldConfirm = false;
@@ -120,6 +124,124 @@ describe('CoreToolScheduler', () => {
       .calls[0][0] as ToolCall[];
     expect(completedCalls[0].status).toBe('cancelled');
   });
+
+  it('should run read-only calls concurrently and mutating calls in order', async () => {
+    const log: string[] = [];
+    let inFlight = 0;
+    let maxInFlight = 0;
+    class RecordingTool extends BaseTool<Record<string, unknown>, ToolResult> {
+      constructor(
+        name: string,
+        readonly isReadOnly: boolean,
+      ) {
+        super(name, name, 'A recording tool', {});
+      }
+
+      async shouldConfirmExecute(): Promise<false> {
+        return false;
+      }
+
+      async execute(params: Record<string, unknown>): Promise<ToolResult> {
+        log.push(`start ${params.id}`);
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        inFlight--;
+        log.push(`end ${params.id}`);
+        return { llmContent: 'done', returnDisplay: 'done' };
+      }
+    }
+    const tools: Record<string, RecordingTool> = {
+      read: new RecordingTool('read', true),
+      write: new RecordingTool('write', false),
+    };
+    const toolRegistry = {
+      getTool: (name: string) => tools[name],
+    };
+    const onAllToolCallsComplete = vi.fn();
+    const scheduler = new CoreToolScheduler({
+      config: {
+        getSessionId: () => 'test-session-id',
+        getUsageStatisticsEnabled: () => true,
+        getDebugMode: () => false,
+      } as unknown as Config,
+      toolRegistry: Promise.resolve(toolRegistry as any),
+      onAllToolCallsComplete,
+      maxConcurrentToolCalls: 2,
+      getPreferredEditor: () => 'vscode',
+    });
+    const request = (id: string, name: string) => ({
+      callId: id,
+      name,
+      args: { id },
+      isClientInitiated: false,
+    });
+
+    await scheduler.schedule(
+      [
+        request('r1', 'read'),
+        request('r2', 'read'),
+        request('r3', 'read'),
+        request('w1', 'write'),
+        request('r4', 'read'),
+      ],
+      new AbortController().signal,
+    );
+    await vi.waitFor(() => expect(onAllToolCallsComplete).toHaveBeenCalled());
+
+    expect(maxInFlight).toBe(2);
+    expect(log.slice(0, 2)).toEqual(['start r1', 'start r2']);
+    // The mutating call waits for every earlier read and blocks later ones.
+    expect(log.slice(-4)).toEqual(['start w1', 'end w1', 'start r4', 'end r4']);
+  });
+
+  it('should record the files a tool call changes in the journal', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-journal-'));
+    const filePath = path.join(dir, 'a.txt');
+    fs.writeFileSync(filePath, 'before');
+    class WritingTool extends BaseTool<Record<string, unknown>, ToolResult> {
+      constructor() {
+        super('write', 'write', 'A writing tool', {});
+      }
+
+      getModifiedPaths(): string[] {
+        return [filePath];
+      }
+
+      async execute(): Promise<ToolResult> {
+        fs.writeFileSync(filePath, 'after');
+        return { llmContent: 'done', returnDisplay: 'done' };
+      }
+    }
+    const tool = new WritingTool();
+    const journal = new FileChangeJournal();
+    const onAllToolCallsComplete = vi.fn();
+    const scheduler = new CoreToolScheduler({
+      config: {
+        getSessionId: () => 'test-session-id',
+        getUsageStatisticsEnabled: () => true,
+        getDebugMode: () => false,
+        getFileChangeJournal: () => journal,
+      } as unknown as Config,
+      toolRegistry: Promise.resolve({ getTool: () => tool } as any),
+      onAllToolCallsComplete,
+      getPreferredEditor: () => 'vscode',
+    });
+
+    await scheduler.schedule(
+      [{ callId: '1', name: 'write', args: {}, isClientInitiated: false }],
+      new AbortController().signal,
+    );
+    await vi.waitFor(() => expect(onAllToolCallsComplete).toHaveBeenCalled());
+
+    expect(journal.getUndoEntries()).toEqual([
+      {
+        callId: '1',
+        toolName: 'write',
+        changes: [{ filePath, before: 'before', after: 'after' }],
+      },
+    ]);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
 });
 
 describe('convertToFunctionResponse', () => {
@@ -13,12 +13,15 @@ import {
   ToolResult,
   ToolRegistry,
   ApprovalMode,
+  DEFAULT_MAX_CONCURRENT_TOOL_CALLS,
   EditorType,
   Config,
   logToolCall,
   ToolCallEvent,
 } from '../index.js';
 import { Part, PartListUnion } from '@google/genai';
+import { batchToolCalls, mapWithConcurrency } from './toolBatching.js';
+import { readFileContents } from '../services/fileChangeJournal.js';
 import { getResponseTextFromParts } from '../utils/generateContentResponseUtilities.js';
 import {
   isModifiableTool,
@@ -217,6 +220,7 @@ interface CoreToolSchedulerOptions {
   onAllToolCallsComplete?: AllToolCallsCompleteHandler;
   onToolCallsUpdate?: ToolCallsUpdateHandler;
   approvalMode?: ApprovalMode;
+  maxConcurrentToolCalls?: number;
   getPreferredEditor: () => EditorType | undefined;
   config: Config;
 }
@@ -228,6 +232,7 @@ export class CoreToolScheduler {
   private onAllToolCallsComplete?: AllToolCallsCompleteHandler;
   private onToolCallsUpdate?: ToolCallsUpdateHandler;
   private approvalMode: ApprovalMode;
+  private maxConcurrentToolCalls: number;
   private getPreferredEditor: () => EditorType | undefined;
   private config: Config;
 
@@ -238,6 +243,8 @@ export class CoreToolScheduler {
     this.onAllToolCallsComplete = options.onAllToolCallsComplete;
     this.onToolCallsUpdate = options.onToolCallsUpdate;
     this.approvalMode = options.approvalMode ?? ApprovalMode.DEFAULT;
+    this.maxConcurrentToolCalls =
+      options.maxConcurrentToolCalls ?? DEFAULT_MAX_CONCURRENT_TOOL_CALLS;
     this.getPreferredEditor = options.getPreferredEditor;
   }
 
@@ -394,7 +401,9 @@ export class CoreToolScheduler {
   private isRunning(): boolean {
     return this.toolCalls.some(
       (call) =>
-        call.status === 'executing' || call.status === 'awaiting_approval',
+        call.status === 'scheduled' ||
+        call.status === 'executing' ||
+        call.status === 'awaiting_approval',
     );
   }
 
@@ -561,70 +570,134 @@ export class CoreToolScheduler {
 
     if (allCallsFinalOrScheduled) {
       const callsToExecute = this.toolCalls.filter(
-        (call) => call.status === 'scheduled',
+        (call): call is ScheduledToolCall => call.status === 'scheduled',
       );
+      void this.executeInBatches(callsToExecute, signal);
+    }
+  }
 
-      callsToExecute.forEach((toolCall) => {
-        if (toolCall.status !== 'scheduled') return;
-
-        const scheduledCall = toolCall;
-        const { callId, name: toolName } = scheduledCall.request;
-        this.setStatusInternal(callId, 'executing');
-
-        const liveOutputCallback =
-          scheduledCall.tool.canUpdateOutput && this.outputUpdateHandler
-            ? (outputChunk: string) => {
-                if (this.outputUpdateHandler) {
-                  this.outputUpdateHandler(callId, outputChunk);
-                }
-                this.toolCalls = this.toolCalls.map((tc) =>
-                  tc.request.callId === callId && tc.status === 'executing'
-                    ? { ...tc, liveOutput: outputChunk }
-                    : tc,
-                );
-                this.notifyToolCallsUpdate();
-              }
-            : undefined;
+  /**
+   * Runs consecutive read-only calls concurrently, up to the configured cap,
+   * and every other call on its own, in the order they were requested.
+   */
+  private async executeInBatches(
+    calls: ScheduledToolCall[],
+    signal: AbortSignal,
+  ): Promise<void> {
+    const batches = batchToolCalls(calls, (call) => call.tool.isReadOnly);
+    for (const batch of batches) {
+      await mapWithConcurrency(batch, this.maxConcurrentToolCalls, (call) =>
+        this.executeCall(call.request.callId, signal),
+      );
+    }
+  }
 
-        scheduledCall.tool
-          .execute(scheduledCall.request.args, signal, liveOutputCallback)
-          .then((toolResult: ToolResult) => {
-            if (signal.aborted) {
-              this.setStatusInternal(
-                callId,
-                'cancelled',
-                'User cancelled tool execution.',
-              );
-              return;
-            }
+  private async executeCall(
+    callId: string,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const scheduledCall = this.toolCalls.find(
+      (call) => call.request.callId === callId,
+    );
+    // The call may have been cancelled while it waited for its batch.
+    if (scheduledCall?.status !== 'scheduled') {
+      return;
+    }
+    if (signal.aborted) {
+      this.setStatusInternal(
+        callId,
+        'cancelled',
+        'User cancelled tool execution.',
+      );
+      return;
+    }
 
-            const response = convertToFunctionResponse(
-              toolName,
-              callId,
-              toolResult.llmContent,
-            );
+    const { name: toolName } = scheduledCall.request;
+    this.setStatusInternal(callId, 'executing');
 
-            const successResponse: ToolCallResponseInfo = {
-              callId,
-              responseParts: response,
-              resultDisplay: toolResult.returnDisplay,
-              error: undefined,
-            };
-            this.setStatusInternal(callId, 'success', successResponse);
-          })
-          .catch((executionError: Error) => {
-            this.setStatusInternal(
-              callId,
-              'error',
-              createErrorResponse(
-                scheduledCall.request,
-                executionError instanceof Error
-                  ? executionError
-                  : new Error(String(executionError)),
-              ),
+    const liveOutputCallback =
+      scheduledCall.tool.canUpdateOutput && this.outputUpdateHandler
+        ? (outputChunk: string) => {
+            if (this.outputUpdateHandler) {
+              this.outputUpdateHandler(callId, outputChunk);
+            }
+            this.toolCalls = this.toolCalls.map((tc) =>
+              tc.request.callId === callId && tc.status === 'executing'
+                ? { ...tc, liveOutput: outputChunk }
+                : tc,
             );
-          });
-      });
+            this.notifyToolCallsUpdate();
+          }
+        : undefined;
+
+    try {
+      const toolResult = await this.executeAndRecordChanges(
+        scheduledCall,
+        signal,
+        liveOutputCallback,
+      );
+      if (signal.aborted) {
+        this.setStatusInternal(
+          callId,
+          'cancelled',
+          'User cancelled tool execution.',
+        );
+        return;
+      }
+
+      const response = convertToFunctionResponse(
+        toolName,
+        callId,
+        toolResult.llmContent,
+      );
+
+      const successResponse: ToolCallResponseInfo = {
+        callId,
+        responseParts: response,
+        resultDisplay: toolResult.returnDisplay,
+        error: undefined,
+      };
+      this.setStatusInternal(callId, 'success', successResponse);
+    } catch (executionError) {
+      this.setStatusInternal(
+        callId,
+        'error',
+        createErrorResponse(
+          scheduledCall.request,
+          executionError instanceof Error
+            ? executionError
+            : new Error(String(executionError)),
+        ),
+      );
+    }
+  }
+
+  /**
+   * Executes a call, recording the changes it makes to files in the
+   * session's file change journal so they can be undone.
+   */
+  private async executeAndRecordChanges(
+    call: ScheduledToolCall,
+    signal: AbortSignal,
+    updateOutput?: (output: string) => void,
+  ): Promise<ToolResult> {
+    const { callId, name, args } = call.request;
+    const modifiedPaths = call.tool.getModifiedPaths?.(args) ?? [];
+    const contentsBefore =
+      modifiedPaths.length > 0
+        ? await readFileContents(modifiedPaths).catch(() => undefined)
+        : undefined;
+    if (!contentsBefore) {
+      return call.tool.execute(args, signal, updateOutput);
+    }
+    try {
+      return await call.tool.execute(args, signal, updateOutput);
+    } finally {
+      // A call that failed or was cancelled may still have written files.
+      await this.config
+        .getFileChangeJournal()
+        .record(callId, name, contentsBefore)
+        .catch(() => {});
     }
   }
 
@@ -6,6 +6,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { executeToolCall } from './nonInteractiveToolExecutor.js';
+import { ToolCallDeniedError } from './approvalPolicy.js';
 import {
   ToolRegistry,
   ToolCallRequestInfo,
@@ -20,6 +21,8 @@ const mockConfig = {
   getSessionId: () => 'test-session-id',
   getUsageStatisticsEnabled: () => true,
   getDebugMode: () => false,
+  getApprovalPolicy: vi.fn(),
+  getTargetDir: () => '/project',
 } as unknown as Config;
 
 describe('executeToolCall', () => {
@@ -50,6 +53,7 @@ describe('executeToolCall', () => {
       ),
       isOutputMarkdown: false,
       canUpdateOutput: false,
+      isReadOnly: false,
       getDescription: vi.fn(),
     };
 
@@ -247,4 +251,42 @@ describe('executeToolCall', () => {
       imageDataPart,
     ]);
   });
+
+  it('should not execute a tool call denied by the approval policy', async () => {
+    const request: ToolCallRequestInfo = {
+      callId: 'call6',
+      name: 'testTool',
+      args: { param1: 'value1' },
+      isClientInitiated: false,
+    };
+    vi.mocked(mockToolRegistry.getTool).mockReturnValue(mockTool);
+    vi.mocked(mockConfig.getApprovalPolicy).mockReturnValueOnce({
+      rules: [
+        { decision: 'deny', tools: ['testTool'], reason: 'testing is off' },
+      ],
+    });
+
+    const response = await executeToolCall(
+      mockConfig,
+      request,
+      mockToolRegistry,
+      abortController.signal,
+    );
+
+    const message =
+      'Tool call "testTool" was denied by the approval policy: testing is off. ' +
+      'Do not retry it; continue without it or explain what you were unable to do.';
+    expect(mockTool.execute).not.toHaveBeenCalled();
+    expect(response.error).toBeInstanceOf(ToolCallDeniedError);
+    expect(response.error?.message).toBe(message);
+    expect(response.responseParts).toEqual([
+      {
+        functionResponse: {
+          name: 'testTool',
+          id: 'call6',
+          response: { error: message },
+        },
+      },
+    ]);
+  });
 });
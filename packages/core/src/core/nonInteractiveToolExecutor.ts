@@ -13,10 +13,16 @@ import {
 } from '../index.js';
 import { Config } from '../config/config.js';
 import { convertToFunctionResponse } from './coreToolScheduler.js';
+import {
+  evaluateApprovalPolicy,
+  ToolCallDeniedError,
+} from './approvalPolicy.js';
 
 /**
  * Executes a single tool call non-interactively.
- * It does not handle confirmations, multiple calls, or live updates.
+ * It does not handle confirmations, multiple calls, or live updates. When an
+ * approval policy is configured, calls it denies are not executed; the model
+ * is told why instead.
  */
 export async function executeToolCall(
   config: Config,
@@ -58,6 +64,46 @@ export async function executeToolCall(
     };
   }
 
+  const policy = config.getApprovalPolicy();
+  if (policy) {
+    const { decision, reason } = evaluateApprovalPolicy(
+      policy,
+      toolCallRequest.name,
+      toolCallRequest.args,
+      tool,
+      config.getTargetDir(),
+    );
+    if (decision === 'deny') {
+      const error = new ToolCallDeniedError(
+        `Tool call "${toolCallRequest.name}" was denied by the approval policy: ${reason}. ` +
+          'Do not retry it; continue without it or explain what you were unable to do.',
+      );
+      logToolCall(config, {
+        'event.name': 'tool_call',
+        'event.timestamp': new Date().toISOString(),
+        function_name: toolCallRequest.name,
+        function_args: toolCallRequest.args,
+        duration_ms: Date.now() - startTime,
+        success: false,
+        error: error.message,
+      });
+      return {
+        callId: toolCallRequest.callId,
+        responseParts: [
+          {
+            functionResponse: {
+              id: toolCallRequest.callId,
+              name: toolCallRequest.name,
+              response: { error: error.message },
+            },
+          },
+        ],
+        resultDisplay: error.message,
+        error,
+      };
+    }
+  }
+
   try {
     // Directly execute without confirmation or live output handling
     const effectiveAbortSignal = abortSignal ?? new AbortController().signal;
@@ -9,7 +9,18 @@ type TokenCount = number;
 
 export const DEFAULT_TOKEN_LIMIT = 1_048_576;
 
+// Limits discovered at runtime, e.g. the context window of a local Ollama model.
+const runtimeTokenLimits = new Map<Model, TokenCount>();
+
+export function setTokenLimit(model: Model, limit: TokenCount): void {
+  runtimeTokenLimits.set(model, limit);
+}
+
 export function tokenLimit(model: Model): TokenCount {
+  const runtimeLimit = runtimeTokenLimits.get(model);
+  if (runtimeLimit !== undefined) {
+    return runtimeLimit;
+  }
   // Add other models as they become relevant or if specified by config
   // Pulled from https://ai.google.dev/gemini-api/docs/models
   switch (model) {
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { batchToolCalls, mapWithConcurrency } from './toolBatching.js';
+
+describe('batchToolCalls', () => {
+  it('should group consecutive read-only calls and isolate the rest', () => {
+    const readOnly = new Set(['read_file', 'glob']);
+    const calls = ['read_file', 'glob', 'replace', 'read_file', 'write_file'];
+
+    expect(batchToolCalls(calls, (name) => readOnly.has(name))).toEqual([
+      ['read_file', 'glob'],
+      ['replace'],
+      ['read_file'],
+      ['write_file'],
+    ]);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should cap the number of calls in flight and keep result order', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 0, 5],
+      2,
+      async (delay) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        inFlight--;
+        return delay * 2;
+      },
+    );
+
+    expect(results).toEqual([60, 20, 40, 0, 10]);
+    expect(maxInFlight).toBe(2);
+  });
+});
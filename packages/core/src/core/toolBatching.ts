@@ -0,0 +1,57 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Splits tool calls into batches that can each run concurrently: runs of
+ * consecutive read-only calls share a batch, while every other call gets a
+ * batch of its own so mutations keep their order relative to everything
+ * around them.
+ */
+export function batchToolCalls<T>(
+  calls: T[],
+  isReadOnly: (call: T) => boolean,
+): T[][] {
+  const batches: T[][] = [];
+  let readOnlyBatch: T[] | undefined;
+  for (const call of calls) {
+    if (isReadOnly(call)) {
+      if (!readOnlyBatch) {
+        readOnlyBatch = [];
+        batches.push(readOnlyBatch);
+      }
+      readOnlyBatch.push(call);
+    } else {
+      readOnlyBatch = undefined;
+      batches.push([call]);
+    }
+  }
+  return batches;
+}
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight. Results are
+ * returned in input order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    worker,
+  );
+  await Promise.all(workers);
+  return results;
+}
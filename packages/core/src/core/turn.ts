@@ -120,6 +120,18 @@ export type ServerGeminiErrorEvent = {
 export interface ChatCompressionInfo {
   originalTokenCount: number;
   newTokenCount: number;
+  /** Turns folded into the conversation state. */
+  summarizedTurns: number;
+  /**
+   * How the summarized turns were kept: as a structured state, as free text
+   * when the model could not write the state, or not at all.
+   */
+  summary: 'state' | 'text' | 'none';
+  /** Turns kept verbatim, pinned ones included. */
+  keptTurns: number;
+  pinnedTurns: number;
+  /** Files whose contents were only in the summarized turns. */
+  droppedFiles: string[];
 }
 
 export type ServerGeminiChatCompressedEvent = {
@@ -170,14 +182,18 @@ export class Turn {
 
         const thoughtPart = resp.candidates?.[0]?.content?.parts?.[0];
         if (thoughtPart?.thought) {
-          // Thought always has a bold "subject" part enclosed in double asterisks
+          // Gemini thoughts have a bold "subject" part enclosed in double asterisks
           // (e.g., **Subject**). The rest of the string is considered the description.
+          // Streamed thinking without a subject (e.g. from Ollama) is passed through
+          // untouched so consecutive fragments can be concatenated.
           const rawText = thoughtPart.text ?? '';
           const subjectStringMatches = rawText.match(/\*\*(.*?)\*\*/s);
           const subject = subjectStringMatches
             ? subjectStringMatches[1].trim()
             : '';
-          const description = rawText.replace(/\*\*(.*?)\*\*/s, '').trim();
+          const description = subjectStringMatches
+            ? rawText.replace(/\*\*(.*?)\*\*/s, '').trim()
+            : rawText;
           const thought: ThoughtSummary = {
             subject,
             description,
@@ -18,6 +18,13 @@ export * from './core/turn.js';
 export * from './core/geminiRequest.js';
 export * from './core/coreToolScheduler.js';
 export * from './core/nonInteractiveToolExecutor.js';
+export * from './core/approvalPolicy.js';
+export * from './core/toolBatching.js';
+
+export * from './ollama/ollamaAdminClient.js';
+export * from './ollama/ollamaHostPool.js';
+export * from './ollama/ollamaModelOptions.js';
+export * from './openai/openaiCompatibleContentGenerator.js';
 
 export * from './code_assist/codeAssist.js';
 export * from './code_assist/oauth2.js';
@@ -32,10 +39,17 @@ export * from './utils/getFolderStructure.js';
 export * from './utils/memoryDiscovery.js';
 export * from './utils/gitIgnoreParser.js';
 export * from './utils/editor.js';
+export * from './utils/terminalScreen.js';
+export * from './utils/shellCommands.js';
 
 // Export services
 export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
+export * from './services/shellJobService.js';
+export * from './services/ptyService.js';
+export * from './services/fileChangeJournal.js';
+export * from './services/sessionStore.js';
+export * from './services/conversationForks.js';
 
 // Export base tool definitions
 export * from './tools/tools.js';
@@ -47,10 +61,13 @@ export * from './tools/ls.js';
 export * from './tools/grep.js';
 export * from './tools/glob.js';
 export * from './tools/edit.js';
+export * from './tools/multi-edit.js';
+export * from './tools/apply-patch.js';
 export * from './tools/write-file.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
+export * from './tools/shell-jobs.js';
 export * from './tools/web-search.js';
 export * from './tools/read-many-files.js';
 export * from './tools/mcp-client.js';
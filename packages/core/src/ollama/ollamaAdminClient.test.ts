@@ -0,0 +1,170 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OllamaAdminClient } from './ollamaAdminClient.js';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function createStreamResponse(lines: string[]) {
+  const encoder = new TextEncoder();
+  const chunks = lines.map((line) => encoder.encode(line));
+  return {
+    ok: true,
+    body: {
+      getReader: () => ({
+        read: () =>
+          Promise.resolve(
+            chunks.length > 0
+              ? { done: false, value: chunks.shift() }
+              : { done: true, value: undefined },
+          ),
+      }),
+    },
+  };
+}
+
+describe('OllamaAdminClient', () => {
+  let client: OllamaAdminClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = new OllamaAdminClient('http://ollama:11434');
+  });
+
+  it('should list installed models', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          models: [{ name: 'qwen3:1.7b', size: 1000, digest: 'abc' }],
+        }),
+    });
+
+    const models = await client.listModels();
+
+    expect(models.map((m) => m.name)).toEqual(['qwen3:1.7b']);
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://ollama:11434/api/tags',
+      expect.anything(),
+    );
+  });
+
+  it('should show model details', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () =>
+        Promise.resolve({
+          template: '{{ .Prompt }}',
+          details: { quantization_level: 'Q4_K_M' },
+        }),
+    });
+
+    const info = await client.showModel('qwen3:1.7b');
+
+    expect(info.details?.quantization_level).toBe('Q4_K_M');
+    expect(mockFetch).toHaveBeenCalledWith(
+      'http://ollama:11434/api/show',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ model: 'qwen3:1.7b' }),
+      }),
+    );
+  });
+
+  it('should surface the error message reported by Ollama', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      statusText: 'Not Found',
+      json: () => Promise.resolve({ error: "model 'nope' not found" }),
+    });
+
+    await expect(client.deleteModel('nope')).rejects.toThrow(
+      "Ollama API error: 404 model 'nope' not found",
+    );
+  });
+
+  it('should fall back to the status text for non-JSON errors', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+      statusText: 'Internal Server Error',
+      json: () => Promise.reject(new SyntaxError('Unexpected token')),
+    });
+
+    await expect(client.showModel('qwen3:1.7b')).rejects.toThrow(
+      'Ollama API error: 500 Internal Server Error',
+    );
+  });
+
+  it('should delete and copy models', async () => {
+    mockFetch.mockResolvedValue({ ok: true });
+
+    await client.deleteModel('qwen3:1.7b');
+    await client.copyModel('qwen3:1.7b', 'my-qwen');
+
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      'http://ollama:11434/api/delete',
+      expect.objectContaining({
+        method: 'DELETE',
+        body: JSON.stringify({ model: 'qwen3:1.7b' }),
+      }),
+    );
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      2,
+      'http://ollama:11434/api/copy',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ source: 'qwen3:1.7b', destination: 'my-qwen' }),
+      }),
+    );
+  });
+
+  describe('pullModel', () => {
+    it('should yield progress updates split across chunks', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createStreamResponse([
+          '{"status":"pulling manifest"}\n{"status":"pulling abc",',
+          '"digest":"abc","total":100,"completed":40}\n',
+          '{"status":"success"}',
+        ]),
+      );
+
+      const updates = [];
+      for await (const progress of client.pullModel('qwen3:1.7b')) {
+        updates.push(progress);
+      }
+
+      expect(updates).toEqual([
+        { status: 'pulling manifest' },
+        { status: 'pulling abc', digest: 'abc', total: 100, completed: 40 },
+        { status: 'success' },
+      ]);
+    });
+
+    it('should throw when the stream reports an error', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createStreamResponse([
+          '{"status":"pulling manifest"}\n',
+          '{"error":"pull model manifest: file does not exist"}\n',
+        ]),
+      );
+
+      const pull = async () => {
+        for await (const _ of client.pullModel('nope')) {
+          // drain
+        }
+      };
+
+      await expect(pull()).rejects.toThrow(
+        'Ollama pull failed: pull model manifest: file does not exist',
+      );
+    });
+  });
+});
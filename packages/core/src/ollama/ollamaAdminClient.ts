@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const DEFAULT_OLLAMA_HOST = 'http://localhost:11434';
+
+export interface OllamaModelDetails {
+  format?: string;
+  family?: string;
+  families?: string[];
+  parameter_size?: string;
+  quantization_level?: string;
+}
+
+export interface OllamaModel {
+  name: string;
+  modified_at: string;
+  size: number;
+  digest: string;
+  details?: OllamaModelDetails;
+}
+
+interface OllamaListResponse {
+  models: OllamaModel[];
+}
+
+export interface OllamaShowResponse {
+  license?: string;
+  modelfile?: string;
+  parameters?: string;
+  template?: string;
+  system?: string;
+  details?: OllamaModelDetails;
+  capabilities?: string[];
+  model_info?: Record<string, unknown>;
+  projector_info?: Record<string, unknown>;
+}
+
+/**
+ * A progress update streamed by `/api/pull`. `total` and `completed` are only
+ * present while a layer is downloading.
+ */
+export interface OllamaPullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+}
+
+/**
+ * Thin client for the Ollama model management endpoints (list, show, pull,
+ * delete, copy). Failed requests throw with the error message Ollama reports.
+ */
+export class OllamaAdminClient {
+  constructor(readonly host: string = DEFAULT_OLLAMA_HOST) {}
+
+  async listModels(signal?: AbortSignal): Promise<OllamaModel[]> {
+    const response = await this.request('/api/tags', { signal });
+    const data: OllamaListResponse = await response.json();
+    return data.models ?? [];
+  }
+
+  async showModel(model: string): Promise<OllamaShowResponse> {
+    const response = await this.request('/api/show', {
+      method: 'POST',
+      body: JSON.stringify({ model }),
+    });
+    return response.json();
+  }
+
+  /**
+   * Pulls `model` from the registry, yielding each progress update as the
+   * download proceeds. Completes after the final `success` status.
+   */
+  async *pullModel(
+    model: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<OllamaPullProgress> {
+    const response = await this.request('/api/pull', {
+      method: 'POST',
+      body: JSON.stringify({ model, stream: true }),
+      signal,
+    });
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body from Ollama');
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) {
+          yield parsePullProgress(line);
+        }
+      }
+    }
+    if (buffer.trim()) {
+      yield parsePullProgress(buffer);
+    }
+  }
+
+  async deleteModel(model: string): Promise<void> {
+    await this.request('/api/delete', {
+      method: 'DELETE',
+      body: JSON.stringify({ model }),
+    });
+  }
+
+  async copyModel(source: string, destination: string): Promise<void> {
+    await this.request('/api/copy', {
+      method: 'POST',
+      body: JSON.stringify({ source, destination }),
+    });
+  }
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    const response = await fetch(`${this.host}${path}`, {
+      ...init,
+      headers: init.body ? { 'Content-Type': 'application/json' } : undefined,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Ollama API error: ${response.status} ${await readErrorMessage(response)}`,
+      );
+    }
+    return response;
+  }
+}
+
+function parsePullProgress(line: string): OllamaPullProgress {
+  const progress: OllamaPullProgress & { error?: string } = JSON.parse(line);
+  // Pull failures after the stream has started arrive as an `error` line.
+  if (progress.error) {
+    throw new Error(`Ollama pull failed: ${progress.error}`);
+  }
+  return progress;
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const data = await response.json();
+    if (typeof data?.error === 'string') {
+      return data.error;
+    }
+  } catch {
+    // Not a JSON error body; fall back to the status text.
+  }
+  return response.statusText;
+}
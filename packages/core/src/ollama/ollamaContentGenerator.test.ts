@@ -5,11 +5,13 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Type } from '@google/genai';
 import {
   OllamaContentGenerator,
   createOllamaContentGenerator,
 } from './ollamaContentGenerator.js';
 import { ContentGeneratorConfig, AuthType } from '../core/contentGenerator.js';
+import { tokenLimit } from '../core/tokenLimits.js';
 import {
   DEFAULT_OLLAMA_MODEL,
   RECOMMENDED_OLLAMA_MODELS,
@@ -24,6 +26,34 @@ vi.mock('../utils/errorReporting.js', () => ({
   reportError: vi.fn(),
 }));
 
+function createStreamResponse(chunks: object[]) {
+  const encoder = new TextEncoder();
+  const lines = chunks.map((chunk) =>
+    encoder.encode(JSON.stringify(chunk) + '\n'),
+  );
+  return {
+    ok: true,
+    body: {
+      getReader: () => ({
+        read: () =>
+          Promise.resolve(
+            lines.length > 0
+              ? { done: false, value: lines.shift() }
+              : { done: true, value: undefined },
+          ),
+      }),
+    },
+  };
+}
+
+async function collect<T>(stream: AsyncGenerator<T>): Promise<T[]> {
+  const results: T[] = [];
+  for await (const item of stream) {
+    results.push(item);
+  }
+  return results;
+}
+
 describe('OllamaContentGenerator', () => {
   let generator: OllamaContentGenerator;
   let config: ContentGeneratorConfig;
@@ -123,7 +153,624 @@ describe('OllamaContentGenerator', () => {
     });
   });
 
+  describe('model options', () => {
+    it('should apply per-model options to chat and generate requests', async () => {
+      generator = new OllamaContentGenerator({
+        ...config,
+        ollamaModelOptions: {
+          'qwen3:*': { num_ctx: 32768, keep_alive: '1h', temperature: 0.6 },
+          [DEFAULT_OLLAMA_MODEL]: { seed: 42, stop: ['<|end|>'] },
+        },
+      });
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            response: 'Hi',
+            message: { role: 'assistant', content: 'Hi' },
+            done: true,
+          }),
+      });
+      const request = {
+        model: DEFAULT_OLLAMA_MODEL,
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+        config: { temperature: 0, maxOutputTokens: 100 },
+      };
+
+      await generator.generateContent(request);
+      await generator.generateContent({
+        ...request,
+        config: {
+          ...request.config,
+          tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+        },
+      });
+
+      const requests = mockFetch.mock.calls.filter(
+        ([url]) => !url.endsWith('/api/show'),
+      );
+      expect(requests).toHaveLength(2);
+      for (const [url, init] of requests) {
+        expect(url).toMatch(/\/api\/(generate|chat)$/);
+        const body = JSON.parse(init.body);
+        expect(body.keep_alive).toBe('1h');
+        expect(body.options).toEqual({
+          temperature: 0.6,
+          num_predict: 100,
+          num_ctx: 32768,
+          seed: 42,
+          stop: ['<|end|>'],
+        });
+      }
+    });
+  });
+
+  describe('structured output', () => {
+    it('should translate responseSchema into the format field', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            response: '{"next_speaker":"user"}',
+            message: { role: 'assistant', content: '{"next_speaker":"user"}' },
+            done: true,
+          }),
+      });
+      const request = {
+        model: DEFAULT_OLLAMA_MODEL,
+        contents: [{ role: 'user', parts: [{ text: 'Who speaks next?' }] }],
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+              next_speaker: { type: Type.STRING, enum: ['user', 'model'] },
+            },
+            required: ['next_speaker'],
+          },
+        },
+      };
+
+      await generator.generateContent(request);
+      await generator.generateContent({
+        ...request,
+        config: {
+          ...request.config,
+          tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+        },
+      });
+
+      const requests = mockFetch.mock.calls.filter(
+        ([url]) => !url.endsWith('/api/show'),
+      );
+      expect(requests).toHaveLength(2);
+      for (const [url, init] of requests) {
+        expect(url).toMatch(/\/api\/(generate|chat)$/);
+        expect(JSON.parse(init.body).format).toEqual({
+          type: 'object',
+          properties: {
+            next_speaker: { type: 'string', enum: ['user', 'model'] },
+          },
+          required: ['next_speaker'],
+        });
+      }
+    });
+
+    it('should request plain JSON when no schema is given', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ response: '{}', done: true }),
+      });
+
+      await generator.generateContent({
+        model: DEFAULT_OLLAMA_MODEL,
+        contents: 'Hello',
+        config: { responseMimeType: 'application/json' },
+      });
+      await generator.generateContent({
+        model: DEFAULT_OLLAMA_MODEL,
+        contents: 'Hello',
+      });
+
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body).format).toBe('json');
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body)).not.toHaveProperty(
+        'format',
+      );
+    });
+  });
+
+  describe('image input', () => {
+    const imageRequest = {
+      model: 'llava:7b',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: 'Describe this image' },
+            { inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } },
+          ],
+        },
+      ],
+      config: {},
+    };
+
+    it('should send inline images in the images field', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ capabilities: ['completion', 'vision'] }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              model: 'llava:7b',
+              created_at: '2023-01-01T00:00:00Z',
+              response: 'A cat',
+              done: true,
+            }),
+        });
+
+      await generator.generateContent(imageRequest);
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'http://localhost:11434/api/show',
+        expect.objectContaining({
+          body: JSON.stringify({ model: 'llava:7b' }),
+        }),
+      );
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.images).toEqual(['aGVsbG8=']);
+      expect(body.prompt).toBe('Describe this image');
+    });
+
+    it('should attach images to chat messages when tools are present', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              capabilities: ['completion', 'vision', 'tools'],
+            }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              model: 'llava:7b',
+              created_at: '2023-01-01T00:00:00Z',
+              message: { role: 'assistant', content: 'A cat' },
+              done: true,
+            }),
+        });
+
+      await generator.generateContent({
+        ...imageRequest,
+        config: {
+          tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+        },
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.messages[0]).toEqual({
+        role: 'user',
+        content: 'Describe this image',
+        images: ['aGVsbG8='],
+      });
+    });
+
+    it('should reject images for models without vision capability', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ capabilities: ['completion', 'tools'] }),
+      });
+
+      await expect(generator.generateContent(imageRequest)).rejects.toThrow(
+        'Model llava:7b does not support image input',
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('thinking', () => {
+    const request = {
+      model: DEFAULT_OLLAMA_MODEL,
+      contents: [{ role: 'user', parts: [{ text: 'Why?' }] }],
+      config: {},
+    };
+
+    it('should map the chat thinking field to thought parts', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ capabilities: ['completion', 'thinking'] }),
+        })
+        .mockResolvedValueOnce(
+          createStreamResponse([
+            {
+              message: { role: 'assistant', content: '', thinking: 'Hmm' },
+              done: false,
+            },
+            {
+              message: { role: 'assistant', content: 'Because.' },
+              done: false,
+            },
+            {
+              message: { role: 'assistant', content: '' },
+              done: true,
+              prompt_eval_count: 3,
+              eval_count: 2,
+            },
+          ]),
+        );
+
+      const responses = await collect(
+        await generator.generateContentStream({
+          ...request,
+          config: {
+            thinkingConfig: { includeThoughts: true },
+            tools: [{ functionDeclarations: [{ name: 'read_file' }] }],
+          },
+        }),
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.think).toBe(true);
+      expect(responses.map((r) => r.candidates?.[0]?.content?.parts)).toEqual([
+        [{ text: 'Hmm', thought: true }],
+        [{ text: 'Because.' }],
+        [],
+      ]);
+    });
+
+    it('should not request thinking from models without the capability', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ capabilities: ['completion'] }),
+        })
+        .mockResolvedValueOnce(
+          createStreamResponse([{ response: 'Because.', done: true }]),
+        );
+
+      await collect(
+        await generator.generateContentStream({
+          ...request,
+          config: { thinkingConfig: { includeThoughts: true } },
+        }),
+      );
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.think).toBeUndefined();
+    });
+
+    it('should split streamed <think> tags across chunks into thoughts', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createStreamResponse([
+          { response: '<thi', done: false },
+          { response: 'nk>Let me see', done: false },
+          { response: '</think>\n\nThe answer', done: false },
+          { response: ' is 42', done: true },
+        ]),
+      );
+
+      const responses = await collect(
+        await generator.generateContentStream(request),
+      );
+      const parts = responses.flatMap(
+        (r) => r.candidates?.[0]?.content?.parts ?? [],
+      );
+
+      expect(parts).toEqual([
+        { text: 'Let me see', thought: true },
+        { text: 'The answer' },
+        { text: ' is 42' },
+      ]);
+    });
+
+    it('should strip <think> blocks from non-streaming responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            response: '<think>reasoning</think>\n{"ok": true}',
+            done: true,
+          }),
+      });
+
+      const result = await generator.generateContent(request);
+
+      expect(result.candidates?.[0]?.content?.parts).toEqual([
+        { text: '{"ok": true}' },
+      ]);
+    });
+  });
+
+  describe('prompt-based tool calling', () => {
+    const toolRequest = {
+      model: 'gemma2:2b',
+      contents: [
+        { role: 'user', parts: [{ text: 'Read a.ts' }] },
+        {
+          role: 'model',
+          parts: [
+            { text: 'Reading it.' },
+            { functionCall: { name: 'read_file', args: { path: 'a.ts' } } },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                name: 'read_file',
+                response: { output: 'export {}' },
+              },
+            },
+          ],
+        },
+      ],
+      config: {
+        systemInstruction: 'You are a coding agent.',
+        tools: [
+          {
+            functionDeclarations: [
+              { name: 'read_file', description: 'Reads a file' },
+            ],
+          },
+        ],
+      },
+    };
+    const showWithoutTools = {
+      ok: true,
+      json: () => Promise.resolve({ capabilities: ['completion'] }),
+    };
+
+    it('should describe tools in the system prompt instead of sending them', async () => {
+      mockFetch.mockResolvedValueOnce(showWithoutTools).mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            message: {
+              role: 'assistant',
+              content:
+                'Now b.ts.\n```tool_call\n{"name": "read_file", "arguments": {"path": "b.ts"}}\n```',
+            },
+            done: true,
+          }),
+      });
+
+      const response = await generator.generateContent(toolRequest);
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.tools).toBeUndefined();
+      expect(body.messages[0].role).toBe('system');
+      expect(body.messages[0].content).toContain('You are a coding agent.');
+      expect(body.messages[0].content).toContain('"name": "read_file"');
+      expect(body.messages.slice(2)).toEqual([
+        {
+          role: 'assistant',
+          content:
+            'Reading it.\n\n```tool_call\n{"name":"read_file","arguments":{"path":"a.ts"}}\n```',
+        },
+        {
+          role: 'user',
+          content: 'Result of the `read_file` tool call:\nexport {}',
+        },
+      ]);
+      expect(response.candidates?.[0]?.content?.parts).toEqual([
+        { text: 'Now b.ts.\n' },
+        { functionCall: { name: 'read_file', args: { path: 'b.ts' } } },
+      ]);
+    });
+
+    it('should extract tool calls split across stream chunks', async () => {
+      mockFetch.mockResolvedValueOnce(showWithoutTools).mockResolvedValueOnce(
+        createStreamResponse([
+          { message: { role: 'assistant', content: 'Sure. ``' }, done: false },
+          {
+            message: {
+              role: 'assistant',
+              content: '`tool_call\n{"name": "rea',
+            },
+            done: false,
+          },
+          {
+            message: {
+              role: 'assistant',
+              content: 'd_file", "arguments": {"path": "c.ts"}}',
+            },
+            done: true,
+          },
+        ]),
+      );
+
+      const responses = await collect(
+        await generator.generateContentStream(toolRequest),
+      );
+      const parts = responses.flatMap(
+        (r) => r.candidates?.[0]?.content?.parts ?? [],
+      );
+
+      expect(parts).toEqual([
+        { text: 'Sure. ' },
+        { functionCall: { name: 'read_file', args: { path: 'c.ts' } } },
+      ]);
+    });
+
+    it('should keep native tool calling for models with the tools capability', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({ capabilities: ['completion', 'tools'] }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              message: { role: 'assistant', content: 'Done' },
+              done: true,
+            }),
+        });
+
+      await generator.generateContent(toolRequest);
+
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.tools).toHaveLength(1);
+      expect(body.messages[0].content).toBe('You are a coding agent.');
+    });
+
+    it('should keep native tool calling when only a vision projector is reported', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ projector_info: { 'clip.type': 1 } }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              message: { role: 'assistant', content: 'Done' },
+              done: true,
+            }),
+        });
+
+      await generator.generateContent(toolRequest);
+
+      expect(await generator.getModelInfo('gemma2:2b')).toMatchObject({
+        capabilities: undefined,
+        vision: true,
+      });
+      const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+      expect(body.tools).toHaveLength(1);
+    });
+  });
+
+  describe('getModelInfo', () => {
+    it('should derive the context limit from num_ctx and context_length', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            parameters: 'num_ctx 8192\nstop "<|im_end|>"',
+            capabilities: ['completion', 'tools'],
+            model_info: { 'qwen3.context_length': 40960 },
+          }),
+      });
+
+      const info = await generator.getModelInfo('qwen3:8b');
+
+      expect(info).toEqual({
+        capabilities: ['completion', 'tools'],
+        vision: false,
+        contextLength: 40960,
+        numCtx: 8192,
+      });
+      expect(tokenLimit('qwen3:8b')).toBe(8192);
+    });
+
+    it('should prefer num_ctx from settings, capped at the model maximum', async () => {
+      generator = new OllamaContentGenerator({
+        ...config,
+        ollamaModelOptions: { 'llama3.2:*': { num_ctx: 262144 } },
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            model_info: { 'llama.context_length': 131072 },
+          }),
+      });
+
+      await generator.getModelInfo('llama3.2:3b');
+
+      expect(tokenLimit('llama3.2:3b')).toBe(131072);
+    });
+
+    it("should fall back to Ollama's default context window", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({}),
+      });
+
+      await generator.getModelInfo('tinyllama:1.1b');
+
+      expect(tokenLimit('tinyllama:1.1b')).toBe(2048);
+    });
+
+    it('should not ask again for a model whose details failed to load', async () => {
+      vi.useFakeTimers();
+      try {
+        mockFetch.mockResolvedValue({
+          ok: false,
+          status: 404,
+          statusText: 'Not Found',
+        });
+
+        expect(await generator.getModelInfo('missing:1b')).toBeUndefined();
+        expect(await generator.getModelInfo('missing:1b')).toBeUndefined();
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(60_000);
+        await generator.getModelInfo('missing:1b');
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   describe('countTokens', () => {
+    it('should count function calls and responses', async () => {
+      const result = await generator.countTokens({
+        model: DEFAULT_OLLAMA_MODEL,
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  name: 'read_file',
+                  response: { output: 'x'.repeat(400) },
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(result.totalTokens).toBeGreaterThan(100);
+    });
+
+    it('should calibrate estimates from prompt_eval_count', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            response: 'ok',
+            done: true,
+            prompt_eval_count: 10,
+          }),
+      });
+      // 20 characters evaluated as 10 tokens => 2 chars per token.
+      await generator.generateContent({
+        model: DEFAULT_OLLAMA_MODEL,
+        contents: [{ role: 'user', parts: [{ text: 'a'.repeat(20) }] }],
+        config: {},
+      });
+
+      const result = await generator.countTokens({
+        model: DEFAULT_OLLAMA_MODEL,
+        contents: [{ role: 'user', parts: [{ text: 'b'.repeat(40) }] }],
+      });
+
+      expect(result.totalTokens).toBe(20);
+    });
+
     it('should estimate token count', async () => {
       const request = {
         model: DEFAULT_OLLAMA_MODEL,
@@ -26,23 +26,47 @@ import {
   DEFAULT_OLLAMA_MODEL,
   RECOMMENDED_OLLAMA_MODELS,
 } from '../config/models.js';
+import {
+  OllamaModelOptions,
+  OllamaModelOptionsMap,
+  resolveOllamaModelOptions,
+} from './ollamaModelOptions.js';
+import { setTokenLimit } from '../core/tokenLimits.js';
+import { toJsonSchema } from '../utils/jsonSchema.js';
+import {
+  ToolCallTextParser,
+  buildToolCallingPrompt,
+  formatToolCallAsText,
+  formatToolResultAsText,
+} from './promptToolCalling.js';
+import {
+  DEFAULT_OLLAMA_HOST,
+  OllamaAdminClient,
+  OllamaShowResponse,
+} from './ollamaAdminClient.js';
+
+type OllamaRequestOptions = Omit<OllamaModelOptions, 'keep_alive'>;
+
+// Either any JSON value, or output constrained to the given JSON schema.
+type OllamaFormat = 'json' | Record<string, unknown>;
 
 interface OllamaGenerateRequest {
   model: string;
   prompt: string;
   system?: string;
+  images?: string[];
   stream?: boolean;
-  options?: {
-    temperature?: number;
-    top_p?: number;
-    num_predict?: number;
-  };
+  format?: OllamaFormat;
+  think?: boolean;
+  keep_alive?: string | number;
+  options?: OllamaRequestOptions;
 }
 
 interface OllamaGenerateResponse {
   model: string;
   created_at: string;
   response: string;
+  thinking?: string;
   done: boolean;
   context?: number[];
   total_duration?: number;
@@ -58,16 +82,17 @@ interface OllamaChatRequest {
   messages: OllamaMessage[];
   tools?: OllamaTool[];
   stream?: boolean;
-  options?: {
-    temperature?: number;
-    top_p?: number;
-    num_predict?: number;
-  };
+  format?: OllamaFormat;
+  think?: boolean;
+  keep_alive?: string | number;
+  options?: OllamaRequestOptions;
 }
 
 interface OllamaMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  thinking?: string;
+  images?: string[];
   tool_calls?: OllamaToolCall[];
 }
 
@@ -113,24 +138,120 @@ interface OllamaEmbedResponse {
   embeddings?: number[][];
 }
 
-interface OllamaModel {
-  name: string;
-  modified_at: string;
-  size: number;
-  digest: string;
+/**
+ * What the generator needs to know about a model, as reported by `/api/show`.
+ */
+export interface OllamaModelInfo {
+  /** Capabilities as reported; older Ollama releases omit them. */
+  capabilities?: string[];
+  /**
+   * Whether the model takes images. Older releases that omit `capabilities`
+   * still describe the vision projector of multimodal models.
+   */
+  vision?: boolean;
+  /** Maximum context the model was trained for (`<arch>.context_length`). */
+  contextLength?: number;
+  /** `num_ctx` baked into the model's Modelfile, if any. */
+  numCtx?: number;
 }
 
-interface OllamaListResponse {
-  models: OllamaModel[];
+// Ollama's context window when neither the request nor the Modelfile sets num_ctx.
+export const DEFAULT_OLLAMA_NUM_CTX = 2048;
+const DEFAULT_CHARS_PER_TOKEN = 4;
+// How long a failed `/api/show` lookup is remembered before it is retried, so
+// that a server without the endpoint is not asked on every request.
+const MODEL_INFO_RETRY_INTERVAL_MS = 60_000;
+
+const THINK_OPEN_TAG = '<think>';
+const THINK_CLOSE_TAG = '</think>';
+
+/**
+ * Splits `<think>...</think>` blocks out of model text. Models that are not
+ * asked to think (or older Ollama servers) inline their reasoning this way.
+ * Tags can straddle stream chunks, so a possible partial tag at the end of a
+ * chunk is held back until the next one arrives.
+ */
+class ThinkTagParser {
+  private inThink = false;
+  private afterThink = false;
+  private pending = '';
+
+  push(chunk: string): { thought: string; text: string } {
+    let buffer = this.pending + chunk;
+    this.pending = '';
+    let thought = '';
+    let text = '';
+
+    while (buffer) {
+      const tag = this.inThink ? THINK_CLOSE_TAG : THINK_OPEN_TAG;
+      const index = buffer.indexOf(tag);
+      const end = index === -1 ? buffer.length : index;
+      let emit = buffer.slice(0, end);
+      if (index === -1) {
+        const held = partialTagLength(buffer, tag);
+        emit = buffer.slice(0, buffer.length - held);
+        this.pending = buffer.slice(buffer.length - held);
+      }
+
+      if (this.inThink) {
+        thought += emit;
+      } else {
+        text += this.consumeText(emit);
+      }
+
+      if (index === -1) {
+        break;
+      }
+      this.inThink = !this.inThink;
+      this.afterThink = !this.inThink;
+      buffer = buffer.slice(index + tag.length);
+    }
+
+    return { thought, text };
+  }
+
+  flush(): { thought: string; text: string } {
+    const rest = this.pending;
+    this.pending = '';
+    return this.inThink
+      ? { thought: rest, text: '' }
+      : { thought: '', text: this.consumeText(rest) };
+  }
+
+  private consumeText(text: string): string {
+    // Drop the blank lines models put between a think block and the answer.
+    if (this.afterThink) {
+      text = text.trimStart();
+      this.afterThink = text === '';
+    }
+    return text;
+  }
+}
+
+function partialTagLength(text: string, tag: string): number {
+  for (let length = tag.length - 1; length > 0; length--) {
+    if (text.endsWith(tag.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
 }
 
 export class OllamaContentGenerator implements ContentGenerator {
   private ollamaHost: string;
+  private adminClient: OllamaAdminClient;
   private model: string;
+  private modelOptions?: OllamaModelOptionsMap;
+  private modelInfoCache = new Map<string, OllamaModelInfo>();
+  // When each model's details last failed to load.
+  private modelInfoFailures = new Map<string, number>();
+  private charsPerToken = new Map<string, number>();
 
   constructor(config: ContentGeneratorConfig) {
-    this.ollamaHost = config.ollamaHost || 'http://localhost:11434';
+    this.ollamaHost = config.ollamaHost || DEFAULT_OLLAMA_HOST;
+    this.adminClient = new OllamaAdminClient(this.ollamaHost);
     this.model = config.model || DEFAULT_OLLAMA_MODEL;
+    this.modelOptions = config.ollamaModelOptions;
   }
 
   async generateContent(
@@ -162,18 +283,20 @@ export class OllamaContentGenerator implements ContentGenerator {
   private async generateContentWithGenerate(
     request: GenerateContentParameters,
   ): Promise<GenerateContentResponse> {
-    const { prompt, systemInstruction } = this.convertToOllamaFormat(request);
+    const { prompt, systemInstruction, images } =
+      this.convertToOllamaFormat(request);
+    const model = request.model || this.model;
+    await this.ensureVisionSupport(model, images.length > 0);
 
     const ollamaRequest: OllamaGenerateRequest = {
-      model: request.model || this.model,
+      model,
       prompt,
       system: systemInstruction,
+      images: images.length > 0 ? images : undefined,
       stream: false,
-      options: {
-        temperature: request.config?.temperature,
-        top_p: request.config?.topP,
-        num_predict: request.config?.maxOutputTokens,
-      },
+      think: await this.resolveThink(model, request),
+      format: this.resolveFormat(request),
+      ...this.buildRequestOptions(model, request),
     };
 
     const httpResponse = await fetch(`${this.ollamaHost}/api/generate`, {
@@ -190,6 +313,10 @@ export class OllamaContentGenerator implements ContentGenerator {
     }
 
     const ollamaResponse: OllamaGenerateResponse = await httpResponse.json();
+    this.calibrateTokenEstimate(
+      ollamaRequest,
+      ollamaResponse.prompt_eval_count,
+    );
 
     // Convert Ollama response to Gemini format
     const response = new GenerateContentResponse();
@@ -197,7 +324,7 @@ export class OllamaContentGenerator implements ContentGenerator {
       {
         content: {
           role: 'model',
-          parts: [{ text: ollamaResponse.response }],
+          parts: [{ text: stripThinking(ollamaResponse.response) }],
         },
         finishReason: ollamaResponse.done
           ? FinishReason.STOP
@@ -218,18 +345,22 @@ export class OllamaContentGenerator implements ContentGenerator {
   private async generateContentWithChat(
     request: GenerateContentParameters,
   ): Promise<GenerateContentResponse> {
-    const { messages, tools } = this.convertToChatFormat(request);
+    const model = request.model || this.model;
+    const promptTools = await this.usesPromptToolCalling(model);
+    const { messages, tools } = this.convertToChatFormat(request, promptTools);
+    await this.ensureVisionSupport(
+      model,
+      messages.some((m) => m.images && m.images.length > 0),
+    );
 
     const ollamaRequest: OllamaChatRequest = {
-      model: request.model || this.model,
+      model,
       messages,
       tools,
       stream: false,
-      options: {
-        temperature: request.config?.temperature,
-        top_p: request.config?.topP,
-        num_predict: request.config?.maxOutputTokens,
-      },
+      think: await this.resolveThink(model, request),
+      format: this.resolveFormat(request),
+      ...this.buildRequestOptions(model, request),
     };
 
     const httpResponse = await fetch(`${this.ollamaHost}/api/chat`, {
@@ -246,9 +377,25 @@ export class OllamaContentGenerator implements ContentGenerator {
     }
 
     const ollamaResponse: OllamaChatResponse = await httpResponse.json();
+    this.calibrateTokenEstimate(
+      ollamaRequest,
+      ollamaResponse.prompt_eval_count,
+    );
 
-    // Convert Ollama response to Gemini format
-    return this.convertChatResponseToGemini(ollamaResponse);
+    // Non-streaming callers (generateJson, compression) only consume the
+    // answer text, so thinking is dropped here rather than surfaced.
+    let message: OllamaMessage = {
+      ...ollamaResponse.message,
+      content: stripThinking(ollamaResponse.message.content),
+    };
+    if (promptTools) {
+      const parser = this.createToolCallParser(request);
+      message = this.applyPromptToolCalls(message, [
+        parser.push(message.content),
+        parser.flush(),
+      ]);
+    }
+    return this.convertChatResponseToGemini({ ...ollamaResponse, message });
   }
 
   async generateContentStream(
@@ -268,18 +415,20 @@ export class OllamaContentGenerator implements ContentGenerator {
     request: GenerateContentParameters,
   ): AsyncGenerator<GenerateContentResponse> {
     try {
-      const { prompt, systemInstruction } = this.convertToOllamaFormat(request);
+      const { prompt, systemInstruction, images } =
+        this.convertToOllamaFormat(request);
+      const model = request.model || this.model;
+      await this.ensureVisionSupport(model, images.length > 0);
 
       const ollamaRequest: OllamaGenerateRequest = {
-        model: request.model || this.model,
+        model,
         prompt,
         system: systemInstruction,
+        images: images.length > 0 ? images : undefined,
         stream: true,
-        options: {
-          temperature: request.config?.temperature,
-          top_p: request.config?.topP,
-          num_predict: request.config?.maxOutputTokens,
-        },
+        think: await this.resolveThink(model, request),
+        format: this.resolveFormat(request),
+        ...this.buildRequestOptions(model, request),
       };
 
       const httpResponse = await fetch(`${this.ollamaHost}/api/generate`, {
@@ -301,6 +450,7 @@ export class OllamaContentGenerator implements ContentGenerator {
       }
 
       const decoder = new TextDecoder();
+      const thinkParser = new ThinkTagParser();
       let buffer = '';
 
       while (true) {
@@ -315,18 +465,34 @@ export class OllamaContentGenerator implements ContentGenerator {
           if (line.trim()) {
             try {
               const chunk: OllamaGenerateResponse = JSON.parse(line);
+              const { thought, text } = this.splitThinking(
+                thinkParser,
+                chunk.response,
+                chunk.done,
+              );
+              const thinking = (chunk.thinking ?? '') + thought;
+              if (thinking) {
+                yield this.createThoughtResponse(thinking);
+              }
+              if (!text && !chunk.done) {
+                continue;
+              }
               const streamResponse = new GenerateContentResponse();
               streamResponse.candidates = [
                 {
                   content: {
                     role: 'model',
-                    parts: [{ text: chunk.response }],
+                    parts: [{ text }],
                   },
                   finishReason: chunk.done ? FinishReason.STOP : undefined,
                   index: 0,
                 },
               ];
               if (chunk.done) {
+                this.calibrateTokenEstimate(
+                  ollamaRequest,
+                  chunk.prompt_eval_count,
+                );
                 streamResponse.usageMetadata = {
                   promptTokenCount: chunk.prompt_eval_count,
                   candidatesTokenCount: chunk.eval_count,
@@ -358,18 +524,25 @@ export class OllamaContentGenerator implements ContentGenerator {
     request: GenerateContentParameters,
   ): AsyncGenerator<GenerateContentResponse> {
     try {
-      const { messages, tools } = this.convertToChatFormat(request);
+      const model = request.model || this.model;
+      const promptTools = await this.usesPromptToolCalling(model);
+      const { messages, tools } = this.convertToChatFormat(
+        request,
+        promptTools,
+      );
+      await this.ensureVisionSupport(
+        model,
+        messages.some((m) => m.images && m.images.length > 0),
+      );
 
       const ollamaRequest: OllamaChatRequest = {
-        model: request.model || this.model,
+        model,
         messages,
         tools,
         stream: true,
-        options: {
-          temperature: request.config?.temperature,
-          top_p: request.config?.topP,
-          num_predict: request.config?.maxOutputTokens,
-        },
+        think: await this.resolveThink(model, request),
+        format: this.resolveFormat(request),
+        ...this.buildRequestOptions(model, request),
       };
 
       const httpResponse = await fetch(`${this.ollamaHost}/api/chat`, {
@@ -391,6 +564,10 @@ export class OllamaContentGenerator implements ContentGenerator {
       }
 
       const decoder = new TextDecoder();
+      const thinkParser = new ThinkTagParser();
+      const toolCallParser = promptTools
+        ? this.createToolCallParser(request)
+        : undefined;
       let buffer = '';
 
       while (true) {
@@ -405,7 +582,34 @@ export class OllamaContentGenerator implements ContentGenerator {
           if (line.trim()) {
             try {
               const chunk: OllamaChatResponse = JSON.parse(line);
-              yield this.convertChatResponseToGemini(chunk);
+              if (chunk.done) {
+                this.calibrateTokenEstimate(
+                  ollamaRequest,
+                  chunk.prompt_eval_count,
+                );
+              }
+              const { thought, text } = this.splitThinking(
+                thinkParser,
+                chunk.message.content,
+                chunk.done,
+              );
+              const thinking = (chunk.message.thinking ?? '') + thought;
+              if (thinking) {
+                yield this.createThoughtResponse(thinking);
+              }
+              let message: OllamaMessage = { ...chunk.message, content: text };
+              if (toolCallParser) {
+                const parsed = [toolCallParser.push(text)];
+                if (chunk.done) {
+                  parsed.push(toolCallParser.flush());
+                }
+                message = this.applyPromptToolCalls(message, parsed);
+              }
+              const hasToolCalls = !!message.tool_calls?.length;
+              if (!message.content && !hasToolCalls && !chunk.done) {
+                continue;
+              }
+              yield this.convertChatResponseToGemini({ ...chunk, message });
             } catch (e) {
               console.error('Failed to parse Ollama chat stream chunk:', e);
             }
@@ -428,18 +632,26 @@ export class OllamaContentGenerator implements ContentGenerator {
   async countTokens(
     request: CountTokensParameters,
   ): Promise<CountTokensResponse> {
-    // Ollama doesn't have a direct token counting API, so we'll estimate
-    // based on the rule of thumb that 1 token ≈ 4 characters
-    const fakeRequest: GenerateContentParameters = {
-      contents: request.contents,
-      model: request.model,
-      config: {},
-    };
-    const { prompt } = this.convertToOllamaFormat(fakeRequest);
-    const estimatedTokens = Math.ceil(prompt.length / 4);
+    // Ollama has no tokenize endpoint, so estimate from the character count
+    // using the chars-per-token ratio observed for this model (≈4 until the
+    // first response has been seen).
+    const model = request.model || this.model;
+    const contents = Array.isArray(request.contents)
+      ? request.contents
+      : [request.contents];
+    let chars = 0;
+    for (const content of contents) {
+      if (typeof content === 'string') {
+        chars += content.length;
+      } else if (content && typeof content === 'object' && 'parts' in content) {
+        chars += this.countPartChars(content.parts ?? []);
+      }
+    }
+    const charsPerToken =
+      this.charsPerToken.get(model) ?? DEFAULT_CHARS_PER_TOKEN;
 
     return {
-      totalTokens: estimatedTokens,
+      totalTokens: Math.ceil(chars / charsPerToken),
     };
   }
 
@@ -513,9 +725,11 @@ export class OllamaContentGenerator implements ContentGenerator {
   private convertToOllamaFormat(request: GenerateContentParameters): {
     prompt: string;
     systemInstruction?: string;
+    images: string[];
   } {
     let prompt = '';
     let systemInstruction: string | undefined;
+    const images: string[] = [];
 
     // Handle system instruction
     if (request.config?.systemInstruction) {
@@ -552,20 +766,27 @@ export class OllamaContentGenerator implements ContentGenerator {
 
         if (role === 'user') {
           prompt += text + '\n';
+          images.push(...this.extractImagesFromParts(content.parts));
         } else if (role === 'model') {
           prompt += `Assistant: ${text}\nHuman: `;
         }
       }
     }
 
-    return { prompt: prompt.trim(), systemInstruction };
+    return { prompt: prompt.trim(), systemInstruction, images };
   }
 
-  private convertToChatFormat(request: GenerateContentParameters): {
+  private convertToChatFormat(
+    request: GenerateContentParameters,
+    promptTools = false,
+  ): {
     messages: OllamaMessage[];
     tools?: OllamaTool[];
   } {
     const messages: OllamaMessage[] = [];
+    const tools = request.config?.tools
+      ? this.convertToolsToOllamaFormat(request.config.tools)
+      : undefined;
 
     // Handle system instruction
     if (request.config?.systemInstruction) {
@@ -587,6 +808,15 @@ export class OllamaContentGenerator implements ContentGenerator {
       }
     }
 
+    if (promptTools && tools?.length) {
+      const toolPrompt = buildToolCallingPrompt(tools.map((t) => t.function));
+      if (messages[0]?.role === 'system') {
+        messages[0].content += `\n\n${toolPrompt}`;
+      } else {
+        messages.unshift({ role: 'system', content: toolPrompt });
+      }
+    }
+
     // Convert contents to messages
     const contents = Array.isArray(request.contents)
       ? request.contents
@@ -604,9 +834,31 @@ export class OllamaContentGenerator implements ContentGenerator {
       ) {
         const role = content.role === 'model' ? 'assistant' : content.role;
         const messageContent = this.extractTextFromParts(content.parts);
+        const images = this.extractImagesFromParts(content.parts);
         const functionResponses = this.extractFunctionResponses(content.parts);
 
-        if (functionResponses.length > 0) {
+        if (promptTools && functionResponses.length > 0) {
+          messages.push({
+            role: 'user',
+            content: functionResponses
+              .map((response) =>
+                formatToolResultAsText(response.name, response.response),
+              )
+              .join('\n\n'),
+          });
+        } else if (promptTools && role === 'assistant') {
+          const assistantText = [
+            messageContent,
+            ...this.extractFunctionCalls(content.parts).map(
+              formatToolCallAsText,
+            ),
+          ]
+            .filter(Boolean)
+            .join('\n\n');
+          if (assistantText) {
+            messages.push({ role: 'assistant', content: assistantText });
+          }
+        } else if (functionResponses.length > 0) {
           // Handle function responses
           for (const response of functionResponses) {
             messages.push({
@@ -617,22 +869,17 @@ export class OllamaContentGenerator implements ContentGenerator {
                   : JSON.stringify(response.response),
             });
           }
-        } else if (messageContent) {
+        } else if (messageContent || images.length > 0) {
           messages.push({
             role: role as 'user' | 'assistant',
             content: messageContent,
+            ...(images.length > 0 && { images }),
           });
         }
       }
     }
 
-    // Convert tools
-    let tools: OllamaTool[] | undefined;
-    if (request.config?.tools) {
-      tools = this.convertToolsToOllamaFormat(request.config.tools);
-    }
-
-    return { messages, tools };
+    return { messages, tools: promptTools ? undefined : tools };
   }
 
   private convertToolsToOllamaFormat(geminiTools: ToolListUnion): OllamaTool[] {
@@ -706,6 +953,132 @@ export class OllamaContentGenerator implements ContentGenerator {
     return geminiResponse;
   }
 
+  /**
+   * Combines the request's generation config with the user's per-model
+   * options. Options configured for the model take precedence, since the
+   * request config mostly carries client-wide defaults.
+   */
+  private buildRequestOptions(
+    model: string,
+    request: GenerateContentParameters,
+  ): { options: OllamaRequestOptions; keep_alive?: string | number } {
+    const { keep_alive, ...modelOptions } = resolveOllamaModelOptions(
+      this.modelOptions,
+      model,
+    );
+    return {
+      options: {
+        temperature: request.config?.temperature,
+        top_p: request.config?.topP,
+        num_predict: request.config?.maxOutputTokens,
+        ...modelOptions,
+      },
+      keep_alive,
+    };
+  }
+
+  /**
+   * Requests Ollama's native thinking output when the caller asked for
+   * thoughts and the model advertises the `thinking` capability. Sending
+   * `think` to other models is rejected by Ollama, so it is left unset.
+   */
+  private async resolveThink(
+    model: string,
+    request: GenerateContentParameters,
+  ): Promise<boolean | undefined> {
+    if (!request.config?.thinkingConfig?.includeThoughts) {
+      return undefined;
+    }
+    const capabilities = await this.getModelCapabilities(model);
+    return capabilities?.includes('thinking') ? true : undefined;
+  }
+
+  /**
+   * Maps the request's structured output settings onto Ollama's `format`
+   * field, which constrains decoding to the schema instead of relying on the
+   * model to follow `responseMimeType` on its own.
+   */
+  private resolveFormat(
+    request: GenerateContentParameters,
+  ): OllamaFormat | undefined {
+    if (request.config?.responseSchema) {
+      return toJsonSchema(request.config.responseSchema);
+    }
+    return request.config?.responseMimeType === 'application/json'
+      ? 'json'
+      : undefined;
+  }
+
+  /**
+   * Models whose Ollama template has no tool support (no `tools` capability)
+   * reject the `tools` field, so they are taught to call tools through the
+   * system prompt instead. Servers that do not report capabilities keep
+   * native tool calling.
+   */
+  private async usesPromptToolCalling(model: string): Promise<boolean> {
+    const capabilities = await this.getModelCapabilities(model);
+    return capabilities !== undefined && !capabilities.includes('tools');
+  }
+
+  private createToolCallParser(
+    request: GenerateContentParameters,
+  ): ToolCallTextParser {
+    const tools = request.config?.tools
+      ? this.convertToolsToOllamaFormat(request.config.tools)
+      : [];
+    return new ToolCallTextParser(new Set(tools.map((t) => t.function.name)));
+  }
+
+  /**
+   * Replaces a message's text with what the tool call parser let through and
+   * attaches the calls it found, as if Ollama had returned them natively.
+   */
+  private applyPromptToolCalls(
+    message: OllamaMessage,
+    results: Array<ReturnType<ToolCallTextParser['push']>>,
+  ): OllamaMessage {
+    const toolCalls = results.flatMap((result) =>
+      result.functionCalls.map(
+        (call): OllamaToolCall => ({
+          function: { name: call.name!, arguments: call.args ?? {} },
+        }),
+      ),
+    );
+    return {
+      ...message,
+      content: results.map((result) => result.text).join(''),
+      tool_calls: toolCalls.length > 0 ? toolCalls : message.tool_calls,
+    };
+  }
+
+  private splitThinking(
+    parser: ThinkTagParser,
+    content: string | undefined,
+    done: boolean,
+  ): { thought: string; text: string } {
+    const result = parser.push(content ?? '');
+    if (done) {
+      const rest = parser.flush();
+      result.thought += rest.thought;
+      result.text += rest.text;
+    }
+    return result;
+  }
+
+  private createThoughtResponse(thinking: string): GenerateContentResponse {
+    const response = new GenerateContentResponse();
+    response.candidates = [
+      {
+        content: {
+          role: 'model',
+          parts: [{ text: thinking, thought: true }],
+        },
+        index: 0,
+      },
+    ];
+    return response;
+  }
+
   private extractTextFromParts(parts: Part[]): string {
     return parts
       .map((part) => {
@@ -718,6 +1091,26 @@ export class OllamaContentGenerator implements ContentGenerator {
       .join('');
   }
 
+  /**
+   * Collects base64-encoded image data from inline parts, which is the form
+   * Ollama expects in the `images` field of a message or generate request.
+   */
+  private extractImagesFromParts(parts: Part[]): string[] {
+    return parts
+      .filter(
+        (part) =>
+          part.inlineData?.data &&
+          part.inlineData.mimeType?.startsWith('image/'),
+      )
+      .map((part) => part.inlineData!.data!);
+  }
+
+  private extractFunctionCalls(parts: Part[]): FunctionCall[] {
+    return parts
+      .filter((part) => part.functionCall)
+      .map((part) => part.functionCall!);
+  }
+
   private extractFunctionResponses(parts: Part[]): Array<{
     name: string;
     response: unknown;
@@ -735,12 +1128,8 @@ export class OllamaContentGenerator implements ContentGenerator {
 
   async listModels(): Promise<string[]> {
     try {
-      const response = await fetch(`${this.ollamaHost}/api/tags`);
-      if (!response.ok) {
-        throw new Error(`Failed to list Ollama models: ${response.status}`);
-      }
-      const data: OllamaListResponse = await response.json();
-      return data.models.map((m) => m.name);
+      const models = await this.adminClient.listModels();
+      return models.map((m) => m.name);
     } catch (error) {
       console.error('Failed to list Ollama models:', error);
       return [];
@@ -778,6 +1167,147 @@ export class OllamaContentGenerator implements ContentGenerator {
     return availableModels[0] || DEFAULT_OLLAMA_MODEL;
   }
 
+  /**
+   * Fetches and caches `/api/show` details for a model. Also records the
+   * model's effective context window so `tokenLimit()` reflects it.
+   */
+  async getModelInfo(model: string): Promise<OllamaModelInfo | undefined> {
+    const cached = this.modelInfoCache.get(model);
+    if (cached) {
+      return cached;
+    }
+    const failedAt = this.modelInfoFailures.get(model);
+    if (
+      failedAt !== undefined &&
+      Date.now() - failedAt < MODEL_INFO_RETRY_INTERVAL_MS
+    ) {
+      return undefined;
+    }
+
+    let data: OllamaShowResponse;
+    try {
+      data = await this.adminClient.showModel(model);
+    } catch {
+      this.modelInfoFailures.set(model, Date.now());
+      return undefined;
+    }
+    this.modelInfoFailures.delete(model);
+
+    const capabilities = data.capabilities;
+    const contextLengthKey = Object.keys(data.model_info ?? {}).find((key) =>
+      key.endsWith('.context_length'),
+    );
+    const contextLength = contextLengthKey
+      ? Number(data.model_info![contextLengthKey])
+      : undefined;
+    const numCtxMatch = data.parameters?.match(/^num_ctx\s+(\d+)/m);
+
+    const info: OllamaModelInfo = {
+      capabilities,
+      vision: capabilities
+        ? capabilities.includes('vision')
+        : data.projector_info
+          ? true
+          : undefined,
+      contextLength: contextLength || undefined,
+      numCtx: numCtxMatch ? Number(numCtxMatch[1]) : undefined,
+    };
+    this.modelInfoCache.set(model, info);
+    setTokenLimit(model, this.getContextLimit(model, info));
+    return info;
+  }
+
+  /**
+   * Returns the capabilities Ollama reports for a model (e.g. `completion`,
+   * `vision`, `tools`), or undefined if the server does not expose them.
+   */
+  async getModelCapabilities(model: string): Promise<string[] | undefined> {
+    return (await this.getModelInfo(model))?.capabilities;
+  }
+
+  /**
+   * The number of tokens Ollama will actually keep in context for `model`:
+   * the configured `num_ctx` (settings, then Modelfile, then Ollama's
+   * default), capped at what the model supports.
+   */
+  private getContextLimit(model: string, info: OllamaModelInfo): number {
+    const numCtx =
+      resolveOllamaModelOptions(this.modelOptions, model).num_ctx ??
+      info.numCtx ??
+      DEFAULT_OLLAMA_NUM_CTX;
+    return info.contextLength ? Math.min(numCtx, info.contextLength) : numCtx;
+  }
+
+  /**
+   * Updates the per-model chars-per-token ratio from the prompt size Ollama
+   * reports, so later `countTokens` estimates track the real tokenizer.
+   */
+  private calibrateTokenEstimate(
+    request: OllamaGenerateRequest | OllamaChatRequest,
+    promptTokens: number | undefined,
+  ): void {
+    if (!promptTokens) {
+      return;
+    }
+    let chars = 0;
+    if ('prompt' in request) {
+      chars = request.prompt.length + (request.system?.length ?? 0);
+    } else {
+      for (const message of request.messages) {
+        chars += message.content.length;
+        if (message.tool_calls) {
+          chars += JSON.stringify(message.tool_calls).length;
+        }
+      }
+      if (request.tools) {
+        chars += JSON.stringify(request.tools).length;
+      }
+    }
+    const ratio = chars / promptTokens;
+    // Ignore implausible samples, e.g. when Ollama reused a cached prompt
+    // prefix and only reports the newly evaluated tokens.
+    if (ratio < 1 || ratio > 10) {
+      return;
+    }
+    const previous = this.charsPerToken.get(request.model);
+    this.charsPerToken.set(
+      request.model,
+      previous === undefined ? ratio : (previous + ratio) / 2,
+    );
+  }
+
+  private countPartChars(parts: Part[]): number {
+    let chars = 0;
+    for (const part of parts) {
+      if (part.text) {
+        chars += part.text.length;
+      }
+      if (part.functionCall) {
+        chars += JSON.stringify(part.functionCall).length;
+      }
+      if (part.functionResponse) {
+        chars += JSON.stringify(part.functionResponse).length;
+      }
+    }
+    return chars;
+  }
+
+  private async ensureVisionSupport(
+    model: string,
+    hasImages: boolean,
+  ): Promise<void> {
+    if (!hasImages) {
+      return;
+    }
+    // When this is unknown, let Ollama decide rather than guessing.
+    if ((await this.getModelInfo(model))?.vision === false) {
+      throw new Error(
+        `Model ${model} does not support image input. ` +
+          'Select a vision-capable model (e.g. llava, qwen2.5vl, gemma3) to send images.',
+      );
+    }
+  }
+
   async isAvailable(): Promise<boolean> {
     try {
       const response = await fetch(`${this.ollamaHost}/api/tags`, {
@@ -790,6 +1320,11 @@ export class OllamaContentGenerator implements ContentGenerator {
   }
 }
 
+function stripThinking(text: string): string {
+  const parser = new ThinkTagParser();
+  return parser.push(text).text + parser.flush().text;
+}
+
 export async function createOllamaContentGenerator(
   config: ContentGeneratorConfig,
 ): Promise<ContentGenerator> {
@@ -799,10 +1334,14 @@ export async function createOllamaContentGenerator(
   const available = await generator.isAvailable();
   if (!available) {
     throw new Error(
-      `Ollama is not available at ${config.ollamaHost || 'http://localhost:11434'}. ` +
+      `Ollama is not available at ${config.ollamaHost || DEFAULT_OLLAMA_HOST}. ` +
         'Please ensure Ollama is running and accessible.',
     );
   }
 
+  // Prime the model details so the context window is known before the
+  // first compression check.
+  await generator.getModelInfo(config.model || DEFAULT_OLLAMA_MODEL);
+
   return generator;
 }
@@ -0,0 +1,211 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OllamaHostPool, createOllamaHostPool } from './ollamaHostPool.js';
+import { AuthType } from '../core/contentGenerator.js';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+vi.mock('../utils/errorReporting.js', () => ({
+  reportError: vi.fn(),
+}));
+
+const HOST_A = 'http://box-a:11434';
+const HOST_B = 'http://box-b:11434';
+
+/**
+ * Simulates a set of Ollama servers. Hosts not in `up` refuse connections;
+ * `models` lists what each host has installed.
+ */
+function mockHosts(up: Set<string>, models: Record<string, string[]>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const host = new URL(url).origin;
+    if (!up.has(host)) {
+      throw new TypeError('fetch failed');
+    }
+    const path = new URL(url).pathname;
+    if (path === '/api/tags') {
+      return {
+        ok: true,
+        json: async () => ({
+          models: (models[host] ?? []).map((name) => ({ name })),
+        }),
+      };
+    }
+    if (path === '/api/show') {
+      return { ok: true, json: async () => ({ capabilities: ['completion'] }) };
+    }
+    return {
+      ok: true,
+      json: async () => ({ response: `answer from ${host}`, done: true }),
+    };
+  });
+}
+
+function generateCalls() {
+  return mockFetch.mock.calls
+    .map(([url]) => url as string)
+    .filter((url) => url.endsWith('/api/generate'));
+}
+
+describe('OllamaHostPool', () => {
+  const config = {
+    model: 'qwen3:8b',
+    authType: AuthType.USE_OLLAMA,
+  };
+  const request = { model: 'qwen3:8b', contents: 'Hi' };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should probe hosts for health and installed models', async () => {
+    mockHosts(new Set([HOST_A]), { [HOST_A]: ['qwen3:8b'] });
+    const pool = new OllamaHostPool(config, [HOST_A, HOST_B]);
+
+    await pool.refresh();
+
+    expect(pool.getStatus().hosts).toEqual([
+      { host: HOST_A, healthy: true, models: ['qwen3:8b'], inFlight: 0 },
+      { host: HOST_B, healthy: false, models: [], inFlight: 0 },
+    ]);
+    expect(await pool.listModels()).toEqual(['qwen3:8b']);
+  });
+
+  it('should route requests to a host that has the model', async () => {
+    const up = new Set([HOST_A, HOST_B]);
+    mockHosts(up, { [HOST_A]: ['llama3.2:3b'], [HOST_B]: ['qwen3:8b'] });
+    const pool = new OllamaHostPool(config, [HOST_A, HOST_B]);
+    await pool.refresh();
+
+    for (let i = 0; i < 3; i++) {
+      await pool.generateContent(request);
+    }
+
+    expect(generateCalls()).toEqual([
+      `${HOST_B}/api/generate`,
+      `${HOST_B}/api/generate`,
+      `${HOST_B}/api/generate`,
+    ]);
+    expect(pool.getStatus().activeHost).toBe(HOST_B);
+  });
+
+  it('should list the models of healthy hosts again after a while', async () => {
+    const models = { [HOST_A]: ['qwen3:8b'] };
+    mockHosts(new Set([HOST_A]), models);
+    const pool = new OllamaHostPool(config, [HOST_A]);
+    await pool.refresh();
+    models[HOST_A] = ['qwen3:8b', 'llama3.2:3b'];
+
+    expect(await pool.listModels()).toEqual(['qwen3:8b']);
+    const now = vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 5 * 60_000);
+    expect(await pool.listModels()).toEqual(['llama3.2:3b', 'qwen3:8b']);
+    now.mockRestore();
+  });
+
+  it('should balance requests between equally suitable hosts', async () => {
+    const up = new Set([HOST_A, HOST_B]);
+    mockHosts(up, { [HOST_A]: ['qwen3:8b'], [HOST_B]: ['qwen3:8b'] });
+    const pool = new OllamaHostPool(config, [HOST_A, HOST_B]);
+    await pool.refresh();
+
+    await pool.generateContent(request);
+    await pool.generateContent(request);
+
+    expect(generateCalls()).toEqual([
+      `${HOST_A}/api/generate`,
+      `${HOST_B}/api/generate`,
+    ]);
+  });
+
+  it('should fail over when the active host goes away', async () => {
+    const up = new Set([HOST_A, HOST_B]);
+    mockHosts(up, { [HOST_A]: ['qwen3:8b'], [HOST_B]: ['qwen3:8b'] });
+    const pool = new OllamaHostPool(config, [HOST_A, HOST_B]);
+    await pool.refresh();
+    const updates: Array<string | undefined> = [];
+    pool.on('update', (status) => updates.push(status.activeHost));
+
+    up.delete(HOST_A);
+    const response = await pool.generateContent(request);
+
+    expect(response.text).toBe(`answer from ${HOST_B}`);
+    expect(pool.getStatus().hosts[0].healthy).toBe(false);
+    expect(pool.getStatus().activeHost).toBe(HOST_B);
+    expect(updates).toContain(HOST_B);
+  });
+
+  it('should not fail over on errors from a reachable host', async () => {
+    mockHosts(new Set([HOST_A, HOST_B]), {
+      [HOST_A]: ['qwen3:8b'],
+      [HOST_B]: ['qwen3:8b'],
+    });
+    const pool = new OllamaHostPool(config, [HOST_A, HOST_B]);
+    await pool.refresh();
+    mockFetch.mockImplementationOnce(async () => ({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+    }));
+
+    await expect(pool.generateContent(request)).rejects.toThrow(
+      'Ollama API error: 400 Bad Request',
+    );
+    expect(pool.getStatus().hosts.every((h) => h.healthy)).toBe(true);
+  });
+
+  it('should fail over streams that fail before the first chunk', async () => {
+    const up = new Set([HOST_A, HOST_B]);
+    mockHosts(up, { [HOST_A]: ['qwen3:8b'], [HOST_B]: ['qwen3:8b'] });
+    const pool = new OllamaHostPool(config, [HOST_A, HOST_B]);
+    await pool.refresh();
+    up.delete(HOST_A);
+    const encoder = new TextEncoder();
+    const chunks = [
+      encoder.encode(
+        JSON.stringify({ response: 'streamed', done: true }) + '\n',
+      ),
+    ];
+    const generateImpl = mockFetch.getMockImplementation()!;
+    mockFetch.mockImplementation(async (url: string, init: RequestInit) => {
+      if (url === `${HOST_B}/api/generate`) {
+        return {
+          ok: true,
+          body: {
+            getReader: () => ({
+              read: async () =>
+                chunks.length > 0
+                  ? { done: false, value: chunks.shift() }
+                  : { done: true, value: undefined },
+            }),
+          },
+        };
+      }
+      return generateImpl(url, init);
+    });
+
+    const texts: string[] = [];
+    for await (const chunk of await pool.generateContentStream(request)) {
+      texts.push(chunk.text ?? '');
+    }
+
+    expect(texts.join('')).toBe('streamed');
+    expect(pool.getStatus().activeHost).toBe(HOST_B);
+    expect(pool.getStatus().hosts.map((h) => h.inFlight)).toEqual([0, 0]);
+  });
+
+  it('should report when no host is reachable', async () => {
+    mockHosts(new Set(), {});
+
+    await expect(
+      createOllamaHostPool(config, [HOST_A, HOST_B]),
+    ).rejects.toThrow(
+      `None of the configured Ollama hosts is available (${HOST_A}, ${HOST_B})`,
+    );
+  });
+});
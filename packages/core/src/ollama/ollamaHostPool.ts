@@ -0,0 +1,306 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventEmitter } from 'events';
+import {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import {
+  ContentGenerator,
+  ContentGeneratorConfig,
+} from '../core/contentGenerator.js';
+import { DEFAULT_OLLAMA_MODEL } from '../config/models.js';
+import {
+  OllamaContentGenerator,
+  OllamaModelInfo,
+} from './ollamaContentGenerator.js';
+
+// How long an unreachable host is left alone before it is probed again.
+const HOST_RECHECK_INTERVAL_MS = 30_000;
+// How long the models of a healthy host are trusted before they are listed
+// again, as models can be pulled or removed outside this session.
+const MODELS_RECHECK_INTERVAL_MS = 5 * 60_000;
+
+export interface OllamaHostStatus {
+  host: string;
+  healthy: boolean;
+  /** Models installed on the host as of the last probe. */
+  models: string[];
+  /** Requests currently running on the host. */
+  inFlight: number;
+}
+
+export interface OllamaHostPoolStatus {
+  /** Host that served (or is serving) the most recent request. */
+  activeHost?: string;
+  hosts: OllamaHostStatus[];
+}
+
+interface HostState {
+  host: string;
+  generator: OllamaContentGenerator;
+  healthy: boolean;
+  models: Set<string>;
+  inFlight: number;
+  lastChecked: number;
+}
+
+/**
+ * Spreads requests over several Ollama servers. Each request goes to the
+ * least busy healthy host that has the model installed; when a host stops
+ * responding mid-session it is marked down and the request is retried on the
+ * next candidate. Emits `update` with an {@link OllamaHostPoolStatus}
+ * whenever the active host or a host's health changes.
+ */
+export class OllamaHostPool extends EventEmitter implements ContentGenerator {
+  private readonly hosts: HostState[];
+  private readonly model: string;
+  private activeHost?: string;
+  private nextIndex = 0;
+
+  constructor(config: ContentGeneratorConfig, hosts: string[]) {
+    super();
+    this.model = config.model || DEFAULT_OLLAMA_MODEL;
+    this.hosts = hosts.map((host) => ({
+      host,
+      generator: new OllamaContentGenerator({ ...config, ollamaHost: host }),
+      healthy: false,
+      models: new Set<string>(),
+      inFlight: 0,
+      lastChecked: 0,
+    }));
+  }
+
+  /**
+   * Probes every host for availability and its installed models. Call it
+   * after pulling, removing or copying models.
+   */
+  async refresh(): Promise<void> {
+    await Promise.all(this.hosts.map((state) => this.probe(state)));
+    this.emitUpdate();
+  }
+
+  getStatus(): OllamaHostPoolStatus {
+    return {
+      activeHost: this.activeHost,
+      hosts: this.hosts.map((state) => ({
+        host: state.host,
+        healthy: state.healthy,
+        models: [...state.models],
+        inFlight: state.inFlight,
+      })),
+    };
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    return this.withHost(
+      request.model || this.model,
+      request.config?.abortSignal,
+      (generator) => generator.generateContent(request),
+    );
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    return this.doGenerateContentStream(request);
+  }
+
+  /**
+   * Streams from the first host that produces a response. Failover is only
+   * possible until the first chunk has been passed on; after that a broken
+   * connection surfaces as an error, as it would with a single host.
+   */
+  private async *doGenerateContentStream(
+    request: GenerateContentParameters,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const model = request.model || this.model;
+    const signal = request.config?.abortSignal;
+    let state: HostState | undefined;
+    let stream: AsyncGenerator<GenerateContentResponse> | undefined;
+    let first: IteratorResult<GenerateContentResponse> | undefined;
+
+    await this.withHost(model, signal, async (generator, current) => {
+      const candidate = await generator.generateContentStream(request);
+      first = await candidate.next();
+      stream = candidate;
+      state = current;
+      current.inFlight++;
+    });
+
+    try {
+      if (first && !first.done) {
+        yield first.value;
+        yield* stream!;
+      }
+    } finally {
+      state!.inFlight--;
+    }
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    // Counting is a local estimate, so any host's generator will do; prefer
+    // the active one, whose calibration matches the model in use.
+    return this.getEstimator().countTokens(request);
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    return this.withHost(
+      request.model || this.model,
+      request.config?.abortSignal,
+      (generator) => generator.embedContent(request),
+    );
+  }
+
+  /** Models installed on any healthy host. */
+  async listModels(): Promise<string[]> {
+    await this.recheckStaleHosts();
+    const models = new Set<string>();
+    for (const state of this.hosts) {
+      if (state.healthy) {
+        state.models.forEach((model) => models.add(model));
+      }
+    }
+    return [...models].sort();
+  }
+
+  async getModelInfo(model: string): Promise<OllamaModelInfo | undefined> {
+    const [state] = this.rankHosts(model);
+    return state?.generator.getModelInfo(model);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    await this.refresh();
+    return this.hosts.some((state) => state.healthy);
+  }
+
+  private async probe(state: HostState): Promise<void> {
+    state.lastChecked = Date.now();
+    state.healthy = await state.generator.isAvailable();
+    state.models = new Set(
+      state.healthy ? await state.generator.listModels() : [],
+    );
+  }
+
+  private async recheckStaleHosts(): Promise<void> {
+    const stale = this.hosts.filter(
+      (state) =>
+        Date.now() - state.lastChecked >=
+        (state.healthy ? MODELS_RECHECK_INTERVAL_MS : HOST_RECHECK_INTERVAL_MS),
+    );
+    if (stale.length > 0) {
+      const before = JSON.stringify(this.getStatus());
+      await Promise.all(stale.map((state) => this.probe(state)));
+      if (JSON.stringify(this.getStatus()) !== before) {
+        this.emitUpdate();
+      }
+    }
+  }
+
+  /**
+   * Orders the healthy hosts for a request: hosts with the model installed
+   * come first, then the least busy, with ties rotated so equally idle hosts
+   * share the load. Hosts without the model are kept as a last resort so the
+   * user sees Ollama's own "model not found" error.
+   */
+  private rankHosts(model: string): HostState[] {
+    const offset = this.nextIndex++ % Math.max(this.hosts.length, 1);
+    const rotated = [
+      ...this.hosts.slice(offset),
+      ...this.hosts.slice(0, offset),
+    ];
+    return rotated
+      .filter((state) => state.healthy)
+      .sort(
+        (a, b) =>
+          Number(b.models.has(model)) - Number(a.models.has(model)) ||
+          a.inFlight - b.inFlight,
+      );
+  }
+
+  private async withHost<T>(
+    model: string,
+    signal: AbortSignal | undefined,
+    run: (generator: OllamaContentGenerator, state: HostState) => Promise<T>,
+  ): Promise<T> {
+    await this.recheckStaleHosts();
+    const candidates = this.rankHosts(model);
+    let lastError: unknown;
+
+    for (const state of candidates) {
+      this.setActiveHost(state.host);
+      state.inFlight++;
+      try {
+        return await run(state.generator, state);
+      } catch (error) {
+        // Only a host that no longer answers is failed over; errors from a
+        // healthy host (bad request, missing model, ...) are the answer.
+        if (signal?.aborted || (await state.generator.isAvailable())) {
+          throw error;
+        }
+        lastError = error;
+        state.healthy = false;
+        state.lastChecked = Date.now();
+        this.emitUpdate();
+      } finally {
+        state.inFlight--;
+      }
+    }
+
+    const hosts = this.hosts.map((state) => state.host).join(', ');
+    throw new Error(
+      `No Ollama host is available (tried ${hosts})` +
+        (lastError instanceof Error ? `: ${lastError.message}` : ''),
+    );
+  }
+
+  private getEstimator(): OllamaContentGenerator {
+    const state =
+      this.hosts.find((s) => s.host === this.activeHost) ?? this.hosts[0];
+    return state.generator;
+  }
+
+  private setActiveHost(host: string) {
+    if (this.activeHost !== host) {
+      this.activeHost = host;
+      this.emitUpdate();
+    }
+  }
+
+  private emitUpdate() {
+    this.emit('update', this.getStatus());
+  }
+}
+
+export async function createOllamaHostPool(
+  config: ContentGeneratorConfig,
+  hosts: string[],
+): Promise<OllamaHostPool> {
+  const pool = new OllamaHostPool(config, hosts);
+  if (!(await pool.isAvailable())) {
+    throw new Error(
+      `None of the configured Ollama hosts is available (${hosts.join(', ')}). ` +
+        'Please ensure Ollama is running and accessible on at least one of them.',
+    );
+  }
+
+  // Prime the model details so the context window is known before the
+  // first compression check.
+  await pool.getModelInfo(config.model || DEFAULT_OLLAMA_MODEL);
+
+  return pool;
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveOllamaModelOptions } from './ollamaModelOptions.js';
+
+describe('resolveOllamaModelOptions', () => {
+  it('should return no options when none are configured', () => {
+    expect(resolveOllamaModelOptions(undefined, 'qwen3:1.7b')).toEqual({});
+  });
+
+  it('should match exact model names', () => {
+    expect(
+      resolveOllamaModelOptions(
+        { 'qwen3:1.7b': { num_ctx: 8192 }, 'gemma2:2b': { num_ctx: 4096 } },
+        'qwen3:1.7b',
+      ),
+    ).toEqual({ num_ctx: 8192 });
+  });
+
+  it('should match glob patterns', () => {
+    expect(
+      resolveOllamaModelOptions(
+        { 'qwen3:*': { keep_alive: '1h' } },
+        'qwen3:8b',
+      ),
+    ).toEqual({ keep_alive: '1h' });
+    expect(
+      resolveOllamaModelOptions(
+        { 'qwen3:*': { keep_alive: '1h' } },
+        'gemma2:2b',
+      ),
+    ).toEqual({});
+  });
+
+  it('should merge matching patterns with the exact entry taking precedence', () => {
+    expect(
+      resolveOllamaModelOptions(
+        {
+          'qwen3:1.7b': { num_ctx: 4096 },
+          '*': { num_ctx: 2048, seed: 1 },
+          'qwen3:*': { num_ctx: 32768, stop: ['</answer>'] },
+        },
+        'qwen3:1.7b',
+      ),
+    ).toEqual({ num_ctx: 4096, seed: 1, stop: ['</answer>'] });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import micromatch from 'micromatch';
+
+/**
+ * Generation options applied to Ollama requests for a given model. Apart from
+ * `keep_alive`, which is a top-level request field, these map one-to-one onto
+ * the Ollama `options` object.
+ */
+export interface OllamaModelOptions {
+  num_ctx?: number;
+  keep_alive?: string | number;
+  seed?: number;
+  stop?: string[];
+  temperature?: number;
+  top_k?: number;
+  top_p?: number;
+  min_p?: number;
+  num_predict?: number;
+  repeat_penalty?: number;
+  repeat_last_n?: number;
+  mirostat?: 0 | 1 | 2;
+  mirostat_eta?: number;
+  mirostat_tau?: number;
+}
+
+/**
+ * Per-model options keyed by model name or glob pattern, e.g.
+ * `{ "qwen3:*": { "num_ctx": 32768 }, "qwen3:1.7b": { "seed": 42 } }`.
+ */
+export type OllamaModelOptionsMap = Record<string, OllamaModelOptions>;
+
+/**
+ * Resolves the options for `model`. Every matching glob pattern is applied in
+ * declaration order and an exact model-name entry is applied last, so the
+ * most specific entry wins for any option it sets.
+ */
+export function resolveOllamaModelOptions(
+  optionsMap: OllamaModelOptionsMap | undefined,
+  model: string,
+): OllamaModelOptions {
+  if (!optionsMap) {
+    return {};
+  }
+
+  let resolved: OllamaModelOptions = {};
+  for (const [pattern, options] of Object.entries(optionsMap)) {
+    if (pattern !== model && micromatch.isMatch(model, pattern)) {
+      resolved = { ...resolved, ...options };
+    }
+  }
+  if (optionsMap[model]) {
+    resolved = { ...resolved, ...optionsMap[model] };
+  }
+  return resolved;
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ToolCallTextParser,
+  buildToolCallingPrompt,
+  formatToolCallAsText,
+} from './promptToolCalling.js';
+
+describe('ToolCallTextParser', () => {
+  const toolNames = new Set(['read_file', 'run_shell_command']);
+
+  function parseAll(chunks: string[]) {
+    const parser = new ToolCallTextParser(toolNames);
+    const results = [
+      ...chunks.map((chunk) => parser.push(chunk)),
+      parser.flush(),
+    ];
+    return {
+      text: results.map((r) => r.text).join(''),
+      functionCalls: results.flatMap((r) => r.functionCalls),
+    };
+  }
+
+  it('should pass plain text through unchanged', () => {
+    expect(parseAll(['Hello ', 'world'])).toEqual({
+      text: 'Hello world',
+      functionCalls: [],
+    });
+  });
+
+  it('should extract tool_call blocks split at any point', () => {
+    const text =
+      'Let me check.\n```tool_call\n{"name": "read_file", "arguments": {"path": "a.ts"}}\n```\nDone.';
+    for (let i = 1; i < text.length; i++) {
+      expect(parseAll([text.slice(0, i), text.slice(i)])).toEqual({
+        text: 'Let me check.\n\nDone.',
+        functionCalls: [{ name: 'read_file', args: { path: 'a.ts' } }],
+      });
+    }
+  });
+
+  it('should accept json blocks only when they name a known tool', () => {
+    expect(
+      parseAll([
+        '```json\n{"name": "run_shell_command", "parameters": {"command": "ls"}}\n```',
+      ]).functionCalls,
+    ).toEqual([{ name: 'run_shell_command', args: { command: 'ls' } }]);
+
+    const example = '```json\n{"name": "Alice", "age": 30}\n```';
+    expect(parseAll([example])).toEqual({ text: example, functionCalls: [] });
+  });
+
+  it('should leave other code blocks and invalid invocations as text', () => {
+    const code = '```ts\nconst a = 1;\n```\n```tool_call\nnot json\n```';
+    expect(parseAll([code])).toEqual({ text: code, functionCalls: [] });
+  });
+
+  it('should accept a final block without a closing fence', () => {
+    expect(
+      parseAll(['```tool_call\n{"name": "read_file", "arguments": {}}\n']),
+    ).toEqual({
+      text: '',
+      functionCalls: [{ name: 'read_file', args: {} }],
+    });
+  });
+});
+
+describe('buildToolCallingPrompt', () => {
+  it('should list the tools and show the call format', () => {
+    const prompt = buildToolCallingPrompt([
+      {
+        name: 'read_file',
+        description: 'Reads a file',
+        parameters: { type: 'object' },
+      },
+    ]);
+    expect(prompt).toContain('"name": "read_file"');
+    expect(prompt).toContain('"description": "Reads a file"');
+    expect(prompt).toContain(
+      formatToolCallAsText({ name: 'tool_name', args: { argument: 'value' } }),
+    );
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FunctionCall } from '@google/genai';
+
+const FENCE = '```';
+// Fence languages a tool invocation may be wrapped in. Small models often
+// label the block `json` even when told to use `tool_call`.
+const TOOL_CALL_LANGUAGE = 'tool_call';
+const JSON_LANGUAGE = 'json';
+
+export interface PromptToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Builds the system prompt section that teaches a model without native tool
+ * support how to call tools: the declarations as JSON, plus the fenced
+ * `tool_call` block format that {@link ToolCallTextParser} recognises.
+ */
+export function buildToolCallingPrompt(tools: PromptToolDeclaration[]): string {
+  return [
+    '# Tools',
+    '',
+    'You can call the following tools. Each is described by its name, what it does and a JSON schema of its arguments:',
+    '',
+    JSON.stringify(tools, null, 2),
+    '',
+    'To call a tool, reply with a fenced code block tagged `tool_call` that contains a single JSON object with the tool name and its arguments, for example:',
+    '',
+    formatToolCallAsText({
+      name: 'tool_name',
+      args: { argument: 'value' },
+    }),
+    '',
+    'You may call several tools by writing several blocks. After calling tools, stop and wait: their results will be sent back to you in the next message. Only call the tools listed above, and never invent their results.',
+  ].join('\n');
+}
+
+/**
+ * Renders a function call the way the model is asked to write one, so earlier
+ * calls in the history read like the model's own output.
+ */
+export function formatToolCallAsText(call: FunctionCall): string {
+  return `${FENCE}${TOOL_CALL_LANGUAGE}\n${JSON.stringify({
+    name: call.name,
+    arguments: call.args ?? {},
+  })}\n${FENCE}`;
+}
+
+/**
+ * Renders a tool result as a user message for models that have no `tool`
+ * role in their chat template.
+ */
+export function formatToolResultAsText(name: string, result: unknown): string {
+  const output = typeof result === 'string' ? result : JSON.stringify(result);
+  return `Result of the \`${name}\` tool call:\n${output}`;
+}
+
+function parseToolCall(
+  body: string,
+  language: string,
+  toolNames: ReadonlySet<string>,
+): FunctionCall | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  const {
+    name,
+    arguments: args,
+    parameters,
+  } = value as Record<string, unknown>;
+  if (typeof name !== 'string') {
+    return undefined;
+  }
+  // A plain `json` block is only a tool call if it names one of our tools;
+  // otherwise it is ordinary output, such as a JSON example for the user.
+  if (language === JSON_LANGUAGE && !toolNames.has(name)) {
+    return undefined;
+  }
+  const callArgs = args ?? parameters ?? {};
+  return {
+    name,
+    args:
+      typeof callArgs === 'object' && !Array.isArray(callArgs)
+        ? (callArgs as Record<string, unknown>)
+        : {},
+  };
+}
+
+/**
+ * Extracts fenced tool invocations from streamed model text. Text outside
+ * tool blocks is passed through as it arrives; a block is held back until its
+ * closing fence is seen, then emitted as a function call, or as the original
+ * text if it turns out not to be a valid invocation.
+ */
+export class ToolCallTextParser {
+  private buffer = '';
+  private fenceLanguage?: string;
+
+  constructor(private readonly toolNames: ReadonlySet<string>) {}
+
+  push(chunk: string): { text: string; functionCalls: FunctionCall[] } {
+    this.buffer += chunk;
+    let text = '';
+    const functionCalls: FunctionCall[] = [];
+
+    while (this.buffer) {
+      if (this.fenceLanguage === undefined) {
+        const start = this.buffer.indexOf(FENCE);
+        if (start === -1) {
+          const held = partialFenceLength(this.buffer);
+          text += this.buffer.slice(0, this.buffer.length - held);
+          this.buffer = this.buffer.slice(this.buffer.length - held);
+          break;
+        }
+        text += this.buffer.slice(0, start);
+        this.buffer = this.buffer.slice(start);
+        const lineEnd = this.buffer.indexOf('\n');
+        if (lineEnd === -1) {
+          // Wait for the rest of the opening line to learn the language.
+          break;
+        }
+        const language = this.buffer.slice(FENCE.length, lineEnd).trim();
+        if (language === TOOL_CALL_LANGUAGE || language === JSON_LANGUAGE) {
+          this.fenceLanguage = language;
+        } else {
+          text += this.buffer.slice(0, lineEnd + 1);
+          this.buffer = this.buffer.slice(lineEnd + 1);
+        }
+      } else {
+        const end = this.buffer.indexOf(FENCE, this.buffer.indexOf('\n') + 1);
+        if (end === -1) {
+          break;
+        }
+        const block = this.buffer.slice(0, end + FENCE.length);
+        const body = block.slice(block.indexOf('\n') + 1, -FENCE.length);
+        const call = parseToolCall(body, this.fenceLanguage, this.toolNames);
+        if (call) {
+          functionCalls.push(call);
+        } else {
+          text += block;
+        }
+        this.fenceLanguage = undefined;
+        this.buffer = this.buffer.slice(end + FENCE.length);
+      }
+    }
+
+    return { text, functionCalls };
+  }
+
+  /**
+   * Emits whatever is still held back at the end of the response. Models
+   * often stop right after the JSON without closing the fence, so an
+   * unterminated block is still tried as a tool call.
+   */
+  flush(): { text: string; functionCalls: FunctionCall[] } {
+    const rest = this.buffer;
+    const language = this.fenceLanguage;
+    this.buffer = '';
+    this.fenceLanguage = undefined;
+    if (language !== undefined) {
+      const body = rest.slice(rest.indexOf('\n') + 1);
+      const call = parseToolCall(body, language, this.toolNames);
+      if (call) {
+        return { text: '', functionCalls: [call] };
+      }
+    }
+    return { text: rest, functionCalls: [] };
+  }
+}
+
+function partialFenceLength(text: string): number {
+  for (let length = FENCE.length - 1; length > 0; length--) {
+    if (text.endsWith(FENCE.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
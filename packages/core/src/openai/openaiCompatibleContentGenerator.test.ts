@@ -0,0 +1,516 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  FinishReason,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import {
+  OpenAICompatibleContentGenerator,
+  createOpenAICompatibleContentGenerator,
+} from './openaiCompatibleContentGenerator.js';
+import { AuthType } from '../core/contentGenerator.js';
+import { tokenLimit } from '../core/tokenLimits.js';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+vi.mock('../utils/errorReporting.js', () => ({
+  reportError: vi.fn(),
+}));
+
+function createSseResponse(events: Array<object | string>) {
+  const encoder = new TextEncoder();
+  const chunks = events.map((event) =>
+    encoder.encode(
+      `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`,
+    ),
+  );
+  return {
+    ok: true,
+    body: {
+      getReader: () => ({
+        read: () =>
+          Promise.resolve(
+            chunks.length > 0
+              ? { done: false, value: chunks.shift() }
+              : { done: true, value: undefined },
+          ),
+      }),
+    },
+  };
+}
+
+async function collect<T>(stream: AsyncGenerator<T>): Promise<T[]> {
+  const results: T[] = [];
+  for await (const item of stream) {
+    results.push(item);
+  }
+  return results;
+}
+
+describe('OpenAICompatibleContentGenerator', () => {
+  let generator: OpenAICompatibleContentGenerator;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    generator = new OpenAICompatibleContentGenerator({
+      model: 'qwen2.5-coder',
+      authType: AuthType.USE_OPENAI_COMPATIBLE,
+      openaiBaseUrl: 'http://localhost:8000/v1/',
+      apiKey: 'secret',
+    });
+  });
+
+  describe('generateContent', () => {
+    it('should send a chat completion request and convert the reply', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [
+              {
+                index: 0,
+                message: { content: 'Hello!' },
+                finish_reason: 'stop',
+              },
+            ],
+            usage: { prompt_tokens: 12, completion_tokens: 3 },
+          }),
+      });
+
+      const response = await generator.generateContent({
+        model: 'qwen2.5-coder',
+        contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+        config: { systemInstruction: 'Be brief', temperature: 0 },
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8000/v1/chat/completions',
+        expect.objectContaining({
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer secret',
+          },
+        }),
+      );
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toMatchObject({
+        model: 'qwen2.5-coder',
+        stream: false,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'Hi' },
+        ],
+      });
+      expect(response.candidates?.[0]?.content?.parts).toEqual([
+        { text: 'Hello!' },
+      ]);
+      expect(response.candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+      expect(response.usageMetadata).toEqual({
+        promptTokenCount: 12,
+        candidatesTokenCount: 3,
+        totalTokenCount: 15,
+      });
+    });
+
+    it('should convert tool calls and pair tool results with their ids', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [
+              {
+                index: 0,
+                message: {
+                  content: null,
+                  tool_calls: [
+                    {
+                      id: 'call_9',
+                      type: 'function',
+                      function: {
+                        name: 'read_file',
+                        arguments: '{"path":"b.ts"}',
+                      },
+                    },
+                  ],
+                },
+                finish_reason: 'tool_calls',
+              },
+            ],
+          }),
+      });
+
+      const request: GenerateContentParameters = {
+        model: 'qwen2.5-coder',
+        contents: [
+          { role: 'user', parts: [{ text: 'Read a.ts' }] },
+          {
+            role: 'model',
+            parts: [
+              { functionCall: { name: 'read_file', args: { path: 'a.ts' } } },
+            ],
+          },
+          {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  id: 'read_file-123',
+                  name: 'read_file',
+                  response: { output: 'export {}' },
+                },
+              },
+            ],
+          },
+        ],
+        config: {
+          tools: [
+            {
+              functionDeclarations: [
+                { name: 'read_file', description: 'Reads a file' },
+              ],
+            },
+          ],
+        },
+      };
+      const response = await generator.generateContent(request);
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.tools).toEqual([
+        {
+          type: 'function',
+          function: {
+            name: 'read_file',
+            description: 'Reads a file',
+            parameters: {},
+          },
+        },
+      ]);
+      expect(body.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: 'call_0',
+              type: 'function',
+              function: { name: 'read_file', arguments: '{"path":"a.ts"}' },
+            },
+          ],
+        },
+        { role: 'tool', tool_call_id: 'call_0', content: 'export {}' },
+      ]);
+      expect(response.candidates?.[0]?.content?.parts).toEqual([
+        {
+          functionCall: {
+            id: 'call_9',
+            name: 'read_file',
+            args: { path: 'b.ts' },
+          },
+        },
+      ]);
+    });
+
+    it('should keep tool calls whose arguments are not valid JSON', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [
+              {
+                index: 0,
+                message: {
+                  content: null,
+                  tool_calls: [
+                    {
+                      id: 'call_1',
+                      type: 'function',
+                      function: { name: 'read_file', arguments: '{"path":' },
+                    },
+                  ],
+                },
+                finish_reason: 'tool_calls',
+              },
+            ],
+          }),
+      });
+
+      const response = await generator.generateContent({
+        model: 'qwen2.5-coder',
+        contents: [{ role: 'user', parts: [{ text: 'Read a.ts' }] }],
+      });
+
+      const parts = response.candidates?.[0]?.content?.parts;
+      expect(parts?.[0]).toEqual({
+        functionCall: { id: 'call_1', name: 'read_file', args: {} },
+      });
+      expect(parts?.[1].text).toContain(
+        'The arguments of the `read_file` tool call were not valid JSON',
+      );
+    });
+
+    it('should send images as data URLs', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            choices: [
+              {
+                index: 0,
+                message: { content: 'A cat' },
+                finish_reason: 'stop',
+              },
+            ],
+          }),
+      });
+
+      await generator.generateContent({
+        model: 'llava',
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: 'What is this?' },
+              { inlineData: { mimeType: 'image/png', data: 'aGVsbG8=' } },
+            ],
+          },
+        ],
+      });
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.messages[0].content).toEqual([
+        { type: 'text', text: 'What is this?' },
+        {
+          type: 'image_url',
+          image_url: { url: 'data:image/png;base64,aGVsbG8=' },
+        },
+      ]);
+    });
+
+    it('should surface the server error message', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: () =>
+          Promise.resolve({ error: { message: 'context length exceeded' } }),
+      });
+
+      await expect(
+        generator.generateContent({
+          model: 'qwen2.5-coder',
+          contents: 'Hi',
+        }),
+      ).rejects.toThrow(
+        'Failed to generate content with OpenAI-compatible server: OpenAI-compatible API error: 400 context length exceeded',
+      );
+    });
+  });
+
+  describe('generateContentStream', () => {
+    it('should stream text, reasoning and fragmented tool calls', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createSseResponse([
+          {
+            choices: [
+              {
+                index: 0,
+                delta: { reasoning_content: 'Hmm' },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            choices: [
+              {
+                index: 0,
+                delta: { content: 'Let me look' },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    {
+                      index: 0,
+                      id: 'call_1',
+                      function: { name: 'ls', arguments: '{"pa' },
+                    },
+                  ],
+                },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            choices: [
+              {
+                index: 0,
+                delta: {
+                  tool_calls: [
+                    { index: 0, function: { arguments: 'th":"."}' } },
+                  ],
+                },
+                finish_reason: 'tool_calls',
+              },
+            ],
+          },
+          {
+            choices: [],
+            usage: {
+              prompt_tokens: 20,
+              completion_tokens: 5,
+              total_tokens: 25,
+            },
+          },
+          '[DONE]',
+        ]),
+      );
+
+      const stream = await generator.generateContentStream({
+        model: 'qwen2.5-coder',
+        contents: 'List files',
+        config: { thinkingConfig: { includeThoughts: true } },
+      });
+      const responses: GenerateContentResponse[] = await collect(stream);
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.stream).toBe(true);
+      expect(body.stream_options).toEqual({ include_usage: true });
+      expect(responses.map((r) => r.candidates?.[0]?.content?.parts)).toEqual([
+        [{ text: 'Hmm', thought: true }],
+        [{ text: 'Let me look' }],
+        [{ functionCall: { id: 'call_1', name: 'ls', args: { path: '.' } } }],
+      ]);
+      const last = responses[responses.length - 1];
+      expect(last.candidates?.[0]?.finishReason).toBe(FinishReason.STOP);
+      expect(last.usageMetadata?.totalTokenCount).toBe(25);
+    });
+
+    it('should drop reasoning when thoughts are not requested', async () => {
+      mockFetch.mockResolvedValueOnce(
+        createSseResponse([
+          {
+            choices: [
+              {
+                index: 0,
+                delta: { reasoning_content: 'Hmm' },
+                finish_reason: null,
+              },
+            ],
+          },
+          {
+            choices: [
+              { index: 0, delta: { content: 'Hi' }, finish_reason: 'stop' },
+            ],
+          },
+          '[DONE]',
+        ]),
+      );
+
+      const stream = await generator.generateContentStream({
+        model: 'qwen2.5-coder',
+        contents: 'Hi',
+      });
+      const responses = await collect(stream);
+
+      expect(responses.map((r) => r.candidates?.[0]?.content?.parts)).toEqual([
+        [{ text: 'Hi' }],
+        [],
+      ]);
+    });
+  });
+
+  describe('embedContent', () => {
+    it('should request embeddings in input order', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            data: [
+              { index: 1, embedding: [0.3, 0.4] },
+              { index: 0, embedding: [0.1, 0.2] },
+            ],
+          }),
+      });
+
+      const response = await generator.embedContent({
+        model: 'gemini-embedding-001',
+        contents: ['first', 'second'],
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8000/v1/embeddings',
+        expect.anything(),
+      );
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body).toEqual({
+        model: 'qwen2.5-coder',
+        input: ['first', 'second'],
+      });
+      expect(response.embeddings).toEqual([
+        { values: [0.1, 0.2] },
+        { values: [0.3, 0.4] },
+      ]);
+    });
+  });
+
+  describe('countTokens', () => {
+    it('should estimate tokens from text and tool payloads', async () => {
+      const result = await generator.countTokens({
+        model: 'qwen2.5-coder',
+        contents: [{ role: 'user', parts: [{ text: 'a'.repeat(40) }] }],
+      });
+      expect(result.totalTokens).toBe(10);
+    });
+  });
+
+  describe('createOpenAICompatibleContentGenerator', () => {
+    it('should record context lengths reported by the server', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            data: [{ id: 'served-model', max_model_len: 32768 }],
+          }),
+      });
+
+      await createOpenAICompatibleContentGenerator({
+        model: 'served-model',
+        authType: AuthType.USE_OPENAI_COMPATIBLE,
+        openaiBaseUrl: 'http://localhost:8000/v1',
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:8000/v1/models',
+        expect.objectContaining({ signal: expect.any(AbortSignal) }),
+      );
+      expect(tokenLimit('served-model')).toBe(32768);
+    });
+
+    it('should fail when the server is unreachable', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Connection refused'));
+
+      await expect(
+        createOpenAICompatibleContentGenerator({
+          model: 'served-model',
+          authType: AuthType.USE_OPENAI_COMPATIBLE,
+        }),
+      ).rejects.toThrow(
+        'OpenAI-compatible server is not available at http://localhost:8080/v1: Connection refused',
+      );
+    });
+  });
+});
@@ -0,0 +1,687 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  Content,
+  ContentListUnion,
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  FinishReason,
+  FunctionCall,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  ToolListUnion,
+} from '@google/genai';
+import {
+  ContentGenerator,
+  ContentGeneratorConfig,
+} from '../core/contentGenerator.js';
+import { reportError } from '../utils/errorReporting.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { setTokenLimit } from '../core/tokenLimits.js';
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:8080/v1';
+
+const DEFAULT_CHARS_PER_TOKEN = 4;
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+interface OpenAIChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  tools?: OpenAITool[];
+  stream: boolean;
+  stream_options?: { include_usage: boolean };
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIChatResponse {
+  choices: Array<{
+    index: number;
+    message: {
+      content: string | null;
+      reasoning_content?: string;
+      tool_calls?: OpenAIToolCall[];
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatChunk {
+  choices: Array<{
+    index: number;
+    delta: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+interface OpenAIModelList {
+  data: Array<{ id: string; max_model_len?: number }>;
+}
+
+/**
+ * Content generator for servers that speak the OpenAI chat completions
+ * protocol, such as llama.cpp server, vLLM and LM Studio.
+ */
+export class OpenAICompatibleContentGenerator implements ContentGenerator {
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+  private embeddingModel?: string;
+
+  constructor(config: ContentGeneratorConfig) {
+    this.baseUrl = (
+      config.openaiBaseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL
+    ).replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.embeddingModel = config.openaiEmbeddingModel;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    try {
+      const httpResponse = await this.post(
+        '/chat/completions',
+        this.buildChatRequest(request, false),
+        request.config?.abortSignal,
+      );
+      const data: OpenAIChatResponse = await httpResponse.json();
+      const choice = data.choices[0];
+
+      // Non-streaming callers (generateJson, compression) only consume the
+      // answer text, so reasoning is dropped here rather than surfaced.
+      const parts: Part[] = [];
+      if (choice?.message.content) {
+        parts.push({ text: choice.message.content });
+      }
+      parts.push(...this.convertToolCalls(choice?.message.tool_calls ?? []));
+
+      const response = new GenerateContentResponse();
+      response.candidates = [
+        {
+          content: { role: 'model', parts },
+          finishReason: convertFinishReason(choice?.finish_reason),
+          index: 0,
+        },
+      ];
+      response.usageMetadata = convertUsage(data.usage);
+      return response;
+    } catch (error) {
+      await reportError(
+        error,
+        'Error generating content with OpenAI-compatible server',
+        toContentArray(request.contents),
+        'openai-compatible-generate',
+      );
+      throw new Error(
+        `Failed to generate content with OpenAI-compatible server: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    return this.doGenerateContentStream(request);
+  }
+
+  private async *doGenerateContentStream(
+    request: GenerateContentParameters,
+  ): AsyncGenerator<GenerateContentResponse> {
+    try {
+      const httpResponse = await this.post(
+        '/chat/completions',
+        this.buildChatRequest(request, true),
+        request.config?.abortSignal,
+      );
+
+      const reader = httpResponse.body?.getReader();
+      if (!reader) {
+        throw new Error('No response body from OpenAI-compatible server');
+      }
+
+      const includeThoughts = !!request.config?.thinkingConfig?.includeThoughts;
+      const decoder = new TextDecoder();
+      // Tool call names and arguments arrive in fragments keyed by index.
+      const toolCalls = new Map<number, OpenAIToolCall>();
+      let finishReason: FinishReason | undefined;
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      let buffer = '';
+      let streamDone = false;
+
+      while (!streamDone) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) {
+            // Blank separators, comments and `event:` lines carry no data.
+            continue;
+          }
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') {
+            streamDone = true;
+            break;
+          }
+
+          let chunk: OpenAIChatChunk;
+          try {
+            chunk = JSON.parse(payload);
+          } catch (e) {
+            console.error('Failed to parse OpenAI-compatible stream chunk:', e);
+            continue;
+          }
+          if (chunk.usage) {
+            usage = convertUsage(chunk.usage);
+          }
+
+          const choice = chunk.choices?.[0];
+          if (!choice) {
+            continue;
+          }
+          if (choice.delta.reasoning_content && includeThoughts) {
+            yield createResponse(
+              [{ text: choice.delta.reasoning_content, thought: true }],
+              undefined,
+            );
+          }
+          if (choice.delta.content) {
+            yield createResponse([{ text: choice.delta.content }], undefined);
+          }
+          for (const fragment of choice.delta.tool_calls ?? []) {
+            const toolCall = toolCalls.get(fragment.index) ?? {
+              id: '',
+              type: 'function' as const,
+              function: { name: '', arguments: '' },
+            };
+            toolCall.id = fragment.id || toolCall.id;
+            toolCall.function.name += fragment.function?.name ?? '';
+            toolCall.function.arguments += fragment.function?.arguments ?? '';
+            toolCalls.set(fragment.index, toolCall);
+          }
+          if (choice.finish_reason) {
+            finishReason = convertFinishReason(choice.finish_reason);
+          }
+        }
+      }
+
+      const finalResponse = createResponse(
+        this.convertToolCalls([...toolCalls.values()]),
+        finishReason ?? FinishReason.STOP,
+      );
+      finalResponse.usageMetadata = usage;
+      yield finalResponse;
+    } catch (error) {
+      await reportError(
+        error,
+        'Error streaming content with OpenAI-compatible server',
+        toContentArray(request.contents),
+        'openai-compatible-stream',
+      );
+      throw new Error(
+        `Failed to stream content with OpenAI-compatible server: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    // The protocol has no token counting endpoint, so estimate from the
+    // character count of the text and tool call payloads.
+    let chars = 0;
+    for (const content of toContentArray(request.contents)) {
+      for (const part of content.parts ?? []) {
+        chars += part.text?.length ?? 0;
+        if (part.functionCall) {
+          chars += JSON.stringify(part.functionCall).length;
+        }
+        if (part.functionResponse) {
+          chars += JSON.stringify(part.functionResponse).length;
+        }
+      }
+    }
+    return { totalTokens: Math.ceil(chars / DEFAULT_CHARS_PER_TOKEN) };
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    try {
+      const input = toContentArray(request.contents).map((content) =>
+        extractText(content.parts ?? []),
+      );
+      // The client-wide embedding model defaults to a Gemini model, so the
+      // server's own embedding model (or the chat model) is used instead.
+      const httpResponse = await this.post('/embeddings', {
+        model: this.embeddingModel || this.model,
+        input,
+      });
+      const data: OpenAIEmbeddingResponse = await httpResponse.json();
+      return {
+        embeddings: [...data.data]
+          .sort((a, b) => a.index - b.index)
+          .map((item) => ({ values: item.embedding })),
+      };
+    } catch (error) {
+      await reportError(
+        error,
+        'Error generating embeddings with OpenAI-compatible server',
+        toContentArray(request.contents),
+        'openai-compatible-embed',
+      );
+      throw new Error(
+        `Failed to generate embeddings with OpenAI-compatible server: ${getErrorMessage(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Lists the models served at the base URL. Servers that report a context
+   * length (e.g. vLLM's `max_model_len`) also update `tokenLimit()`.
+   */
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.headers(),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+    const data: OpenAIModelList = await response.json();
+    for (const model of data.data) {
+      if (model.max_model_len) {
+        setTokenLimit(model.id, model.max_model_len);
+      }
+    }
+    return data.data.map((model) => model.id);
+  }
+
+  private buildChatRequest(
+    request: GenerateContentParameters,
+    stream: boolean,
+  ): OpenAIChatRequest {
+    const tools = request.config?.tools
+      ? this.convertTools(request.config.tools)
+      : [];
+    return {
+      model: request.model || this.model,
+      messages: this.convertToMessages(request),
+      tools: tools.length > 0 ? tools : undefined,
+      stream,
+      stream_options: stream ? { include_usage: true } : undefined,
+      temperature: request.config?.temperature,
+      top_p: request.config?.topP,
+      max_tokens: request.config?.maxOutputTokens,
+    };
+  }
+
+  private convertToMessages(
+    request: GenerateContentParameters,
+  ): OpenAIMessage[] {
+    const messages: OpenAIMessage[] = [];
+
+    const systemInstruction = request.config?.systemInstruction;
+    let systemText = '';
+    if (typeof systemInstruction === 'string') {
+      systemText = systemInstruction;
+    } else if (
+      systemInstruction &&
+      typeof systemInstruction === 'object' &&
+      'parts' in systemInstruction &&
+      systemInstruction.parts
+    ) {
+      systemText = extractText(systemInstruction.parts);
+    }
+    if (systemText) {
+      messages.push({ role: 'system', content: systemText });
+    }
+
+    // Tool results must reference the id of the call they answer. Calls
+    // recorded without an id (e.g. history carried over from another
+    // provider) get one here, and results are paired with them by name.
+    const unansweredCalls: Array<{ id: string; name: string }> = [];
+    let generatedIds = 0;
+
+    for (const content of toContentArray(request.contents)) {
+      const parts = (content.parts ?? []).filter((part) => !part.thought);
+
+      if (content.role === 'model') {
+        const toolCalls: OpenAIToolCall[] = parts
+          .filter((part) => part.functionCall)
+          .map((part) => {
+            const call = part.functionCall!;
+            const id = call.id || `call_${generatedIds++}`;
+            unansweredCalls.push({ id, name: call.name ?? '' });
+            return {
+              id,
+              type: 'function',
+              function: {
+                name: call.name ?? '',
+                arguments: JSON.stringify(call.args ?? {}),
+              },
+            };
+          });
+        const text = extractText(parts);
+        if (text || toolCalls.length > 0) {
+          messages.push({
+            role: 'assistant',
+            content: text || null,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+          });
+        }
+        continue;
+      }
+
+      for (const part of parts) {
+        if (!part.functionResponse) {
+          continue;
+        }
+        const { id, name, response } = part.functionResponse;
+        let index = unansweredCalls.findIndex((call) => call.id === id);
+        if (index === -1) {
+          index = unansweredCalls.findIndex((call) => call.name === name);
+        }
+        const toolCallId =
+          index === -1
+            ? id || `call_${generatedIds++}`
+            : unansweredCalls.splice(index, 1)[0].id;
+        const output = response?.output ?? response ?? {};
+        messages.push({
+          role: 'tool',
+          tool_call_id: toolCallId,
+          content: typeof output === 'string' ? output : JSON.stringify(output),
+        });
+      }
+
+      const userParts = convertUserParts(parts);
+      if (userParts.length > 0) {
+        messages.push({
+          role: 'user',
+          // Plain text is sent as a string for servers without multi-part
+          // content support.
+          content: userParts.every((part) => part.type === 'text')
+            ? extractText(parts)
+            : userParts,
+        });
+      }
+    }
+
+    return messages;
+  }
+
+  private convertTools(geminiTools: ToolListUnion): OpenAITool[] {
+    const tools: OpenAITool[] = [];
+    for (const tool of geminiTools) {
+      if ('functionDeclarations' in tool && tool.functionDeclarations) {
+        for (const func of tool.functionDeclarations) {
+          if (func.name) {
+            tools.push({
+              type: 'function',
+              function: {
+                name: func.name,
+                description: func.description || '',
+                parameters: (func.parameters as Record<string, unknown>) || {},
+              },
+            });
+          }
+        }
+      }
+    }
+    return tools;
+  }
+
+  /**
+   * Servers pass tool arguments through as the model wrote them, which is not
+   * always valid JSON. Such a call is still returned, without arguments, so
+   * the tool reports what is missing, and the parse error is added to the
+   * response so the model can see why.
+   */
+  private convertToolCalls(toolCalls: OpenAIToolCall[]): Part[] {
+    return toolCalls.flatMap((toolCall) => {
+      const functionCall: FunctionCall = {
+        id: toolCall.id || undefined,
+        name: toolCall.function.name,
+        args: {},
+      };
+      if (!toolCall.function.arguments) {
+        return [{ functionCall }];
+      }
+      try {
+        functionCall.args = JSON.parse(toolCall.function.arguments);
+        return [{ functionCall }];
+      } catch (error) {
+        return [
+          { functionCall },
+          {
+            text: `The arguments of the \`${functionCall.name}\` tool call were not valid JSON and were dropped (${getErrorMessage(error)}): ${toolCall.function.arguments}`,
+          },
+        ];
+      }
+    });
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+    };
+  }
+
+  private async post(
+    path: string,
+    body: unknown,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(await readErrorMessage(response));
+    }
+    return response;
+  }
+}
+
+function toContentArray(contents: ContentListUnion): Content[] {
+  const items = Array.isArray(contents) ? contents : [contents];
+  return items.map((item) => {
+    if (typeof item === 'string') {
+      return { role: 'user', parts: [{ text: item }] };
+    }
+    if ('parts' in item) {
+      return item as Content;
+    }
+    return { role: 'user', parts: [item as Part] };
+  });
+}
+
+function extractText(parts: Part[]): string {
+  return parts
+    .filter((part) => !part.thought)
+    .map((part) => part.text ?? '')
+    .join('');
+}
+
+function convertUserParts(parts: Part[]): OpenAIContentPart[] {
+  const converted: OpenAIContentPart[] = [];
+  for (const part of parts) {
+    if (part.text) {
+      converted.push({ type: 'text', text: part.text });
+    } else if (
+      part.inlineData?.data &&
+      part.inlineData.mimeType?.startsWith('image/')
+    ) {
+      converted.push({
+        type: 'image_url',
+        image_url: {
+          url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+        },
+      });
+    }
+  }
+  return converted;
+}
+
+function convertFinishReason(
+  reason: string | null | undefined,
+): FinishReason | undefined {
+  switch (reason) {
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return FinishReason.STOP;
+    case 'length':
+      return FinishReason.MAX_TOKENS;
+    case 'content_filter':
+      return FinishReason.SAFETY;
+    default:
+      return undefined;
+  }
+}
+
+function convertUsage(
+  usage: OpenAIUsage | null | undefined,
+): GenerateContentResponseUsageMetadata | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  return {
+    promptTokenCount: usage.prompt_tokens,
+    candidatesTokenCount: usage.completion_tokens,
+    totalTokenCount:
+      usage.total_tokens ??
+      (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+  };
+}
+
+function createResponse(
+  parts: Part[],
+  finishReason: FinishReason | undefined,
+): GenerateContentResponse {
+  const response = new GenerateContentResponse();
+  response.candidates = [
+    {
+      content: { role: 'model', parts },
+      finishReason,
+      index: 0,
+    },
+  ];
+  return response;
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  let detail = response.statusText;
+  try {
+    const data = await response.json();
+    const message = data?.error?.message ?? data?.error;
+    if (typeof message === 'string') {
+      detail = message;
+    }
+  } catch {
+    // Not a JSON error body; fall back to the status text.
+  }
+  return `OpenAI-compatible API error: ${response.status} ${detail}`;
+}
+
+/**
+ * Picks the model to use when none is configured: the first model the
+ * server lists. llama.cpp server and LM Studio serve whichever model is
+ * loaded, so this is usually the only one.
+ */
+export async function getDefaultOpenAICompatibleModel(
+  config: ContentGeneratorConfig,
+): Promise<string | undefined> {
+  try {
+    const models = await new OpenAICompatibleContentGenerator(
+      config,
+    ).listModels();
+    return models[0];
+  } catch {
+    return undefined;
+  }
+}
+
+export async function createOpenAICompatibleContentGenerator(
+  config: ContentGeneratorConfig,
+): Promise<ContentGenerator> {
+  const generator = new OpenAICompatibleContentGenerator(config);
+
+  // Check the server is reachable and record any context length it reports.
+  try {
+    await generator.listModels();
+  } catch (error) {
+    throw new Error(
+      `OpenAI-compatible server is not available at ${config.openaiBaseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL}: ${getErrorMessage(error)}. ` +
+        'Please ensure the server is running and OPENAI_BASE_URL points at its /v1 endpoint.',
+    );
+  }
+
+  return generator;
+}
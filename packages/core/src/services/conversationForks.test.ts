@@ -0,0 +1,51 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConversationFork, ConversationForks } from './conversationForks.js';
+
+function makeFork(name: string): ConversationFork<string> {
+  return {
+    name,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    uiHistory: ['hello'],
+    clientHistory: [{ role: 'user', parts: [{ text: 'hello' }] }],
+  };
+}
+
+describe('ConversationForks', () => {
+  it('should add and delete forks', () => {
+    const forks = new ConversationForks();
+    forks.add({ ...makeFork('a'), commitHash: 'abc' });
+    forks.add(makeFork('b'));
+
+    expect(forks.list().map((fork) => fork.name)).toEqual(['a', 'b']);
+    expect(forks.get<string>('a')?.commitHash).toBe('abc');
+    expect(forks.delete('b')).toBe(true);
+    expect(forks.delete('b')).toBe(false);
+    expect(forks.get('b')).toBeUndefined();
+  });
+
+  it('should not replace a fork with the same name', () => {
+    const forks = new ConversationForks();
+    forks.add({ ...makeFork('a'), commitHash: 'abc' });
+
+    expect(() => forks.add(makeFork('a'))).toThrow(
+      'A fork named "a" already exists.',
+    );
+    expect(forks.get<string>('a')?.commitHash).toBe('abc');
+  });
+
+  it('should suggest names that are not taken', () => {
+    const forks = new ConversationForks();
+    expect(forks.nextName()).toBe('fork-1');
+
+    forks.add(makeFork('fork-1'));
+    forks.add(makeFork('fork-3'));
+
+    expect(forks.nextName()).toBe('fork-2');
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content } from '@google/genai';
+
+const FORK_NAME_PREFIX = 'fork-';
+
+/**
+ * A branch of the conversation that is not the current one. `T` is the type
+ * of the items the UI renders, which the core package does not know about.
+ */
+export interface ConversationFork<T = unknown> {
+  name: string;
+  createdAt: string;
+  uiHistory: T[];
+  clientHistory: Content[];
+  /** Shadow repository snapshot of the project files, if they were kept. */
+  commitHash?: string;
+}
+
+/**
+ * Keeps the branches abandoned by rewinding the conversation, for the rest of
+ * the session, so they can be switched back to.
+ */
+export class ConversationForks {
+  private readonly forks = new Map<string, ConversationFork>();
+
+  /** The forks, oldest first. */
+  list(): ConversationFork[] {
+    return [...this.forks.values()];
+  }
+
+  get<T>(name: string): ConversationFork<T> | undefined {
+    return this.forks.get(name) as ConversationFork<T> | undefined;
+  }
+
+  /** Adds a fork. Throws if a fork with the same name exists. */
+  add<T>(fork: ConversationFork<T>): void {
+    if (this.forks.has(fork.name)) {
+      throw new Error(`A fork named "${fork.name}" already exists.`);
+    }
+    this.forks.set(fork.name, fork);
+  }
+
+  delete(name: string): boolean {
+    return this.forks.delete(name);
+  }
+
+  /** The first of fork-1, fork-2, ... that is not taken. */
+  nextName(): string {
+    let index = 1;
+    while (this.forks.has(`${FORK_NAME_PREFIX}${index}`)) {
+      index++;
+    }
+    return `${FORK_NAME_PREFIX}${index}`;
+  }
+}
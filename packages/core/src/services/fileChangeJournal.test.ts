@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileChangeJournal,
+  formatFileChangeEntry,
+  readFileContents,
+} from './fileChangeJournal.js';
+
+describe('FileChangeJournal', () => {
+  let rootDir: string;
+  let journal: FileChangeJournal;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-change-journal-'));
+    journal = new FileChangeJournal();
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  const file = (name: string) => path.join(rootDir, name);
+  const write = (name: string, content: string) =>
+    fs.writeFileSync(file(name), content, 'utf8');
+  const read = (name: string) =>
+    fs.existsSync(file(name)) ? fs.readFileSync(file(name), 'utf8') : null;
+
+  /** Records the changes `change` makes to `names` as one tool call. */
+  async function recordCall(
+    callId: string,
+    names: string[],
+    change: () => void,
+  ) {
+    const before = await readFileContents(names.map(file));
+    change();
+    return journal.record(callId, 'replace', before);
+  }
+
+  it('should record only the files that changed', async () => {
+    write('a.ts', 'a');
+    write('b.ts', 'b');
+
+    const entry = await recordCall('1', ['a.ts', 'b.ts', 'c.ts'], () => {
+      write('a.ts', 'A');
+      write('c.ts', 'c');
+    });
+
+    expect(entry).toEqual({
+      callId: '1',
+      toolName: 'replace',
+      changes: [
+        { filePath: file('a.ts'), before: 'a', after: 'A' },
+        { filePath: file('c.ts'), before: null, after: 'c' },
+      ],
+    });
+    expect(await recordCall('2', ['b.ts'], () => {})).toBeUndefined();
+    expect(journal.getUndoEntries()).toEqual([entry]);
+  });
+
+  it('should undo and redo changes, most recent first', async () => {
+    write('a.ts', 'one');
+    await recordCall('1', ['a.ts'], () => write('a.ts', 'two'));
+    await recordCall('2', ['a.ts', 'b.ts'], () => {
+      write('a.ts', 'three');
+      write('b.ts', 'created');
+    });
+
+    const undone = await journal.undo(2);
+    expect(undone.entries.map((entry) => entry.callId)).toEqual(['2', '1']);
+    expect(read('a.ts')).toBe('one');
+    expect(read('b.ts')).toBeNull();
+
+    const redone = await journal.redo();
+    expect(redone.entries.map((entry) => entry.callId)).toEqual(['1']);
+    expect(read('a.ts')).toBe('two');
+    expect(journal.getRedoEntries().map((entry) => entry.callId)).toEqual([
+      '2',
+    ]);
+  });
+
+  it('should restore deleted files', async () => {
+    write('a.ts', 'a');
+    await recordCall('1', ['a.ts'], () => fs.rmSync(file('a.ts')));
+
+    await journal.undo();
+
+    expect(read('a.ts')).toBe('a');
+  });
+
+  it('should stop at files that were changed outside the session', async () => {
+    write('a.ts', 'one');
+    await recordCall('1', ['a.ts'], () => write('a.ts', 'two'));
+    await recordCall('2', ['b.ts'], () => write('b.ts', 'b'));
+    write('a.ts', 'external');
+
+    const result = await journal.undo(2);
+
+    expect(result.entries.map((entry) => entry.callId)).toEqual(['2']);
+    expect(result.conflict).toEqual({
+      entry: expect.objectContaining({ callId: '1' }),
+      filePath: file('a.ts'),
+    });
+    expect(read('a.ts')).toBe('external');
+    expect(journal.getUndoEntries().map((entry) => entry.callId)).toEqual([
+      '1',
+    ]);
+  });
+
+  it('should forget undone changes when new changes are recorded', async () => {
+    write('a.ts', 'one');
+    await recordCall('1', ['a.ts'], () => write('a.ts', 'two'));
+    await journal.undo();
+
+    await recordCall('2', ['a.ts'], () => write('a.ts', 'three'));
+
+    expect(journal.getRedoEntries()).toEqual([]);
+    expect((await journal.redo()).entries).toEqual([]);
+  });
+});
+
+describe('formatFileChangeEntry', () => {
+  it('should list the files relative to the root', () => {
+    expect(
+      formatFileChangeEntry(
+        {
+          callId: '1',
+          toolName: 'apply_patch',
+          changes: [
+            { filePath: '/project/src/a.ts', before: 'a', after: 'b' },
+            { filePath: '/project/src/new.ts', before: null, after: 'new' },
+            { filePath: '/project/old.ts', before: 'old', after: null },
+          ],
+        },
+        '/project',
+      ),
+    ).toBe('apply_patch: src/a.ts, src/new.ts (created), old.ts (deleted)');
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { isNodeError } from '../utils/errors.js';
+
+// Tool calls kept for undo; the oldest are forgotten first.
+const MAX_ENTRIES = 100;
+
+export interface FileChange {
+  filePath: string;
+  /** The content before the change, null if the file did not exist. */
+  before: string | null;
+  /** The content after the change, null if the file was deleted. */
+  after: string | null;
+}
+
+/** The files changed by one tool call. */
+export interface FileChangeEntry {
+  callId: string;
+  toolName: string;
+  changes: FileChange[];
+}
+
+export interface FileChangeConflict {
+  entry: FileChangeEntry;
+  /** The file that no longer has the content the journal expects. */
+  filePath: string;
+}
+
+export interface FileChangeJournalResult {
+  /** The tool calls whose changes were reverted or re-applied. */
+  entries: FileChangeEntry[];
+  /** Set when an entry was not reverted or re-applied. */
+  conflict?: FileChangeConflict;
+}
+
+/**
+ * Reads the files a tool call is about to change.
+ * @returns The content of each file, or null for files that do not exist.
+ */
+export async function readFileContents(
+  filePaths: string[],
+): Promise<Map<string, string | null>> {
+  const contents = new Map<string, string | null>();
+  for (const filePath of filePaths) {
+    contents.set(filePath, await readFileOrNull(filePath));
+  }
+  return contents;
+}
+
+async function readFileOrNull(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if (isNodeError(error) && error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeFileOrDelete(filePath: string, content: string | null) {
+  if (content === null) {
+    await fs.rm(filePath, { force: true });
+  } else {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content, 'utf8');
+  }
+}
+
+/**
+ * Records the file changes made by tool calls during a session so they can be
+ * undone and redone, independently of checkpointing.
+ *
+ * A change is only reverted while the file still has the content the tool
+ * left it with (and re-applied while it has the content from before the
+ * tool ran), so edits made outside the session are never overwritten.
+ */
+export class FileChangeJournal {
+  private readonly undoStack: FileChangeEntry[] = [];
+  private redoStack: FileChangeEntry[] = [];
+
+  /**
+   * Records a tool call's changes, comparing the content of its files before
+   * the call with their content now. Files that did not change are left out.
+   */
+  async record(
+    callId: string,
+    toolName: string,
+    before: Map<string, string | null>,
+  ): Promise<FileChangeEntry | undefined> {
+    const changes: FileChange[] = [];
+    for (const [filePath, content] of before) {
+      const after = await readFileOrNull(filePath);
+      if (after !== content) {
+        changes.push({ filePath, before: content, after });
+      }
+    }
+    if (changes.length === 0) {
+      return undefined;
+    }
+    const entry = { callId, toolName, changes };
+    this.undoStack.push(entry);
+    if (this.undoStack.length > MAX_ENTRIES) {
+      this.undoStack.shift();
+    }
+    // New changes replace whatever could have been redone.
+    this.redoStack = [];
+    return entry;
+  }
+
+  /** Tool calls that can be undone, most recent first. */
+  getUndoEntries(): FileChangeEntry[] {
+    return [...this.undoStack].reverse();
+  }
+
+  /** Tool calls that can be redone, most recently undone first. */
+  getRedoEntries(): FileChangeEntry[] {
+    return [...this.redoStack].reverse();
+  }
+
+  /**
+   * Reverts the changes of the last `count` tool calls, most recent first.
+   * Stops at the first call whose files were changed since.
+   */
+  undo(count = 1): Promise<FileChangeJournalResult> {
+    return this.move(this.undoStack, this.redoStack, count, 'undo');
+  }
+
+  /**
+   * Re-applies the changes of the last `count` undone tool calls. Stops at
+   * the first call whose files were changed since they were undone.
+   */
+  redo(count = 1): Promise<FileChangeJournalResult> {
+    return this.move(this.redoStack, this.undoStack, count, 'redo');
+  }
+
+  private async move(
+    from: FileChangeEntry[],
+    to: FileChangeEntry[],
+    count: number,
+    direction: 'undo' | 'redo',
+  ): Promise<FileChangeJournalResult> {
+    const entries: FileChangeEntry[] = [];
+    while (entries.length < count && from.length > 0) {
+      const entry = from[from.length - 1];
+      const changes =
+        direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
+      for (const change of changes) {
+        const expected = direction === 'undo' ? change.after : change.before;
+        if ((await readFileOrNull(change.filePath)) !== expected) {
+          return { entries, conflict: { entry, filePath: change.filePath } };
+        }
+      }
+      for (const change of changes) {
+        await writeFileOrDelete(
+          change.filePath,
+          direction === 'undo' ? change.before : change.after,
+        );
+      }
+      from.pop();
+      to.push(entry);
+      entries.push(entry);
+    }
+    return { entries };
+  }
+}
+
+/**
+ * One-line summary of an entry relative to `rootDirectory`, e.g.
+ * `multi_replace: src/a.ts, src/b.ts (created)`.
+ */
+export function formatFileChangeEntry(
+  entry: FileChangeEntry,
+  rootDirectory: string,
+): string {
+  const files = entry.changes.map((change) => {
+    const relativePath = path.relative(rootDirectory, change.filePath);
+    if (change.before === null) {
+      return `${relativePath} (created)`;
+    }
+    if (change.after === null) {
+      return `${relativePath} (deleted)`;
+    }
+    return relativePath;
+  });
+  return `${entry.toolName}: ${files.join(', ')}`;
+}
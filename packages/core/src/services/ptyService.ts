@@ -0,0 +1,208 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventEmitter } from 'events';
+import os from 'os';
+import { ChildProcess, execSync, spawn } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+import { quote } from 'shell-quote';
+import { TerminalScreen } from '../utils/terminalScreen.js';
+
+// Screen updates are batched so programs that redraw often do not flood the UI.
+const OUTPUT_EVENT_INTERVAL_MS = 50;
+// How long a session gets to exit after SIGTERM before it is sent SIGKILL.
+const KILL_GRACE_PERIOD_MS = 200;
+const DEFAULT_ROWS = 24;
+
+export interface PtySize {
+  cols: number;
+  rows: number;
+}
+
+export interface PtyExitStatus {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  error: Error | null;
+}
+
+let ptyAvailable: boolean | undefined;
+
+/**
+ * Whether commands can be run in a pseudo-terminal. Terminals are allocated
+ * with the `script` utility, so this is false on Windows and on systems
+ * without it.
+ */
+export function isPtyAvailable(): boolean {
+  if (ptyAvailable === undefined) {
+    try {
+      ptyAvailable =
+        os.platform() !== 'win32' &&
+        (execSync('command -v script', { stdio: 'ignore' }), true);
+    } catch (_e) {
+      ptyAvailable = false;
+    }
+  }
+  return ptyAvailable;
+}
+
+/** Terminal size that fits the tool output box of the current terminal. */
+export function getDefaultPtySize(): PtySize {
+  return {
+    cols: Math.max(20, (process.stdout.columns || 80) - 8),
+    rows: DEFAULT_ROWS,
+  };
+}
+
+/**
+ * A command running in a pseudo-terminal. Its output is applied to
+ * {@link screen}; `output` is emitted (at most every few milliseconds) when
+ * the screen changes and `exit` once the command has exited.
+ */
+export class PtySession extends EventEmitter {
+  readonly screen: TerminalScreen;
+  readonly exited: Promise<PtyExitStatus>;
+  private readonly child: ChildProcess;
+  private readonly rawOutput: Buffer[] = [];
+  private running = true;
+  private outputTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    readonly command: string,
+    cwd: string,
+    size: PtySize = getDefaultPtySize(),
+  ) {
+    super();
+    this.screen = new TerminalScreen(size.cols, size.rows);
+
+    // The pty's size cannot be set from outside, so the command sets it.
+    // `exec` makes bash the process group leader under any login shell.
+    const wrapped = `stty cols ${size.cols} rows ${size.rows} 2>/dev/null; ${command}`;
+    const args =
+      os.platform() === 'darwin'
+        ? ['-q', '/dev/null', 'bash', '-c', wrapped]
+        : ['-qefc', quote(['exec', 'bash', '-c', wrapped]), '/dev/null'];
+    this.child = spawn('script', args, {
+      cwd,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: true, // own process group, so the whole session can be killed
+      env: {
+        ...process.env,
+        TERM: 'xterm-256color',
+        COLUMNS: String(size.cols),
+        LINES: String(size.rows),
+      },
+    });
+
+    const decoder = new StringDecoder('utf8');
+    const onData = (data: Buffer) => {
+      this.rawOutput.push(data);
+      this.screen.write(decoder.write(data));
+      this.scheduleOutputEvent();
+    };
+    this.child.stdout?.on('data', onData);
+    this.child.stderr?.on('data', onData);
+    // Input written after the command exited must not crash the CLI.
+    this.child.stdin?.on('error', () => {});
+
+    this.exited = new Promise((resolve) => {
+      let error: Error | null = null;
+      this.child.on('error', (err) => {
+        error = err;
+      });
+      this.child.on('close', (code, signal) => {
+        this.running = false;
+        this.screen.write(decoder.end());
+        clearTimeout(this.outputTimer);
+        this.child.stdin?.destroy();
+        const status = { exitCode: code, signal, error };
+        this.emit('output', this.screen);
+        this.emit('exit', status);
+        resolve(status);
+      });
+    });
+  }
+
+  get pid(): number | undefined {
+    return this.child.pid;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Every byte the command wrote, including escape sequences. */
+  getRawOutput(): Buffer {
+    return Buffer.concat(this.rawOutput);
+  }
+
+  /** Sends keyboard input to the command, e.g. `'y\r'` or `'\x03'`. */
+  write(input: string) {
+    if (this.running) {
+      this.child.stdin?.write(input);
+    }
+  }
+
+  /**
+   * Sends SIGTERM to the session's process group, followed by SIGKILL if it
+   * is still running after a short grace period.
+   */
+  async kill(): Promise<void> {
+    const pid = this.child.pid;
+    if (!pid || !this.running) {
+      return;
+    }
+    try {
+      process.kill(-pid, 'SIGTERM');
+      await Promise.race([
+        this.exited,
+        new Promise((resolve) => setTimeout(resolve, KILL_GRACE_PERIOD_MS)),
+      ]);
+      if (this.running) {
+        process.kill(-pid, 'SIGKILL');
+      }
+    } catch (_e) {
+      // Fall back to killing just the main process if group kill fails.
+      if (this.running) {
+        this.child.kill('SIGKILL');
+      }
+    }
+  }
+
+  private scheduleOutputEvent() {
+    if (this.outputTimer) {
+      return;
+    }
+    this.outputTimer = setTimeout(() => {
+      this.outputTimer = undefined;
+      this.emit('output', this.screen);
+    }, OUTPUT_EVENT_INTERVAL_MS);
+  }
+}
+
+/**
+ * Starts commands in pseudo-terminals and keeps track of the ones still
+ * running, so the UI can find the session the user wants to type into.
+ * Emits `update` whenever a session starts or exits.
+ */
+export class PtyService extends EventEmitter {
+  private readonly sessions: PtySession[] = [];
+
+  start(command: string, cwd: string, size?: PtySize): PtySession {
+    const session = new PtySession(command, cwd, size);
+    this.sessions.push(session);
+    session.once('exit', () => {
+      this.sessions.splice(this.sessions.indexOf(session), 1);
+      this.emit('update', this.getActiveSession());
+    });
+    this.emit('update', this.getActiveSession());
+    return session;
+  }
+
+  /** The most recently started session that is still running. */
+  getActiveSession(): PtySession | undefined {
+    return this.sessions[this.sessions.length - 1];
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  LATEST_SESSION,
+  SavedSession,
+  SessionMetadata,
+  SessionStore,
+} from './sessionStore.js';
+
+function makeSession(
+  id: string,
+  overrides: Partial<SessionMetadata> = {},
+): SavedSession<{ type: string; text: string }> {
+  return {
+    metadata: {
+      id,
+      title: `Session ${id}`,
+      model: 'gemini-pro',
+      cwd: '/project',
+      startTime: '2025-01-01T00:00:00.000Z',
+      lastUpdated: '2025-01-01T00:00:00.000Z',
+      messageCount: 1,
+      tokens: { prompt: 10, candidates: 5, total: 15 },
+      ...overrides,
+    },
+    uiHistory: [{ type: 'user', text: 'hello' }],
+    clientHistory: [{ role: 'user', parts: [{ text: 'hello' }] }],
+  };
+}
+
+describe('SessionStore', () => {
+  let tempDir: string;
+  let store: SessionStore;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-test-'));
+    store = new SessionStore(tempDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save and load sessions', async () => {
+    const session = makeSession('abc');
+    await store.save(session);
+
+    expect(await store.load('abc')).toEqual(session);
+    expect(await store.load('missing')).toBeUndefined();
+  });
+
+  it('should list sessions most recently updated first', async () => {
+    expect(await store.list()).toEqual([]);
+    await store.save(
+      makeSession('old', { lastUpdated: '2025-01-01T00:00:00.000Z' }),
+    );
+    await store.save(
+      makeSession('new', { lastUpdated: '2025-02-01T00:00:00.000Z' }),
+    );
+    fs.mkdirSync(path.join(tempDir, 'sessions', 'broken'));
+    fs.writeFileSync(
+      path.join(tempDir, 'sessions', 'broken', 'metadata.json'),
+      '{',
+    );
+
+    expect((await store.list()).map((session) => session.id)).toEqual([
+      'new',
+      'old',
+    ]);
+  });
+
+  it('should resolve ids, unique prefixes and the latest session', async () => {
+    await store.save(
+      makeSession('abc-1', { lastUpdated: '2025-01-01T00:00:00.000Z' }),
+    );
+    await store.save(
+      makeSession('abc-2', { lastUpdated: '2025-02-01T00:00:00.000Z' }),
+    );
+    await store.save(
+      makeSession('def', { lastUpdated: '2025-01-15T00:00:00.000Z' }),
+    );
+
+    expect(await store.resolveId('abc-1')).toBe('abc-1');
+    expect(await store.resolveId('d')).toBe('def');
+    expect(await store.resolveId('abc')).toBeUndefined();
+    expect(await store.resolveId(LATEST_SESSION)).toBe('abc-2');
+  });
+
+  it('should keep titles the user gave when saving again', async () => {
+    await store.save(makeSession('abc'));
+    expect(await store.rename('abc', 'Refactor parser')).toBe(true);
+    await store.save(makeSession('abc', { messageCount: 2 }));
+
+    const { metadata } = (await store.load('abc'))!;
+    expect(metadata.title).toBe('Refactor parser');
+    expect(metadata.messageCount).toBe(2);
+    expect(await store.rename('missing', 'x')).toBe(false);
+  });
+
+  it('should delete sessions', async () => {
+    await store.save(makeSession('abc'));
+    await store.delete('abc');
+
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Content } from '@google/genai';
+import { isNodeError } from '../utils/errors.js';
+
+const METADATA_FILE_NAME = 'metadata.json';
+const HISTORY_FILE_NAME = 'history.json';
+
+/** Resumes the most recently updated session instead of a specific one. */
+export const LATEST_SESSION = 'latest';
+
+export interface SessionTokenTotals {
+  prompt: number;
+  candidates: number;
+  total: number;
+}
+
+export interface SessionMetadata {
+  id: string;
+  title: string;
+  /** True once the user renamed the session; the title is then kept. */
+  renamed?: boolean;
+  model: string;
+  authType?: string;
+  cwd: string;
+  /** ISO timestamps. */
+  startTime: string;
+  lastUpdated: string;
+  /** The number of prompts the user sent. */
+  messageCount: number;
+  tokens: SessionTokenTotals;
+}
+
+export interface SavedSession<THistoryItem = unknown> {
+  metadata: SessionMetadata;
+  /** The transcript as the UI shows it, including tool calls and results. */
+  uiHistory: THistoryItem[];
+  /** The conversation sent to the model, without the environment preamble. */
+  clientHistory: Content[];
+}
+
+/**
+ * Stores the sessions of a project, one directory per session holding its
+ * metadata and its history, so sessions can be listed without reading every
+ * transcript.
+ */
+export class SessionStore {
+  private readonly sessionsDir: string;
+  // Saves of the same session are written one at a time, in order.
+  private readonly pendingWrites = new Map<string, Promise<void>>();
+
+  constructor(projectTempDir: string) {
+    this.sessionsDir = path.join(projectTempDir, 'sessions');
+  }
+
+  /**
+   * Saves a session, replacing an earlier save. A title the user gave the
+   * session is kept.
+   */
+  save<THistoryItem>(session: SavedSession<THistoryItem>): Promise<void> {
+    const { id } = session.metadata;
+    const previous = this.pendingWrites.get(id) ?? Promise.resolve();
+    const write = previous
+      .catch(() => {})
+      .then(async () => {
+        const existing = await this.readMetadata(id);
+        const metadata = existing?.renamed
+          ? { ...session.metadata, title: existing.title, renamed: true }
+          : session.metadata;
+        const dir = this.sessionDir(id);
+        await fs.mkdir(dir, { recursive: true });
+        await writeJsonFile(path.join(dir, HISTORY_FILE_NAME), {
+          uiHistory: session.uiHistory,
+          clientHistory: session.clientHistory,
+        });
+        await writeJsonFile(path.join(dir, METADATA_FILE_NAME), metadata);
+      });
+    this.pendingWrites.set(id, write);
+    return write.finally(() => {
+      if (this.pendingWrites.get(id) === write) {
+        this.pendingWrites.delete(id);
+      }
+    });
+  }
+
+  /** The saved sessions, most recently updated first. */
+  async list(): Promise<SessionMetadata[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(this.sessionsDir);
+    } catch (error) {
+      if (isNodeError(error) && error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    const sessions: SessionMetadata[] = [];
+    for (const id of ids) {
+      const metadata = await this.readMetadata(id);
+      if (metadata) {
+        sessions.push(metadata);
+      }
+    }
+    return sessions.sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+  }
+
+  /**
+   * Finds a session by its id, a unique prefix of it, or `LATEST_SESSION`.
+   * @returns The session's id, or undefined if no single session matches.
+   */
+  async resolveId(idOrPrefix: string): Promise<string | undefined> {
+    const sessions = await this.list();
+    if (idOrPrefix === LATEST_SESSION) {
+      return sessions[0]?.id;
+    }
+    const exact = sessions.find((session) => session.id === idOrPrefix);
+    if (exact) {
+      return exact.id;
+    }
+    const matches = sessions.filter((session) =>
+      session.id.startsWith(idOrPrefix),
+    );
+    return matches.length === 1 ? matches[0].id : undefined;
+  }
+
+  async load<THistoryItem = unknown>(
+    id: string,
+  ): Promise<SavedSession<THistoryItem> | undefined> {
+    const metadata = await this.readMetadata(id);
+    if (!metadata) {
+      return undefined;
+    }
+    const history = await readJsonFile<{
+      uiHistory?: THistoryItem[];
+      clientHistory?: Content[];
+    }>(path.join(this.sessionDir(id), HISTORY_FILE_NAME));
+    return {
+      metadata,
+      uiHistory: Array.isArray(history?.uiHistory) ? history.uiHistory : [],
+      clientHistory: Array.isArray(history?.clientHistory)
+        ? history.clientHistory
+        : [],
+    };
+  }
+
+  /** @returns False if there is no such session. */
+  async rename(id: string, title: string): Promise<boolean> {
+    await this.pendingWrites.get(id)?.catch(() => {});
+    const metadata = await this.readMetadata(id);
+    if (!metadata) {
+      return false;
+    }
+    await writeJsonFile(path.join(this.sessionDir(id), METADATA_FILE_NAME), {
+      ...metadata,
+      title,
+      renamed: true,
+    });
+    return true;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.pendingWrites.get(id)?.catch(() => {});
+    await fs.rm(this.sessionDir(id), { recursive: true, force: true });
+  }
+
+  private sessionDir(id: string): string {
+    // Ids come from the command line, so keep them inside the sessions dir.
+    return path.join(this.sessionsDir, path.basename(id));
+  }
+
+  private async readMetadata(id: string): Promise<SessionMetadata | undefined> {
+    const metadata = await readJsonFile<SessionMetadata>(
+      path.join(this.sessionDir(id), METADATA_FILE_NAME),
+    );
+    return metadata &&
+      typeof metadata.id === 'string' &&
+      typeof metadata.title === 'string' &&
+      typeof metadata.lastUpdated === 'string'
+      ? metadata
+      : undefined;
+  }
+}
+
+async function readJsonFile<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      console.debug(`Ignoring invalid session file ${filePath}:`, error);
+      return undefined;
+    }
+    if (
+      isNodeError(error) &&
+      (error.code === 'ENOENT' || error.code === 'ENOTDIR')
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// Writes through a temporary file so a crash never leaves half a session.
+async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ShellJobService, formatShellJob } from './shellJobService.js';
+
+describe.skipIf(os.platform() === 'win32')('ShellJobService', () => {
+  let service: ShellJobService;
+
+  afterEach(async () => {
+    await service.killAll();
+  });
+
+  it('should capture the output and exit code of a job', async () => {
+    service = new ShellJobService(os.tmpdir());
+    const job = service.start('echo one; echo two >&2; exit 3', 'greeter');
+
+    await vi.waitFor(() => expect(service.get(job.id)?.status).toBe('exited'));
+
+    expect(service.get('greeter')?.exitCode).toBe(3);
+    expect(service.readOutput('greeter')?.lines).toEqual(['one', 'two']);
+    expect(formatShellJob(service.get(job.id)!)).toBe(
+      '[1] greeter (exited with code 3): echo one; echo two >&2; exit 3',
+    );
+  });
+
+  it('should read output incrementally and keep only recent lines', async () => {
+    service = new ShellJobService(os.tmpdir());
+    const job = service.start('seq 1 2500');
+    await vi.waitFor(() => expect(service.get(job.id)?.status).toBe('exited'));
+
+    const tail = service.readOutput(job.id, undefined, 2)!;
+    expect(tail).toMatchObject({
+      lines: ['2499', '2500'],
+      fromLine: 2498,
+      nextLine: 2500,
+    });
+    const start = service.readOutput(job.id, 0, 1)!;
+    expect(start.droppedLines).toBe(500);
+    expect(service.readOutput(job.id, tail.nextLine)!.lines).toEqual([]);
+  });
+
+  it('should kill a job and every process it started', async () => {
+    service = new ShellJobService(os.tmpdir());
+    const updates = vi.fn();
+    service.on('update', updates);
+    const marker = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'shell-job-')),
+      'marker',
+    );
+    // The background child would leave a marker behind if it survived.
+    const job = service.start(
+      `(sleep 0.5; touch ${marker}) & echo started; sleep 30`,
+      'sleeper',
+    );
+    await vi.waitFor(() => expect(service.get(job.id)?.lineCount).toBe(1));
+
+    expect(() => service.start('true', 'sleeper')).toThrow(
+      'A job named "sleeper" is already running.',
+    );
+    expect(await service.kill('sleeper')).toBe(true);
+
+    const killed = service.get(job.id)!;
+    expect(killed.status).toBe('killed');
+    expect(killed.signal).toBe('SIGTERM');
+    await new Promise((resolve) => setTimeout(resolve, 800));
+    expect(fs.existsSync(marker)).toBe(false);
+    expect(updates).toHaveBeenCalledTimes(2);
+    expect(await service.kill('sleeper')).toBe(false);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { EventEmitter } from 'events';
+import os from 'os';
+import path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+import stripAnsi from 'strip-ansi';
+
+// Lines of output kept per job; older lines are dropped.
+const MAX_OUTPUT_LINES = 2000;
+// How long a job gets to exit after SIGTERM before it is sent SIGKILL.
+const KILL_GRACE_PERIOD_MS = 2000;
+
+export type ShellJobStatus = 'running' | 'exited' | 'killed';
+
+export interface ShellJobInfo {
+  id: string;
+  name: string;
+  command: string;
+  /** Directory the job runs in, relative to the project root. */
+  directory?: string;
+  pid?: number;
+  status: ShellJobStatus;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  startTime: number;
+  endTime?: number;
+  /** Total number of output lines the job has produced so far. */
+  lineCount: number;
+}
+
+export interface ShellJobOutput {
+  lines: string[];
+  /** Line number of the first returned line. */
+  fromLine: number;
+  /** Pass as `sinceLine` to read only output produced after this call. */
+  nextLine: number;
+  /** Number of requested lines that were already dropped from the buffer. */
+  droppedLines: number;
+}
+
+/**
+ * Keeps the last {@link MAX_OUTPUT_LINES} lines of a job's output. Lines are
+ * numbered from the start of the job so readers can resume where they left
+ * off even after older lines have been dropped.
+ */
+class OutputRingBuffer {
+  private readonly lines: string[] = [];
+  private firstLine = 0;
+  private partial = '';
+
+  append(chunk: string) {
+    const parts = (this.partial + chunk).split(/\r?\n/);
+    this.partial = parts.pop()!;
+    for (const line of parts) {
+      this.lines.push(line);
+    }
+    const excess = this.lines.length - MAX_OUTPUT_LINES;
+    if (excess > 0) {
+      this.lines.splice(0, excess);
+      this.firstLine += excess;
+    }
+  }
+
+  /** Number of lines produced so far, counting an unterminated last line. */
+  get lineCount(): number {
+    return this.firstLine + this.lines.length + (this.partial ? 1 : 0);
+  }
+
+  read(sinceLine = 0, maxLines?: number): ShellJobOutput {
+    const all = this.partial ? [...this.lines, this.partial] : this.lines;
+    const start = Math.max(sinceLine, this.firstLine);
+    let selected = all.slice(start - this.firstLine);
+    let fromLine = start;
+    if (maxLines !== undefined && selected.length > maxLines) {
+      fromLine += selected.length - maxLines;
+      selected = selected.slice(-maxLines);
+    }
+    return {
+      lines: selected,
+      fromLine,
+      nextLine: this.lineCount,
+      droppedLines: Math.max(0, this.firstLine - sinceLine),
+    };
+  }
+}
+
+interface ShellJob {
+  info: ShellJobInfo;
+  process: ChildProcess;
+  output: OutputRingBuffer;
+  exited: Promise<void>;
+}
+
+/**
+ * Runs shell commands as background jobs that outlive the tool call that
+ * started them. Output is captured so it can be read later, and every job
+ * still running is killed when the CLI exits. Emits `update` whenever a job
+ * starts or ends.
+ */
+export class ShellJobService extends EventEmitter {
+  private readonly jobs = new Map<string, ShellJob>();
+  private nextId = 1;
+  private exitHandlerInstalled = false;
+
+  constructor(private readonly targetDir: string) {
+    super();
+  }
+
+  /**
+   * Starts `command` in the background.
+   * @throws if a running job already uses `name`.
+   */
+  start(command: string, name?: string, directory?: string): ShellJobInfo {
+    const id = String(this.nextId);
+    const jobName = name?.trim() || `job-${id}`;
+    if (this.findRunning(jobName)) {
+      throw new Error(`A job named "${jobName}" is already running.`);
+    }
+    this.nextId++;
+
+    const cwd = path.resolve(this.targetDir, directory || '');
+    const child =
+      os.platform() === 'win32'
+        ? spawn('cmd.exe', ['/c', command], {
+            stdio: ['ignore', 'pipe', 'pipe'],
+            cwd,
+          })
+        : spawn('bash', ['-c', command], {
+            stdio: ['ignore', 'pipe', 'pipe'],
+            detached: true, // own process group, so the whole job can be killed
+            cwd,
+          });
+
+    const output = new OutputRingBuffer();
+    const info: ShellJobInfo = {
+      id,
+      name: jobName,
+      command,
+      directory,
+      pid: child.pid,
+      status: 'running',
+      exitCode: null,
+      signal: null,
+      startTime: Date.now(),
+      lineCount: 0,
+    };
+    const onData = (data: Buffer) => {
+      output.append(stripAnsi(data.toString()));
+      info.lineCount = output.lineCount;
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+
+    const exited = new Promise<void>((resolve) => {
+      child.on('error', (error) => {
+        output.append(`${error.message}\n`);
+        info.lineCount = output.lineCount;
+        this.markEnded(info, null, null);
+        resolve();
+      });
+      child.on('exit', (code, signal) => {
+        this.markEnded(info, code, signal);
+        resolve();
+      });
+    });
+
+    this.jobs.set(id, { info, process: child, output, exited });
+    this.installExitHandler();
+    this.emit('update', this.list());
+    return { ...info };
+  }
+
+  list(): ShellJobInfo[] {
+    return [...this.jobs.values()].map((job) => ({ ...job.info }));
+  }
+
+  /** Looks a job up by id or name, preferring a running job for names. */
+  get(idOrName: string): ShellJobInfo | undefined {
+    const job = this.find(idOrName);
+    return job && { ...job.info };
+  }
+
+  readOutput(
+    idOrName: string,
+    sinceLine?: number,
+    maxLines?: number,
+  ): ShellJobOutput | undefined {
+    return this.find(idOrName)?.output.read(sinceLine, maxLines);
+  }
+
+  /**
+   * Sends `signal` to the job's process group. A job that is still running
+   * after a grace period is sent SIGKILL.
+   * @returns false if there is no such running job.
+   */
+  async kill(
+    idOrName: string,
+    signal: NodeJS.Signals = 'SIGTERM',
+  ): Promise<boolean> {
+    const job = this.find(idOrName);
+    if (!job || job.info.status !== 'running') {
+      return false;
+    }
+    job.info.status = 'killed';
+    this.signal(job, signal);
+    if (signal !== 'SIGKILL') {
+      const timedOut = await Promise.race([
+        job.exited.then(() => false),
+        new Promise<boolean>((resolve) =>
+          setTimeout(() => resolve(true), KILL_GRACE_PERIOD_MS).unref(),
+        ),
+      ]);
+      if (timedOut) {
+        this.signal(job, 'SIGKILL');
+      }
+    }
+    await job.exited;
+    return true;
+  }
+
+  /** Kills every running job and waits for them to exit. */
+  async killAll(): Promise<void> {
+    await Promise.all(
+      [...this.jobs.values()]
+        .filter((job) => job.info.status === 'running')
+        .map((job) => this.kill(job.info.id)),
+    );
+  }
+
+  private find(idOrName: string): ShellJob | undefined {
+    return (
+      this.jobs.get(idOrName) ??
+      this.findRunning(idOrName) ??
+      [...this.jobs.values()]
+        .reverse()
+        .find((job) => job.info.name === idOrName)
+    );
+  }
+
+  private findRunning(name: string): ShellJob | undefined {
+    return [...this.jobs.values()].find(
+      (job) => job.info.name === name && job.info.status === 'running',
+    );
+  }
+
+  private markEnded(
+    info: ShellJobInfo,
+    code: number | null,
+    signal: NodeJS.Signals | null,
+  ) {
+    if (info.endTime !== undefined) {
+      return;
+    }
+    if (info.status === 'running') {
+      info.status = 'exited';
+    }
+    info.exitCode = code;
+    info.signal = signal;
+    info.endTime = Date.now();
+    this.emit('update', this.list());
+  }
+
+  private signal(job: ShellJob, signal: NodeJS.Signals) {
+    const pid = job.process.pid;
+    if (!pid) {
+      return;
+    }
+    try {
+      if (os.platform() === 'win32') {
+        spawn('taskkill', ['/pid', pid.toString(), '/f', '/t']);
+      } else {
+        process.kill(-pid, signal);
+      }
+    } catch (_e) {
+      // The group is already gone; fall back to the main process.
+      try {
+        job.process.kill(signal);
+      } catch (_e) {
+        // Nothing left to kill.
+      }
+    }
+  }
+
+  /**
+   * Jobs run in their own process group, so they would survive the CLI.
+   * Make sure they do not, even when the CLI exits without `/quit`.
+   */
+  private installExitHandler() {
+    if (this.exitHandlerInstalled) {
+      return;
+    }
+    this.exitHandlerInstalled = true;
+    process.once('exit', () => {
+      for (const job of this.jobs.values()) {
+        if (job.info.status === 'running') {
+          this.signal(job, 'SIGKILL');
+        }
+      }
+    });
+  }
+}
+
+/** One-line summary of a job, e.g. `[1] dev-server (running, pid 42): npm run dev`. */
+export function formatShellJob(job: ShellJobInfo): string {
+  let state: string;
+  if (job.status === 'running') {
+    state = job.pid ? `running, pid ${job.pid}` : 'running';
+  } else if (job.signal) {
+    state = `${job.status === 'killed' ? 'killed' : 'terminated'} by ${job.signal}`;
+  } else if (job.exitCode !== null) {
+    state = `${job.status === 'killed' ? 'killed, ' : ''}exited with code ${job.exitCode}`;
+  } else {
+    state = job.status === 'killed' ? 'killed' : 'failed to start';
+  }
+  return `[${job.id}] ${job.name} (${state}): ${job.command}`;
+}
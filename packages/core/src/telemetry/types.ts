@@ -24,6 +24,7 @@ export function getDecisionFromOutcome(
     case ToolConfirmationOutcome.ProceedAlways:
     case ToolConfirmationOutcome.ProceedAlwaysServer:
     case ToolConfirmationOutcome.ProceedAlwaysTool:
+    case ToolConfirmationOutcome.ProceedAlwaysSubcommand:
       return ToolCallDecision.ACCEPT;
     case ToolConfirmationOutcome.ModifyWithEditor:
       return ToolCallDecision.MODIFY;
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { ApplyPatchTool } from './apply-patch.js';
+import { FileDiff } from './tools.js';
+import { ApprovalMode, Config } from '../config/config.js';
+
+describe('ApplyPatchTool', () => {
+  let tool: ApplyPatchTool;
+  let tempDir: string;
+  let rootDir: string;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apply-patch-tool-test-'));
+    rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(rootDir);
+    const mockConfig = {
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+    } as unknown as Config;
+    tool = new ApplyPatchTool(mockConfig);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(rootDir, name)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, name), content, 'utf8');
+  };
+  const read = (name: string) =>
+    fs.readFileSync(path.join(rootDir, name), 'utf8');
+  const exists = (name: string) => fs.existsSync(path.join(rootDir, name));
+
+  it('should reject patches that are not diffs or leave the root', () => {
+    expect(tool.validateToolParams({ patch: 'just some text' })).toMatch(
+      /does not change any file/,
+    );
+    expect(
+      tool.validateToolParams({
+        patch: '--- ../x\n+++ ../x\n@@ -1 +1 @@\n-a\n+b\n',
+      }),
+    ).toMatch(/within the root directory/);
+  });
+
+  it('should modify, create, delete and rename files', async () => {
+    write('src/a.ts', 'one\ntwo\nthree\n');
+    write('src/old.ts', 'gone\n');
+    write('src/from.ts', 'moved\n');
+
+    const result = await tool.execute(
+      {
+        patch: `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1 @@
++created
+diff --git a/src/old.ts b/src/old.ts
+deleted file mode 100644
+--- a/src/old.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-gone
+diff --git a/src/from.ts b/src/to.ts
+similarity index 100%
+rename from src/from.ts
+rename to src/to.ts
+`,
+      },
+      signal,
+    );
+
+    expect(read('src/a.ts')).toBe('one\nTWO\nthree\n');
+    expect(read('src/new.ts')).toBe('created\n');
+    expect(exists('src/old.ts')).toBe(false);
+    expect(exists('src/from.ts')).toBe(false);
+    expect(read('src/to.ts')).toBe('moved\n');
+    expect(result.llmContent).toMatch(/^Successfully applied patch: modified/);
+    const { fileDiff } = result.returnDisplay as FileDiff;
+    expect(fileDiff).toContain('Index: src/from.ts → src/to.ts');
+  });
+
+  it('should apply the hunks that match and report the rejected ones', async () => {
+    write('a.ts', 'a\nb\nc\n');
+
+    const result = await tool.execute(
+      {
+        patch: `--- a.ts
++++ a.ts
+@@ -1,1 +1,1 @@
+-not in the file
++x
+@@ -3,1 +3,1 @@
+-c
++C
+--- missing.ts
++++ missing.ts
+@@ -1 +1 @@
+-a
++b
+`,
+      },
+      signal,
+    );
+
+    expect(read('a.ts')).toBe('a\nb\nC\n');
+    expect(result.llmContent).toContain('modified');
+    expect(result.llmContent).toContain(
+      'a.ts: rejected hunk, the lines it changes were not found in the file:\n@@ -1,1 +1,1 @@\n-not in the file\n+x',
+    );
+    expect(result.llmContent).toContain(
+      'missing.ts: not changed, the file does not exist.',
+    );
+  });
+
+  it('should fail without changes when no hunk applies', async () => {
+    write('a.ts', 'a\n');
+    const result = await tool.execute(
+      { patch: '--- a.ts\n+++ a.ts\n@@ -1 +1 @@\n-b\n+c\n' },
+      signal,
+    );
+    expect(result.returnDisplay).toBe(
+      'Error: Failed to apply patch, no hunk could be applied.',
+    );
+    expect(read('a.ts')).toBe('a\n');
+  });
+
+  it('should confirm with the changes to every file and count rejected hunks', async () => {
+    write('a.ts', 'a\n');
+    write('b.ts', 'b\n');
+
+    const details = await tool.shouldConfirmExecute(
+      {
+        patch: `--- a/a.ts
++++ b/a.ts
+@@ -1 +1 @@
+-a
++A
+@@ -5 +5 @@
+-nope
++NOPE
+--- a/b.ts
++++ b/b.ts
+@@ -1 +1 @@
+-b
++B
+`,
+      },
+      signal,
+    );
+
+    expect(details).toMatchObject({
+      type: 'edit',
+      title: 'Confirm Patch: a.ts, b.ts (1 hunk rejected)',
+      fileName: 'a.ts',
+    });
+    const { fileDiff } = details as FileDiff;
+    expect(fileDiff).toContain('+A');
+    expect(fileDiff).toContain('+B');
+    expect(fileDiff).not.toContain('NOPE');
+  });
+
+  it('should let the user edit the patch and show the resulting diff', async () => {
+    write('a.ts', 'a\n');
+    const context = tool.getModifyContext(signal);
+    const params = { patch: '--- a.ts\n+++ a.ts\n@@ -1 +1 @@\n-a\n+b\n' };
+
+    expect(context.getFilePath(params)).toMatch(/\.patch$/);
+    expect(await context.getProposedContent(params)).toBe(params.patch);
+    const updated = context.createUpdatedParams(
+      params.patch,
+      params.patch.replace('+b', '+edited'),
+      params,
+    );
+    expect(updated).toEqual({
+      patch: '--- a.ts\n+++ a.ts\n@@ -1 +1 @@\n-a\n+edited\n',
+      modified_by_user: true,
+    });
+    expect(context.getUpdatedDiff!(updated)).toContain('+edited');
+  });
+});
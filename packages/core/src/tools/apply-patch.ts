@@ -0,0 +1,525 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Diff from 'diff';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+  ToolResult,
+} from './tools.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import {
+  applyHunks,
+  FilePatch,
+  getCreatedContent,
+  HunkRejection,
+  parsePatch,
+} from '../utils/patch.js';
+import { Config, ApprovalMode } from '../config/config.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+import { ReadFileTool } from './read-file.js';
+import { ModifiableTool, ModifyContext } from './modifiable-tool.js';
+
+/**
+ * Parameters for the ApplyPatch tool
+ */
+export interface ApplyPatchToolParams {
+  /**
+   * A unified diff, optionally in git format, of one or more files
+   */
+  patch: string;
+
+  /**
+   * Whether the patch was modified manually by the user.
+   */
+  modified_by_user?: boolean;
+}
+
+interface PatchedFile {
+  /** Absolute path before the change, null when the patch creates it. */
+  oldPath: string | null;
+  /** Absolute path after the change, null when the patch deletes it. */
+  newPath: string | null;
+  /** The file as read from disk, null if it is created. */
+  originalContent: string | null;
+  /** The content before the patch, null if the file is created. */
+  currentContent: string | null;
+  /** The content after the patch, null if the file is deleted. */
+  newContent: string | null;
+  appliedHunks: number;
+  rejectedHunks: HunkRejection[];
+  /** Why the file cannot be changed at all. */
+  error?: string;
+}
+
+interface CalculatedPatch {
+  /** Every file in the patch, including those that cannot be changed. */
+  files: PatchedFile[];
+  error?: { display: string; raw: string };
+}
+
+/**
+ * Applies a unified diff to the files it names. Hunks are matched fuzzily,
+ * and hunks that cannot be placed are reported back instead of failing the
+ * whole patch.
+ */
+export class ApplyPatchTool
+  extends BaseTool<ApplyPatchToolParams, ToolResult>
+  implements ModifiableTool<ApplyPatchToolParams>
+{
+  static readonly Name = 'apply_patch';
+  private readonly config: Config;
+  private readonly rootDirectory: string;
+
+  constructor(config: Config) {
+    super(
+      ApplyPatchTool.Name,
+      'ApplyPatch',
+      `Applies a patch in unified diff format, as produced by \`diff -u\` or \`git diff\`, to one or more files. The patch can modify, create (\`--- /dev/null\`), delete (\`+++ /dev/null\`) and rename (\`rename from\`/\`rename to\`) files. Always use the ${ReadFileTool.Name} tool to examine the current content of the files first.
+
+Hunks do not need exact line numbers or line counts: each hunk is looked for near the line its header gives, then anywhere in the file, ignoring whitespace differences, and finally with up to two lines of context removed from either end. Include at least 3 lines of unchanged context around each change so hunks are placed correctly. Hunks that still cannot be placed are rejected and reported back while the other hunks are applied; fix the rejected hunks and apply them in a new patch.
+
+File paths are relative to the project root; \`a/\` and \`b/\` prefixes are removed.`,
+      {
+        properties: {
+          patch: {
+            description:
+              'The patch to apply, in unified diff format. Each file starts with `--- old/path` and `+++ new/path` lines (or a `diff --git` header), followed by hunks starting with `@@ -start,count +start,count @@`.',
+            type: 'string',
+          },
+        },
+        required: ['patch'],
+        type: 'object',
+      },
+    );
+    this.config = config;
+    this.rootDirectory = path.resolve(this.config.getTargetDir());
+  }
+
+  /**
+   * Checks if a path is within the root directory.
+   * @param pathToCheck The absolute path to check.
+   * @returns True if the path is within the root directory, false otherwise.
+   */
+  private isWithinRoot(pathToCheck: string): boolean {
+    const normalizedPath = path.normalize(pathToCheck);
+    const normalizedRoot = this.rootDirectory;
+    const rootWithSep = normalizedRoot.endsWith(path.sep)
+      ? normalizedRoot
+      : normalizedRoot + path.sep;
+    return (
+      normalizedPath === normalizedRoot ||
+      normalizedPath.startsWith(rootWithSep)
+    );
+  }
+
+  /**
+   * Validates the parameters for the ApplyPatch tool
+   * @param params Parameters to validate
+   * @returns Error message string or null if valid
+   */
+  validateToolParams(params: ApplyPatchToolParams): string | null {
+    if (
+      this.schema.parameters &&
+      !SchemaValidator.validate(
+        this.schema.parameters as Record<string, unknown>,
+        params,
+      )
+    ) {
+      return 'Parameters failed schema validation.';
+    }
+
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parsePatch(params.patch);
+    } catch (error) {
+      return `Invalid patch: ${getErrorMessage(error)}`;
+    }
+    if (filePatches.length === 0) {
+      return 'The patch does not change any file. Files must start with `---` and `+++` lines or a `diff --git` header.';
+    }
+    for (const { oldPath, newPath } of filePatches) {
+      for (const filePath of [oldPath, newPath]) {
+        if (
+          filePath !== null &&
+          !this.isWithinRoot(path.resolve(this.rootDirectory, filePath))
+        ) {
+          return `File path must be within the root directory (${this.rootDirectory}): ${filePath}`;
+        }
+      }
+    }
+    return null;
+  }
+
+  getModifiedPaths(params: ApplyPatchToolParams): string[] {
+    if (this.validateToolParams(params)) {
+      return [];
+    }
+    const paths = parsePatch(params.patch).flatMap(({ oldPath, newPath }) =>
+      [oldPath, newPath].filter((p): p is string => p !== null),
+    );
+    return [...new Set(paths)].map((p) => path.resolve(this.rootDirectory, p));
+  }
+
+  private readFile(filePath: string): string | null {
+    try {
+      return fs.readFileSync(filePath, 'utf8');
+    } catch (err: unknown) {
+      if (!isNodeError(err) || err.code !== 'ENOENT') {
+        throw err;
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Applies the patch to the current content of the files in memory.
+   * @throws File system errors if reading a file fails unexpectedly (e.g., permissions)
+   */
+  private calculatePatch(params: ApplyPatchToolParams): CalculatedPatch {
+    const files = parsePatch(params.patch).map((filePatch): PatchedFile => {
+      const resolve = (filePath: string | null) =>
+        filePath === null ? null : path.resolve(this.rootDirectory, filePath);
+      const file: PatchedFile = {
+        oldPath: resolve(filePatch.oldPath),
+        newPath: resolve(filePatch.newPath),
+        originalContent: null,
+        currentContent: null,
+        newContent: null,
+        appliedHunks: 0,
+        rejectedHunks: [],
+      };
+
+      if (
+        file.newPath !== null &&
+        file.newPath !== file.oldPath &&
+        fs.existsSync(file.newPath)
+      ) {
+        file.error = 'the file to create already exists';
+        return file;
+      }
+      if (file.oldPath === null) {
+        file.newContent = getCreatedContent(filePatch);
+        file.appliedHunks = filePatch.hunks.length;
+        return file;
+      }
+
+      file.originalContent = this.readFile(file.oldPath);
+      if (file.originalContent === null) {
+        file.error = 'the file does not exist';
+        return file;
+      }
+      // Normalize line endings to LF for consistent processing.
+      file.currentContent = file.originalContent.replace(/\r\n/g, '\n');
+      const result = applyHunks(file.currentContent, filePatch.hunks);
+      file.appliedHunks = result.applied;
+      file.rejectedHunks = result.rejected;
+      if (file.newPath === null) {
+        // a deletion may leave out the lines it deletes
+        const verified = filePatch.hunks.length > 0;
+        if (verified && (result.rejected.length > 0 || result.content !== '')) {
+          file.error = 'the lines to delete do not match the file';
+        }
+        return file;
+      }
+      file.newContent = result.content;
+      return file;
+    });
+
+    if (!files.some((file) => this.isChanged(file))) {
+      return {
+        files,
+        error: {
+          display: 'Failed to apply patch, no hunk could be applied.',
+          raw: `Failed to apply patch, no file was changed.\n${this.describeProblems(files)}`,
+        },
+      };
+    }
+    return { files };
+  }
+
+  private isChanged(file: PatchedFile): boolean {
+    return (
+      !file.error &&
+      (file.appliedHunks > 0 ||
+        file.oldPath === null ||
+        file.newPath === null ||
+        file.oldPath !== file.newPath)
+    );
+  }
+
+  private relative(filePath: string): string {
+    return makeRelative(filePath, this.rootDirectory);
+  }
+
+  /** The files that cannot be changed and the hunks that were rejected. */
+  private describeProblems(files: PatchedFile[]): string {
+    const problems: string[] = [];
+    for (const file of files) {
+      const name = this.relative((file.oldPath ?? file.newPath)!);
+      if (file.error) {
+        problems.push(`${name}: not changed, ${file.error}.`);
+        continue;
+      }
+      for (const { hunk, reason } of file.rejectedHunks) {
+        problems.push(
+          `${name}: rejected hunk, ${reason}:\n${hunk.header}\n${hunk.lines.join('\n')}`,
+        );
+      }
+    }
+    return problems.join('\n\n');
+  }
+
+  private countRejectedHunks(files: PatchedFile[]): number {
+    return files.reduce((count, file) => count + file.rejectedHunks.length, 0);
+  }
+
+  /** One patch per changed file, concatenated into a single diff. */
+  private createDiff(files: PatchedFile[]): string {
+    return files
+      .filter((file) => this.isChanged(file))
+      .map((file) => {
+        const names = [file.oldPath, file.newPath]
+          .filter((filePath): filePath is string => filePath !== null)
+          .map((filePath) => this.relative(filePath));
+        return Diff.createPatch(
+          [...new Set(names)].join(' → '),
+          file.currentContent ?? '',
+          file.newContent ?? '',
+          'Current',
+          'Proposed',
+          DEFAULT_DIFF_OPTIONS,
+        );
+      })
+      .join('');
+  }
+
+  private getFileName(files: PatchedFile[]): string {
+    const file = files.find((f) => this.isChanged(f)) ?? files[0];
+    return path.basename((file.newPath ?? file.oldPath)!);
+  }
+
+  /**
+   * Handles the confirmation prompt for the ApplyPatch tool in the CLI,
+   * showing the changes the patch makes to every file.
+   */
+  async shouldConfirmExecute(
+    params: ApplyPatchToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      console.error(
+        `[ApplyPatchTool Wrapper] Attempted confirmation with invalid parameters: ${validationError}`,
+      );
+      return false;
+    }
+
+    let patchData: CalculatedPatch;
+    try {
+      patchData = this.calculatePatch(params);
+    } catch (error) {
+      console.log(`Error preparing patch: ${getErrorMessage(error)}`);
+      return false;
+    }
+
+    if (patchData.error) {
+      console.log(`Error: ${patchData.error.display}`);
+      return false;
+    }
+
+    const rejected = this.countRejectedHunks(patchData.files);
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title:
+        `Confirm Patch: ${this.getDescription(params)}` +
+        (rejected > 0
+          ? ` (${rejected} ${rejected === 1 ? 'hunk' : 'hunks'} rejected)`
+          : ''),
+      fileName: this.getFileName(patchData.files),
+      fileDiff: this.createDiff(patchData.files),
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  getDescription(params: ApplyPatchToolParams): string {
+    let filePatches: FilePatch[];
+    try {
+      filePatches = parsePatch(params.patch ?? '');
+    } catch (_e) {
+      filePatches = [];
+    }
+    if (filePatches.length === 0) {
+      return `Model did not provide a valid patch`;
+    }
+    return filePatches
+      .map(({ oldPath, newPath }) => shortenPath((newPath ?? oldPath)!))
+      .join(', ');
+  }
+
+  /**
+   * Applies the patch, skipping rejected hunks. If writing any file fails,
+   * the files already written are restored.
+   * @param params Parameters for the patch operation
+   * @returns Result of the patch operation
+   */
+  async execute(
+    params: ApplyPatchToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: `Error: ${validationError}`,
+      };
+    }
+
+    let patchData: CalculatedPatch;
+    try {
+      patchData = this.calculatePatch(params);
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Error preparing patch: ${errorMsg}`,
+        returnDisplay: `Error preparing patch: ${errorMsg}`,
+      };
+    }
+
+    if (patchData.error) {
+      return {
+        llmContent: patchData.error.raw,
+        returnDisplay: `Error: ${patchData.error.display}`,
+      };
+    }
+
+    const changed = patchData.files.filter((file) => this.isChanged(file));
+    const touched: PatchedFile[] = [];
+    try {
+      for (const file of changed) {
+        touched.push(file);
+        this.writeFile(file);
+      }
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      this.restore(touched);
+      return {
+        llmContent: `Error applying patch: ${errorMsg}. No files were changed.`,
+        returnDisplay: `Error writing file: ${errorMsg}`,
+      };
+    }
+
+    const summary = changed.map((file) => {
+      if (file.oldPath === null) {
+        return `created ${file.newPath}`;
+      }
+      if (file.newPath === null) {
+        return `deleted ${file.oldPath}`;
+      }
+      const hunks = `${file.appliedHunks} ${file.appliedHunks === 1 ? 'hunk' : 'hunks'}`;
+      return file.oldPath === file.newPath
+        ? `modified ${file.oldPath} (${hunks})`
+        : `renamed ${file.oldPath} to ${file.newPath} (${hunks})`;
+    });
+    const llmContentParts = [
+      `Successfully applied patch: ${summary.join(', ')}.`,
+    ];
+    if (params.modified_by_user) {
+      llmContentParts.push('The user modified the patch before applying it.');
+    }
+    const problems = this.describeProblems(patchData.files);
+    if (problems) {
+      llmContentParts.push(
+        `Some changes were not applied. Fix them and apply them in a new patch:\n${problems}`,
+      );
+    }
+
+    return {
+      llmContent: llmContentParts.join('\n\n'),
+      returnDisplay: {
+        fileDiff: this.createDiff(patchData.files),
+        fileName: this.getFileName(patchData.files),
+      },
+    };
+  }
+
+  private writeFile(file: PatchedFile): void {
+    if (file.newPath !== null) {
+      this.ensureParentDirectoriesExist(file.newPath);
+      fs.writeFileSync(file.newPath, file.newContent ?? '', 'utf8');
+    }
+    if (file.oldPath !== null && file.oldPath !== file.newPath) {
+      fs.unlinkSync(file.oldPath);
+    }
+  }
+
+  /** Undoes {@link writeFile} for files that may have been written. */
+  private restore(files: PatchedFile[]): void {
+    for (const file of files) {
+      try {
+        if (file.newPath !== null && file.newPath !== file.oldPath) {
+          fs.rmSync(file.newPath, { force: true });
+        }
+        if (file.oldPath !== null && file.originalContent !== null) {
+          fs.writeFileSync(file.oldPath, file.originalContent, 'utf8');
+        }
+      } catch (_e) {
+        // Keep restoring the other files.
+      }
+    }
+  }
+
+  /**
+   * Creates parent directories if they don't exist
+   */
+  private ensureParentDirectoriesExist(filePath: string): void {
+    const dirName = path.dirname(filePath);
+    if (!fs.existsSync(dirName)) {
+      fs.mkdirSync(dirName, { recursive: true });
+    }
+  }
+
+  getModifyContext(_: AbortSignal): ModifyContext<ApplyPatchToolParams> {
+    return {
+      // The patch itself is edited, so it opens with a .patch extension.
+      getFilePath: () => path.join(this.rootDirectory, 'changes.patch'),
+      getCurrentContent: async (params: ApplyPatchToolParams) => params.patch,
+      getProposedContent: async (params: ApplyPatchToolParams) => params.patch,
+      createUpdatedParams: (
+        _oldContent: string,
+        modifiedProposedContent: string,
+        originalParams: ApplyPatchToolParams,
+      ): ApplyPatchToolParams => ({
+        ...originalParams,
+        patch: modifiedProposedContent,
+        modified_by_user: true,
+      }),
+      getUpdatedDiff: (params: ApplyPatchToolParams): string => {
+        try {
+          return this.validateToolParams(params)
+            ? ''
+            : this.createDiff(this.calculatePatch(params).files);
+        } catch (_e) {
+          return '';
+        }
+      },
+    };
+  }
+}
@@ -346,6 +346,10 @@ Expectation for required parameters:
     return confirmationDetails;
   }
 
+  getModifiedPaths(params: EditToolParams): string[] {
+    return this.validateToolParams(params) ? [] : [params.file_path];
+  }
+
   getDescription(params: EditToolParams): string {
     if (!params.file_path || !params.old_string || !params.new_string) {
       return `Model did not provide valid parameters for edit tool`;
@@ -54,6 +54,7 @@ interface GrepMatch {
  */
 export class GrepTool extends BaseTool<GrepToolParams, ToolResult> {
   static readonly Name = 'search_file_content'; // Keep static name
+  readonly isReadOnly = true;
 
   /**
    * Creates a new instance of the GrepLogic
@@ -66,6 +66,7 @@ export interface FileEntry {
  */
 export class LSTool extends BaseTool<LSToolParams, ToolResult> {
   static readonly Name = 'list_directory';
+  readonly isReadOnly = true;
 
   /**
    * Creates a new instance of the LSLogic
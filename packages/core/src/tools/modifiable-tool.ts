@@ -32,6 +32,12 @@ export interface ModifyContext<ToolParams> {
     modifiedProposedContent: string,
     originalParams: ToolParams,
   ) => ToolParams;
+
+  /**
+   * The diff to confirm after the user's modification. Defaults to the diff
+   * between the current and the modified proposed content.
+   */
+  getUpdatedDiff?: (updatedParams: ToolParams) => string;
 }
 
 export interface ModifyResult<ToolParams> {
@@ -103,14 +109,16 @@ function getUpdatedParams<ToolParams>(
     newContent,
     originalParams,
   );
-  const updatedDiff = Diff.createPatch(
-    path.basename(modifyContext.getFilePath(originalParams)),
-    oldContent,
-    newContent,
-    'Current',
-    'Proposed',
-    DEFAULT_DIFF_OPTIONS,
-  );
+  const updatedDiff = modifyContext.getUpdatedDiff
+    ? modifyContext.getUpdatedDiff(updatedParams)
+    : Diff.createPatch(
+        path.basename(modifyContext.getFilePath(originalParams)),
+        oldContent,
+        newContent,
+        'Current',
+        'Proposed',
+        DEFAULT_DIFF_OPTIONS,
+      );
 
   return { updatedParams, updatedDiff };
 }
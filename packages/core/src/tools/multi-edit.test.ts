@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { MultiEditTool } from './multi-edit.js';
+import { FileDiff, ToolConfirmationOutcome } from './tools.js';
+import { ApprovalMode, Config } from '../config/config.js';
+
+describe('MultiEditTool', () => {
+  let tool: MultiEditTool;
+  let tempDir: string;
+  let rootDir: string;
+  let mockConfig: Config;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-edit-tool-test-'));
+    rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(rootDir);
+    mockConfig = {
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn(() => ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+    } as unknown as Config;
+    tool = new MultiEditTool(mockConfig);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const write = (name: string, content: string) =>
+    fs.writeFileSync(path.join(rootDir, name), content, 'utf8');
+  const read = (name: string) =>
+    fs.readFileSync(path.join(rootDir, name), 'utf8');
+
+  describe('validateToolParams', () => {
+    it('should resolve relative paths and reject paths outside the root', () => {
+      const params = {
+        file_path: 'a.ts',
+        edits: [{ old_string: 'a', new_string: 'b' }],
+      };
+      expect(tool.validateToolParams(params)).toBeNull();
+      expect(params.file_path).toBe(path.join(rootDir, 'a.ts'));
+
+      expect(
+        tool.validateToolParams({
+          file_path: 'a.ts',
+          edits: [
+            { file_path: '../outside.ts', old_string: 'a', new_string: 'b' },
+          ],
+        }),
+      ).toMatch(/within the root directory/);
+    });
+
+    it('should reject an empty list of edits', () => {
+      expect(tool.validateToolParams({ file_path: 'a.ts', edits: [] })).toBe(
+        'At least one edit must be provided.',
+      );
+    });
+  });
+
+  describe('execute', () => {
+    it('should apply the edits in order to the same file', async () => {
+      write('a.ts', 'const a = 1;\nconst b = a;\nconst c = b;\n');
+
+      const result = await tool.execute(
+        {
+          file_path: 'a.ts',
+          edits: [
+            { old_string: 'const a = 1;', new_string: 'const x = 1;' },
+            // sees the result of the first edit
+            { old_string: 'const x', new_string: 'let x' },
+            { old_string: ' = b;', new_string: ' = $&;' },
+          ],
+        },
+        signal,
+      );
+
+      expect(read('a.ts')).toBe('let x = 1;\nconst b = a;\nconst c = $&;\n');
+      expect(result.llmContent).toMatch(/Successfully applied 3 edits/);
+      expect((result.returnDisplay as FileDiff).fileName).toBe('a.ts');
+    });
+
+    it('should replace every occurrence when expected_replacements is set', async () => {
+      write('a.ts', 'foo foo foo');
+      const result = await tool.execute(
+        {
+          file_path: 'a.ts',
+          edits: [
+            { old_string: 'foo', new_string: 'bar', expected_replacements: 3 },
+          ],
+        },
+        signal,
+      );
+      expect(read('a.ts')).toBe('bar bar bar');
+      expect(result.llmContent).toMatch(/3 replacements/);
+    });
+
+    it('should edit and create several files', async () => {
+      write('a.ts', 'export const a = 1;\n');
+
+      await tool.execute(
+        {
+          file_path: 'a.ts',
+          edits: [
+            { old_string: 'const a', new_string: 'const renamed' },
+            {
+              file_path: 'sub/b.ts',
+              old_string: '',
+              new_string: "import { renamed } from '../a.js';\n",
+            },
+          ],
+        },
+        signal,
+      );
+
+      expect(read('a.ts')).toBe('export const renamed = 1;\n');
+      expect(read('sub/b.ts')).toBe("import { renamed } from '../a.js';\n");
+    });
+
+    it('should not change any file when one edit fails', async () => {
+      write('a.ts', 'one two');
+      write('b.ts', 'three');
+
+      const result = await tool.execute(
+        {
+          file_path: 'a.ts',
+          edits: [
+            { old_string: 'one', new_string: '1' },
+            { file_path: 'b.ts', old_string: 'three', new_string: '3' },
+            { old_string: 'one', new_string: 'uno' },
+          ],
+        },
+        signal,
+      );
+
+      expect(result.llmContent).toMatch(
+        /Failed to apply edit 3 of 3 to .*a\.ts: 0 occurrences found/,
+      );
+      expect(result.returnDisplay).toBe(
+        'Error: Failed to apply edit 3 of 3: could not find the string to replace.',
+      );
+      expect(read('a.ts')).toBe('one two');
+      expect(read('b.ts')).toBe('three');
+    });
+
+    it('should fail when an edit matches an unexpected number of times', async () => {
+      write('a.ts', 'x x');
+      const result = await tool.execute(
+        { file_path: 'a.ts', edits: [{ old_string: 'x', new_string: 'y' }] },
+        signal,
+      );
+      expect(result.returnDisplay).toBe(
+        'Error: Failed to apply edit 1 of 1: expected 1 occurrence but found 2.',
+      );
+      expect(read('a.ts')).toBe('x x');
+    });
+
+    it('should restore written files when a later write fails', async () => {
+      write('a.ts', 'a\r\n');
+      // reads as a missing file, but writing it fails
+      fs.symlinkSync(
+        path.join(rootDir, 'missing', 'target.ts'),
+        path.join(rootDir, 'link.ts'),
+      );
+
+      const result = await tool.execute(
+        {
+          file_path: 'a.ts',
+          edits: [
+            { old_string: 'a', new_string: 'b' },
+            { file_path: 'link.ts', old_string: '', new_string: 'content' },
+          ],
+        },
+        signal,
+      );
+
+      expect(result.llmContent).toMatch(/No files were changed/);
+      expect(read('a.ts')).toBe('a\r\n');
+    });
+  });
+
+  describe('shouldConfirmExecute', () => {
+    it('should show a single diff covering every file', async () => {
+      write('a.ts', 'const a = 1;\n');
+      write('b.ts', 'const b = 1;\n');
+
+      const details = await tool.shouldConfirmExecute(
+        {
+          file_path: 'a.ts',
+          edits: [
+            { old_string: 'a = 1', new_string: 'a = 2' },
+            { file_path: 'b.ts', old_string: 'b = 1', new_string: 'b = 2' },
+          ],
+        },
+        signal,
+      );
+
+      expect(details).toMatchObject({
+        type: 'edit',
+        title: 'Confirm Edits: a.ts, b.ts (2 edits)',
+        fileName: 'a.ts',
+      });
+      const fileDiff = (details as { fileDiff: string }).fileDiff;
+      expect(fileDiff).toContain('Index: a.ts');
+      expect(fileDiff).toContain('+const a = 2;');
+      expect(fileDiff).toContain('Index: b.ts');
+      expect(fileDiff).toContain('+const b = 2;');
+    });
+
+    it('should not ask when the edits cannot be applied or in auto edit mode', async () => {
+      write('a.ts', 'a');
+      const params = {
+        file_path: 'a.ts',
+        edits: [{ old_string: 'missing', new_string: 'b' }],
+      };
+      expect(await tool.shouldConfirmExecute(params, signal)).toBe(false);
+
+      vi.mocked(mockConfig.getApprovalMode).mockReturnValue(
+        ApprovalMode.AUTO_EDIT,
+      );
+      expect(
+        await tool.shouldConfirmExecute(
+          { file_path: 'a.ts', edits: [{ old_string: 'a', new_string: 'b' }] },
+          signal,
+        ),
+      ).toBe(false);
+    });
+
+    it('should switch to auto edit mode when always allowed', async () => {
+      write('a.ts', 'a');
+      const details = await tool.shouldConfirmExecute(
+        { file_path: 'a.ts', edits: [{ old_string: 'a', new_string: 'b' }] },
+        signal,
+      );
+      if (details) {
+        await details.onConfirm(ToolConfirmationOutcome.ProceedAlways);
+      }
+      expect(mockConfig.setApprovalMode).toHaveBeenCalledWith(
+        ApprovalMode.AUTO_EDIT,
+      );
+    });
+  });
+});
@@ -0,0 +1,467 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as Diff from 'diff';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+  ToolResult,
+} from './tools.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { isNodeError } from '../utils/errors.js';
+import { Config, ApprovalMode } from '../config/config.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+import { ReadFileTool } from './read-file.js';
+import { EditTool } from './edit.js';
+
+/**
+ * A single replacement made by the MultiEdit tool
+ */
+export interface ReplacementEdit {
+  /**
+   * The file to modify, if not the `file_path` of the call
+   */
+  file_path?: string;
+
+  /**
+   * The text to replace, or '' to create the file with `new_string`
+   */
+  old_string: string;
+
+  /**
+   * The text to replace it with
+   */
+  new_string: string;
+
+  /**
+   * Number of replacements expected. Defaults to 1 if not specified.
+   */
+  expected_replacements?: number;
+}
+
+/**
+ * Parameters for the MultiEdit tool
+ */
+export interface MultiEditToolParams {
+  /**
+   * The file the edits apply to, unless an edit names another file
+   */
+  file_path: string;
+
+  /**
+   * The edits to make, applied in order
+   */
+  edits: ReplacementEdit[];
+}
+
+interface FileChange {
+  filePath: string;
+  /** The file as read from disk, null if it does not exist. */
+  originalContent: string | null;
+  /** The content before the edits, null if the file does not exist. */
+  currentContent: string | null;
+  /** The content after the edits made so far, null while not created. */
+  newContent: string | null;
+  replacements: number;
+}
+
+interface CalculatedMultiEdit {
+  changes: FileChange[];
+  error?: { display: string; raw: string };
+}
+
+/**
+ * Makes several replacements in one or more files as a single change: every
+ * edit is checked against the content it will apply to before anything is
+ * written, and either all files are written or none are.
+ */
+export class MultiEditTool extends BaseTool<MultiEditToolParams, ToolResult> {
+  static readonly Name = 'multi_replace';
+  private readonly config: Config;
+  private readonly rootDirectory: string;
+
+  constructor(config: Config) {
+    super(
+      MultiEditTool.Name,
+      'MultiEdit',
+      `Makes several text replacements in a file, or in a few related files, as one change. The edits are applied in order, each to the result of the ones before it, and the user reviews them as a single diff. If any edit fails, no file is changed. Prefer this tool over repeated calls to ${EditTool.Name} when a change touches several places. Always use the ${ReadFileTool.Name} tool to examine the current content of the files first.
+
+Expectation for required parameters:
+1. \`file_path\` can be an absolute path or relative to the current working directory. An edit can set its own \`file_path\` to change another file.
+2. Each \`old_string\` MUST be the exact literal text to replace (including all whitespace, indentation, newlines, and surrounding code etc.), as it reads after the earlier edits have been applied.
+3. Each \`new_string\` MUST be the exact literal text to replace \`old_string\` with. Ensure the resulting code is correct and idiomatic.
+4. NEVER escape \`old_string\` or \`new_string\`, that would break the exact literal text requirement.
+**Important:** Unlike ${EditTool.Name}, edits are never corrected: an \`old_string\` that does not match exactly \`expected_replacements\` times (default 1) fails the whole call. Include enough context to identify each location uniquely.`,
+      {
+        properties: {
+          file_path: {
+            description:
+              "The path to the file to modify. Can be absolute (e.g., '/home/user/project/file.txt') or relative to the current working directory (e.g., 'file.txt', 'subdir/file.txt').",
+            type: 'string',
+          },
+          edits: {
+            description:
+              'The replacements to make, in order. Each one applies to the content left by the edits before it.',
+            type: 'array',
+            minItems: 1,
+            items: {
+              type: 'object',
+              properties: {
+                file_path: {
+                  description:
+                    'The file this edit applies to, if not `file_path` of the call.',
+                  type: 'string',
+                },
+                old_string: {
+                  description:
+                    'The exact literal text to replace, preferably unescaped. An empty string creates the file, which must not exist yet, with `new_string` as its content.',
+                  type: 'string',
+                },
+                new_string: {
+                  description:
+                    'The exact literal text to replace `old_string` with, preferably unescaped.',
+                  type: 'string',
+                },
+                expected_replacements: {
+                  type: 'number',
+                  description:
+                    'Number of occurrences of `old_string` to replace. Defaults to 1.',
+                  minimum: 1,
+                },
+              },
+              required: ['old_string', 'new_string'],
+            },
+          },
+        },
+        required: ['file_path', 'edits'],
+        type: 'object',
+      },
+    );
+    this.config = config;
+    this.rootDirectory = path.resolve(this.config.getTargetDir());
+  }
+
+  /**
+   * Checks if a path is within the root directory.
+   * @param pathToCheck The absolute path to check.
+   * @returns True if the path is within the root directory, false otherwise.
+   */
+  private isWithinRoot(pathToCheck: string): boolean {
+    const normalizedPath = path.normalize(pathToCheck);
+    const normalizedRoot = this.rootDirectory;
+    const rootWithSep = normalizedRoot.endsWith(path.sep)
+      ? normalizedRoot
+      : normalizedRoot + path.sep;
+    return (
+      normalizedPath === normalizedRoot ||
+      normalizedPath.startsWith(rootWithSep)
+    );
+  }
+
+  /**
+   * Validates the parameters for the MultiEdit tool
+   * @param params Parameters to validate
+   * @returns Error message string or null if valid
+   */
+  validateToolParams(params: MultiEditToolParams): string | null {
+    if (
+      this.schema.parameters &&
+      !SchemaValidator.validate(
+        this.schema.parameters as Record<string, unknown>,
+        params,
+      )
+    ) {
+      return 'Parameters failed schema validation.';
+    }
+    if (params.edits.length === 0) {
+      return 'At least one edit must be provided.';
+    }
+
+    // Auto-convert relative paths to absolute paths based on root directory
+    params.file_path = path.resolve(this.rootDirectory, params.file_path);
+    for (const [index, edit] of params.edits.entries()) {
+      if (
+        typeof edit !== 'object' ||
+        edit === null ||
+        typeof edit.old_string !== 'string' ||
+        typeof edit.new_string !== 'string'
+      ) {
+        return `Edit ${index + 1} must have an old_string and a new_string.`;
+      }
+      if (edit.file_path !== undefined) {
+        edit.file_path = path.resolve(this.rootDirectory, edit.file_path);
+      }
+    }
+
+    for (const filePath of this.getFilePaths(params)) {
+      if (!this.isWithinRoot(filePath)) {
+        return `File path must be within the root directory (${this.rootDirectory}): ${filePath}`;
+      }
+    }
+    return null;
+  }
+
+  getModifiedPaths(params: MultiEditToolParams): string[] {
+    return this.validateToolParams(params) ? [] : this.getFilePaths(params);
+  }
+
+  /** The files the edits apply to, in the order they are first edited. */
+  private getFilePaths(params: MultiEditToolParams): string[] {
+    return [
+      ...new Set(
+        params.edits.map((edit) => edit.file_path ?? params.file_path),
+      ),
+    ];
+  }
+
+  /**
+   * Applies the edits to the current content of the files in memory.
+   * @throws File system errors if reading a file fails unexpectedly (e.g., permissions)
+   */
+  private calculateEdits(params: MultiEditToolParams): CalculatedMultiEdit {
+    const changes = new Map<string, FileChange>();
+    for (const filePath of this.getFilePaths(params)) {
+      let originalContent: string | null = null;
+      try {
+        originalContent = fs.readFileSync(filePath, 'utf8');
+      } catch (err: unknown) {
+        if (!isNodeError(err) || err.code !== 'ENOENT') {
+          throw err;
+        }
+      }
+      // Normalize line endings to LF for consistent processing.
+      const currentContent = originalContent?.replace(/\r\n/g, '\n') ?? null;
+      changes.set(filePath, {
+        filePath,
+        originalContent,
+        currentContent,
+        newContent: currentContent,
+        replacements: 0,
+      });
+    }
+
+    for (const [index, edit] of params.edits.entries()) {
+      const change = changes.get(edit.file_path ?? params.file_path)!;
+      const fail = (display: string, raw: string) => ({
+        changes: [...changes.values()],
+        error: {
+          display: `Failed to apply edit ${index + 1} of ${params.edits.length}: ${display}`,
+          raw: `Failed to apply edit ${index + 1} of ${params.edits.length} to ${change.filePath}: ${raw} No edits made.`,
+        },
+      });
+
+      if (change.newContent === null) {
+        if (edit.old_string !== '') {
+          return fail(
+            'file not found.',
+            'File not found. Use an empty old_string to create a new file.',
+          );
+        }
+        change.newContent = edit.new_string;
+        continue;
+      }
+      if (edit.old_string === '') {
+        return fail(
+          'the file already exists.',
+          'File already exists, cannot create it with an empty old_string.',
+        );
+      }
+
+      const expectedReplacements = edit.expected_replacements ?? 1;
+      const occurrences = change.newContent.split(edit.old_string).length - 1;
+      if (occurrences === 0) {
+        return fail(
+          'could not find the string to replace.',
+          `0 occurrences found for old_string. The exact text in old_string was not found after applying the previous edits. Ensure you're not escaping content incorrectly and check whitespace, indentation, and context. Use ${ReadFileTool.Name} tool to verify.`,
+        );
+      }
+      if (occurrences !== expectedReplacements) {
+        const occurrenceTerm =
+          expectedReplacements === 1 ? 'occurrence' : 'occurrences';
+        return fail(
+          `expected ${expectedReplacements} ${occurrenceTerm} but found ${occurrences}.`,
+          `Expected ${expectedReplacements} ${occurrenceTerm} but found ${occurrences} for old_string.`,
+        );
+      }
+      // A replacer function keeps `$` sequences in new_string literal.
+      change.newContent = change.newContent.replaceAll(
+        edit.old_string,
+        () => edit.new_string,
+      );
+      change.replacements += occurrences;
+    }
+    return { changes: [...changes.values()] };
+  }
+
+  /** One patch per changed file, concatenated into a single diff. */
+  private createDiff(changes: FileChange[]): string {
+    return changes
+      .map((change) =>
+        Diff.createPatch(
+          makeRelative(change.filePath, this.rootDirectory),
+          change.currentContent ?? '',
+          change.newContent ?? '',
+          'Current',
+          'Proposed',
+          DEFAULT_DIFF_OPTIONS,
+        ),
+      )
+      .join('');
+  }
+
+  /**
+   * Handles the confirmation prompt for the MultiEdit tool in the CLI,
+   * showing the combined diff of all edits.
+   */
+  async shouldConfirmExecute(
+    params: MultiEditToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      console.error(
+        `[MultiEditTool Wrapper] Attempted confirmation with invalid parameters: ${validationError}`,
+      );
+      return false;
+    }
+
+    let editData: CalculatedMultiEdit;
+    try {
+      editData = this.calculateEdits(params);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.log(`Error preparing edits: ${errorMsg}`);
+      return false;
+    }
+
+    if (editData.error) {
+      console.log(`Error: ${editData.error.display}`);
+      return false;
+    }
+
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Edits: ${this.getDescription(params)}`,
+      fileName: path.basename(editData.changes[0].filePath),
+      fileDiff: this.createDiff(editData.changes),
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  getDescription(params: MultiEditToolParams): string {
+    if (!params.file_path || !Array.isArray(params.edits)) {
+      return `Model did not provide valid parameters for multi-edit tool`;
+    }
+    const files = this.getFilePaths(params).map((filePath) =>
+      shortenPath(makeRelative(filePath, this.rootDirectory)),
+    );
+    const editTerm = params.edits.length === 1 ? 'edit' : 'edits';
+    return `${files.join(', ')} (${params.edits.length} ${editTerm})`;
+  }
+
+  /**
+   * Applies all edits, or none of them if any edit or write fails.
+   * @param params Parameters for the edit operation
+   * @returns Result of the edit operation
+   */
+  async execute(
+    params: MultiEditToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: `Error: ${validationError}`,
+      };
+    }
+
+    let editData: CalculatedMultiEdit;
+    try {
+      editData = this.calculateEdits(params);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      return {
+        llmContent: `Error preparing edits: ${errorMsg}`,
+        returnDisplay: `Error preparing edits: ${errorMsg}`,
+      };
+    }
+
+    if (editData.error) {
+      return {
+        llmContent: editData.error.raw,
+        returnDisplay: `Error: ${editData.error.display}`,
+      };
+    }
+
+    const written: FileChange[] = [];
+    try {
+      for (const change of editData.changes) {
+        this.ensureParentDirectoriesExist(change.filePath);
+        fs.writeFileSync(change.filePath, change.newContent ?? '', 'utf8');
+        written.push(change);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      this.restore(written);
+      return {
+        llmContent: `Error executing edits: ${errorMsg}. No files were changed.`,
+        returnDisplay: `Error writing file: ${errorMsg}`,
+      };
+    }
+
+    const summary = editData.changes.map((change) =>
+      change.currentContent === null
+        ? `created ${change.filePath}`
+        : `modified ${change.filePath} (${change.replacements} replacements)`,
+    );
+    return {
+      llmContent: `Successfully applied ${params.edits.length} edits: ${summary.join(', ')}.`,
+      returnDisplay: {
+        fileDiff: this.createDiff(editData.changes),
+        fileName: path.basename(editData.changes[0].filePath),
+      },
+    };
+  }
+
+  /** Puts back the original content of files already written. */
+  private restore(changes: FileChange[]): void {
+    for (const change of changes) {
+      try {
+        if (change.originalContent === null) {
+          fs.unlinkSync(change.filePath);
+        } else {
+          fs.writeFileSync(change.filePath, change.originalContent, 'utf8');
+        }
+      } catch (_e) {
+        // Keep restoring the other files.
+      }
+    }
+  }
+
+  /**
+   * Creates parent directories if they don't exist
+   */
+  private ensureParentDirectoriesExist(filePath: string): void {
+    const dirName = path.dirname(filePath);
+    if (!fs.existsSync(dirName)) {
+      fs.mkdirSync(dirName, { recursive: true });
+    }
+  }
+}
@@ -44,6 +44,7 @@ export interface ReadFileToolParams {
  */
 export class ReadFileTool extends BaseTool<ReadFileToolParams, ToolResult> {
   static readonly Name: string = 'read_file';
+  readonly isReadOnly = true;
 
   constructor(
     private rootDirectory: string,
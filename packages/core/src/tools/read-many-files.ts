@@ -124,6 +124,7 @@ export class ReadManyFilesTool extends BaseTool<
   ToolResult
 > {
   static readonly Name: string = 'read_many_files';
+  readonly isReadOnly = true;
   private readonly geminiIgnorePatterns: string[] = [];
 
   /**
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import os from 'os';
+import { KillJobTool, ListJobsTool, ReadJobOutputTool } from './shell-jobs.js';
+import { ShellTool } from './shell.js';
+import { ShellJobService } from '../services/shellJobService.js';
+import { Config } from '../config/config.js';
+
+describe.skipIf(os.platform() === 'win32')('shell job tools', () => {
+  let service: ShellJobService;
+  let config: Config;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    service = new ShellJobService(os.tmpdir());
+    config = {
+      getShellJobService: () => service,
+      getTargetDir: () => os.tmpdir(),
+      getCoreTools: () => undefined,
+      getExcludeTools: () => undefined,
+      getShellPty: () => false,
+    } as unknown as Config;
+  });
+
+  afterEach(async () => {
+    await service.killAll();
+  });
+
+  it('should start a background job from run_shell_command', async () => {
+    const shell = new ShellTool(config);
+
+    const result = await shell.execute(
+      { command: 'echo ready; sleep 30', background: true, job_name: 'dev' },
+      signal,
+    );
+
+    expect(result.llmContent).toContain('Started background job 1 (dev)');
+    expect(service.get('dev')?.status).toBe('running');
+    const list = await new ListJobsTool(config).execute();
+    expect(list.llmContent).toMatch(
+      /^\[1\] dev \(running, pid \d+\): echo ready; sleep 30$/,
+    );
+  });
+
+  it('should read new output since a given line', async () => {
+    service.start('echo a; echo b', 'letters');
+    await vi.waitFor(() =>
+      expect(service.get('letters')?.status).toBe('exited'),
+    );
+    const tool = new ReadJobOutputTool(config);
+
+    const all = await tool.execute({ job: 'letters' });
+    const rest = await tool.execute({ job: 'letters', since_line: 1 });
+
+    expect(all.llmContent).toContain('Next line: 2\nOutput:\na\nb');
+    expect(rest.returnDisplay).toBe('b');
+    expect((await tool.execute({ job: 'nope' })).llmContent).toBe(
+      'Error: No background job "nope".',
+    );
+  });
+
+  it('should kill a running job', async () => {
+    service.start('sleep 30', 'sleeper');
+    const tool = new KillJobTool(config);
+
+    expect(tool.validateToolParams({ job: 'sleeper', signal: 'SIGNOPE' })).toBe(
+      'Unknown signal: SIGNOPE',
+    );
+    const result = await tool.execute({ job: 'sleeper' });
+
+    expect(result.llmContent).toBe('[1] sleeper (killed by SIGTERM): sleep 30');
+    expect((await tool.execute({ job: 'sleeper' })).llmContent).toBe(
+      'Error: Job is not running: [1] sleeper (killed by SIGTERM): sleep 30',
+    );
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import os from 'os';
+import { Config } from '../config/config.js';
+import { BaseTool, ToolResult } from './tools.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { formatShellJob } from '../services/shellJobService.js';
+
+// Lines returned by read_job_output when the model does not ask for a number.
+const DEFAULT_OUTPUT_LINES = 200;
+
+function validate(schema: Record<string, unknown>, params: unknown) {
+  return SchemaValidator.validate(schema, params)
+    ? null
+    : 'Parameters failed schema validation.';
+}
+
+function rejected(reason: string): ToolResult {
+  return { llmContent: `Error: ${reason}`, returnDisplay: `Error: ${reason}` };
+}
+
+/**
+ * Lists the background jobs started with `run_shell_command`.
+ */
+export class ListJobsTool extends BaseTool<Record<string, never>, ToolResult> {
+  static readonly Name = 'list_jobs';
+  readonly isReadOnly = true;
+
+  constructor(private readonly config: Config) {
+    super(
+      ListJobsTool.Name,
+      'ListJobs',
+      'Lists the background jobs started with run_shell_command in this session, with their id, name, status and command.',
+      { type: 'object', properties: {} },
+      false, // output is not markdown
+    );
+  }
+
+  getDescription(): string {
+    return 'List background jobs';
+  }
+
+  async execute(): Promise<ToolResult> {
+    const jobs = this.config.getShellJobService().list();
+    if (jobs.length === 0) {
+      return {
+        llmContent: 'No background jobs have been started.',
+        returnDisplay: 'No background jobs.',
+      };
+    }
+    const lines = jobs.map(formatShellJob).join('\n');
+    return { llmContent: lines, returnDisplay: lines };
+  }
+}
+
+export interface ReadJobOutputToolParams {
+  job: string;
+  since_line?: number;
+  max_lines?: number;
+}
+
+/**
+ * Reads the captured output of a background job.
+ */
+export class ReadJobOutputTool extends BaseTool<
+  ReadJobOutputToolParams,
+  ToolResult
+> {
+  static readonly Name = 'read_job_output';
+  readonly isReadOnly = true;
+
+  constructor(private readonly config: Config) {
+    super(
+      ReadJobOutputTool.Name,
+      'ReadJobOutput',
+      `Reads the combined stdout and stderr of a background job started with run_shell_command. Output lines are numbered from the start of the job; the result reports the next line number, which can be passed as since_line to read only new output. Only the most recent lines of long-running jobs are kept.`,
+      {
+        type: 'object',
+        properties: {
+          job: {
+            type: 'string',
+            description: 'Id or name of the job.',
+          },
+          since_line: {
+            type: 'number',
+            description:
+              'Optional: Line number to start reading from, typically the next line number reported by a previous call. Defaults to the start of the job.',
+          },
+          max_lines: {
+            type: 'number',
+            description: `Optional: Maximum number of lines to return; the most recent lines are kept. Defaults to ${DEFAULT_OUTPUT_LINES}.`,
+          },
+        },
+        required: ['job'],
+      },
+      false, // output is not markdown
+    );
+  }
+
+  validateToolParams(params: ReadJobOutputToolParams): string | null {
+    return validate(this.parameterSchema, params);
+  }
+
+  getDescription(params: ReadJobOutputToolParams): string {
+    return `Read output of job ${params.job}`;
+  }
+
+  async execute(params: ReadJobOutputToolParams): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return rejected(validationError);
+    }
+    const service = this.config.getShellJobService();
+    const job = service.get(params.job);
+    const output = service.readOutput(
+      params.job,
+      params.since_line,
+      params.max_lines ?? DEFAULT_OUTPUT_LINES,
+    );
+    if (!job || !output) {
+      return rejected(`No background job "${params.job}".`);
+    }
+
+    const text = output.lines.join('\n');
+    const notes = [formatShellJob(job)];
+    if (output.droppedLines > 0) {
+      notes.push(`${output.droppedLines} earlier line(s) are no longer kept.`);
+    }
+    const skipped = output.fromLine - Math.max(params.since_line ?? 0, 0);
+    if (skipped > output.droppedLines) {
+      notes.push(
+        `Showing the last ${output.lines.length} line(s), starting at line ${output.fromLine}.`,
+      );
+    }
+    notes.push(`Next line: ${output.nextLine}`);
+    return {
+      llmContent: [...notes, `Output:\n${text || '(no new output)'}`].join(
+        '\n',
+      ),
+      returnDisplay: text || '(no new output)',
+    };
+  }
+}
+
+export interface KillJobToolParams {
+  job: string;
+  signal?: string;
+}
+
+/**
+ * Stops a background job and every process it started.
+ */
+export class KillJobTool extends BaseTool<KillJobToolParams, ToolResult> {
+  static readonly Name = 'kill_job';
+
+  constructor(private readonly config: Config) {
+    super(
+      KillJobTool.Name,
+      'KillJob',
+      'Stops a background job started with run_shell_command, including every process it started. The job is sent SIGTERM (or the given signal) and, if it is still running after a short grace period, SIGKILL.',
+      {
+        type: 'object',
+        properties: {
+          job: {
+            type: 'string',
+            description: 'Id or name of the job.',
+          },
+          signal: {
+            type: 'string',
+            description:
+              'Optional: Signal to send instead of SIGTERM, e.g. SIGINT or SIGKILL.',
+          },
+        },
+        required: ['job'],
+      },
+      false, // output is not markdown
+    );
+  }
+
+  validateToolParams(params: KillJobToolParams): string | null {
+    const validationError = validate(this.parameterSchema, params);
+    if (validationError) {
+      return validationError;
+    }
+    if (params.signal && !(params.signal in os.constants.signals)) {
+      return `Unknown signal: ${params.signal}`;
+    }
+    return null;
+  }
+
+  getDescription(params: KillJobToolParams): string {
+    return `Kill job ${params.job}`;
+  }
+
+  async execute(params: KillJobToolParams): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return rejected(validationError);
+    }
+    const service = this.config.getShellJobService();
+    const job = service.get(params.job);
+    if (!job) {
+      return rejected(`No background job "${params.job}".`);
+    }
+    if (job.status !== 'running') {
+      return rejected(`Job is not running: ${formatShellJob(job)}`);
+    }
+    try {
+      await service.kill(params.job, params.signal as NodeJS.Signals);
+    } catch (e) {
+      return rejected(`Could not kill job ${params.job}: ${e}`);
+    }
+    const summary = formatShellJob(service.get(job.id)!);
+    return { llmContent: summary, returnDisplay: summary };
+  }
+}
@@ -4,15 +4,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { expect, describe, it } from 'vitest';
+import { expect, describe, it, vi } from 'vitest';
+import os from 'os';
 import { ShellTool } from './shell.js';
 import { Config } from '../config/config.js';
+import { ToolConfirmationOutcome } from './tools.js';
+import { isPtyAvailable, PtyService } from '../services/ptyService.js';
 
 describe('ShellTool', () => {
   it('should allow a command if no restrictions are provided', async () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => undefined,
+      getShellPty: () => false,
     } as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('ls -l');
@@ -23,6 +27,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool(ls -l)'],
       getExcludeTools: () => undefined,
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('ls -l');
@@ -33,6 +38,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool(ls -l)'],
       getExcludeTools: () => undefined,
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('rm -rf /');
@@ -43,6 +49,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('rm -rf /');
@@ -53,6 +60,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('ls -l');
@@ -63,6 +71,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool(rm -rf /)'],
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('rm -rf /');
@@ -73,6 +82,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool'],
       getExcludeTools: () => [],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('any command');
@@ -83,6 +93,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => [],
       getExcludeTools: () => ['ShellTool'],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('any command');
@@ -93,6 +104,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(ls -l)'],
       getExcludeTools: () => undefined,
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('ls -l');
@@ -103,6 +115,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => ['run_shell_command(rm -rf /)'],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('rm -rf /');
@@ -113,6 +126,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => [],
       getExcludeTools: () => ['run_shell_command'],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('any command');
@@ -123,6 +137,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command()'],
       getExcludeTools: () => [],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('any command');
@@ -133,6 +148,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool()'],
       getExcludeTools: () => [],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('any command');
@@ -143,6 +159,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed(' rm  -rf  / ');
@@ -153,6 +170,7 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool', 'ShellTool(ls)'],
       getExcludeTools: () => [],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('any command');
@@ -163,9 +181,142 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool'],
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPty: () => false,
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const isAllowed = shellTool.isCommandAllowed('rm -rf /');
     expect(isAllowed).toBe(false);
   });
+
+  it('should check every command of a compound command against patterns', async () => {
+    const config = {
+      getCoreTools: () => ['run_shell_command(git status *)'],
+      getExcludeTools: () => ['run_shell_command(rm -rf *)'],
+      getShellPty: () => false,
+    } as unknown as Config;
+    const shellTool = new ShellTool(config);
+
+    expect(shellTool.isCommandAllowed('git status --short')).toBe(true);
+    expect(shellTool.isCommandAllowed('git status && git push --force')).toBe(
+      false,
+    );
+    expect(shellTool.isCommandAllowed('git status; echo $(rm -rf /)')).toBe(
+      false,
+    );
+    expect(shellTool.isCommandAllowed('X=1 rm -rf /')).toBe(false);
+  });
+
+  it('should ask only for commands that are not allowed yet and remember approvals', async () => {
+    const allowedTools = ['run_shell_command(git status *)'];
+    const config = {
+      getCoreTools: () => undefined,
+      getExcludeTools: () => undefined,
+      getShellPty: () => false,
+      getAllowedTools: () => allowedTools,
+      addAllowedTool: vi.fn((entry: string) => allowedTools.push(entry)),
+    } as unknown as Config;
+    const shellTool = new ShellTool(config);
+    const signal = new AbortController().signal;
+
+    expect(
+      await shellTool.shouldConfirmExecute({ command: 'git status' }, signal),
+    ).toBe(false);
+    const details = await shellTool.shouldConfirmExecute(
+      { command: 'git status && npm test' },
+      signal,
+    );
+    expect(details).toMatchObject({
+      approvalPatterns: ['npm test'],
+      subcommandPatterns: ['npm test *'],
+    });
+    if (details) {
+      await details.onConfirm(ToolConfirmationOutcome.ProceedAlways);
+    }
+
+    expect(config.addAllowedTool).toHaveBeenCalledWith(
+      'run_shell_command(npm test)',
+    );
+    expect(
+      await shellTool.shouldConfirmExecute({ command: 'npm test' }, signal),
+    ).toBe(false);
+    const watchDetails = await shellTool.shouldConfirmExecute(
+      { command: 'npm test -- --watch' },
+      signal,
+    );
+    expect(watchDetails).not.toBe(false);
+    if (watchDetails) {
+      await watchDetails.onConfirm(
+        ToolConfirmationOutcome.ProceedAlwaysSubcommand,
+      );
+    }
+
+    expect(config.addAllowedTool).toHaveBeenCalledWith(
+      'run_shell_command(npm test *)',
+    );
+    expect(
+      await shellTool.shouldConfirmExecute(
+        { command: 'npm test -- --coverage' },
+        signal,
+      ),
+    ).toBe(false);
+    expect(
+      await shellTool.shouldConfirmExecute({ command: 'npm publish' }, signal),
+    ).not.toBe(false);
+  });
+
+  it('should not offer wider approvals for commands without subcommands', async () => {
+    const config = {
+      getCoreTools: () => undefined,
+      getExcludeTools: () => undefined,
+      getShellPty: () => false,
+      getAllowedTools: () => [],
+      addAllowedTool: vi.fn(),
+    } as unknown as Config;
+    const shellTool = new ShellTool(config);
+
+    const details = await shellTool.shouldConfirmExecute(
+      { command: 'rm build' },
+      new AbortController().signal,
+    );
+
+    expect(details).toMatchObject({ approvalPatterns: ['rm build'] });
+    expect(details).not.toHaveProperty('subcommandPatterns', expect.anything());
+  });
+
+  it.skipIf(!isPtyAvailable())(
+    'should run commands in a terminal the user can type into',
+    async () => {
+      const ptyService = new PtyService();
+      const config = {
+        getCoreTools: () => undefined,
+        getExcludeTools: () => undefined,
+        getShellPty: () => true,
+        getPtyService: () => ptyService,
+        getTargetDir: () => os.tmpdir(),
+        getDebugMode: () => false,
+      } as unknown as Config;
+      const shellTool = new ShellTool(config);
+      const updateOutput = vi.fn();
+
+      const result = shellTool.execute(
+        {
+          command:
+            '[ -t 1 ] && echo tty; read -p "answer? " answer; echo got $answer; exit 4',
+        },
+        new AbortController().signal,
+        updateOutput,
+      );
+      await vi.waitFor(() =>
+        expect(updateOutput).toHaveBeenCalledWith(
+          expect.stringContaining('answer?'),
+        ),
+      );
+      ptyService.getActiveSession()!.write('yes\r');
+      const { llmContent } = await result;
+
+      expect(llmContent).toContain('Output: tty\nanswer? yes\ngot yes');
+      expect(llmContent).toContain('Exit Code: 4');
+      expect(ptyService.getActiveSession()).toBeUndefined();
+    },
+  );
 });
@@ -19,19 +19,52 @@ import {
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { getErrorMessage } from '../utils/errors.js';
 import stripAnsi from 'strip-ansi';
+import { formatShellJob, ShellJobInfo } from '../services/shellJobService.js';
+import { KillJobTool, ListJobsTool, ReadJobOutputTool } from './shell-jobs.js';
+import { PtySession } from '../services/ptyService.js';
+import {
+  getShellApprovalPattern,
+  getShellSubcommandPattern,
+  matchesShellCommandPattern,
+  splitShellCommand,
+} from '../utils/shellCommands.js';
 
 export interface ShellToolParams {
   command: string;
   description?: string;
   directory?: string;
+  background?: boolean;
+  job_name?: string;
 }
 import { spawn } from 'child_process';
 
 const OUTPUT_UPDATE_INTERVAL_MS = 1000;
 
+function normalize(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+function withoutAssignments(command: string): string {
+  return command.replace(/^(\w+=\S*\s+)+/, '');
+}
+
+/**
+ * Returns the command patterns of `ShellTool(<pattern>)` and
+ * `run_shell_command(<pattern>)` entries in a tool list.
+ */
+function extractCommandPatterns(tools: string[]): string[] {
+  return tools.flatMap((tool) => {
+    for (const name of [ShellTool.name, ShellTool.Name]) {
+      if (tool.startsWith(`${name}(`) && tool.endsWith(')')) {
+        return [normalize(tool.slice(name.length + 1, -1))];
+      }
+    }
+    return [];
+  });
+}
+
 export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
   static Name: string = 'run_shell_command';
-  private whitelist: Set<string> = new Set();
 
   constructor(private readonly config: Config) {
     super(
@@ -49,7 +82,15 @@ Error: Error or \`(none)\` if no error was reported for the subprocess.
 Exit Code: Exit code or \`(none)\` if terminated by signal.
 Signal: Signal number or \`(none)\` if no signal was received.
 Background PIDs: List of background processes started or \`(none)\`.
-Process Group PGID: Process group started or \`(none)\``,
+Process Group PGID: Process group started or \`(none)\`
+
+Long-running commands such as dev servers and watchers should be started with \`background: true\` instead of \`&\`. This starts the command as a background job and returns its job id right away; use ${ListJobsTool.Name}, ${ReadJobOutputTool.Name} and ${KillJobTool.Name} to check on it later. Background jobs are stopped when the session ends.${
+        config.getShellPty()
+          ? `
+
+Commands run in a pseudo-terminal, so programs behave as they would in an interactive terminal and stdout and stderr are combined into a single Output. The user can type into the terminal while the command runs, but prefer non-interactive flags over commands that wait for input.`
+          : ''
+      }`,
       {
         type: 'object',
         properties: {
@@ -67,6 +108,16 @@ Process Group PGID: Process group started or \`(none)\``,
             description:
               '(OPTIONAL) Directory to run the command in, if not the project root directory. Must be relative to the project root directory and must already exist.',
           },
+          background: {
+            type: 'boolean',
+            description:
+              '(OPTIONAL) Run the command as a background job and return immediately instead of waiting for it to exit.',
+          },
+          job_name: {
+            type: 'string',
+            description:
+              '(OPTIONAL) Name for the background job, e.g. `dev-server`, that can be used instead of its id. Only used with `background`.',
+          },
         },
         required: ['command'],
       },
@@ -82,6 +133,9 @@ Process Group PGID: Process group started or \`(none)\``,
     if (params.directory) {
       description += ` [in ${params.directory}]`;
     }
+    if (params.background) {
+      description += ' [background]';
+    }
     // append optional (description), replacing any line breaks with spaces
     if (params.description) {
       description += ` (${params.description.replace(/\n/g, ' ')})`;
@@ -98,22 +152,13 @@ Process Group PGID: Process group started or \`(none)\``,
       .pop(); // take last part and return command root (or undefined if previous line was empty)
   }
 
+  /**
+   * Checks the command against the `ShellTool(...)`/`run_shell_command(...)`
+   * patterns in `excludeTools` and `coreTools`. Every command a compound
+   * command runs is checked: it is blocked if any of them is excluded, and in
+   * strict allow-list mode it is allowed only if all of them are listed.
+   */
   isCommandAllowed(command: string): boolean {
-    const normalize = (cmd: string) => cmd.trim().replace(/\s+/g, ' ');
-
-    const extractCommands = (tools: string[]): string[] =>
-      tools.flatMap((tool) => {
-        if (tool.startsWith(`${ShellTool.name}(`) && tool.endsWith(')')) {
-          return [normalize(tool.slice(ShellTool.name.length + 1, -1))];
-        } else if (
-          tool.startsWith(`${ShellTool.Name}(`) &&
-          tool.endsWith(')')
-        ) {
-          return [normalize(tool.slice(ShellTool.Name.length + 1, -1))];
-        }
-        return [];
-      });
-
     const coreTools = this.config.getCoreTools() || [];
     const excludeTools = this.config.getExcludeTools() || [];
 
@@ -124,10 +169,16 @@ Process Group PGID: Process group started or \`(none)\``,
       return false;
     }
 
-    const blockedCommands = extractCommands(excludeTools);
-    const normalizedCommand = normalize(command);
-
-    if (blockedCommands.includes(normalizedCommand)) {
+    const commands = splitShellCommand(command);
+    const blockedPatterns = extractCommandPatterns(excludeTools);
+    const isBlocked = (cmd: string) =>
+      blockedPatterns.some(
+        (pattern) =>
+          matchesShellCommandPattern(cmd, pattern) ||
+          // `FOO=1 rm -rf /` is still `rm -rf /`
+          matchesShellCommandPattern(withoutAssignments(cmd), pattern),
+      );
+    if ([command, ...commands].some(isBlocked)) {
       return false;
     }
 
@@ -148,8 +199,17 @@ Process Group PGID: Process group started or \`(none)\``,
       }
 
       // Otherwise, we are in strict allow-list mode.
-      const allowedCommands = extractCommands(coreTools);
-      return allowedCommands.includes(normalizedCommand);
+      const allowedPatterns = extractCommandPatterns(coreTools);
+      return (
+        // a compound command listed verbatim is allowed as a whole
+        allowedPatterns.includes(normalize(command)) ||
+        (commands.length > 0 &&
+          commands.every((cmd) =>
+            allowedPatterns.some((pattern) =>
+              matchesShellCommandPattern(cmd, pattern),
+            ),
+          ))
+      );
     }
 
     return true;
@@ -196,23 +256,83 @@ Process Group PGID: Process group started or \`(none)\``,
       return false; // skip confirmation, execute call will fail immediately
     }
     const rootCommand = this.getCommandRoot(params.command)!; // must be non-empty string post-validation
-    if (this.whitelist.has(rootCommand)) {
-      return false; // already approved and whitelisted
+    const allowedTools = this.config.getAllowedTools();
+    if (
+      allowedTools.includes(ShellTool.name) ||
+      allowedTools.includes(ShellTool.Name)
+    ) {
+      return false; // every command is allowed
     }
+    const allowedPatterns = extractCommandPatterns(allowedTools);
+    const unapproved = splitShellCommand(params.command).filter(
+      (cmd) =>
+        !allowedPatterns.some((pattern) =>
+          matchesShellCommandPattern(cmd, pattern),
+        ),
+    );
+    if (unapproved.length === 0) {
+      return false; // already approved
+    }
+    const approvalPatterns = [
+      ...new Set(unapproved.map(getShellApprovalPattern)),
+    ];
+    const subcommandPatterns = [
+      ...new Set(
+        unapproved.map(
+          (cmd) =>
+            getShellSubcommandPattern(cmd) ?? getShellApprovalPattern(cmd),
+        ),
+      ),
+    ];
+    const hasSubcommandPatterns = subcommandPatterns.some(
+      (pattern) => !approvalPatterns.includes(pattern),
+    );
     const confirmationDetails: ToolExecuteConfirmationDetails = {
       type: 'exec',
       title: 'Confirm Shell Command',
       command: params.command,
       rootCommand,
+      approvalPatterns,
+      subcommandPatterns: hasSubcommandPatterns
+        ? subcommandPatterns
+        : undefined,
       onConfirm: async (outcome: ToolConfirmationOutcome) => {
-        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
-          this.whitelist.add(rootCommand);
+        const patterns =
+          outcome === ToolConfirmationOutcome.ProceedAlways
+            ? approvalPatterns
+            : outcome === ToolConfirmationOutcome.ProceedAlwaysSubcommand
+              ? subcommandPatterns
+              : [];
+        for (const pattern of patterns) {
+          this.config.addAllowedTool(`${ShellTool.Name}(${pattern})`);
         }
       },
     };
     return confirmationDetails;
   }
 
+  private startBackgroundJob(params: ShellToolParams): ToolResult {
+    let job: ShellJobInfo;
+    try {
+      job = this.config
+        .getShellJobService()
+        .start(params.command, params.job_name, params.directory);
+    } catch (e) {
+      return {
+        llmContent: `Could not start background job: ${getErrorMessage(e)}`,
+        returnDisplay: `Error: ${getErrorMessage(e)}`,
+      };
+    }
+    return {
+      llmContent: [
+        `Started background job ${job.id} (${job.name}): ${params.command}`,
+        `PID: ${job.pid ?? '(none)'}`,
+        `Use ${ReadJobOutputTool.Name} to read its output and ${KillJobTool.Name} to stop it.`,
+      ].join('\n'),
+      returnDisplay: formatShellJob(job),
+    };
+  }
+
   async execute(
     params: ShellToolParams,
     abortSignal: AbortSignal,
@@ -236,7 +356,12 @@ Process Group PGID: Process group started or \`(none)\``,
       };
     }
 
+    if (params.background) {
+      return this.startBackgroundJob(params);
+    }
+
     const isWindows = os.platform() === 'win32';
+    const usePty = !isWindows && this.config.getShellPty();
     const tempFileName = `shell_pgrep_${crypto
       .randomBytes(6)
       .toString('hex')}.tmp`;
@@ -249,9 +374,21 @@ Process Group PGID: Process group started or \`(none)\``,
           // wrap command to append subprocess pids (via pgrep) to temporary file
           let command = params.command.trim();
           if (!command.endsWith('&')) command += ';';
-          return `{ ${command} }; __code=$?; pgrep -g 0 >${tempFilePath} 2>&1; exit $__code;`;
+          // in a pty the shell is not our child, so it reports its own pid first
+          const pgrep = usePty ? '{ echo $$; pgrep -g 0; }' : 'pgrep -g 0';
+          return `{ ${command} }; __code=$?; ${pgrep} >${tempFilePath} 2>&1; exit $__code;`;
         })();
 
+    if (usePty) {
+      return this.executeInPty(
+        params,
+        command,
+        tempFilePath,
+        abortSignal,
+        updateOutput,
+      );
+    }
+
     // spawn command in specified directory (or project root if not specified)
     const shell = isWindows
       ? spawn('cmd.exe', ['/c', command], {
@@ -356,31 +493,10 @@ Process Group PGID: Process group started or \`(none)\``,
       abortSignal.removeEventListener('abort', abortHandler);
     }
 
-    // parse pids (pgrep output) from temporary file and remove it
-    const backgroundPIDs: number[] = [];
-    if (os.platform() !== 'win32') {
-      if (fs.existsSync(tempFilePath)) {
-        const pgrepLines = fs
-          .readFileSync(tempFilePath, 'utf8')
-          .split('\n')
-          .filter(Boolean);
-        for (const line of pgrepLines) {
-          if (!/^\d+$/.test(line)) {
-            console.error(`pgrep: ${line}`);
-          }
-          const pid = Number(line);
-          // exclude the shell subprocess pid
-          if (pid !== shell.pid) {
-            backgroundPIDs.push(pid);
-          }
-        }
-        fs.unlinkSync(tempFilePath);
-      } else {
-        if (!abortSignal.aborted) {
-          console.error('missing pgrep output');
-        }
-      }
-    }
+    const backgroundPIDs =
+      os.platform() === 'win32'
+        ? []
+        : this.readBackgroundPIDs(tempFilePath, shell.pid, abortSignal);
 
     let llmContent = '';
     if (abortSignal.aborted) {
@@ -429,4 +545,123 @@ Process Group PGID: Process group started or \`(none)\``,
 
     return { llmContent, returnDisplay: returnDisplayMessage };
   }
+
+  /**
+   * Parses the pids (pgrep output) written by the command wrapper, excluding
+   * the shell itself, and removes the temporary file.
+   */
+  private readBackgroundPIDs(
+    tempFilePath: string,
+    shellPid: number | undefined,
+    abortSignal: AbortSignal,
+  ): number[] {
+    const backgroundPIDs: number[] = [];
+    if (fs.existsSync(tempFilePath)) {
+      const pgrepLines = fs
+        .readFileSync(tempFilePath, 'utf8')
+        .split('\n')
+        .filter(Boolean);
+      for (const line of pgrepLines) {
+        if (!/^\d+$/.test(line)) {
+          console.error(`pgrep: ${line}`);
+        }
+        const pid = Number(line);
+        // exclude the shell subprocess pid
+        if (pid !== shellPid) {
+          backgroundPIDs.push(pid);
+        }
+      }
+      fs.unlinkSync(tempFilePath);
+    } else {
+      if (!abortSignal.aborted) {
+        console.error('missing pgrep output');
+      }
+    }
+    return backgroundPIDs;
+  }
+
+  /**
+   * Runs the (wrapped) command in a pseudo-terminal. The live screen is
+   * streamed to the UI, where the user can focus it to type input.
+   */
+  private async executeInPty(
+    params: ShellToolParams,
+    command: string,
+    tempFilePath: string,
+    abortSignal: AbortSignal,
+    updateOutput?: (chunk: string) => void,
+  ): Promise<ToolResult> {
+    const session: PtySession = this.config
+      .getPtyService()
+      .start(
+        command,
+        path.resolve(this.config.getTargetDir(), params.directory || ''),
+      );
+    if (updateOutput) {
+      session.on('output', () => updateOutput(session.screen.toString(true)));
+    }
+
+    const abortHandler = () => session.kill();
+    abortSignal.addEventListener('abort', abortHandler);
+    let status;
+    try {
+      status = await session.exited;
+    } finally {
+      abortSignal.removeEventListener('abort', abortHandler);
+    }
+    if (status.error) {
+      // remove wrapper from user's command in error message
+      status.error.message = status.error.message.replace(
+        command,
+        params.command,
+      );
+    }
+
+    // the wrapper writes the shell pid (which leads the process group) first
+    const [shellPid, ...pids] = this.readBackgroundPIDs(
+      tempFilePath,
+      undefined,
+      abortSignal,
+    );
+    const backgroundPIDs = pids.filter((pid) => pid !== shellPid);
+    const output = session.screen.toString();
+
+    let llmContent = '';
+    if (abortSignal.aborted) {
+      llmContent = 'Command was cancelled by user before it could complete.';
+      if (output.trim()) {
+        llmContent += ` Below is the terminal output before it was cancelled:\n${output}`;
+      } else {
+        llmContent += ' There was no output before it was cancelled.';
+      }
+    } else {
+      llmContent = [
+        `Command: ${params.command}`,
+        `Directory: ${params.directory || '(root)'}`,
+        `Output: ${output || '(empty)'}`,
+        `Error: ${status.error ?? '(none)'}`,
+        `Exit Code: ${status.exitCode ?? '(none)'}`,
+        `Signal: ${status.signal ?? '(none)'}`,
+        `Background PIDs: ${backgroundPIDs.length ? backgroundPIDs.join(', ') : '(none)'}`,
+        `Process Group PGID: ${shellPid ?? '(none)'}`,
+      ].join('\n');
+    }
+
+    let returnDisplayMessage = '';
+    if (this.config.getDebugMode()) {
+      returnDisplayMessage = llmContent;
+    } else if (output.trim()) {
+      returnDisplayMessage = session.screen.toString(true);
+    } else if (abortSignal.aborted) {
+      returnDisplayMessage = 'Command cancelled by user.';
+    } else if (status.signal) {
+      returnDisplayMessage = `Command terminated by signal: ${status.signal}`;
+    } else if (status.error) {
+      returnDisplayMessage = `Command failed: ${getErrorMessage(status.error)}`;
+    } else if (status.exitCode !== null && status.exitCode !== 0) {
+      returnDisplayMessage = `Command exited with code: ${status.exitCode}`;
+    }
+
+    return { llmContent, returnDisplay: returnDisplayMessage };
+  }
 }
@@ -43,6 +43,12 @@ export interface Tool<
    */
   canUpdateOutput: boolean;
 
+  /**
+   * Whether the tool only reads state and has no side effects. Consecutive
+   * read-only calls may be executed concurrently.
+   */
+  isReadOnly: boolean;
+
   /**
    * Validates the parameters for the tool
    * Should be called from both `shouldConfirmExecute` and `execute`
@@ -52,6 +58,14 @@ export interface Tool<
    */
   validateToolParams(params: TParams): string | null;
 
+  /**
+   * Returns the absolute paths of the files a call may create, change or
+   * delete, so that its changes can be undone. Tools that do not write files
+   * leave this out.
+   * @param params Parameters for the tool execution
+   */
+  getModifiedPaths?(params: TParams): string[];
+
   /**
    * Gets a pre-execution description of the tool operation
    * @param params Parameters for the tool execution
@@ -108,6 +122,12 @@ export abstract class BaseTool<
     readonly canUpdateOutput: boolean = false,
   ) {}
 
+  /**
+   * Whether the tool only reads state and has no side effects. Tools that
+   * qualify override this.
+   */
+  readonly isReadOnly: boolean = false;
+
   /**
    * Function declaration schema computed from name, description, and parameterSchema
    */
@@ -211,6 +231,13 @@ export interface ToolExecuteConfirmationDetails {
   onConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>;
   command: string;
   rootCommand: string;
+  /** What "allow always" approves, e.g. `git status`, if not `rootCommand`. */
+  approvalPatterns?: string[];
+  /**
+   * Wider patterns, e.g. `git status *`, approved by choosing
+   * `ProceedAlwaysSubcommand`. Only set when they differ from the exact ones.
+   */
+  subcommandPatterns?: string[];
 }
 
 export interface ToolMcpConfirmationDetails {
@@ -241,6 +268,7 @@ export enum ToolConfirmationOutcome {
   ProceedAlways = 'proceed_always',
   ProceedAlwaysServer = 'proceed_always_server',
   ProceedAlwaysTool = 'proceed_always_tool',
+  ProceedAlwaysSubcommand = 'proceed_always_subcommand',
   ModifyWithEditor = 'modify_with_editor',
   Cancel = 'cancel',
 }
@@ -62,6 +62,7 @@ export interface WebFetchToolParams {
  */
 export class WebFetchTool extends BaseTool<WebFetchToolParams, ToolResult> {
   static readonly Name: string = 'web_fetch';
+  readonly isReadOnly = true;
 
   constructor(private readonly config: Config) {
     super(
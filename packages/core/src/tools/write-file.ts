@@ -119,7 +119,7 @@ export class WriteFileTool
       return 'Parameters failed schema validation.';
     }
     let filePath = params.file_path;
-    
+
     // Auto-convert relative paths to absolute paths based on target directory
     if (!path.isAbsolute(filePath)) {
       const targetDir = this.config.getTargetDir();
@@ -149,6 +149,10 @@ export class WriteFileTool
     return null;
   }
 
+  getModifiedPaths(params: WriteFileToolParams): string[] {
+    return this.validateToolParams(params) ? [] : [params.file_path];
+  }
+
   getDescription(params: WriteFileToolParams): string {
     if (!params.file_path || !params.content) {
       return `Model did not provide valid parameters for write file tool`;
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Type } from '@google/genai';
+import {
+  findSchemaViolation,
+  parseJsonResponse,
+  toJsonSchema,
+} from './jsonSchema.js';
+
+const EDIT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    corrected_string: { type: Type.STRING, nullable: true },
+    occurrences: { type: Type.INTEGER },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING }, minItems: '1' },
+  },
+  required: ['corrected_string'],
+  propertyOrdering: ['corrected_string', 'occurrences', 'tags'],
+};
+
+describe('toJsonSchema', () => {
+  it('should convert Gemini schemas to JSON Schema', () => {
+    expect(toJsonSchema(EDIT_SCHEMA)).toEqual({
+      type: 'object',
+      properties: {
+        corrected_string: { type: ['string', 'null'] },
+        occurrences: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      },
+      required: ['corrected_string'],
+    });
+  });
+
+  it('should leave JSON Schemas unchanged', () => {
+    const schema = {
+      type: 'object',
+      properties: { name: { type: 'string', description: 'A name' } },
+    };
+    expect(toJsonSchema(schema)).toEqual(schema);
+  });
+});
+
+describe('findSchemaViolation', () => {
+  it('should accept matching data', () => {
+    expect(
+      findSchemaViolation(EDIT_SCHEMA, {
+        corrected_string: null,
+        occurrences: 2,
+        tags: ['a'],
+      }),
+    ).toBeNull();
+  });
+
+  it('should report missing required properties', () => {
+    expect(findSchemaViolation(EDIT_SCHEMA, { occurrences: 1 })).toBe(
+      '$ is missing required property "corrected_string"',
+    );
+  });
+
+  it('should report nested type and enum mismatches', () => {
+    expect(
+      findSchemaViolation(EDIT_SCHEMA, {
+        corrected_string: 'x',
+        occurrences: 1.5,
+      }),
+    ).toBe('$.occurrences should be of type integer, got number');
+    expect(
+      findSchemaViolation(EDIT_SCHEMA, { corrected_string: 'x', tags: [3] }),
+    ).toBe('$.tags[0] should be of type string, got number');
+    expect(
+      findSchemaViolation(
+        { type: Type.STRING, enum: ['user', 'model'] },
+        'assistant',
+      ),
+    ).toBe('$ should be one of ["user","model"]');
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('should parse plain JSON', () => {
+    expect(parseJsonResponse(' {"a": 1} ')).toEqual({ a: 1 });
+  });
+
+  it('should unwrap Markdown code fences', () => {
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  it('should ignore prose around the JSON value', () => {
+    expect(
+      parseJsonResponse(
+        'Sure! Here is the answer: {"a": [1, 2]} Hope it helps.',
+      ),
+    ).toEqual({ a: [1, 2] });
+  });
+
+  it('should throw when no JSON can be found', () => {
+    expect(() => parseJsonResponse('I cannot answer that.')).toThrow();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+// Gemini-specific keys that have no JSON Schema equivalent.
+const GEMINI_ONLY_KEYS = new Set(['nullable', 'propertyOrdering', 'example']);
+
+// Gemini encodes these numeric constraints as int64 strings.
+const NUMERIC_KEYS = new Set([
+  'minItems',
+  'maxItems',
+  'minLength',
+  'maxLength',
+  'minProperties',
+  'maxProperties',
+]);
+
+/**
+ * Converts a Gemini `Schema` (upper-case `Type` values, `nullable`, string
+ * encoded limits) into a plain JSON Schema that non-Gemini backends such as
+ * Ollama's `format` field understand. Plain JSON Schemas pass through
+ * unchanged.
+ */
+export function toJsonSchema(schema: unknown): JsonSchema {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return {};
+  }
+
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (value === undefined || GEMINI_ONLY_KEYS.has(key)) {
+      continue;
+    }
+    if (key === 'type' && typeof value === 'string') {
+      if (value !== 'TYPE_UNSPECIFIED') {
+        result.type = value.toLowerCase();
+      }
+    } else if (key === 'properties' && typeof value === 'object') {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, prop]) => [
+          name,
+          toJsonSchema(prop),
+        ]),
+      );
+    } else if (key === 'items') {
+      result.items = toJsonSchema(value);
+    } else if (key === 'anyOf' && Array.isArray(value)) {
+      result.anyOf = value.map((item) => toJsonSchema(item));
+    } else if (NUMERIC_KEYS.has(key) && typeof value === 'string') {
+      result[key] = Number(value);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  const nullable = (schema as { nullable?: boolean }).nullable;
+  if (nullable && typeof result.type === 'string') {
+    result.type = [result.type, 'null'];
+  }
+  return result;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function matchesType(expected: string, value: unknown): boolean {
+  const actual = typeOf(value);
+  if (expected === 'integer') {
+    return Number.isInteger(value);
+  }
+  return expected === actual;
+}
+
+/**
+ * Checks `data` against the subset of JSON Schema that structured output
+ * schemas use (type, required, properties, items, enum, anyOf).
+ *
+ * @returns A description of the first violation found, or null when valid.
+ */
+export function findSchemaViolation(
+  schema: unknown,
+  data: unknown,
+  path = '$',
+): string | null {
+  const jsonSchema = toJsonSchema(schema);
+
+  if (jsonSchema.type !== undefined) {
+    const types = Array.isArray(jsonSchema.type)
+      ? (jsonSchema.type as string[])
+      : [jsonSchema.type as string];
+    if (!types.some((type) => matchesType(type, data))) {
+      return `${path} should be of type ${types.join(' or ')}, got ${typeOf(data)}`;
+    }
+  }
+
+  if (
+    Array.isArray(jsonSchema.enum) &&
+    !jsonSchema.enum.some((option) => option === data)
+  ) {
+    return `${path} should be one of ${JSON.stringify(jsonSchema.enum)}`;
+  }
+
+  if (Array.isArray(jsonSchema.anyOf)) {
+    const matches = jsonSchema.anyOf.some(
+      (option) => findSchemaViolation(option, data, path) === null,
+    );
+    if (!matches) {
+      return `${path} does not match any of the allowed schemas`;
+    }
+  }
+
+  if (typeOf(data) === 'object') {
+    const record = data as Record<string, unknown>;
+    if (Array.isArray(jsonSchema.required)) {
+      for (const field of jsonSchema.required as string[]) {
+        if (record[field] === undefined) {
+          return `${path} is missing required property "${field}"`;
+        }
+      }
+    }
+    const properties = (jsonSchema.properties ?? {}) as Record<string, unknown>;
+    for (const [name, propertySchema] of Object.entries(properties)) {
+      if (record[name] !== undefined) {
+        const violation = findSchemaViolation(
+          propertySchema,
+          record[name],
+          `${path}.${name}`,
+        );
+        if (violation) {
+          return violation;
+        }
+      }
+    }
+  }
+
+  if (Array.isArray(data) && jsonSchema.items) {
+    for (let i = 0; i < data.length; i++) {
+      const violation = findSchemaViolation(
+        jsonSchema.items,
+        data[i],
+        `${path}[${i}]`,
+      );
+      if (violation) {
+        return violation;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses a model's JSON answer, tolerating the Markdown code fences and
+ * surrounding prose that smaller models tend to add.
+ */
+export function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    const fenced = trimmed.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+    if (fenced) {
+      return JSON.parse(fenced[1]);
+    }
+    const start = trimmed.search(/[{[]/);
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyHunks, getCreatedContent, parsePatch } from './patch.js';
+
+describe('parsePatch', () => {
+  it('should parse a git diff with modified, created, deleted and renamed files', () => {
+    const files = parsePatch(`Rename helpers
+
+diff --git a/src/a.ts b/src/a.ts
+index 83db48f..bf269f4 100644
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,3 +1,3 @@
+ one
+-two
++TWO
+ three
+diff --git a/src/new.ts b/src/new.ts
+new file mode 100644
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,2 @@
++first
++second
+diff --git a/src/old.ts b/src/old.ts
+deleted file mode 100644
+--- a/src/old.ts
++++ /dev/null
+@@ -1 +0,0 @@
+-gone
+diff --git a/src/from.ts b/src/to.ts
+similarity index 100%
+rename from src/from.ts
+rename to src/to.ts
+`);
+
+    expect(
+      files.map(({ oldPath, newPath, hunks }) => [
+        oldPath,
+        newPath,
+        hunks.length,
+      ]),
+    ).toEqual([
+      ['src/a.ts', 'src/a.ts', 1],
+      [null, 'src/new.ts', 1],
+      ['src/old.ts', null, 1],
+      ['src/from.ts', 'src/to.ts', 0],
+    ]);
+    expect(files[0].hunks[0]).toEqual({
+      header: '@@ -1,3 +1,3 @@',
+      oldStart: 1,
+      lines: [' one', '-two', '+TWO', ' three'],
+    });
+    expect(getCreatedContent(files[1])).toBe('first\nsecond\n');
+  });
+
+  it('should parse a plain unified diff and ignore wrong line counts', () => {
+    const files = parsePatch(`--- a.txt\t2025-01-01 00:00:00
++++ a.txt\t2025-01-02 00:00:00
+@@ -1,1 +1,1 @@
+ a
+
+-b
++c
+`);
+    expect(files).toEqual([
+      {
+        oldPath: 'a.txt',
+        newPath: 'a.txt',
+        hunks: [
+          {
+            header: '@@ -1,1 +1,1 @@',
+            oldStart: 1,
+            lines: [' a', ' ', '-b', '+c'],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should reject a hunk without a file', () => {
+    expect(() => parsePatch('@@ -1 +1 @@\n-a\n+b')).toThrow(
+      'Unexpected hunk header',
+    );
+  });
+});
+
+describe('applyHunks', () => {
+  const hunks = (patch: string) =>
+    parsePatch(`--- f\n+++ f\n${patch}`)[0].hunks;
+
+  it('should apply hunks that moved since the patch was made', () => {
+    const content = 'added\nadded\none\ntwo\nthree\nfour\nfive\n';
+    const result = applyHunks(
+      content,
+      hunks(`@@ -1,3 +1,3 @@
+ one
+-two
++2
+ three
+@@ -4,2 +4,2 @@
+ four
+-five
++5
+`),
+    );
+    expect(result).toEqual({
+      content: 'added\nadded\none\n2\nthree\nfour\n5\n',
+      applied: 2,
+      rejected: [],
+    });
+  });
+
+  it('should ignore whitespace differences and keep the file text for context', () => {
+    const result = applyHunks(
+      '  if (x) {\n    run();\n  }\n',
+      hunks(`@@ -1,3 +1,3 @@
+ if (x) {
+-  run();
++  runAll();
+ }
+`),
+    );
+    expect(result.content).toBe('  if (x) {\n  runAll();\n  }\n');
+  });
+
+  it('should drop context lines that do not match', () => {
+    const result = applyHunks(
+      'a\nb\nc\nd\ne\n',
+      hunks(`@@ -1,5 +1,5 @@
+ x
+ b
+-c
++C
+ d
+ y
+`),
+    );
+    expect(result.content).toBe('a\nb\nC\nd\ne\n');
+    expect(result.applied).toBe(1);
+  });
+
+  it('should reject hunks that do not match and apply the others', () => {
+    const result = applyHunks(
+      'a\nb\nc\n',
+      hunks(`@@ -1,1 +1,1 @@
+-missing
++found
+@@ -3,1 +3,1 @@
+-c
++C
+`),
+    );
+    expect(result.content).toBe('a\nb\nC\n');
+    expect(result.applied).toBe(1);
+    expect(result.rejected).toEqual([
+      {
+        hunk: expect.objectContaining({ header: '@@ -1,1 +1,1 @@' }),
+        reason: 'the lines it changes were not found in the file',
+      },
+    ]);
+  });
+
+  it('should insert lines where a hunk without context says', () => {
+    const result = applyHunks(
+      'a\nb\n',
+      hunks(`@@ -1,0 +2,1 @@
++inserted
+`),
+    );
+    expect(result.content).toBe('a\ninserted\nb\n');
+  });
+});
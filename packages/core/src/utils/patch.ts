@@ -0,0 +1,272 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Context lines that may be dropped from each end of a hunk that does not
+// match otherwise, as with the default fuzz factor of GNU patch.
+const MAX_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export interface PatchHunk {
+  /** The `@@ ... @@` line. */
+  header: string;
+  /** 1-based line in the original file where the hunk starts. */
+  oldStart: number;
+  /** The hunk's lines, each starting with ' ', '-' or '+'. */
+  lines: string[];
+}
+
+export interface FilePatch {
+  /** The file before the change, null when the patch creates it. */
+  oldPath: string | null;
+  /** The file after the change, null when the patch deletes it. */
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export interface HunkRejection {
+  hunk: PatchHunk;
+  reason: string;
+}
+
+export interface AppliedHunks {
+  content: string;
+  applied: number;
+  rejected: HunkRejection[];
+}
+
+/**
+ * Parses a unified diff, optionally with git headers, into the changes it
+ * makes to each file. Text around the patch, such as a commit message, is
+ * ignored. Line counts in hunk headers are not trusted, since hand-written
+ * patches often get them wrong: a hunk ends where the next hunk or file
+ * starts.
+ * @throws if the patch contains a hunk that does not belong to a file.
+ */
+export function parsePatch(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let file: FilePatch | undefined;
+  // whether the `---`/`+++` lines of the current file are still to come
+  let awaitingPaths = false;
+  let hunk: PatchHunk | undefined;
+
+  const startFile = (oldPath: string | null, newPath: string | null) => {
+    file = { oldPath, newPath, hunks: [] };
+    files.push(file);
+    hunk = undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const gitHeader = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    const isFileHeader =
+      line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ');
+
+    if (gitHeader) {
+      startFile(gitHeader[1], gitHeader[2]);
+      awaitingPaths = true;
+    } else if (isFileHeader) {
+      const oldPath = parsePath(line.slice(4));
+      const newPath = parsePath(lines[i + 1].slice(4));
+      if (file && awaitingPaths) {
+        // the git header already named the files, but /dev/null is only
+        // given here
+        file.oldPath = oldPath === null ? null : file.oldPath;
+        file.newPath = newPath === null ? null : file.newPath;
+      } else {
+        startFile(oldPath, newPath);
+      }
+      awaitingPaths = false;
+      i++;
+    } else if (line.startsWith('@@')) {
+      const match = line.match(HUNK_HEADER);
+      if (!file || !match) {
+        throw new Error(`Unexpected hunk header: ${line}`);
+      }
+      hunk = { header: line, oldStart: parseInt(match[1], 10), lines: [] };
+      file.hunks.push(hunk);
+      awaitingPaths = false;
+    } else if (file && awaitingPaths && !hunk) {
+      applyGitExtendedHeader(file, line);
+    } else if (hunk && /^[ +\-\\]/.test(line)) {
+      if (!line.startsWith('\\')) {
+        hunk.lines.push(line);
+      }
+    } else if (hunk && line === '') {
+      // blank context lines often lose their leading space
+      hunk.lines.push(' ');
+    } else {
+      hunk = undefined;
+    }
+  }
+
+  for (const { hunks } of files) {
+    for (const { lines } of hunks) {
+      // trailing blank lines are the end of the patch, not context
+      while (lines.length > 0 && lines[lines.length - 1] === ' ') {
+        lines.pop();
+      }
+    }
+  }
+  return files;
+}
+
+function applyGitExtendedHeader(file: FilePatch, line: string) {
+  if (line.startsWith('new file mode')) {
+    file.oldPath = null;
+  } else if (line.startsWith('deleted file mode')) {
+    file.newPath = null;
+  } else if (line.startsWith('rename from ')) {
+    file.oldPath = line.slice('rename from '.length);
+  } else if (line.startsWith('rename to ')) {
+    file.newPath = line.slice('rename to '.length);
+  }
+}
+
+/** The path in a `---` or `+++` line, without timestamp or `a/`/`b/`. */
+function parsePath(text: string): string | null {
+  const filePath = text.split('\t')[0].trim();
+  if (filePath === '/dev/null') {
+    return null;
+  }
+  return filePath.replace(/^[ab]\//, '');
+}
+
+/** The file's content before the hunk applies, without the prefixes. */
+function oldSide(lines: string[]): string[] {
+  return lines.filter((l) => !l.startsWith('+')).map((l) => l.slice(1));
+}
+
+/** The file's content after the hunk applies, without the prefixes. */
+function newSide(lines: string[]): string[] {
+  return lines.filter((l) => !l.startsWith('-')).map((l) => l.slice(1));
+}
+
+/** The content a patch creates a file with. */
+export function getCreatedContent(filePatch: FilePatch): string {
+  const lines = filePatch.hunks.flatMap((hunk) => newSide(hunk.lines));
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+// Ways of comparing lines, from strictest to loosest.
+const LINE_COMPARISONS: Array<(a: string, b: string) => boolean> = [
+  (a, b) => a === b,
+  (a, b) => a.trimEnd() === b.trimEnd(),
+  (a, b) => a.trim().replace(/\s+/g, ' ') === b.trim().replace(/\s+/g, ' '),
+];
+
+/**
+ * Finds where `target` occurs in `lines`, preferring the occurrence closest
+ * to `expected`.
+ */
+function findLines(
+  lines: string[],
+  target: string[],
+  expected: number,
+  equals: (a: string, b: string) => boolean,
+): number {
+  let best = -1;
+  for (let start = 0; start + target.length <= lines.length; start++) {
+    if (
+      target.every((line, i) => equals(lines[start + i], line)) &&
+      (best === -1 || Math.abs(start - expected) < Math.abs(best - expected))
+    ) {
+      best = start;
+    }
+  }
+  return best;
+}
+
+/**
+ * Applies hunks to a file's content. A hunk that is not found where its
+ * header says is looked for elsewhere in the file, then with whitespace
+ * differences ignored, then with up to {@link MAX_FUZZ} context lines
+ * dropped from either end. Hunks that still do not match are rejected; the
+ * others are applied.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): AppliedHunks {
+  const endsWithNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.replace(/\n$/, '').split('\n');
+  const rejected: HunkRejection[] = [];
+  let applied = 0;
+  // how far the content has moved from the line numbers in the headers
+  let offset = 0;
+
+  for (const hunk of hunks) {
+    const match = matchHunk(lines, hunk, hunk.oldStart - 1 + offset);
+    if (!match) {
+      rejected.push({
+        hunk,
+        reason: 'the lines it changes were not found in the file',
+      });
+      continue;
+    }
+    const { start, drift, hunkLines } = match;
+    // Context lines keep the file's text, which may differ in whitespace.
+    const replacement: string[] = [];
+    let consumed = 0;
+    for (const line of hunkLines) {
+      if (line.startsWith('+')) {
+        replacement.push(line.slice(1));
+      } else if (line.startsWith('-')) {
+        consumed++;
+      } else {
+        replacement.push(lines[start + consumed]);
+        consumed++;
+      }
+    }
+    lines.splice(start, consumed, ...replacement);
+    offset += drift + replacement.length - consumed;
+    applied++;
+  }
+
+  const text = lines.join('\n');
+  return {
+    content: endsWithNewline && lines.length > 0 ? `${text}\n` : text,
+    applied,
+    rejected,
+  };
+}
+
+function matchHunk(
+  lines: string[],
+  hunk: PatchHunk,
+  expected: number,
+): { start: number; drift: number; hunkLines: string[] } | undefined {
+  if (oldSide(hunk.lines).length === 0) {
+    // A pure insertion goes where the header says: `-N,0` inserts after
+    // line N.
+    const start = Math.min(Math.max(expected + 1, 0), lines.length);
+    return { start, drift: start - (expected + 1), hunkLines: hunk.lines };
+  }
+  const leading = hunk.lines.findIndex((l) => !l.startsWith(' '));
+  const trailing = [...hunk.lines]
+    .reverse()
+    .findIndex((l) => !l.startsWith(' '));
+
+  for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+    if (fuzz > 0 && leading < fuzz && trailing < fuzz) {
+      break; // no more context to drop
+    }
+    const dropped = Math.min(leading, fuzz);
+    const hunkLines = hunk.lines.slice(
+      dropped,
+      hunk.lines.length - Math.min(trailing, fuzz),
+    );
+    const target = oldSide(hunkLines);
+    if (target.length === 0) {
+      break; // nothing left to anchor the hunk
+    }
+    for (const equals of LINE_COMPARISONS) {
+      const start = findLines(lines, target, expected + dropped, equals);
+      if (start !== -1) {
+        return { start, drift: start - (expected + dropped), hunkLines };
+      }
+    }
+  }
+  return undefined;
+}
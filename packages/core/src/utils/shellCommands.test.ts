@@ -0,0 +1,77 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getShellApprovalPattern,
+  getShellSubcommandPattern,
+  matchesShellCommandPattern,
+  splitShellCommand,
+} from './shellCommands.js';
+
+describe('splitShellCommand', () => {
+  it('should split chained, piped and substituted commands', () => {
+    expect(
+      splitShellCommand(
+        'npm ci && npm test 2>&1 | tee log; echo "done; $(date)" || `whoami`',
+      ),
+    ).toEqual([
+      'npm ci',
+      'npm test 2>&1',
+      'tee log',
+      'echo "done; $(date)"',
+      'date',
+      '`whoami`',
+      'whoami',
+    ]);
+  });
+
+  it('should not split quoted text and should drop shell keywords', () => {
+    expect(
+      splitShellCommand(
+        "if grep -q 'a|b' file; then (cd src && ls); fi\nx=1 git status",
+      ),
+    ).toEqual(["grep -q 'a|b' file", 'cd src', 'ls', 'x=1 git status']);
+  });
+});
+
+describe('matchesShellCommandPattern', () => {
+  it('should match wildcards and optional trailing arguments', () => {
+    expect(matchesShellCommandPattern('git status', 'git status *')).toBe(true);
+    expect(matchesShellCommandPattern('git  status -s', 'git status *')).toBe(
+      true,
+    );
+    expect(matchesShellCommandPattern('git statusx', 'git status *')).toBe(
+      false,
+    );
+    expect(matchesShellCommandPattern('rm -rf /', 'rm -rf *')).toBe(true);
+    expect(matchesShellCommandPattern('rm -r dist', 'rm -rf *')).toBe(false);
+    expect(matchesShellCommandPattern('ls -l', 'ls -l')).toBe(true);
+    expect(matchesShellCommandPattern('ls -la', 'ls -l')).toBe(false);
+  });
+});
+
+describe('getShellApprovalPattern', () => {
+  it('should approve exactly the command that was run', () => {
+    expect(getShellApprovalPattern('git  push origin main')).toBe(
+      'git push origin main',
+    );
+    expect(getShellApprovalPattern('make')).toBe('make');
+    expect(getShellApprovalPattern('rm build')).toBe('rm build');
+  });
+});
+
+describe('getShellSubcommandPattern', () => {
+  it('should only generalize subcommands of known tools', () => {
+    expect(getShellSubcommandPattern('git status --short')).toBe(
+      'git status *',
+    );
+    expect(getShellSubcommandPattern('npm test')).toBe('npm test *');
+    expect(getShellSubcommandPattern('git')).toBeUndefined();
+    expect(getShellSubcommandPattern('git --version')).toBeUndefined();
+    expect(getShellSubcommandPattern('rm build')).toBeUndefined();
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Shell keywords that may precede a command, as in `if grep -q x f; then ...`.
+const LEADING_KEYWORDS = new Set([
+  '{',
+  '}',
+  '!',
+  'if',
+  'then',
+  'elif',
+  'else',
+  'fi',
+  'while',
+  'until',
+  'do',
+  'done',
+  'time',
+]);
+
+/**
+ * Splits a compound shell command into the simple commands it runs: commands
+ * chained with `;`, `&&`, `||`, `|`, `&` or newlines, commands in subshells,
+ * and commands substituted with `$(...)` or backticks (which are also kept
+ * as written in the command containing them). Quoted text is never split.
+ *
+ * The result is meant for permission checks, so it errs on the side of
+ * returning more commands than bash would run, e.g. the head of a `for`
+ * loop.
+ */
+export function splitShellCommand(command: string): string[] {
+  const commands: string[] = [];
+  let current = '';
+  // substituted commands, added after the command containing them
+  let nested: string[] = [];
+  let quote: "'" | '"' | undefined;
+
+  const flush = () => {
+    const words = current.split(/\s+/).filter(Boolean);
+    while (words.length > 0 && LEADING_KEYWORDS.has(words[0])) {
+      words.shift();
+    }
+    if (words.length > 0) {
+      commands.push(words.join(' '));
+    }
+    commands.push(...nested);
+    current = '';
+    nested = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (char === '\\' && quote !== "'") {
+      current += command.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (quote === "'") {
+      current += char;
+      if (char === "'") {
+        quote = undefined;
+      }
+      continue;
+    }
+
+    const isSubstitution = char === '$' && command[i + 1] === '(';
+    if (isSubstitution || char === '`') {
+      const end = isSubstitution
+        ? findClosingParen(command, i + 2)
+        : command.indexOf('`', i + 1);
+      const close = end === -1 ? command.length : end;
+      const inner = command.slice(i + (isSubstitution ? 2 : 1), close);
+      nested.push(...splitShellCommand(inner));
+      current += command.slice(i, close + 1);
+      i = close;
+      continue;
+    }
+
+    if (quote === '"') {
+      current += char;
+      if (char === '"') {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      quote = char;
+      current += char;
+      continue;
+    }
+    const isRedirection =
+      char === '&' && (/[<>]$/.test(current) || command[i + 1] === '>');
+    if (';&|\n()'.includes(char) && !isRedirection) {
+      flush();
+      continue;
+    }
+    current += char;
+  }
+  flush();
+  return commands;
+}
+
+/** Index of the `)` closing a `(` that was opened before `start`, or -1. */
+function findClosingParen(command: string, start: number): number {
+  let depth = 1;
+  let quote: string | undefined;
+  for (let i = start; i < command.length; i++) {
+    const char = command[i];
+    if (char === '\\' && quote !== "'") {
+      i++;
+    } else if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function normalize(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Whether a simple command matches a permission pattern. `*` matches any
+ * text, and a trailing ` *` also matches no arguments at all, so
+ * `git status *` matches both `git status` and `git status --short`.
+ * Without wildcards the pattern must equal the command.
+ */
+export function matchesShellCommandPattern(
+  command: string,
+  pattern: string,
+): boolean {
+  const normalizedPattern = normalize(pattern);
+  const hasTrailingArgs = normalizedPattern.endsWith(' *');
+  const body = hasTrailingArgs
+    ? normalizedPattern.slice(0, -2)
+    : normalizedPattern;
+  const source = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${hasTrailingArgs ? '( .*)?' : ''}$`, 's').test(
+    normalize(command),
+  );
+}
+
+/** Tools whose first argument is a subcommand, like `git status`. */
+const SUBCOMMAND_TOOLS = new Set([
+  'cargo',
+  'dotnet',
+  'git',
+  'go',
+  'gradle',
+  'mvn',
+  'npm',
+  'pnpm',
+  'yarn',
+]);
+
+/**
+ * The pattern to remember when the user always allows a simple command: the
+ * command exactly as written, so approving `rm build` or `git push origin
+ * main` approves nothing else.
+ */
+export function getShellApprovalPattern(command: string): string {
+  return normalize(command);
+}
+
+/**
+ * The wider pattern the user may choose instead for a known subcommand-style
+ * tool, allowing the subcommand with any arguments (`git status --short`
+ * gives `git status *`). Undefined for other commands.
+ */
+export function getShellSubcommandPattern(command: string): string | undefined {
+  const words = normalize(command).split(' ');
+  if (
+    words.length < 2 ||
+    !SUBCOMMAND_TOOLS.has(words[0]) ||
+    !/^[a-z][\w:-]*$/.test(words[1])
+  ) {
+    return undefined;
+  }
+  return `${words[0]} ${words[1]} *`;
+}
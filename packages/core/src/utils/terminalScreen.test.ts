@@ -0,0 +1,42 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TerminalScreen } from './terminalScreen.js';
+
+describe('TerminalScreen', () => {
+  it('should apply carriage returns and line erasing like a terminal', () => {
+    const screen = new TerminalScreen(40, 5);
+    screen.write('Downloading 10%\rDownloading 100%\r\n');
+    screen.write('status: pending\x1b[7D\x1b[Kdone\r\n');
+    screen.write('\x1b]0;window title\x07abc\bd\r\n');
+
+    expect(screen.toString()).toBe('Downloading 100%\nstatus: done\nabd');
+  });
+
+  it('should wrap long lines and keep lines that scroll off the screen', () => {
+    const screen = new TerminalScreen(4, 2);
+    screen.write('abcdefgh\r\n1\r\n2\r\n3');
+
+    expect(screen.toString()).toBe('abcd\nefgh\n1\n2\n3');
+  });
+
+  it('should redraw in place after cursor positioning and screen clears', () => {
+    const screen = new TerminalScreen(10, 3);
+    screen.write('one\r\ntwo\r\nthree');
+    screen.write('\x1b[H\x1b[2JX\x1b[3;2HY');
+
+    expect(screen.toString()).toBe('X\n\n Y');
+  });
+
+  it('should keep colors only when asked to', () => {
+    const screen = new TerminalScreen(20, 2);
+    screen.write('\x1b[31mred\x1b[0m plain');
+
+    expect(screen.toString()).toBe('red plain');
+    expect(screen.toString(true)).toBe('\x1b[0;31mred\x1b[0m plain');
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Lines kept above the visible screen once output scrolls off the top.
+const MAX_SCROLLBACK_LINES = 1000;
+const TAB_WIDTH = 8;
+
+interface Cell {
+  char: string;
+  /** SGR parameters in effect when the cell was written, '' for none. */
+  style: string;
+}
+
+type ParserState = 'text' | 'escape' | 'csi' | 'osc';
+
+/**
+ * A minimal terminal emulator: it applies the output of a program running in
+ * a pseudo-terminal to a grid of cells so the result can be rendered as text.
+ *
+ * Covers what command-line programs commonly emit: cursor movement, erasing,
+ * line wrapping and colors. Anything else is ignored rather than printed.
+ */
+export class TerminalScreen {
+  private lines: Cell[][] = [[]];
+  /** Index in `lines` of the first visible row. */
+  private top = 0;
+  private row = 0;
+  private col = 0;
+  private style = '';
+  private state: ParserState = 'text';
+  private sequence = '';
+
+  constructor(
+    readonly cols: number,
+    readonly rows: number,
+  ) {}
+
+  write(data: string) {
+    for (const char of data) {
+      switch (this.state) {
+        case 'text':
+          this.writeChar(char);
+          break;
+        case 'escape':
+          if (char === '[') {
+            this.state = 'csi';
+            this.sequence = '';
+          } else if (char === ']') {
+            this.state = 'osc';
+          } else {
+            // Two-character sequences (charset selection, keypad modes, ...)
+            // do not change what is displayed.
+            this.state = 'text';
+          }
+          break;
+        case 'csi':
+          if (char >= '@' && char <= '~') {
+            this.state = 'text';
+            this.applyCsi(this.sequence, char);
+          } else {
+            this.sequence += char;
+          }
+          break;
+        case 'osc':
+          // Window titles and the like, terminated by BEL or ESC \.
+          if (char === '\x07') {
+            this.state = 'text';
+          } else if (char === '\x1b') {
+            this.state = 'escape';
+          }
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  /**
+   * Returns the scrollback and the screen, without trailing blank lines.
+   * @param ansi Whether to keep colors and other text attributes.
+   */
+  toString(ansi = false): string {
+    const rendered = this.lines.map((line) => renderLine(line, ansi));
+    while (rendered.length > 0 && rendered[rendered.length - 1] === '') {
+      rendered.pop();
+    }
+    return rendered.join('\n');
+  }
+
+  private writeChar(char: string) {
+    switch (char) {
+      case '\x1b':
+        this.state = 'escape';
+        return;
+      case '\r':
+        this.col = 0;
+        return;
+      case '\n':
+      case '\x0b':
+      case '\x0c':
+        this.lineFeed();
+        return;
+      case '\b':
+        this.col = Math.max(0, this.col - 1);
+        return;
+      case '\t':
+        this.col = Math.min(
+          this.cols - 1,
+          (Math.floor(this.col / TAB_WIDTH) + 1) * TAB_WIDTH,
+        );
+        return;
+      default:
+        break;
+    }
+    if (char < ' ' || char === '\x7f') {
+      return; // other control characters, e.g. BEL
+    }
+    if (this.col >= this.cols) {
+      this.col = 0;
+      this.lineFeed();
+    }
+    const line = this.currentLine();
+    while (line.length < this.col) {
+      line.push({ char: ' ', style: '' });
+    }
+    line[this.col] = { char, style: this.style };
+    this.col++;
+  }
+
+  private applyCsi(sequence: string, command: string) {
+    if (sequence.startsWith('?')) {
+      // Entering or leaving the alternate screen starts from a blank screen.
+      if (/^\?(47|1047|1049)$/.test(sequence)) {
+        this.eraseScreen(2);
+      }
+      return;
+    }
+    const params = sequence.split(';').map((param) => parseInt(param, 10));
+    const count = Math.max(1, params[0] || 1);
+    switch (command) {
+      case 'A':
+        this.row = Math.max(0, this.row - count);
+        break;
+      case 'B':
+        this.row = Math.min(this.rows - 1, this.row + count);
+        break;
+      case 'C':
+        this.col = Math.min(this.cols - 1, this.col + count);
+        break;
+      case 'D':
+        this.col = Math.max(0, Math.min(this.col, this.cols) - count);
+        break;
+      case 'E':
+        this.row = Math.min(this.rows - 1, this.row + count);
+        this.col = 0;
+        break;
+      case 'F':
+        this.row = Math.max(0, this.row - count);
+        this.col = 0;
+        break;
+      case 'G':
+        this.col = Math.min(this.cols - 1, count - 1);
+        break;
+      case 'd':
+        this.row = Math.min(this.rows - 1, count - 1);
+        break;
+      case 'H':
+      case 'f':
+        this.row = Math.min(this.rows - 1, Math.max(1, params[0] || 1) - 1);
+        this.col = Math.min(this.cols - 1, Math.max(1, params[1] || 1) - 1);
+        break;
+      case 'J':
+        this.eraseScreen(params[0] || 0);
+        break;
+      case 'K':
+        this.eraseLine(params[0] || 0);
+        break;
+      case 'P':
+        this.currentLine().splice(this.col, count);
+        break;
+      case '@':
+        this.currentLine().splice(
+          this.col,
+          0,
+          ...Array.from({ length: count }, () => ({ char: ' ', style: '' })),
+        );
+        this.currentLine().splice(this.cols);
+        break;
+      case 'X':
+        this.blank(this.currentLine(), this.col, this.col + count);
+        break;
+      case 'm':
+        this.applySgr(sequence);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private applySgr(sequence: string) {
+    if (sequence === '' || sequence === '0') {
+      this.style = '';
+    } else if (sequence.startsWith('0;')) {
+      this.style = sequence.slice(2);
+    } else {
+      this.style = this.style ? `${this.style};${sequence}` : sequence;
+    }
+  }
+
+  private lineFeed() {
+    if (this.row < this.rows - 1) {
+      this.row++;
+    } else {
+      this.top++;
+    }
+    while (this.lines.length <= this.top + this.row) {
+      this.lines.push([]);
+    }
+    const excess = this.top - MAX_SCROLLBACK_LINES;
+    if (excess > 0) {
+      this.lines.splice(0, excess);
+      this.top -= excess;
+    }
+  }
+
+  private currentLine(): Cell[] {
+    while (this.lines.length <= this.top + this.row) {
+      this.lines.push([]);
+    }
+    return this.lines[this.top + this.row];
+  }
+
+  private eraseLine(mode: number) {
+    const line = this.currentLine();
+    if (mode === 0) {
+      line.splice(this.col);
+    } else if (mode === 1) {
+      this.blank(line, 0, this.col + 1);
+    } else {
+      line.length = 0;
+    }
+  }
+
+  private eraseScreen(mode: number) {
+    const cursor = this.top + this.row;
+    if (mode === 0) {
+      this.eraseLine(0);
+      this.lines.splice(cursor + 1);
+    } else if (mode === 1) {
+      for (let i = this.top; i < cursor; i++) {
+        this.lines[i] = [];
+      }
+      this.eraseLine(1);
+    } else {
+      this.lines.splice(this.top);
+      this.currentLine();
+    }
+  }
+
+  private blank(line: Cell[], from: number, to: number) {
+    for (let i = from; i < Math.min(to, line.length); i++) {
+      line[i] = { char: ' ', style: '' };
+    }
+  }
+}
+
+function renderLine(line: Cell[], ansi: boolean): string {
+  let text = '';
+  let style = '';
+  for (const cell of line) {
+    if (ansi && cell.style !== style) {
+      text += cell.style ? `\x1b[0;${cell.style}m` : '\x1b[0m';
+      style = cell.style;
+    }
+    text += cell.char;
+  }
+  if (style) {
+    text += '\x1b[0m';
+  }
+  return ansi ? text.replace(/ +$/, '') : text.trimEnd();
+}